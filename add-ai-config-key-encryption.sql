@@ -0,0 +1,50 @@
+-- AI provider API keys at rest: ai_config.api_key is sealed by the application
+-- with the master key from FIELD_ENCRYPTION_KEYS (see
+-- src/lib/ai/api-key-service.ts) and only decrypted server-side. Admins see
+-- keys masked and change them through /api/admin/ai-config, which records
+-- every view, rotation and test in ai_config_key_audit.
+ALTER TABLE public.ai_config
+ADD COLUMN IF NOT EXISTS api_key_hint TEXT; -- Last characters of the key, shown masked
+
+-- Admins keep managing the chain from the browser (activate, reorder, delete)
+-- but can no longer read api_key or write keys; new configs and keys go
+-- through the server route
+REVOKE ALL ON public.ai_config FROM anon, authenticated;
+GRANT SELECT (id, provider, api_key_hint, model, base_url, is_active, priority, last_served_at, created_at)
+  ON public.ai_config TO authenticated;
+GRANT UPDATE (is_active, priority) ON public.ai_config TO authenticated;
+GRANT DELETE ON public.ai_config TO authenticated;
+
+CREATE TABLE IF NOT EXISTS public.ai_config_key_audit (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  config_id UUID REFERENCES public.ai_config(id) ON DELETE SET NULL, -- NULL when testing a key before it is saved
+  actor_id UUID REFERENCES public.users(user_id) ON DELETE SET NULL,
+  action TEXT NOT NULL CHECK (action IN ('created', 'viewed', 'rotated', 'tested', 're_encrypted')),
+  provider TEXT, -- Kept so entries stay readable after the config is deleted
+  model TEXT,
+  success BOOLEAN, -- Outcome of a test
+  detail TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_config_key_audit_created_at ON public.ai_config_key_audit(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ai_config_key_audit_config_id ON public.ai_config_key_audit(config_id);
+
+ALTER TABLE public.ai_config_key_audit ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view AI config key audit" ON public.ai_config_key_audit;
+CREATE POLICY "Admins can view AI config key audit" ON public.ai_config_key_audit
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE user_id = auth.uid() AND is_admin = true
+    )
+  );
+
+DROP POLICY IF EXISTS "Service role can manage AI config key audit" ON public.ai_config_key_audit;
+CREATE POLICY "Service role can manage AI config key audit" ON public.ai_config_key_audit
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Existing keys stay in plaintext until "Encrypt Stored Keys" on
+-- /admin/ai-config (POST /api/admin/ai-config { action: "encrypt" }) has
+-- sealed them; the failover chain reads both in the meantime.
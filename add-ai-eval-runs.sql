@@ -0,0 +1,33 @@
+-- Offline eval runs. Each run replays the fixtures in src/lib/ai/evals against
+-- the mock provider or an AI config and stores the per-fixture results, so a
+-- fixture that passed in the previous run against the same target and fails
+-- now can be reported as a regression.
+CREATE TABLE IF NOT EXISTS public.ai_eval_runs (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  target TEXT NOT NULL, -- 'mock' or the ai_config id
+  target_label TEXT NOT NULL,
+  prompt_versions JSONB NOT NULL DEFAULT '{}', -- Pinned prompt versions; other keys used the published prompt
+  passed INTEGER NOT NULL DEFAULT 0,
+  failed INTEGER NOT NULL DEFAULT 0,
+  regressions TEXT[] NOT NULL DEFAULT '{}',
+  results JSONB NOT NULL DEFAULT '[]',
+  created_by UUID REFERENCES public.users(user_id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_eval_runs_target ON public.ai_eval_runs(target, created_at DESC);
+
+ALTER TABLE public.ai_eval_runs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view AI eval runs" ON public.ai_eval_runs;
+CREATE POLICY "Admins can view AI eval runs" ON public.ai_eval_runs
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE user_id = auth.uid() AND is_admin = true
+    )
+  );
+
+DROP POLICY IF EXISTS "Service role can manage AI eval runs" ON public.ai_eval_runs;
+CREATE POLICY "Service role can manage AI eval runs" ON public.ai_eval_runs
+  FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,177 @@
+-- Prompt and model A/B experiments. Users are assigned to an arm by hashing
+-- the experiment and user ids, so the same user always gets the same arm.
+-- An arm can swap in specific system prompt versions and/or put an AI config
+-- first in the failover chain. Only one experiment runs at a time.
+CREATE TABLE IF NOT EXISTS public.ai_experiments (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'running', 'stopped')),
+  session_types TEXT[] NOT NULL DEFAULT '{individual}', -- Session types the experiment applies to
+  created_by UUID REFERENCES public.users(user_id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  started_at TIMESTAMP WITH TIME ZONE,
+  stopped_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ai_experiments_one_running
+  ON public.ai_experiments((status)) WHERE status = 'running';
+
+CREATE TABLE IF NOT EXISTS public.ai_experiment_arms (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  experiment_id UUID REFERENCES public.ai_experiments(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  weight INTEGER NOT NULL DEFAULT 1 CHECK (weight > 0), -- Share of users relative to the other arms
+  prompt_versions JSONB NOT NULL DEFAULT '{}', -- Prompt key to version number, e.g. {"base": 4}
+  config_id UUID REFERENCES public.ai_config(id) ON DELETE SET NULL, -- Tried first instead of the chain's first config
+  position INTEGER NOT NULL DEFAULT 0, -- Arm order; assignment depends on it, so it is fixed once running
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_experiment_arms_experiment_id ON public.ai_experiment_arms(experiment_id, position);
+
+-- First exposure of each user to an experiment; outcomes are measured from assigned_at
+CREATE TABLE IF NOT EXISTS public.ai_experiment_assignments (
+  experiment_id UUID REFERENCES public.ai_experiments(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.users(user_id) ON DELETE CASCADE NOT NULL,
+  arm_id UUID REFERENCES public.ai_experiment_arms(id) ON DELETE CASCADE NOT NULL,
+  assigned_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (experiment_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_experiment_assignments_arm_id ON public.ai_experiment_assignments(arm_id);
+
+-- Arm that produced each AI message and each AI call
+ALTER TABLE public.session_messages
+ADD COLUMN IF NOT EXISTS experiment_arm_id UUID REFERENCES public.ai_experiment_arms(id) ON DELETE SET NULL;
+
+ALTER TABLE public.ai_usage
+ADD COLUMN IF NOT EXISTS experiment_arm_id UUID REFERENCES public.ai_experiment_arms(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_experiment_arm_id ON public.ai_usage(experiment_arm_id) WHERE experiment_arm_id IS NOT NULL;
+
+ALTER TABLE public.ai_experiments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ai_experiment_arms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ai_experiment_assignments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view AI experiments" ON public.ai_experiments;
+CREATE POLICY "Admins can view AI experiments" ON public.ai_experiments
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE user_id = auth.uid() AND is_admin = true
+    )
+  );
+
+DROP POLICY IF EXISTS "Service role can manage AI experiments" ON public.ai_experiments;
+CREATE POLICY "Service role can manage AI experiments" ON public.ai_experiments
+  FOR ALL USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Admins can view AI experiment arms" ON public.ai_experiment_arms;
+CREATE POLICY "Admins can view AI experiment arms" ON public.ai_experiment_arms
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE user_id = auth.uid() AND is_admin = true
+    )
+  );
+
+DROP POLICY IF EXISTS "Service role can manage AI experiment arms" ON public.ai_experiment_arms;
+CREATE POLICY "Service role can manage AI experiment arms" ON public.ai_experiment_arms
+  FOR ALL USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Admins can view AI experiment assignments" ON public.ai_experiment_assignments;
+CREATE POLICY "Admins can view AI experiment assignments" ON public.ai_experiment_assignments
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE user_id = auth.uid() AND is_admin = true
+    )
+  );
+
+DROP POLICY IF EXISTS "Service role can manage AI experiment assignments" ON public.ai_experiment_assignments;
+CREATE POLICY "Service role can manage AI experiment assignments" ON public.ai_experiment_assignments
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- get_experiment_results: outcomes per arm, counting only what happened to
+-- each user after their first exposure to the experiment
+CREATE OR REPLACE FUNCTION public.get_experiment_results(target_experiment_id UUID)
+RETURNS TABLE (
+  arm_id UUID,
+  users BIGINT,
+  sessions BIGINT,
+  avg_messages_per_session NUMERIC,
+  avg_session_minutes NUMERIC,
+  goals_achieved BIGINT,
+  flags_raised BIGINT,
+  escalations BIGINT,
+  returning_users BIGINT,
+  ai_calls BIGINT,
+  ai_cost_usd NUMERIC
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH assigned AS (
+    SELECT a.arm_id, a.user_id, a.assigned_at
+    FROM public.ai_experiment_assignments a
+    WHERE a.experiment_id = target_experiment_id
+  ),
+  arm_sessions AS (
+    SELECT
+      assigned.arm_id,
+      s.session_id,
+      s.user_id,
+      s.created_at,
+      EXTRACT(EPOCH FROM (s.last_message_at - s.created_at)) / 60 AS minutes,
+      (SELECT COUNT(*) FROM public.session_messages m WHERE m.session_id = s.session_id) AS message_count
+    FROM assigned
+    JOIN public.therapy_sessions s
+      ON s.user_id = assigned.user_id
+     AND s.last_message_at >= assigned.assigned_at
+  )
+  SELECT
+    arms.id AS arm_id,
+    (SELECT COUNT(*) FROM assigned WHERE assigned.arm_id = arms.id) AS users,
+    (SELECT COUNT(*) FROM arm_sessions WHERE arm_sessions.arm_id = arms.id) AS sessions,
+    (SELECT AVG(message_count) FROM arm_sessions WHERE arm_sessions.arm_id = arms.id) AS avg_messages_per_session,
+    (SELECT AVG(minutes) FROM arm_sessions WHERE arm_sessions.arm_id = arms.id) AS avg_session_minutes,
+    (
+      SELECT COUNT(*)
+      FROM assigned
+      JOIN public.user_goals g ON g.user_id = assigned.user_id
+      WHERE assigned.arm_id = arms.id
+        AND g.status = 'achieved'
+        AND g.achieved_at >= assigned.assigned_at
+    ) AS goals_achieved,
+    (
+      SELECT COUNT(*)
+      FROM assigned
+      JOIN public.session_flags f ON f.user_id = assigned.user_id
+      WHERE assigned.arm_id = arms.id
+        AND f.created_at >= assigned.assigned_at
+    ) AS flags_raised,
+    (
+      SELECT COUNT(*)
+      FROM assigned
+      JOIN public.session_flags f ON f.user_id = assigned.user_id
+      WHERE assigned.arm_id = arms.id
+        AND f.flag_type = 'escalate'
+        AND f.created_at >= assigned.assigned_at
+    ) AS escalations,
+    (
+      -- Came back: started another session at least a day after first exposure
+      SELECT COUNT(DISTINCT assigned.user_id)
+      FROM assigned
+      JOIN public.therapy_sessions s ON s.user_id = assigned.user_id
+      WHERE assigned.arm_id = arms.id
+        AND s.created_at >= assigned.assigned_at + INTERVAL '1 day'
+    ) AS returning_users,
+    (SELECT COUNT(*) FROM public.ai_usage u WHERE u.experiment_arm_id = arms.id) AS ai_calls,
+    (SELECT COALESCE(SUM(u.estimated_cost_usd), 0) FROM public.ai_usage u WHERE u.experiment_arm_id = arms.id) AS ai_cost_usd
+  FROM public.ai_experiment_arms arms
+  WHERE arms.experiment_id = target_experiment_id;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_experiment_results(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_experiment_results(UUID) TO service_role;
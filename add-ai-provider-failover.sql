@@ -0,0 +1,46 @@
+-- Provider failover chain: every active ai_config row is tried in priority order
+ALTER TABLE public.ai_config
+ADD COLUMN IF NOT EXISTS priority INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS last_served_at TIMESTAMP WITH TIME ZONE;
+
+-- Give existing configs a definite order, keeping the currently active one first
+WITH ordered AS (
+  SELECT id, ROW_NUMBER() OVER (ORDER BY is_active DESC, created_at ASC) AS position
+  FROM public.ai_config
+)
+UPDATE public.ai_config
+SET priority = ordered.position
+FROM ordered
+WHERE public.ai_config.id = ordered.id;
+
+CREATE INDEX IF NOT EXISTS idx_ai_config_priority ON public.ai_config(priority);
+
+-- Failover and circuit breaker events, shown on the admin AI configuration page
+CREATE TABLE IF NOT EXISTS public.ai_failover_events (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  event_type TEXT NOT NULL CHECK (event_type IN ('failover', 'circuit_opened', 'circuit_closed', 'chain_exhausted')),
+  from_config_id UUID REFERENCES public.ai_config(id) ON DELETE SET NULL,
+  to_config_id UUID REFERENCES public.ai_config(id) ON DELETE SET NULL,
+  provider TEXT,
+  model TEXT,
+  reason TEXT,
+  status_code INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_failover_events_created_at ON public.ai_failover_events(created_at DESC);
+
+ALTER TABLE public.ai_failover_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view AI failover events" ON public.ai_failover_events;
+CREATE POLICY "Admins can view AI failover events" ON public.ai_failover_events
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE user_id = auth.uid() AND is_admin = true
+    )
+  );
+
+DROP POLICY IF EXISTS "Service role can manage AI failover events" ON public.ai_failover_events;
+CREATE POLICY "Service role can manage AI failover events" ON public.ai_failover_events
+  FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,57 @@
+-- PII redaction: names, emails, phone numbers, addresses and ID numbers are
+-- replaced with placeholders before anything is sent to an AI provider and
+-- restored in the reply (see src/lib/ai/redaction). Settings are one row for
+-- the deployment; until it exists every detector is on.
+CREATE TABLE IF NOT EXISTS public.ai_redaction_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id), -- Only one row
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  categories TEXT[] NOT NULL DEFAULT '{name,email,phone,address,id_number}',
+  custom_terms TEXT[] NOT NULL DEFAULT '{}', -- Always redacted, matched ignoring case
+  updated_by UUID REFERENCES public.users(user_id) ON DELETE SET NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One row per AI call that redacted something. Counts only: the values never
+-- leave the request.
+CREATE TABLE IF NOT EXISTS public.ai_redaction_reports (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES public.users(user_id) ON DELETE SET NULL,
+  session_id UUID REFERENCES public.therapy_sessions(session_id) ON DELETE SET NULL,
+  purpose TEXT NOT NULL CHECK (purpose IN ('chat', 'session_summary', 'session_metadata', 'context_summary', 'goal_extraction', 'insights')),
+  counts JSONB NOT NULL DEFAULT '{}', -- Distinct values per category: {"name": 2, "email": 1}
+  placeholders_sent INTEGER NOT NULL DEFAULT 0,
+  placeholders_restored INTEGER NOT NULL DEFAULT 0,
+  unknown_placeholders INTEGER NOT NULL DEFAULT 0, -- Placeholder-like text in the reply that matched nothing sent
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_redaction_reports_created_at ON public.ai_redaction_reports(created_at DESC);
+
+ALTER TABLE public.ai_redaction_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ai_redaction_reports ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view AI redaction settings" ON public.ai_redaction_settings;
+CREATE POLICY "Admins can view AI redaction settings" ON public.ai_redaction_settings
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE user_id = auth.uid() AND is_admin = true
+    )
+  );
+
+DROP POLICY IF EXISTS "Service role can manage AI redaction settings" ON public.ai_redaction_settings;
+CREATE POLICY "Service role can manage AI redaction settings" ON public.ai_redaction_settings
+  FOR ALL USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Admins can view AI redaction reports" ON public.ai_redaction_reports;
+CREATE POLICY "Admins can view AI redaction reports" ON public.ai_redaction_reports
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE user_id = auth.uid() AND is_admin = true
+    )
+  );
+
+DROP POLICY IF EXISTS "Service role can manage AI redaction reports" ON public.ai_redaction_reports;
+CREATE POLICY "Service role can manage AI redaction reports" ON public.ai_redaction_reports
+  FOR ALL USING (auth.role() = 'service_role');
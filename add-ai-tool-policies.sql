@@ -0,0 +1,30 @@
+-- AI tool policies: admin overrides of which tools the AI may use per session
+-- type and subscription tier, with limits on their arguments (see
+-- src/lib/ai/tool-policy-service.ts). A tool with no row is enabled with no
+-- extra constraints.
+CREATE TABLE IF NOT EXISTS public.ai_tool_policies (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  session_type TEXT NOT NULL CHECK (session_type IN ('individual', 'group', 'introduction')),
+  subscription_tier TEXT NOT NULL CHECK (subscription_tier IN ('free', 'pro')),
+  tool_name TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  constraints JSONB NOT NULL DEFAULT '{}', -- {"maxLength": {"arg": 200}, "allowedValues": {"arg": ["a", "b"]}}
+  updated_by UUID REFERENCES public.users(user_id) ON DELETE SET NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (session_type, subscription_tier, tool_name)
+);
+
+ALTER TABLE public.ai_tool_policies ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view AI tool policies" ON public.ai_tool_policies;
+CREATE POLICY "Admins can view AI tool policies" ON public.ai_tool_policies
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE user_id = auth.uid() AND is_admin = true
+    )
+  );
+
+DROP POLICY IF EXISTS "Service role can manage AI tool policies" ON public.ai_tool_policies;
+CREATE POLICY "Service role can manage AI tool policies" ON public.ai_tool_policies
+  FOR ALL USING (auth.role() = 'service_role');
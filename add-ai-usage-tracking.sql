@@ -0,0 +1,114 @@
+-- AI usage and cost accounting: one row per provider call (each failover
+-- attempt is its own row). Costs are estimated when the call is recorded from
+-- the price table in src/lib/ai/usage-service.ts, overridden per model by
+-- ai_model_pricing. Rows outlive their user and session so totals stay correct.
+CREATE TABLE IF NOT EXISTS public.ai_usage (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES public.users(user_id) ON DELETE SET NULL,
+  session_id UUID REFERENCES public.therapy_sessions(session_id) ON DELETE SET NULL,
+  purpose TEXT NOT NULL CHECK (purpose IN ('chat', 'session_summary', 'session_metadata', 'context_summary', 'goal_extraction', 'insights')),
+  config_id UUID REFERENCES public.ai_config(id) ON DELETE SET NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  total_tokens INTEGER NOT NULL DEFAULT 0,
+  usage_estimated BOOLEAN NOT NULL DEFAULT false, -- Provider reported no usage; counts are estimated from text length
+  estimated_cost_usd NUMERIC(12, 6), -- NULL when the model has no known price
+  latency_ms INTEGER NOT NULL DEFAULT 0,
+  tool_call_count INTEGER NOT NULL DEFAULT 0,
+  success BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_created_at ON public.ai_usage(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_user_id ON public.ai_usage(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_session_id ON public.ai_usage(session_id);
+
+-- Per-model price overrides in USD per million tokens. A model matches the
+-- longest entry that prefixes its name, so "gpt-4o" also prices "gpt-4o-2024-08-06".
+CREATE TABLE IF NOT EXISTS public.ai_model_pricing (
+  model TEXT PRIMARY KEY,
+  input_per_million NUMERIC(10, 4) NOT NULL CHECK (input_per_million >= 0),
+  output_per_million NUMERIC(10, 4) NOT NULL CHECK (output_per_million >= 0),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.ai_usage ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ai_model_pricing ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view AI usage" ON public.ai_usage;
+CREATE POLICY "Admins can view AI usage" ON public.ai_usage
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE user_id = auth.uid() AND is_admin = true
+    )
+  );
+
+DROP POLICY IF EXISTS "Service role can manage AI usage" ON public.ai_usage;
+CREATE POLICY "Service role can manage AI usage" ON public.ai_usage
+  FOR ALL USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Admins can view AI model pricing" ON public.ai_model_pricing;
+CREATE POLICY "Admins can view AI model pricing" ON public.ai_model_pricing
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE user_id = auth.uid() AND is_admin = true
+    )
+  );
+
+DROP POLICY IF EXISTS "Service role can manage AI model pricing" ON public.ai_model_pricing;
+CREATE POLICY "Service role can manage AI model pricing" ON public.ai_model_pricing
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- get_ai_usage_breakdown: usage since a point in time grouped by user, tier,
+-- provider, model and purpose, for the admin usage dashboard
+CREATE OR REPLACE FUNCTION public.get_ai_usage_breakdown(since TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (
+  user_id UUID,
+  email TEXT,
+  subscription_tier TEXT,
+  provider TEXT,
+  model TEXT,
+  purpose TEXT,
+  calls BIGINT,
+  failed_calls BIGINT,
+  estimated_calls BIGINT,
+  unpriced_calls BIGINT,
+  prompt_tokens BIGINT,
+  completion_tokens BIGINT,
+  total_tokens BIGINT,
+  estimated_cost_usd NUMERIC,
+  total_latency_ms BIGINT,
+  tool_calls BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    u.user_id,
+    users.email,
+    COALESCE(users.subscription_tier, 'unattributed') AS subscription_tier,
+    u.provider,
+    u.model,
+    u.purpose,
+    COUNT(*) AS calls,
+    COUNT(*) FILTER (WHERE NOT u.success) AS failed_calls,
+    COUNT(*) FILTER (WHERE u.usage_estimated) AS estimated_calls,
+    COUNT(*) FILTER (WHERE u.estimated_cost_usd IS NULL) AS unpriced_calls,
+    COALESCE(SUM(u.prompt_tokens), 0) AS prompt_tokens,
+    COALESCE(SUM(u.completion_tokens), 0) AS completion_tokens,
+    COALESCE(SUM(u.total_tokens), 0) AS total_tokens,
+    COALESCE(SUM(u.estimated_cost_usd), 0) AS estimated_cost_usd,
+    COALESCE(SUM(u.latency_ms), 0) AS total_latency_ms,
+    COALESCE(SUM(u.tool_call_count), 0) AS tool_calls
+  FROM public.ai_usage u
+  LEFT JOIN public.users users ON users.user_id = u.user_id
+  WHERE u.created_at >= since
+  GROUP BY u.user_id, users.email, users.subscription_tier, u.provider, u.model, u.purpose;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_ai_usage_breakdown(TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_ai_usage_breakdown(TIMESTAMP WITH TIME ZONE) TO service_role;
@@ -0,0 +1,32 @@
+-- Crisis detection audit log: one row per user message screened before it
+-- reached the model, with the risk level, the signals behind it and what was
+-- done (prompt adjusted, resources added, session escalated).
+CREATE TABLE IF NOT EXISTS public.crisis_detections (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  session_id UUID REFERENCES public.therapy_sessions(session_id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.users(user_id) ON DELETE SET NULL,
+  message_id UUID, -- The screened user message
+  risk_level TEXT NOT NULL CHECK (risk_level IN ('none', 'low', 'medium', 'high')),
+  signals JSONB NOT NULL DEFAULT '[]', -- [{"source": "lexicon", "rule": "end my life", "level": "high", "match": "end my life"}]
+  classifier_score NUMERIC, -- NULL when no classifier is configured or it did not answer
+  actions TEXT[] NOT NULL DEFAULT '{}', -- prompt_adjusted, resources_injected, escalated
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_crisis_detections_session_id ON public.crisis_detections(session_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_crisis_detections_risk_level ON public.crisis_detections(risk_level, created_at DESC) WHERE risk_level <> 'none';
+
+ALTER TABLE public.crisis_detections ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view crisis detections" ON public.crisis_detections;
+CREATE POLICY "Admins can view crisis detections" ON public.crisis_detections
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE user_id = auth.uid() AND is_admin = true
+    )
+  );
+
+DROP POLICY IF EXISTS "Service role can manage crisis detections" ON public.crisis_detections;
+CREATE POLICY "Service role can manage crisis detections" ON public.crisis_detections
+  FOR ALL USING (auth.role() = 'service_role');
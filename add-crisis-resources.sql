@@ -0,0 +1,74 @@
+-- Crisis resource directory: hotlines and support services by region and
+-- language, managed by admins (see src/lib/ai/safety/resources.ts). The AI's
+-- emergency resources, replies to high-risk messages, the chat resources panel
+-- and the resources page all show the entries for the user's locale.
+ALTER TABLE public.users
+ADD COLUMN IF NOT EXISTS locale TEXT; -- BCP 47 tag such as 'en-GB'; NULL uses the browser's Accept-Language
+
+CREATE TABLE IF NOT EXISTS public.crisis_resources (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  region TEXT NOT NULL CHECK (region ~ '^[A-Z]{2}$' OR region = 'INTL'), -- ISO 3166-1 country code, or INTL for every country
+  language TEXT NOT NULL CHECK (language ~ '^[a-z]{2,3}$'), -- ISO 639-1 code
+  name TEXT NOT NULL,
+  contact TEXT NOT NULL, -- As shown to users: '116 123', 'Text HOME to 741741' or a web address
+  contact_type TEXT NOT NULL DEFAULT 'phone' CHECK (contact_type IN ('phone', 'text', 'web')),
+  description TEXT NOT NULL DEFAULT '',
+  is_emergency BOOLEAN NOT NULL DEFAULT false, -- The region's emergency services number
+  urgent BOOLEAN NOT NULL DEFAULT false, -- Immediate crisis support
+  position INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  updated_by UUID REFERENCES public.users(user_id) ON DELETE SET NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_crisis_resources_region ON public.crisis_resources(region, language, position) WHERE is_active = true;
+
+ALTER TABLE public.crisis_resources ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view crisis resources" ON public.crisis_resources;
+CREATE POLICY "Admins can view crisis resources" ON public.crisis_resources
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE user_id = auth.uid() AND is_admin = true
+    )
+  );
+
+DROP POLICY IF EXISTS "Service role can manage crisis resources" ON public.crisis_resources;
+CREATE POLICY "Service role can manage crisis resources" ON public.crisis_resources
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Starting directory, the same as the built-in list used while the table is empty
+INSERT INTO public.crisis_resources (region, language, name, contact, contact_type, description, is_emergency, urgent, position)
+SELECT * FROM (VALUES
+  ('US', 'en', '988 Suicide & Crisis Lifeline', '988', 'phone', 'Call or text 988, free and confidential, 24/7', false, true, 0),
+  ('US', 'en', 'Crisis Text Line', 'Text HOME to 741741', 'text', 'Free crisis support via text, 24/7', false, true, 1),
+  ('US', 'en', 'Emergency', '911', 'phone', 'For immediate danger to self or others', true, true, 2),
+  ('US', 'en', 'SAMHSA National Helpline', '1-800-662-4357', 'phone', 'Free, confidential treatment referral and information, 24/7', false, false, 3),
+  ('US', 'en', 'National Domestic Violence Hotline', '1-800-799-7233', 'phone', 'Confidential support for anyone experiencing domestic violence, 24/7', false, false, 4),
+  ('US', 'en', 'NAMI HelpLine', '1-800-950-6264', 'phone', 'Information, referrals and support', false, false, 5),
+  ('US', 'es', '988 Línea de Prevención del Suicidio y Crisis', '988', 'phone', 'Llame al 988 y marque 2 para español, gratis y confidencial, 24/7', false, true, 6),
+  ('US', 'es', 'Emergencias', '911', 'phone', 'Si usted u otra persona está en peligro inmediato', true, true, 7),
+  ('CA', 'en', '9-8-8 Suicide Crisis Helpline', '988', 'phone', 'Call or text 988, free, 24/7', false, true, 8),
+  ('CA', 'en', 'Emergency', '911', 'phone', 'For immediate danger to self or others', true, true, 9),
+  ('CA', 'fr', '9-8-8 Ligne d''aide en cas de crise de suicide', '988', 'phone', 'Appelez ou textez le 988, gratuit, 24 h sur 24', false, true, 10),
+  ('CA', 'fr', 'Urgences', '911', 'phone', 'En cas de danger immédiat pour vous ou pour autrui', true, true, 11),
+  ('GB', 'en', 'Samaritans', '116 123', 'phone', 'Free to call, 24/7', false, true, 12),
+  ('GB', 'en', 'Shout', 'Text SHOUT to 85258', 'text', 'Free crisis support via text, 24/7', false, true, 13),
+  ('GB', 'en', 'Emergency', '999', 'phone', 'For immediate danger to self or others', true, true, 14),
+  ('IE', 'en', 'Samaritans Ireland', '116 123', 'phone', 'Free to call, 24/7', false, true, 15),
+  ('IE', 'en', 'Emergency', '112', 'phone', 'For immediate danger to self or others', true, true, 16),
+  ('AU', 'en', 'Lifeline Australia', '13 11 14', 'phone', 'Crisis support, 24/7', false, true, 17),
+  ('AU', 'en', 'Emergency', '000', 'phone', 'For immediate danger to self or others', true, true, 18),
+  ('NZ', 'en', 'Need to talk?', '1737', 'phone', 'Call or text 1737, free, 24/7', false, true, 19),
+  ('NZ', 'en', 'Lifeline Aotearoa', '0800 543 354', 'phone', 'Free crisis support, 24/7', false, true, 20),
+  ('NZ', 'en', 'Emergency', '111', 'phone', 'For immediate danger to self or others', true, true, 21),
+  ('FR', 'fr', 'Numéro national de prévention du suicide', '3114', 'phone', 'Gratuit, 24 h sur 24, 7 jours sur 7', false, true, 22),
+  ('FR', 'fr', 'Urgences', '112', 'phone', 'En cas de danger immédiat pour vous ou pour autrui', true, true, 23),
+  ('DE', 'de', 'TelefonSeelsorge', '0800 111 0 111', 'phone', 'Kostenlos und rund um die Uhr erreichbar', false, true, 24),
+  ('DE', 'de', 'Notruf', '112', 'phone', 'Bei akuter Gefahr für Sie oder andere', true, true, 25),
+  ('ES', 'es', 'Línea 024 de atención a la conducta suicida', '024', 'phone', 'Gratuita y confidencial, 24 horas', false, true, 26),
+  ('ES', 'es', 'Emergencias', '112', 'phone', 'Si usted u otra persona está en peligro inmediato', true, true, 27),
+  ('INTL', 'en', 'Find A Helpline', 'findahelpline.com', 'web', 'Free, confidential crisis lines in over 130 countries', false, true, 28)
+) AS seed(region, language, name, contact, contact_type, description, is_emergency, urgent, position)
+WHERE NOT EXISTS (SELECT 1 FROM public.crisis_resources);
@@ -0,0 +1,38 @@
+-- Field-level encryption at rest: session_messages.content,
+-- user_memory.memory_value, ai_session_notes.note_text, the free-text answers
+-- in participant_introductions, memory_embeddings.content,
+-- session_context_summaries.summary, held group messages in
+-- group_moderation_events.content and the arguments, result and error of
+-- tool_invocations are encrypted by the application with a per-user data key
+-- (see src/lib/security/field-encryption.ts). Data keys are stored here
+-- wrapped by a master key that only exists in the app's FIELD_ENCRYPTION_KEYS,
+-- so the database alone cannot decrypt anything.
+CREATE TABLE IF NOT EXISTS public.user_data_keys (
+  user_id UUID NOT NULL REFERENCES public.users(user_id) ON DELETE CASCADE,
+  version INTEGER NOT NULL CHECK (version > 0), -- The highest version encrypts new values
+  wrapped_key TEXT NOT NULL, -- base64url(iv | tag | ciphertext), AES-256-GCM
+  master_key_id TEXT NOT NULL, -- Which FIELD_ENCRYPTION_KEYS entry wrapped it
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (user_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_data_keys_master_key_id ON public.user_data_keys(master_key_id);
+
+ALTER TABLE public.user_data_keys ENABLE ROW LEVEL SECURITY;
+
+-- Only the server reads keys; not even admins see them through the API
+DROP POLICY IF EXISTS "Service role can manage user data keys" ON public.user_data_keys;
+CREATE POLICY "Service role can manage user data keys" ON public.user_data_keys
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Encrypted arguments are not valid JSON, so the column keeps the call's JSON
+-- as text
+ALTER TABLE public.tool_invocations
+ALTER COLUMN arguments TYPE TEXT USING arguments::text,
+ALTER COLUMN arguments SET DEFAULT '{}';
+
+-- Existing rows cannot be encrypted in SQL, since the master key never
+-- reaches the database. After running this migration and setting
+-- FIELD_ENCRYPTION_KEYS, run "Encrypt Existing Rows" on /admin/security
+-- (POST /api/admin/encryption { action: "encrypt" }). Rows stay readable in
+-- the meantime: plaintext values are passed through as they are.
@@ -0,0 +1,43 @@
+-- Group message moderation: every participant message in a group session is
+-- scored for abuse, threats and slurs before it is saved (see
+-- src/lib/ai/moderation). Messages scored above none are logged here with what
+-- was done: held for review, sender warned, owner notified, flagged for the
+-- review queue. A held message is kept here, not in session_messages, until an
+-- admin releases or rejects it on /admin/moderation.
+CREATE TABLE IF NOT EXISTS public.group_moderation_events (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  session_id UUID REFERENCES public.therapy_sessions(session_id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.users(user_id) ON DELETE CASCADE NOT NULL, -- Sender
+  message_id UUID REFERENCES public.session_messages(message_id) ON DELETE SET NULL, -- Set once delivered
+  severity TEXT NOT NULL CHECK (severity IN ('low', 'medium', 'high')),
+  categories TEXT[] NOT NULL DEFAULT '{}', -- abuse, threat, slur
+  signals JSONB NOT NULL DEFAULT '[]', -- [{"source": "pattern", "category": "threat", "rule": "threat_of_violence", "severity": "high", "match": "..."}]
+  classifier_scores JSONB, -- {"abuse": 0.2, "threat": 0.9, "slur": 0}; NULL when no classifier answered
+  actions TEXT[] NOT NULL DEFAULT '{}', -- held, warned, owner_notified, flagged
+  content TEXT, -- Text of a held message
+  review_status TEXT CHECK (review_status IN ('held', 'released', 'rejected')), -- NULL for messages that were not held
+  reviewed_by UUID REFERENCES public.users(user_id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_group_moderation_events_session_id ON public.group_moderation_events(session_id, user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_group_moderation_events_held ON public.group_moderation_events(created_at) WHERE review_status = 'held';
+
+ALTER TABLE public.group_moderation_events ENABLE ROW LEVEL SECURITY;
+
+-- Owners and senders read events through /api/group/moderation, which hides
+-- what other participants wrote
+DROP POLICY IF EXISTS "Admins can view group moderation events" ON public.group_moderation_events;
+CREATE POLICY "Admins can view group moderation events" ON public.group_moderation_events
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE user_id = auth.uid() AND is_admin = true
+    )
+  );
+
+DROP POLICY IF EXISTS "Service role can manage group moderation events" ON public.group_moderation_events;
+CREATE POLICY "Service role can manage group moderation events" ON public.group_moderation_events
+  FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,63 @@
+-- Semantic memory retrieval: embeddings of user memory and session summaries
+-- stored with pgvector. The vector column has no fixed dimension so the
+-- embedding backend can be changed; each row records the model that produced
+-- it and searches only compare vectors from the same model.
+CREATE EXTENSION IF NOT EXISTS vector;
+
+CREATE TABLE IF NOT EXISTS public.memory_embeddings (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  source_type TEXT NOT NULL CHECK (source_type IN ('user_memory', 'session_summary')),
+  source_id UUID NOT NULL, -- user_memory.id or session_memory.id
+  session_id UUID REFERENCES public.therapy_sessions(session_id) ON DELETE CASCADE,
+  content TEXT NOT NULL,
+  embedding vector NOT NULL,
+  embedding_model TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (source_type, source_id, embedding_model)
+);
+
+CREATE INDEX IF NOT EXISTS idx_memory_embeddings_user_model
+  ON public.memory_embeddings(user_id, embedding_model, source_type);
+
+-- Embeddings are only read and written by the server
+ALTER TABLE public.memory_embeddings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can manage memory embeddings" ON public.memory_embeddings;
+CREATE POLICY "Service role can manage memory embeddings" ON public.memory_embeddings
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- match_memory_embeddings: a user's entries nearest to the query by cosine similarity
+CREATE OR REPLACE FUNCTION public.match_memory_embeddings(
+  query_embedding vector,
+  match_user_id UUID,
+  match_model TEXT,
+  match_source_type TEXT,
+  match_count INT DEFAULT 10
+) RETURNS TABLE (
+  source_type TEXT,
+  source_id UUID,
+  session_id UUID,
+  content TEXT,
+  similarity FLOAT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    e.source_type,
+    e.source_id,
+    e.session_id,
+    e.content,
+    1 - (e.embedding <=> query_embedding) AS similarity
+  FROM public.memory_embeddings e
+  WHERE e.user_id = match_user_id
+    AND e.embedding_model = match_model
+    AND e.source_type = match_source_type
+  ORDER BY e.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
+
+REVOKE ALL ON FUNCTION public.match_memory_embeddings(vector, UUID, TEXT, TEXT, INT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.match_memory_embeddings(vector, UUID, TEXT, TEXT, INT) TO service_role;
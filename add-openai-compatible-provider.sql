@@ -0,0 +1,21 @@
+-- Allow OpenAI-compatible endpoints (Ollama, vLLM, llama.cpp server) as an AI provider
+ALTER TABLE public.ai_config
+ADD COLUMN IF NOT EXISTS base_url TEXT;
+
+ALTER TABLE public.ai_config
+DROP CONSTRAINT IF EXISTS ai_config_provider_check;
+
+ALTER TABLE public.ai_config
+ADD CONSTRAINT ai_config_provider_check
+CHECK (provider IN ('openai', 'anthropic', 'perplexity', 'openai_compatible'));
+
+-- Local servers usually need no key; a base URL is required instead
+ALTER TABLE public.ai_config
+ALTER COLUMN api_key DROP NOT NULL;
+
+ALTER TABLE public.ai_config
+DROP CONSTRAINT IF EXISTS ai_config_base_url_check;
+
+ALTER TABLE public.ai_config
+ADD CONSTRAINT ai_config_base_url_check
+CHECK (provider <> 'openai_compatible' OR base_url IS NOT NULL);
@@ -0,0 +1,79 @@
+-- Review queue for session flags (flag_for_review, escalate_to_human,
+-- schedule_check_in and crisis screening): priority, SLA due time, assignment
+-- to an admin and resolution notes, worked on /admin/review-queue (see
+-- src/lib/ai/safety/review-queue.ts). session_flag_events keeps every change.
+ALTER TABLE public.session_flags
+ADD COLUMN IF NOT EXISTS priority TEXT NOT NULL DEFAULT 'medium' CHECK (priority IN ('urgent', 'high', 'medium', 'low')),
+ADD COLUMN IF NOT EXISTS due_at TIMESTAMP WITH TIME ZONE, -- SLA for the priority, or the check-in time
+ADD COLUMN IF NOT EXISTS assigned_to UUID REFERENCES public.users(user_id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS assigned_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS resolution_note TEXT;
+
+-- Existing flags: priority from the urgency in the reason, due time from the
+-- SLA (urgent 1h, high 4h, medium 24h, low 72h) or the check-in type
+UPDATE public.session_flags
+SET priority = CASE
+    WHEN flag_reason LIKE '[HIGH] Crisis detection%' THEN 'urgent'
+    WHEN flag_reason LIKE '[HIGH]%' THEN 'high'
+    WHEN flag_reason LIKE '[LOW]%' OR flag_type = 'check_in' THEN 'low'
+    ELSE 'medium'
+  END
+WHERE due_at IS NULL;
+
+UPDATE public.session_flags
+SET due_at = created_at + CASE
+    WHEN flag_type = 'check_in' AND flag_reason LIKE '24_hours:%' THEN INTERVAL '24 hours'
+    WHEN flag_type = 'check_in' AND flag_reason LIKE '3_days:%' THEN INTERVAL '3 days'
+    WHEN flag_type = 'check_in' AND flag_reason LIKE '1_week:%' THEN INTERVAL '1 week'
+    WHEN flag_type = 'check_in' AND flag_reason LIKE '2_weeks:%' THEN INTERVAL '2 weeks'
+    WHEN priority = 'urgent' THEN INTERVAL '1 hour'
+    WHEN priority = 'high' THEN INTERVAL '4 hours'
+    WHEN priority = 'medium' THEN INTERVAL '24 hours'
+    ELSE INTERVAL '72 hours'
+  END
+WHERE due_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_session_flags_open ON public.session_flags(priority, due_at) WHERE resolved = false;
+CREATE INDEX IF NOT EXISTS idx_session_flags_assigned_to ON public.session_flags(assigned_to) WHERE resolved = false;
+
+CREATE TABLE IF NOT EXISTS public.session_flag_events (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  flag_id UUID REFERENCES public.session_flags(id) ON DELETE CASCADE NOT NULL,
+  actor_id UUID REFERENCES public.users(user_id) ON DELETE SET NULL, -- NULL when raised by the AI or crisis screening
+  action TEXT NOT NULL CHECK (action IN ('created', 'assigned', 'unassigned', 'priority_changed', 'noted', 'resolved', 'reopened')),
+  note TEXT,
+  details JSONB NOT NULL DEFAULT '{}', -- Previous and new values
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_session_flag_events_flag_id ON public.session_flag_events(flag_id, created_at);
+
+-- History for flags raised before this migration
+INSERT INTO public.session_flag_events (flag_id, action, note, details, created_at)
+SELECT id, 'created', flag_reason, jsonb_build_object('priority', priority, 'flag_type', flag_type), created_at
+FROM public.session_flags f
+WHERE NOT EXISTS (SELECT 1 FROM public.session_flag_events e WHERE e.flag_id = f.id);
+
+INSERT INTO public.session_flag_events (flag_id, actor_id, action, created_at)
+SELECT id, resolved_by, 'resolved', COALESCE(resolved_at, created_at)
+FROM public.session_flags f
+WHERE resolved = true
+  AND NOT EXISTS (SELECT 1 FROM public.session_flag_events e WHERE e.flag_id = f.id AND e.action = 'resolved');
+
+-- Flags now change only through /api/admin/review-queue, which records history
+DROP POLICY IF EXISTS "Admins can update session flags" ON public.session_flags;
+
+ALTER TABLE public.session_flag_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view session flag events" ON public.session_flag_events;
+CREATE POLICY "Admins can view session flag events" ON public.session_flag_events
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE user_id = auth.uid() AND is_admin = true
+    )
+  );
+
+DROP POLICY IF EXISTS "Service role can manage session flag events" ON public.session_flag_events;
+CREATE POLICY "Service role can manage session flag events" ON public.session_flag_events
+  FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,24 @@
+-- Personal safety plans: one per user, built on /dashboard/safety-plan or with
+-- the AI through the update_safety_plan tool (see src/lib/ai/safety/safety-plan.ts).
+-- The plan is pinned in the chat context panel and shown when crisis resources
+-- are given or a session is locked for safety.
+CREATE TABLE IF NOT EXISTS public.safety_plans (
+  user_id UUID REFERENCES public.users(user_id) ON DELETE CASCADE PRIMARY KEY,
+  warning_signs JSONB NOT NULL DEFAULT '[]', -- List of text entries
+  coping_strategies JSONB NOT NULL DEFAULT '[]',
+  contacts JSONB NOT NULL DEFAULT '[]', -- List of { name, phone?, note? }
+  professionals JSONB NOT NULL DEFAULT '[]', -- List of { name, phone?, note? }
+  safe_environment JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.safety_plans ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own safety plan" ON public.safety_plans;
+CREATE POLICY "Users can view own safety plan" ON public.safety_plans
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Service role can manage safety plans" ON public.safety_plans;
+CREATE POLICY "Service role can manage safety plans" ON public.safety_plans
+  FOR ALL USING (auth.role() = 'service_role');
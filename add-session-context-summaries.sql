@@ -0,0 +1,17 @@
+-- Running conversation summaries used by the AI context manager.
+-- Older turns of long sessions are folded into the summary so the model keeps
+-- the whole conversation in view while only recent messages are sent verbatim.
+CREATE TABLE IF NOT EXISTS public.session_context_summaries (
+  session_id UUID REFERENCES public.therapy_sessions(session_id) ON DELETE CASCADE PRIMARY KEY,
+  summary TEXT NOT NULL,
+  summarized_until TIMESTAMP WITH TIME ZONE NOT NULL,
+  summarized_message_count INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Only the server (service role) reads and writes summaries
+ALTER TABLE public.session_context_summaries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can manage session context summaries" ON public.session_context_summaries;
+CREATE POLICY "Service role can manage session context summaries" ON public.session_context_summaries
+  FOR ALL USING (auth.role() = 'service_role');
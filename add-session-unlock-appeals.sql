@@ -0,0 +1,44 @@
+-- Unlock appeals: a user asks for a session the AI locked (end_and_lock_session)
+-- to be reopened, and an admin unlocks it, keeps the lock or unlocks it with
+-- conditions on /admin/unlock-appeals (see src/lib/ai/safety/unlock-appeals.ts).
+-- A decided appeal is not changed again, so the rows are the audit trail of
+-- who decided what and when.
+CREATE TABLE IF NOT EXISTS public.session_unlock_appeals (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  session_id UUID REFERENCES public.therapy_sessions(session_id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.users(user_id) ON DELETE CASCADE NOT NULL,
+  statement TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'unlocked', 'unlocked_with_conditions', 'kept_locked')),
+  lock_reason TEXT, -- The lock being appealed, copied from therapy_sessions
+  locked_at TIMESTAMP WITH TIME ZONE,
+  conditions TEXT, -- Required for unlocked_with_conditions; given to the AI in the reopened session
+  decision_note TEXT, -- Shown to the user with the outcome
+  decided_by UUID REFERENCES public.users(user_id) ON DELETE SET NULL,
+  decided_at TIMESTAMP WITH TIME ZONE,
+  user_notified_at TIMESTAMP WITH TIME ZONE, -- When the user saw the outcome
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One open appeal per session
+CREATE UNIQUE INDEX IF NOT EXISTS idx_session_unlock_appeals_pending ON public.session_unlock_appeals(session_id) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_session_unlock_appeals_session_id ON public.session_unlock_appeals(session_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_session_unlock_appeals_unseen ON public.session_unlock_appeals(user_id) WHERE status <> 'pending' AND user_notified_at IS NULL;
+
+ALTER TABLE public.session_unlock_appeals ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own unlock appeals" ON public.session_unlock_appeals;
+CREATE POLICY "Users can view own unlock appeals" ON public.session_unlock_appeals
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Admins can view unlock appeals" ON public.session_unlock_appeals;
+CREATE POLICY "Admins can view unlock appeals" ON public.session_unlock_appeals
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE user_id = auth.uid() AND is_admin = true
+    )
+  );
+
+DROP POLICY IF EXISTS "Service role can manage unlock appeals" ON public.session_unlock_appeals;
+CREATE POLICY "Service role can manage unlock appeals" ON public.session_unlock_appeals
+  FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,83 @@
+-- Versioned system prompts. The coaching prompt is built from the 'base'
+-- prompt plus one prompt per session type; each key can have one draft and
+-- one published version, and older published versions are kept as archived
+-- so they can be restored. Keys with no published version use the built-in
+-- prompt from src/lib/ai/system-prompts.ts (recorded as version 0).
+CREATE TABLE IF NOT EXISTS public.system_prompt_versions (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  prompt_key TEXT NOT NULL CHECK (prompt_key IN ('base', 'individual', 'group', 'relationship', 'family', 'general')),
+  version INTEGER NOT NULL CHECK (version > 0),
+  content TEXT NOT NULL,
+  notes TEXT,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'published', 'archived')),
+  created_by UUID REFERENCES public.users(user_id) ON DELETE SET NULL,
+  published_by UUID REFERENCES public.users(user_id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  published_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (prompt_key, version)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_system_prompt_versions_one_published
+  ON public.system_prompt_versions(prompt_key) WHERE status = 'published';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_system_prompt_versions_one_draft
+  ON public.system_prompt_versions(prompt_key) WHERE status = 'draft';
+
+ALTER TABLE public.system_prompt_versions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view system prompt versions" ON public.system_prompt_versions;
+CREATE POLICY "Admins can view system prompt versions" ON public.system_prompt_versions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE user_id = auth.uid() AND is_admin = true
+    )
+  );
+
+DROP POLICY IF EXISTS "Service role can manage system prompt versions" ON public.system_prompt_versions;
+CREATE POLICY "Service role can manage system prompt versions" ON public.system_prompt_versions
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Prompt versions that produced each AI message, e.g. {"base": 3, "individual": 1}
+ALTER TABLE public.session_messages
+ADD COLUMN IF NOT EXISTS prompt_versions JSONB;
+
+-- publish_system_prompt_version: publish a draft, or restore an archived
+-- version, archiving whatever was published for the key in one transaction
+CREATE OR REPLACE FUNCTION public.publish_system_prompt_version(
+  target_version_id UUID,
+  publisher UUID
+) RETURNS public.system_prompt_versions
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  target public.system_prompt_versions;
+BEGIN
+  SELECT * INTO target
+  FROM public.system_prompt_versions
+  WHERE id = target_version_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Prompt version not found';
+  END IF;
+
+  IF target.status = 'published' THEN
+    RETURN target;
+  END IF;
+
+  UPDATE public.system_prompt_versions
+  SET status = 'archived', updated_at = NOW()
+  WHERE prompt_key = target.prompt_key AND status = 'published';
+
+  UPDATE public.system_prompt_versions
+  SET status = 'published', published_at = NOW(), published_by = publisher, updated_at = NOW()
+  WHERE id = target_version_id
+  RETURNING * INTO target;
+
+  RETURN target;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.publish_system_prompt_version(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.publish_system_prompt_version(UUID, UUID) TO service_role;
@@ -0,0 +1,33 @@
+-- Tool audit trail: one row per tool the AI ran, with its arguments, result
+-- and latency, so admins can see what the AI did inside a session. Calls the
+-- tool loop skipped as repeats are not run and not recorded.
+CREATE TABLE IF NOT EXISTS public.tool_invocations (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  session_id UUID REFERENCES public.therapy_sessions(session_id) ON DELETE CASCADE,
+  user_id UUID REFERENCES public.users(user_id) ON DELETE SET NULL,
+  tool_name TEXT NOT NULL,
+  arguments JSONB NOT NULL DEFAULT '{}',
+  result TEXT,
+  success BOOLEAN NOT NULL DEFAULT true,
+  error TEXT, -- The tool's error message when success is false
+  latency_ms INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tool_invocations_session_id ON public.tool_invocations(session_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_tool_invocations_created_at ON public.tool_invocations(created_at DESC);
+
+ALTER TABLE public.tool_invocations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view tool invocations" ON public.tool_invocations;
+CREATE POLICY "Admins can view tool invocations" ON public.tool_invocations
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE user_id = auth.uid() AND is_admin = true
+    )
+  );
+
+DROP POLICY IF EXISTS "Service role can manage tool invocations" ON public.tool_invocations;
+CREATE POLICY "Service role can manage tool invocations" ON public.tool_invocations
+  FOR ALL USING (auth.role() = 'service_role');
@@ -11,6 +11,7 @@ export default function NewAIConfigPage() {
   const [provider, setProvider] = useState('');
   const [apiKey, setApiKey] = useState('');
   const [model, setModel] = useState('');
+  const [baseUrl, setBaseUrl] = useState('');
   const [loading, setLoading] = useState(false);
   const [testing, setTesting] = useState(false);
   const router = useRouter();
@@ -19,46 +20,59 @@ export default function NewAIConfigPage() {
   const availableProviders = [
     { id: 'openai', name: 'OpenAI' },
     { id: 'anthropic', name: 'Anthropic' },
-    { id: 'perplexity', name: 'Perplexity' }
+    { id: 'perplexity', name: 'Perplexity' },
+    { id: 'openai_compatible', name: 'OpenAI-compatible (Ollama, vLLM, llama.cpp)' }
   ];
 
+  // OpenAI-compatible servers need a base URL; the API key is optional for them
+  const isCompatibleProvider = provider === 'openai_compatible';
+  const isConfigComplete = !!provider && !!model && (isCompatibleProvider ? !!baseUrl : !!apiKey);
+
   const handleProviderChange = (newProvider: string) => {
     setProvider(newProvider);
     // Clear model when provider changes to let user enter their own
     setModel('');
   };
 
+  // Keys are tested and saved by the server, which encrypts and audits them
+  const postConfig = async (action: 'test' | 'create') => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      throw new Error('You must be logged in');
+    }
+
+    const response = await fetch('/api/admin/ai-config', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify({
+        action,
+        provider,
+        apiKey: apiKey || null,
+        model,
+        baseUrl: isCompatibleProvider ? baseUrl : null
+      }),
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Request failed');
+    }
+    return result;
+  };
+
   const testConnection = async () => {
-    if (!provider || !apiKey || !model) {
+    if (!isConfigComplete) {
       alert('Please fill in all fields');
       return;
     }
 
     setTesting(true);
     try {
-      // Get the current session token
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session) {
-        alert('You must be logged in to test connections');
-        return;
-      }
+      const result = await postConfig('test');
 
-      // Call the server-side API route
-      const response = await fetch('/api/ai/test-connection', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${session.access_token}`,
-        },
-        body: JSON.stringify({
-          provider,
-          apiKey,
-          model
-        }),
-      });
-
-      const result = await response.json();
-      
       if (result.success) {
         alert('Connection successful!');
       } else {
@@ -66,56 +80,24 @@ export default function NewAIConfigPage() {
       }
     } catch (error) {
       console.error('Test connection error:', error);
-      alert('Connection failed. Please check your API key and configuration.');
+      alert(`Connection failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
       setTesting(false);
     }
   };
 
   const saveConfig = async () => {
-    if (!provider || !apiKey || !model) {
+    if (!isConfigComplete) {
       alert('Please fill in all fields');
       return;
     }
 
     setLoading(true);
     try {
-      // First check if user is admin
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        alert('You must be logged in to save configuration');
-        return;
-      }
-
-      // Check admin status
-      const { data: userProfile, error: profileError } = await supabase
-        .from('users')
-        .select('is_admin')
-        .eq('user_id', user.id)
-        .single();
-
-      if (profileError || !userProfile?.is_admin) {
-        alert('Admin privileges required to save AI configuration');
-        return;
-      }
-
-      const { data, error } = await supabase
-        .from('ai_config')
-        .insert({
-          provider,
-          api_key: apiKey,
-          model,
-          is_active: false
-        })
-        .select();
-
-      if (error) {
-        console.error('Error saving config:', error);
-        alert(`Failed to save configuration: ${error.message}`);
-      } else {
-        alert('Configuration saved successfully');
-        router.push('/admin/ai-config');
-      }
+      // New configs join the end of the failover chain, inactive
+      await postConfig('create');
+      alert('Configuration saved successfully');
+      router.push('/admin/ai-config');
     } catch (error) {
       console.error('Error:', error);
       alert(`Failed to save configuration: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -160,9 +142,25 @@ export default function NewAIConfigPage() {
             </select>
           </div>
 
+          {isCompatibleProvider && (
+            <div>
+              <label htmlFor="baseUrl" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Base URL
+              </label>
+              <input
+                id="baseUrl"
+                type="url"
+                value={baseUrl}
+                onChange={(e) => setBaseUrl(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 dark:bg-gray-900 dark:text-white"
+                placeholder="e.g., http://localhost:11434/v1"
+              />
+            </div>
+          )}
+
           <div>
             <label htmlFor="apiKey" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-              API Key
+              API Key{isCompatibleProvider && ' (optional)'}
             </label>
             <input
               id="apiKey"
@@ -191,14 +189,14 @@ export default function NewAIConfigPage() {
           <div className="flex space-x-4">
             <Button
               onClick={testConnection}
-              disabled={!provider || !apiKey || !model || testing}
+              disabled={!isConfigComplete || testing}
               variant="outline"
             >
               {testing ? 'Testing...' : 'Test Connection'}
             </Button>
             <Button
               onClick={saveConfig}
-              disabled={!provider || !apiKey || !model || loading}
+              disabled={!isConfigComplete || loading}
             >
               {loading ? 'Saving...' : 'Save Configuration'}
             </Button>
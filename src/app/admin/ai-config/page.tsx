@@ -3,65 +3,138 @@
 import { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { MemoryEmbeddingsPanel } from '@/components/admin/MemoryEmbeddingsPanel';
 // AI provider factory removed - all AI calls now server-side only
 import { createClient } from '@/lib/supabase/client';
-import { AIConfig } from '@/types';
+import { AIConfigKeyAuditEntry, AIConfigSummary, AIFailoverEvent, AIProviderStatus } from '@/types';
+
+const FAILOVER_EVENT_LABELS: Record<AIFailoverEvent['event_type'], string> = {
+  failover: 'Failover',
+  circuit_opened: 'Circuit opened',
+  circuit_closed: 'Circuit closed',
+  chain_exhausted: 'All providers failed'
+};
+
+const KEY_AUDIT_LABELS: Record<AIConfigKeyAuditEntry['action'], string> = {
+  created: 'Added',
+  viewed: 'Viewed',
+  rotated: 'Rotated',
+  tested: 'Tested',
+  re_encrypted: 'Encrypted'
+};
 
 export default function AIConfigPage() {
-  const [configs, setConfigs] = useState<AIConfig[]>([]);
+  const [configs, setConfigs] = useState<AIConfigSummary[]>([]);
+  const [keyAudit, setKeyAudit] = useState<AIConfigKeyAuditEntry[]>([]);
+  const [encryptionConfigured, setEncryptionConfigured] = useState(true);
   const [loading, setLoading] = useState(true);
   const [testing, setTesting] = useState<string | null>(null);
+  const [revealedKeys, setRevealedKeys] = useState<Record<string, string | null>>({});
+  const [rotatingId, setRotatingId] = useState<string | null>(null);
+  const [newApiKey, setNewApiKey] = useState('');
+  const [savingKey, setSavingKey] = useState(false);
+  const [encrypting, setEncrypting] = useState(false);
+  const [servingConfigId, setServingConfigId] = useState<string | null>(null);
+  const [providerStatus, setProviderStatus] = useState<AIProviderStatus[]>([]);
+  const [failoverEvents, setFailoverEvents] = useState<AIFailoverEvent[]>([]);
   const supabase = createClient();
 
   useEffect(() => {
     fetchConfigs();
+    fetchStatus();
   }, []);
 
+  // API keys are only read and written through this route, which audits each access
+  const authorizedFetch = async (init?: RequestInit) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      throw new Error('You must be logged in');
+    }
+
+    const response = await fetch('/api/admin/ai-config', {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Request failed');
+    }
+    return result;
+  };
+
   const fetchConfigs = async () => {
     try {
-      const { data, error } = await supabase
-        .from('ai_config')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        console.error('Error fetching configs:', error);
-      } else {
-        setConfigs(data || []);
-      }
+      const result = await authorizedFetch();
+      setConfigs(result.configs || []);
+      setKeyAudit(result.audit || []);
+      setEncryptionConfigured(result.encryptionConfigured);
     } catch (error) {
-      console.error('Error:', error);
+      console.error('Error fetching configs:', error);
     } finally {
       setLoading(false);
     }
   };
 
-  const testConnection = async (config: AIConfig) => {
-    setTesting(config.id);
+  const fetchStatus = async () => {
     try {
-      // Get the current session token
       const { data: { session } } = await supabase.auth.getSession();
       if (!session) {
-        alert('You must be logged in to test connections');
         return;
       }
 
-      // Call the server-side API route
-      const response = await fetch('/api/ai/test-connection', {
-        method: 'POST',
+      const response = await fetch('/api/admin/ai-status', {
         headers: {
-          'Content-Type': 'application/json',
           'Authorization': `Bearer ${session.access_token}`,
         },
-        body: JSON.stringify({
-          provider: config.provider,
-          apiKey: config.api_key,
-          model: config.model
-        }),
       });
 
-      const result = await response.json();
-      
+      if (!response.ok) {
+        console.error('Error fetching AI provider status:', response.status);
+        return;
+      }
+
+      const status = await response.json();
+      setServingConfigId(status.servingConfigId);
+      setProviderStatus(status.providers || []);
+      setFailoverEvents(status.events || []);
+    } catch (error) {
+      console.error('Error fetching AI provider status:', error);
+    }
+  };
+
+  const checkAdmin = async (action: string): Promise<boolean> => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      alert(`You must be logged in to ${action}`);
+      return false;
+    }
+
+    const { data: userProfile, error: profileError } = await supabase
+      .from('users')
+      .select('is_admin')
+      .eq('user_id', user.id)
+      .single();
+
+    if (profileError || !userProfile?.is_admin) {
+      alert('Admin privileges required to manage AI configurations');
+      return false;
+    }
+
+    return true;
+  };
+
+  const testConnection = async (config: AIConfigSummary) => {
+    setTesting(config.id);
+    try {
+      // The key is decrypted and used on the server only
+      const result = await authorizedFetch({
+        method: 'POST',
+        body: JSON.stringify({ action: 'test', configId: config.id }),
+      });
+
       if (result.success) {
         alert('Connection successful!');
       } else {
@@ -69,84 +142,152 @@ export default function AIConfigPage() {
       }
     } catch (error) {
       console.error('Test connection error:', error);
-      alert('Connection failed. Please check your API key and configuration.');
+      alert(`Connection failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
       setTesting(null);
+      fetchConfigs();
     }
   };
 
-  const setActiveConfig = async (configId: string) => {
+  const hideKey = (configId: string) => {
+    setRevealedKeys(keys => {
+      const remaining = { ...keys };
+      delete remaining[configId];
+      return remaining;
+    });
+  };
+
+  const toggleKeyVisibility = async (config: AIConfigSummary) => {
+    if (config.id in revealedKeys) {
+      hideKey(config.id);
+      return;
+    }
+
+    if (!confirm('Viewing the full API key is recorded in the key access log. Continue?')) {
+      return;
+    }
+
     try {
-      // Check admin status first
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        alert('You must be logged in to manage configurations');
-        return;
-      }
+      const result = await authorizedFetch({
+        method: 'POST',
+        body: JSON.stringify({ action: 'view', configId: config.id }),
+      });
+      setRevealedKeys(keys => ({ ...keys, [config.id]: result.apiKey }));
+      fetchConfigs();
+    } catch (error) {
+      alert(`Failed to load API key: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
 
-      const { data: userProfile, error: profileError } = await supabase
-        .from('users')
-        .select('is_admin')
-        .eq('user_id', user.id)
-        .single();
+  const startRotation = (configId: string | null) => {
+    setRotatingId(configId);
+    setNewApiKey('');
+  };
 
-      if (profileError || !userProfile?.is_admin) {
-        alert('Admin privileges required to manage AI configurations');
-        return;
-      }
+  const saveApiKey = async (config: AIConfigSummary) => {
+    setSavingKey(true);
+    try {
+      await authorizedFetch({
+        method: 'POST',
+        body: JSON.stringify({ action: 'rotate', configId: config.id, apiKey: newApiKey || null }),
+      });
+      hideKey(config.id);
+      startRotation(null);
+      fetchConfigs();
+    } catch (error) {
+      alert(`Failed to update API key: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setSavingKey(false);
+    }
+  };
 
-      // Deactivate all configs
-      const { error: deactivateError } = await supabase
-        .from('ai_config')
-        .update({ is_active: false })
-        .neq('id', configId);
+  const encryptStoredKeys = async () => {
+    setEncrypting(true);
+    try {
+      const result = await authorizedFetch({
+        method: 'POST',
+        body: JSON.stringify({ action: 'encrypt' }),
+      });
+      alert(`Encrypted ${result.encrypted} API key${result.encrypted === 1 ? '' : 's'}`);
+    } catch (error) {
+      alert(`Encryption failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setEncrypting(false);
+      fetchConfigs();
+    }
+  };
 
-      if (deactivateError) {
-        console.error('Error deactivating configs:', deactivateError);
-        alert(`Failed to deactivate configurations: ${deactivateError.message}`);
+  const toggleActive = async (config: AIConfigSummary) => {
+    try {
+      if (!(await checkAdmin('manage configurations'))) {
         return;
       }
 
-      // Activate selected config
+      // Active configs form the failover chain; several can be active at once
       const { error } = await supabase
         .from('ai_config')
-        .update({ is_active: true })
-        .eq('id', configId);
+        .update({ is_active: !config.is_active })
+        .eq('id', config.id);
 
       if (error) {
-        console.error('Error setting active config:', error);
-        alert(`Failed to set active configuration: ${error.message}`);
+        console.error('Error updating config:', error);
+        alert(`Failed to update configuration: ${error.message}`);
       } else {
-        alert('Configuration activated successfully');
         fetchConfigs();
+        fetchStatus();
       }
     } catch (error) {
       console.error('Error:', error);
-      alert(`Failed to set active configuration: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      alert(`Failed to update configuration: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   };
 
-  const deleteConfig = async (configId: string) => {
-    if (!confirm('Are you sure you want to delete this configuration?')) {
+  const moveConfig = async (configId: string, direction: -1 | 1) => {
+    const index = configs.findIndex(config => config.id === configId);
+    const target = index + direction;
+    if (index === -1 || target < 0 || target >= configs.length) {
       return;
     }
 
     try {
-      // Check admin status first
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        alert('You must be logged in to delete configurations');
+      if (!(await checkAdmin('manage configurations'))) {
         return;
       }
 
-      const { data: userProfile, error: profileError } = await supabase
-        .from('users')
-        .select('is_admin')
-        .eq('user_id', user.id)
-        .single();
+      // Renumber the whole list so configs sharing a priority get a definite order
+      const reordered = [...configs];
+      [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+
+      for (let i = 0; i < reordered.length; i++) {
+        if (reordered[i].priority === i + 1) continue;
+
+        const { error } = await supabase
+          .from('ai_config')
+          .update({ priority: i + 1 })
+          .eq('id', reordered[i].id);
+
+        if (error) {
+          console.error('Error updating priority:', error);
+          alert(`Failed to update priority: ${error.message}`);
+          break;
+        }
+      }
+
+      fetchConfigs();
+      fetchStatus();
+    } catch (error) {
+      console.error('Error:', error);
+      alert(`Failed to update priority: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const deleteConfig = async (configId: string) => {
+    if (!confirm('Are you sure you want to delete this configuration?')) {
+      return;
+    }
 
-      if (profileError || !userProfile?.is_admin) {
-        alert('Admin privileges required to delete AI configurations');
+    try {
+      if (!(await checkAdmin('delete configurations'))) {
         return;
       }
 
@@ -161,6 +302,7 @@ export default function AIConfigPage() {
       } else {
         alert('Configuration deleted successfully');
         fetchConfigs();
+        fetchStatus();
       }
     } catch (error) {
       console.error('Error:', error);
@@ -168,6 +310,14 @@ export default function AIConfigPage() {
     }
   };
 
+  const servingConfig = configs.find(config => config.id === servingConfigId);
+  const unencryptedKeys = configs.filter(config => !config.key_encrypted).length;
+
+  const describeConfig = (configId: string) => {
+    const config = configs.find(c => c.id === configId);
+    return config ? `${config.provider} (${config.model})` : 'removed configuration';
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -181,63 +331,230 @@ export default function AIConfigPage() {
       <div>
         <h1 className="text-3xl font-bold text-gray-900 dark:text-white">AI Configuration</h1>
         <p className="text-gray-600 dark:text-gray-400 mt-2">
-          Manage AI provider settings and API keys
+          Manage AI provider settings and API keys. Active providers are tried in priority order, failing over on timeouts, rate limits and server errors.
         </p>
       </div>
 
+      {(!encryptionConfigured || unencryptedKeys > 0) && (
+        <Card className="border-amber-200 bg-amber-50 dark:border-amber-800 dark:bg-amber-900/20">
+          <CardContent className="p-4 flex flex-wrap items-center justify-between gap-2">
+            <p className="text-sm text-amber-800 dark:text-amber-200">
+              {encryptionConfigured
+                ? `${unencryptedKeys} API key${unencryptedKeys === 1 ? ' is' : 's are'} stored unencrypted.`
+                : 'FIELD_ENCRYPTION_KEYS is not set: API keys are stored unencrypted.'}
+            </p>
+            {encryptionConfigured && (
+              <Button size="sm" onClick={encryptStoredKeys} disabled={encrypting}>
+                {encrypting ? 'Encrypting...' : 'Encrypt Stored Keys'}
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {configs.length > 0 && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-lg">Provider Status</CardTitle>
+              <Button size="sm" variant="outline" onClick={fetchStatus}>
+                Refresh
+              </Button>
+            </div>
+            <CardDescription>
+              {servingConfig
+                ? `Currently serving: ${servingConfig.provider.replace('_', '-')} (${servingConfig.model})`
+                : 'No provider has served a request yet'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Recent failover events</h4>
+            {failoverEvents.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No failover events recorded</p>
+            ) : (
+              <ul className="space-y-2">
+                {failoverEvents.map((event) => (
+                  <li key={event.id} className="text-sm text-gray-600 dark:text-gray-400 flex flex-wrap gap-x-2">
+                    <span className="text-gray-500">{new Date(event.created_at).toLocaleString()}</span>
+                    <span className="font-medium text-gray-900 dark:text-white">{FAILOVER_EVENT_LABELS[event.event_type]}</span>
+                    <span>
+                      {event.provider} {event.model && `(${event.model})`}
+                      {event.to_config_id && ` → ${describeConfig(event.to_config_id)}`}
+                    </span>
+                    {event.status_code && <span>HTTP {event.status_code}</span>}
+                    {event.reason && <span className="break-all">{event.reason}</span>}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-        {configs.map((config) => (
-          <Card key={config.id} className={config.is_active ? 'border-green-500' : ''}>
-            <CardHeader>
-              <div className="flex items-center justify-between">
-                <CardTitle className="text-lg capitalize">{config.provider}</CardTitle>
-                {config.is_active && (
-                  <span className="bg-green-100 text-green-800 text-xs px-2 py-1 rounded-full">
-                    Active
+        {configs.map((config, index) => {
+          const status = providerStatus.find(s => s.config_id === config.id);
+          return (
+            <Card key={config.id} className={config.is_active ? 'border-green-500' : ''}>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle className="text-lg capitalize">{config.provider.replace('_', '-')}</CardTitle>
+                  <div className="flex gap-1">
+                    {config.id === servingConfigId && (
+                      <span className="bg-blue-100 text-blue-800 text-xs px-2 py-1 rounded-full">
+                        Serving
+                      </span>
+                    )}
+                    {config.is_active && (
+                      <span className="bg-green-100 text-green-800 text-xs px-2 py-1 rounded-full">
+                        Active
+                      </span>
+                    )}
+                  </div>
+                </div>
+                <CardDescription>
+                  Model: {config.model}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="text-sm text-gray-600 dark:text-gray-400 flex flex-wrap items-center gap-2">
+                  <span className="break-all">
+                    API Key: {config.id in revealedKeys
+                      ? revealedKeys[config.id] || 'Not set'
+                      : config.masked_key || 'Not set'}
                   </span>
+                  {config.masked_key && (
+                    <button
+                      type="button"
+                      onClick={() => toggleKeyVisibility(config)}
+                      className="text-blue-600 dark:text-blue-400 hover:underline"
+                    >
+                      {config.id in revealedKeys ? 'Hide' : 'Show'}
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => startRotation(rotatingId === config.id ? null : config.id)}
+                    className="text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    {rotatingId === config.id ? 'Cancel' : config.masked_key ? 'Rotate' : 'Set key'}
+                  </button>
+                </div>
+                {rotatingId === config.id && (
+                  <div className="flex gap-2">
+                    <input
+                      type="password"
+                      value={newApiKey}
+                      onChange={(e) => setNewApiKey(e.target.value)}
+                      placeholder={config.provider === 'openai_compatible' ? 'New API key (empty to remove)' : 'New API key'}
+                      className="flex-1 px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 dark:bg-gray-900 dark:text-white"
+                    />
+                    <Button
+                      size="sm"
+                      onClick={() => saveApiKey(config)}
+                      disabled={savingKey || (!newApiKey && config.provider !== 'openai_compatible')}
+                    >
+                      {savingKey ? 'Saving...' : 'Save'}
+                    </Button>
+                  </div>
+                )}
+                {config.base_url && (
+                  <div className="text-sm text-gray-600 dark:text-gray-400 break-all">
+                    Base URL: {config.base_url}
+                  </div>
                 )}
-              </div>
-              <CardDescription>
-                Model: {config.model}
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-3">
-              <div className="text-sm text-gray-600 dark:text-gray-400">
-                API Key: {config.api_key.substring(0, 8)}...
-              </div>
-              <div className="text-sm text-gray-500 dark:text-gray-400">
-                Created: {new Date(config.created_at).toLocaleDateString()}
-              </div>
-              <div className="flex space-x-2">
-                <Button
-                  size="sm"
-                  variant="outline"
-                  onClick={() => testConnection(config)}
-                  disabled={testing === config.id}
-                >
-                  {testing === config.id ? 'Testing...' : 'Test'}
-                </Button>
-                {!config.is_active && (
+                <div className="text-sm text-gray-600 dark:text-gray-400">
+                  Priority: {index + 1}
+                </div>
+                {status && status.circuit_state !== 'closed' && (
+                  <div className="text-sm text-red-600 dark:text-red-400">
+                    Circuit {status.circuit_state === 'open' ? 'open' : 'half-open'} after {status.consecutive_failures} failure{status.consecutive_failures === 1 ? '' : 's'}
+                    {status.last_error && `: ${status.last_error}`}
+                  </div>
+                )}
+                <div className="text-sm text-gray-500 dark:text-gray-400">
+                  Created: {new Date(config.created_at).toLocaleDateString()}
+                </div>
+                <div className="flex flex-wrap gap-2">
                   <Button
                     size="sm"
-                    onClick={() => setActiveConfig(config.id)}
+                    variant="outline"
+                    onClick={() => testConnection(config)}
+                    disabled={testing === config.id}
                   >
-                    Activate
+                    {testing === config.id ? 'Testing...' : 'Test'}
                   </Button>
-                )}
-                <Button
-                  size="sm"
-                  variant="destructive"
-                  onClick={() => deleteConfig(config.id)}
-                >
-                  Delete
-                </Button>
-              </div>
-            </CardContent>
-          </Card>
-        ))}
+                  <Button
+                    size="sm"
+                    variant={config.is_active ? 'outline' : 'default'}
+                    onClick={() => toggleActive(config)}
+                  >
+                    {config.is_active ? 'Deactivate' : 'Activate'}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => moveConfig(config.id, -1)}
+                    disabled={index === 0}
+                    aria-label="Move up"
+                  >
+                    ↑
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => moveConfig(config.id, 1)}
+                    disabled={index === configs.length - 1}
+                    aria-label="Move down"
+                  >
+                    ↓
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    onClick={() => deleteConfig(config.id)}
+                  >
+                    Delete
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
       </div>
 
+      {keyAudit.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">API Key Access Log</CardTitle>
+            <CardDescription>
+              Every time a key is added, viewed, rotated, tested or encrypted
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ul className="space-y-2">
+              {keyAudit.map((entry) => (
+                <li key={entry.id} className="text-sm text-gray-600 dark:text-gray-400 flex flex-wrap gap-x-2">
+                  <span className="text-gray-500">{new Date(entry.created_at).toLocaleString()}</span>
+                  <span className="font-medium text-gray-900 dark:text-white">{KEY_AUDIT_LABELS[entry.action]}</span>
+                  <span>
+                    {entry.provider} {entry.model && `(${entry.model})`}
+                    {entry.action === 'tested' && !entry.config_id && ' before saving'}
+                  </span>
+                  <span>by {entry.actor_email || 'removed user'}</span>
+                  {entry.success !== null && (
+                    <span className={entry.success ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+                      {entry.success ? 'succeeded' : 'failed'}
+                    </span>
+                  )}
+                  {entry.detail && <span className="break-all">{entry.detail}</span>}
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
       {configs.length === 0 && (
         <Card className="text-center py-12">
           <CardContent>
@@ -253,6 +570,8 @@ export default function AIConfigPage() {
           </CardContent>
         </Card>
       )}
+
+      <MemoryEmbeddingsPanel />
     </div>
   );
 }
@@ -0,0 +1,378 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { LifeBuoy, Pencil, Plus, Save, Trash2, X } from 'lucide-react';
+import { createClient } from '@/lib/supabase/client';
+import { INTERNATIONAL_REGION, languageName, regionName } from '@/lib/resource-locale';
+import { CrisisResource } from '@/types';
+
+// Editable form of an entry; id is set when editing an existing one
+type ResourceDraft = {
+  id?: string;
+  region: string;
+  language: string;
+  name: string;
+  contact: string;
+  contactType: CrisisResource['contact_type'];
+  description: string;
+  isEmergency: boolean;
+  urgent: boolean;
+  position: string;
+  isActive: boolean;
+};
+
+const EMPTY_DRAFT: ResourceDraft = {
+  region: '',
+  language: 'en',
+  name: '',
+  contact: '',
+  contactType: 'phone',
+  description: '',
+  isEmergency: false,
+  urgent: false,
+  position: '0',
+  isActive: true,
+};
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 dark:bg-gray-900 dark:text-white';
+
+export default function CrisisResourcesPage() {
+  const [resources, setResources] = useState<CrisisResource[]>([]);
+  const [regionFilter, setRegionFilter] = useState('all');
+  const [draft, setDraft] = useState<ResourceDraft | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const supabase = createClient();
+
+  useEffect(() => {
+    fetchResources();
+  }, []);
+
+  const authorizedFetch = async (url: string, init?: RequestInit) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      throw new Error('You must be logged in');
+    }
+
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Request failed');
+    }
+    return result;
+  };
+
+  const fetchResources = async () => {
+    try {
+      const result = await authorizedFetch('/api/admin/crisis-resources');
+      setResources(result.resources);
+    } catch (error) {
+      console.error('Error fetching crisis resources:', error);
+      alert(`Failed to load crisis resources: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const editResource = (resource: CrisisResource) => {
+    setDraft({
+      id: resource.id,
+      region: resource.region,
+      language: resource.language,
+      name: resource.name,
+      contact: resource.contact,
+      contactType: resource.contact_type,
+      description: resource.description,
+      isEmergency: resource.is_emergency,
+      urgent: resource.urgent,
+      position: String(resource.position),
+      isActive: resource.is_active,
+    });
+  };
+
+  const saveResource = async () => {
+    if (!draft) return;
+
+    const position = Number(draft.position);
+    if (!Number.isInteger(position) || position < 0) {
+      alert('Position must be a whole number of at least 0');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await authorizedFetch('/api/admin/crisis-resources', {
+        method: 'PUT',
+        body: JSON.stringify({
+          ...draft,
+          region: draft.region.trim().toUpperCase(),
+          language: draft.language.trim().toLowerCase(),
+          position,
+        }),
+      });
+      setDraft(null);
+      await fetchResources();
+    } catch (error) {
+      alert(`Failed to save resource: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteResource = async (resource: CrisisResource) => {
+    if (!confirm(`Delete ${resource.name} (${regionName(resource.region)})? Deactivating it keeps it for later.`)) {
+      return;
+    }
+
+    try {
+      await authorizedFetch(`/api/admin/crisis-resources?id=${resource.id}`, { method: 'DELETE' });
+      await fetchResources();
+    } catch (error) {
+      alert(`Failed to delete resource: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const regions = Array.from(new Set(resources.map(resource => resource.region))).sort();
+  const shown = regionFilter === 'all' ? resources : resources.filter(resource => resource.region === regionFilter);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Crisis Resources</h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-2">
+          Hotlines and support services by region and language. The AI&apos;s emergency resources, replies to high-risk messages, the chat resources panel and the public resources page all show the entries for the user&apos;s region, in their language where one is listed.
+        </p>
+      </div>
+
+      {draft && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{draft.id ? 'Edit Resource' : 'New Resource'}</CardTitle>
+            <CardDescription>
+              Region is a two-letter country code such as GB, or {INTERNATIONAL_REGION} for services that help anywhere
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label htmlFor="resource-region" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Region
+                </label>
+                <input
+                  id="resource-region"
+                  value={draft.region}
+                  onChange={(e) => setDraft({ ...draft, region: e.target.value })}
+                  placeholder="US"
+                  className={`${inputClassName} uppercase`}
+                />
+              </div>
+              <div>
+                <label htmlFor="resource-language" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Language
+                </label>
+                <input
+                  id="resource-language"
+                  value={draft.language}
+                  onChange={(e) => setDraft({ ...draft, language: e.target.value })}
+                  placeholder="en"
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label htmlFor="resource-position" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Position
+                </label>
+                <input
+                  id="resource-position"
+                  type="number"
+                  min={0}
+                  value={draft.position}
+                  onChange={(e) => setDraft({ ...draft, position: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label htmlFor="resource-name" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Name
+                </label>
+                <input
+                  id="resource-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="Samaritans"
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label htmlFor="resource-contact" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Contact
+                </label>
+                <input
+                  id="resource-contact"
+                  value={draft.contact}
+                  onChange={(e) => setDraft({ ...draft, contact: e.target.value })}
+                  placeholder="116 123"
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label htmlFor="resource-contact-type" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Contact type
+                </label>
+                <select
+                  id="resource-contact-type"
+                  value={draft.contactType}
+                  onChange={(e) => setDraft({ ...draft, contactType: e.target.value as CrisisResource['contact_type'] })}
+                  className={inputClassName}
+                >
+                  <option value="phone">Phone number</option>
+                  <option value="text">Text message</option>
+                  <option value="web">Website</option>
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="resource-description" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Description
+              </label>
+              <input
+                id="resource-description"
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                placeholder="Free to call, 24/7"
+                className={inputClassName}
+              />
+            </div>
+
+            <div className="flex flex-wrap gap-6 text-sm text-gray-700 dark:text-gray-300">
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={draft.urgent}
+                  onChange={(e) => setDraft({ ...draft, urgent: e.target.checked })}
+                />
+                <span>Urgent (immediate crisis support)</span>
+              </label>
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={draft.isEmergency}
+                  onChange={(e) => setDraft({ ...draft, isEmergency: e.target.checked })}
+                />
+                <span>Emergency services number</span>
+              </label>
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={draft.isActive}
+                  onChange={(e) => setDraft({ ...draft, isActive: e.target.checked })}
+                />
+                <span>Active</span>
+              </label>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Button onClick={saveResource} disabled={saving}>
+                <Save className="h-4 w-4 mr-1" />
+                {saving ? 'Saving...' : 'Save'}
+              </Button>
+              <Button variant="outline" onClick={() => setDraft(null)} disabled={saving}>
+                <X className="h-4 w-4 mr-1" />
+                Cancel
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center">
+                <LifeBuoy className="h-5 w-5 mr-2" />
+                Directory
+              </CardTitle>
+              <CardDescription>
+                While the directory has no active entries, a built-in list is shown so resources are never missing
+              </CardDescription>
+            </div>
+            <Button size="sm" onClick={() => setDraft({ ...EMPTY_DRAFT, region: regionFilter === 'all' ? '' : regionFilter })}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Resource
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="max-w-xs">
+            <label htmlFor="resource-region-filter" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Region
+            </label>
+            <select
+              id="resource-region-filter"
+              value={regionFilter}
+              onChange={(e) => setRegionFilter(e.target.value)}
+              className={inputClassName}
+            >
+              <option value="all">All regions</option>
+              {regions.map(region => <option key={region} value={region}>{regionName(region)} ({region})</option>)}
+            </select>
+          </div>
+
+          {shown.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No entries yet.</p>
+          ) : (
+            <div className="space-y-3">
+              {shown.map(resource => (
+                <div key={resource.id} className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg flex items-start justify-between gap-4">
+                  <div>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium text-gray-900 dark:text-white">{resource.name}</span>
+                      <span className="font-mono text-sm text-gray-700 dark:text-gray-300">{resource.contact}</span>
+                      {resource.is_emergency && <Badge variant="destructive">Emergency</Badge>}
+                      {resource.urgent && !resource.is_emergency && <Badge>Urgent</Badge>}
+                      {!resource.is_active && <Badge variant="outline">Inactive</Badge>}
+                    </div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      {regionName(resource.region)} · {languageName(resource.language)} · position {resource.position}
+                      {resource.description && ` · ${resource.description}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button size="sm" variant="outline" onClick={() => editResource(resource)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => deleteResource(resource)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,276 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, CheckCircle, ClipboardCheck, Play, XCircle } from 'lucide-react';
+import { createClient } from '@/lib/supabase/client';
+import type { EvalRun } from '@/lib/ai/evals/types';
+import { AIConfig, PromptVersions, SystemPromptKey, SystemPromptVersion } from '@/types';
+
+type EvalTarget = Pick<AIConfig, 'id' | 'provider' | 'model' | 'is_active'>;
+type FixtureSummary = { id: string; category: string; description: string };
+
+// The prompts the fixtures exercise
+const PINNABLE_KEYS: SystemPromptKey[] = ['base', 'individual', 'group'];
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 dark:bg-gray-900 dark:text-white';
+
+export default function EvalsPage() {
+  const [runs, setRuns] = useState<EvalRun[]>([]);
+  const [fixtures, setFixtures] = useState<FixtureSummary[]>([]);
+  const [configs, setConfigs] = useState<EvalTarget[]>([]);
+  const [promptVersions, setPromptVersions] = useState<SystemPromptVersion[]>([]);
+  const [configId, setConfigId] = useState('');
+  const [pinned, setPinned] = useState<Partial<Record<SystemPromptKey, string>>>({});
+  const [expandedRun, setExpandedRun] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+  const supabase = createClient();
+
+  useEffect(() => {
+    fetchEvals();
+  }, []);
+
+  const authorizedFetch = async (url: string, init?: RequestInit) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      throw new Error('You must be logged in');
+    }
+
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Request failed');
+    }
+    return result;
+  };
+
+  const fetchEvals = async () => {
+    try {
+      const [evalResult, promptResult] = await Promise.all([
+        authorizedFetch('/api/admin/evals'),
+        authorizedFetch('/api/admin/prompts'),
+      ]);
+      setRuns(evalResult.runs);
+      setFixtures(evalResult.fixtures);
+      setConfigs(evalResult.configs);
+      setPromptVersions(promptResult.versions);
+    } catch (error) {
+      console.error('Error fetching evals:', error);
+      alert(`Failed to load evals: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runEvals = async () => {
+    setRunning(true);
+    try {
+      const versions: PromptVersions = {};
+      for (const key of PINNABLE_KEYS) {
+        if (pinned[key]) {
+          versions[key] = Number(pinned[key]);
+        }
+      }
+
+      const result = await authorizedFetch('/api/admin/evals', {
+        method: 'POST',
+        body: JSON.stringify({ configId: configId || null, promptVersions: versions }),
+      });
+      setExpandedRun(result.run.id);
+      await fetchEvals();
+    } catch (error) {
+      alert(`Failed to run evals: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Evals</h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-2">
+          Replay scripted conversations to check crisis handling, goal extraction and group attribution before changing a prompt or model. Tools are recorded, never run.
+        </p>
+      </div>
+
+      {/* Run */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Play className="h-5 w-5 mr-2" />
+            Run Evals
+          </CardTitle>
+          <CardDescription>
+            The mock provider replays each fixture&apos;s scripted reply and checks everything around the model. Pick an AI configuration, such as a local model, to test real replies.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <label htmlFor="eval-target" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Model
+              </label>
+              <select
+                id="eval-target"
+                value={configId}
+                onChange={(e) => setConfigId(e.target.value)}
+                className={inputClassName}
+              >
+                <option value="">Mock provider</option>
+                {configs.map(config => (
+                  <option key={config.id} value={config.id}>
+                    {config.provider} ({config.model}){config.is_active ? '' : ' - inactive'}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {PINNABLE_KEYS.map(key => (
+              <div key={key}>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 capitalize">
+                  {key} prompt
+                </label>
+                <select
+                  value={pinned[key] || ''}
+                  onChange={(e) => setPinned({ ...pinned, [key]: e.target.value })}
+                  className={inputClassName}
+                >
+                  <option value="">Live</option>
+                  <option value="0">Built-in</option>
+                  {promptVersions.filter(v => v.prompt_key === key).map(version => (
+                    <option key={version.id} value={String(version.version)}>
+                      v{version.version} ({version.status})
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+          <div className="flex items-center gap-3">
+            <Button onClick={runEvals} disabled={running}>
+              <Play className="h-4 w-4 mr-2" />
+              {running ? 'Running...' : `Run ${fixtures.length} Fixtures`}
+            </Button>
+            {running && configId && (
+              <span className="text-sm text-gray-500 dark:text-gray-400">Real models can take a minute or two</span>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Runs */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <ClipboardCheck className="h-5 w-5 mr-2" />
+            Recent Runs
+          </CardTitle>
+          <CardDescription>
+            A regression is a fixture that passed in the previous run against the same model and fails now
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {runs.length === 0 ? (
+            <p className="text-center text-gray-500 dark:text-gray-400 py-4">No eval runs yet</p>
+          ) : (
+            <div className="space-y-3">
+              {runs.map(run => (
+                <div key={run.id} className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                  <div
+                    className="flex items-center justify-between cursor-pointer"
+                    onClick={() => setExpandedRun(expandedRun === run.id ? null : run.id)}
+                  >
+                    <div>
+                      <div className="flex items-center space-x-2">
+                        <span className="font-medium text-sm text-gray-900 dark:text-white">{run.target_label}</span>
+                        {Object.entries(run.prompt_versions || {}).map(([key, version]) => (
+                          <Badge key={key} variant="outline">{key} {version === 0 ? 'built-in' : `v${version}`}</Badge>
+                        ))}
+                        {run.regressions.length > 0 && (
+                          <Badge variant="destructive">
+                            {run.regressions.length} regression{run.regressions.length === 1 ? '' : 's'}
+                          </Badge>
+                        )}
+                      </div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        {new Date(run.created_at).toLocaleString()}
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-3 text-sm">
+                      <span className="flex items-center text-green-600">
+                        <CheckCircle className="h-4 w-4 mr-1" />
+                        {run.passed}
+                      </span>
+                      <span className={`flex items-center ${run.failed > 0 ? 'text-red-600' : 'text-gray-400'}`}>
+                        <XCircle className="h-4 w-4 mr-1" />
+                        {run.failed}
+                      </span>
+                    </div>
+                  </div>
+
+                  {expandedRun === run.id && (
+                    <div className="mt-3 space-y-2">
+                      {run.results.map(result => (
+                        <div key={result.fixture_id} className="p-2 bg-white dark:bg-gray-900 rounded border border-gray-200 dark:border-gray-700">
+                          <div className="flex items-center justify-between">
+                            <div className="flex items-center space-x-2">
+                              {result.passed ? (
+                                <CheckCircle className="h-4 w-4 text-green-600" />
+                              ) : (
+                                <XCircle className="h-4 w-4 text-red-600" />
+                              )}
+                              <span className="font-mono text-xs text-gray-900 dark:text-white">{result.fixture_id}</span>
+                              <Badge variant="secondary">{result.category}</Badge>
+                              {result.risk_level && result.risk_level !== 'none' && (
+                                <Badge variant="outline">{result.risk_level} risk</Badge>
+                              )}
+                              {run.regressions.includes(result.fixture_id) && (
+                                <span className="flex items-center text-xs text-red-600">
+                                  <AlertTriangle className="h-3 w-3 mr-1" />
+                                  regression
+                                </span>
+                              )}
+                            </div>
+                            <span className="text-xs text-gray-500">{result.duration_ms}ms</span>
+                          </div>
+                          {result.failures.length > 0 && (
+                            <ul className="mt-1 ml-6 list-disc text-xs text-red-600">
+                              {result.failures.map((failure, index) => <li key={index}>{failure}</li>)}
+                            </ul>
+                          )}
+                          <div className="mt-1 ml-6 text-xs text-gray-600 dark:text-gray-400">
+                            Tools: {result.tool_calls.length > 0 ? result.tool_calls.map(call => call.name).join(', ') : 'none'}
+                          </div>
+                          <div className="mt-1 ml-6 text-xs text-gray-600 dark:text-gray-400 whitespace-pre-wrap">
+                            {result.reply}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
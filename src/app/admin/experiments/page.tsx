@@ -0,0 +1,457 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { FlaskConical, Play, Plus, Square, Trash2, X } from 'lucide-react';
+import { createClient } from '@/lib/supabase/client';
+import {
+  AIConfig,
+  AIExperiment,
+  AIExperimentArm,
+  AIExperimentArmResult,
+  PromptVersions,
+  SystemPromptKey,
+  SystemPromptVersion
+} from '@/types';
+
+const SESSION_TYPES = ['individual', 'group', 'relationship', 'family', 'general'];
+
+type ExperimentWithResults = AIExperiment & { results: AIExperimentArmResult[] };
+type ArmConfig = Pick<AIConfig, 'id' | 'provider' | 'model' | 'is_active'>;
+
+// Prompt selections use '' for the published prompt and '0' for the built-in one
+interface ArmForm {
+  name: string;
+  weight: number;
+  configId: string;
+  promptVersions: Partial<Record<SystemPromptKey, string>>;
+}
+
+const emptyArm = (name: string): ArmForm => ({ name, weight: 1, configId: '', promptVersions: {} });
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 dark:bg-gray-900 dark:text-white';
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+export default function ExperimentsPage() {
+  const [experiments, setExperiments] = useState<ExperimentWithResults[]>([]);
+  const [configs, setConfigs] = useState<ArmConfig[]>([]);
+  const [promptVersions, setPromptVersions] = useState<SystemPromptVersion[]>([]);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [sessionTypes, setSessionTypes] = useState<string[]>(['individual']);
+  const [arms, setArms] = useState<ArmForm[]>([emptyArm('Control'), emptyArm('Variant')]);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const supabase = createClient();
+
+  useEffect(() => {
+    fetchExperiments();
+  }, []);
+
+  const authorizedFetch = async (url: string, init?: RequestInit) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      throw new Error('You must be logged in');
+    }
+
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Request failed');
+    }
+    return result;
+  };
+
+  const fetchExperiments = async () => {
+    try {
+      const [experimentResult, promptResult] = await Promise.all([
+        authorizedFetch('/api/admin/experiments'),
+        authorizedFetch('/api/admin/prompts'),
+      ]);
+      setExperiments(experimentResult.experiments);
+      setConfigs(experimentResult.configs);
+      setPromptVersions(promptResult.versions);
+    } catch (error) {
+      console.error('Error fetching experiments:', error);
+      alert(`Failed to load experiments: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<unknown>, failureMessage: string) => {
+    setWorking(true);
+    try {
+      await action();
+      await fetchExperiments();
+      return true;
+    } catch (error) {
+      alert(`${failureMessage}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return false;
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const updateArm = (index: number, changes: Partial<ArmForm>) => {
+    setArms(arms.map((arm, i) => (i === index ? { ...arm, ...changes } : arm)));
+  };
+
+  const toggleSessionType = (type: string) => {
+    setSessionTypes(sessionTypes.includes(type)
+      ? sessionTypes.filter(t => t !== type)
+      : [...sessionTypes, type]);
+  };
+
+  // The base prompt plus the prompt of each session type the experiment covers
+  const promptKeys: SystemPromptKey[] = ['base', ...(sessionTypes as SystemPromptKey[])];
+
+  const createExperiment = async () => {
+    const created = await runAction(
+      () => authorizedFetch('/api/admin/experiments', {
+        method: 'POST',
+        body: JSON.stringify({
+          name,
+          description,
+          sessionTypes,
+          arms: arms.map(arm => {
+            const pinned: PromptVersions = {};
+            for (const key of promptKeys) {
+              const value = arm.promptVersions[key];
+              if (value) {
+                pinned[key] = Number(value);
+              }
+            }
+            return { name: arm.name, weight: arm.weight, configId: arm.configId || null, promptVersions: pinned };
+          }),
+        }),
+      }),
+      'Failed to create experiment'
+    );
+
+    if (created) {
+      setName('');
+      setDescription('');
+      setSessionTypes(['individual']);
+      setArms([emptyArm('Control'), emptyArm('Variant')]);
+    }
+  };
+
+  const setStatus = (experiment: AIExperiment, action: 'start' | 'stop') => {
+    const message = action === 'start'
+      ? `Start "${experiment.name}"? Users will be split between its arms from their next message.`
+      : `Stop "${experiment.name}"? Everyone goes back to the live prompts and provider chain. A stopped experiment cannot be restarted.`;
+    if (!confirm(message)) return;
+    runAction(
+      () => authorizedFetch('/api/admin/experiments/status', {
+        method: 'POST',
+        body: JSON.stringify({ experimentId: experiment.id, action }),
+      }),
+      `Failed to ${action} experiment`
+    );
+  };
+
+  const deleteExperiment = (experiment: AIExperiment) => {
+    if (!confirm(`Delete "${experiment.name}" and its results?`)) return;
+    runAction(
+      () => authorizedFetch(`/api/admin/experiments?id=${experiment.id}`, { method: 'DELETE' }),
+      'Failed to delete experiment'
+    );
+  };
+
+  const describeArm = (arm: AIExperimentArm) => {
+    const parts = Object.entries(arm.prompt_versions || {}).map(([key, version]) =>
+      `${key} ${version === 0 ? 'built-in' : `v${version}`}`
+    );
+    if (arm.config_id) {
+      const config = configs.find(c => c.id === arm.config_id);
+      parts.push(config ? `${config.provider} (${config.model}) first` : 'deleted AI config');
+    }
+    return parts.length > 0 ? parts.join(' • ') : 'Live prompts and provider chain';
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const hasRunning = experiments.some(e => e.status === 'running');
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Experiments</h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-2">
+          Compare prompt versions and models on real traffic. Each user always gets the same arm, and outcomes are counted from their first message in the experiment.
+        </p>
+      </div>
+
+      {/* New experiment */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Plus className="h-5 w-5 mr-2" />
+            New Experiment
+          </CardTitle>
+          <CardDescription>
+            Arms can pin prompt versions (drafts included) and put an AI configuration first in the chain. Leave everything on the defaults for the control arm.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="experiment-name" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Name
+              </label>
+              <input
+                id="experiment-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className={inputClassName}
+                placeholder="Shorter base prompt"
+              />
+            </div>
+            <div>
+              <label htmlFor="experiment-description" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Hypothesis
+              </label>
+              <input
+                id="experiment-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className={inputClassName}
+                placeholder="What you expect to change"
+              />
+            </div>
+          </div>
+
+          <div>
+            <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Session types</span>
+            <div className="flex flex-wrap gap-4">
+              {SESSION_TYPES.map(type => (
+                <label key={type} className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={sessionTypes.includes(type)}
+                    onChange={() => toggleSessionType(type)}
+                  />
+                  <span className="capitalize">{type}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            {arms.map((arm, index) => (
+              <div key={index} className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg space-y-3">
+                <div className="flex items-end gap-3">
+                  <div className="flex-1">
+                    <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Arm name</label>
+                    <input
+                      value={arm.name}
+                      onChange={(e) => updateArm(index, { name: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div className="w-24">
+                    <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Weight</label>
+                    <input
+                      type="number"
+                      min={1}
+                      value={arm.weight}
+                      onChange={(e) => updateArm(index, { weight: Number(e.target.value) })}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div className="flex-1">
+                    <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">AI configuration</label>
+                    <select
+                      value={arm.configId}
+                      onChange={(e) => updateArm(index, { configId: e.target.value })}
+                      className={inputClassName}
+                    >
+                      <option value="">Chain default</option>
+                      {configs.map(config => (
+                        <option key={config.id} value={config.id}>
+                          {config.provider} ({config.model}){config.is_active ? '' : ' - inactive'}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  {arms.length > 2 && (
+                    <Button variant="ghost" size="sm" onClick={() => setArms(arms.filter((_, i) => i !== index))}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                  {promptKeys.map(key => (
+                    <div key={key}>
+                      <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1 capitalize">
+                        {key} prompt
+                      </label>
+                      <select
+                        value={arm.promptVersions[key] || ''}
+                        onChange={(e) => updateArm(index, { promptVersions: { ...arm.promptVersions, [key]: e.target.value } })}
+                        className={inputClassName}
+                      >
+                        <option value="">Live</option>
+                        <option value="0">Built-in</option>
+                        {promptVersions.filter(v => v.prompt_key === key).map(version => (
+                          <option key={version.id} value={String(version.version)}>
+                            v{version.version} ({version.status})
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setArms([...arms, emptyArm(`Variant ${arms.length}`)])}
+              disabled={arms.length >= 5}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Arm
+            </Button>
+            <Button onClick={createExperiment} disabled={working || !name.trim() || sessionTypes.length === 0}>
+              Create Draft
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Experiments */}
+      {experiments.length === 0 ? (
+        <Card>
+          <CardContent className="py-8">
+            <p className="text-center text-gray-500 dark:text-gray-400">No experiments yet</p>
+          </CardContent>
+        </Card>
+      ) : (
+        experiments.map(experiment => (
+          <Card key={experiment.id}>
+            <CardHeader>
+              <div className="flex items-start justify-between">
+                <div>
+                  <CardTitle className="flex items-center">
+                    <FlaskConical className="h-5 w-5 mr-2" />
+                    {experiment.name}
+                    <Badge
+                      variant={experiment.status === 'running' ? 'default' : 'secondary'}
+                      className="ml-3"
+                    >
+                      {experiment.status}
+                    </Badge>
+                  </CardTitle>
+                  <CardDescription className="mt-1">
+                    {experiment.description && <>{experiment.description} • </>}
+                    {experiment.session_types.join(', ')} sessions
+                    {experiment.started_at && ` • Started ${new Date(experiment.started_at).toLocaleString()}`}
+                    {experiment.stopped_at && ` • Stopped ${new Date(experiment.stopped_at).toLocaleString()}`}
+                  </CardDescription>
+                </div>
+                <div className="flex items-center space-x-2">
+                  {experiment.status === 'draft' && (
+                    <Button
+                      size="sm"
+                      onClick={() => setStatus(experiment, 'start')}
+                      disabled={working || hasRunning}
+                      title={hasRunning ? 'Another experiment is running' : undefined}
+                    >
+                      <Play className="h-4 w-4 mr-1" />
+                      Start
+                    </Button>
+                  )}
+                  {experiment.status === 'running' && (
+                    <Button size="sm" variant="outline" onClick={() => setStatus(experiment, 'stop')} disabled={working}>
+                      <Square className="h-4 w-4 mr-1" />
+                      Stop
+                    </Button>
+                  )}
+                  {experiment.status !== 'running' && (
+                    <Button size="sm" variant="ghost" onClick={() => deleteExperiment(experiment)} disabled={working}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                      <th className="py-2 pr-4 font-medium">Arm</th>
+                      <th className="py-2 pr-4 font-medium text-right">Users</th>
+                      <th className="py-2 pr-4 font-medium text-right">Sessions</th>
+                      <th className="py-2 pr-4 font-medium text-right">Msgs / session</th>
+                      <th className="py-2 pr-4 font-medium text-right">Minutes / session</th>
+                      <th className="py-2 pr-4 font-medium text-right">Goals achieved</th>
+                      <th className="py-2 pr-4 font-medium text-right">Flags / 100 sessions</th>
+                      <th className="py-2 pr-4 font-medium text-right">Escalations</th>
+                      <th className="py-2 pr-4 font-medium text-right">Return rate</th>
+                      <th className="py-2 font-medium text-right">AI cost</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {experiment.arms.map(arm => {
+                      const result = experiment.results.find(r => r.arm_id === arm.id);
+                      return (
+                        <tr key={arm.id} className="border-b border-gray-100 dark:border-gray-800">
+                          <td className="py-2 pr-4">
+                            <div className="font-medium text-gray-900 dark:text-white">
+                              {arm.name} <span className="text-xs text-gray-500">×{arm.weight}</span>
+                            </div>
+                            <div className="text-xs text-gray-500 dark:text-gray-400">{describeArm(arm)}</div>
+                          </td>
+                          {result ? (
+                            <>
+                              <td className="py-2 pr-4 text-right">{result.users}</td>
+                              <td className="py-2 pr-4 text-right">{result.sessions}</td>
+                              <td className="py-2 pr-4 text-right">{result.avg_messages_per_session.toFixed(1)}</td>
+                              <td className="py-2 pr-4 text-right">{result.avg_session_minutes.toFixed(1)}</td>
+                              <td className="py-2 pr-4 text-right">
+                                {result.goals_achieved}
+                                <span className="text-xs text-gray-500"> ({result.goals_per_user.toFixed(2)}/user)</span>
+                              </td>
+                              <td className="py-2 pr-4 text-right">{result.flags_per_100_sessions.toFixed(1)}</td>
+                              <td className="py-2 pr-4 text-right">{result.escalations}</td>
+                              <td className="py-2 pr-4 text-right">{formatPercent(result.return_rate)}</td>
+                              <td className="py-2 text-right">${result.ai_cost_usd.toFixed(2)}</td>
+                            </>
+                          ) : (
+                            <td colSpan={9} className="py-2 text-right text-gray-500 dark:text-gray-400">
+                              No results until the experiment starts
+                            </td>
+                          )}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
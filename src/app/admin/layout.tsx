@@ -4,7 +4,7 @@ import { useEffect, useState } from 'react';
 import { useRouter, usePathname } from 'next/navigation';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
-import { Brain, Settings, Users, Shield, LogOut, ArrowLeft } from 'lucide-react';
+import { Brain, Settings, FileText, FlaskConical, ClipboardCheck, Wrench, LifeBuoy, Inbox, Unlock, ShieldAlert, Users, Shield, BarChart3, LogOut, ArrowLeft } from 'lucide-react';
 import { createClient } from '@/lib/supabase/client';
 import { isAdmin } from '@/lib/admin';
 import { ThemeToggle } from '@/components/ThemeToggle';
@@ -74,6 +74,54 @@ export default function AdminLayout({
       icon: Settings,
       current: pathname === '/admin/ai-config' || pathname === '/admin/ai-config/new'
     },
+    {
+      name: 'System Prompts',
+      href: '/admin/prompts',
+      icon: FileText,
+      current: pathname === '/admin/prompts'
+    },
+    {
+      name: 'Experiments',
+      href: '/admin/experiments',
+      icon: FlaskConical,
+      current: pathname === '/admin/experiments'
+    },
+    {
+      name: 'Evals',
+      href: '/admin/evals',
+      icon: ClipboardCheck,
+      current: pathname === '/admin/evals'
+    },
+    {
+      name: 'Tool Policies',
+      href: '/admin/tool-policies',
+      icon: Wrench,
+      current: pathname === '/admin/tool-policies'
+    },
+    {
+      name: 'Crisis Resources',
+      href: '/admin/crisis-resources',
+      icon: LifeBuoy,
+      current: pathname === '/admin/crisis-resources'
+    },
+    {
+      name: 'Review Queue',
+      href: '/admin/review-queue',
+      icon: Inbox,
+      current: pathname === '/admin/review-queue'
+    },
+    {
+      name: 'Unlock Appeals',
+      href: '/admin/unlock-appeals',
+      icon: Unlock,
+      current: pathname === '/admin/unlock-appeals'
+    },
+    {
+      name: 'Moderation',
+      href: '/admin/moderation',
+      icon: ShieldAlert,
+      current: pathname === '/admin/moderation'
+    },
     {
       name: 'User Support',
       href: '/admin/support',
@@ -86,6 +134,12 @@ export default function AdminLayout({
       icon: Shield,
       current: pathname.startsWith('/admin/security')
     },
+    {
+      name: 'AI Usage',
+      href: '/admin/usage',
+      icon: BarChart3,
+      current: pathname === '/admin/usage'
+    },
   ];
 
   return (
@@ -0,0 +1,206 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { CheckCircle, Send, ShieldAlert, XCircle } from 'lucide-react';
+import { createClient } from '@/lib/supabase/client';
+import { GroupModerationReview, ModerationSeverity } from '@/types';
+
+const SEVERITY_CLASSES: Record<ModerationSeverity, string> = {
+  high: 'bg-red-600 text-white',
+  medium: 'bg-orange-500 text-white',
+  low: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300',
+  none: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300',
+};
+
+const ACTION_LABELS: Record<string, string> = {
+  held: 'Held',
+  warned: 'Sender warned',
+  owner_notified: 'Owner notified',
+  flagged: 'Flagged for review',
+};
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 dark:bg-gray-900 dark:text-white';
+
+export default function ModerationPage() {
+  const [filter, setFilter] = useState<'held' | 'all'>('held');
+  const [events, setEvents] = useState<GroupModerationReview[]>([]);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [reviewing, setReviewing] = useState(false);
+  const supabase = createClient();
+
+  useEffect(() => {
+    fetchEvents(filter);
+  }, [filter]);
+
+  const authorizedFetch = async (url: string, init?: RequestInit) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      throw new Error('You must be logged in');
+    }
+
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Request failed');
+    }
+    return result;
+  };
+
+  const fetchEvents = async (eventFilter: 'held' | 'all') => {
+    try {
+      const result = await authorizedFetch(`/api/admin/moderation?filter=${eventFilter}`);
+      setEvents(result.events);
+    } catch (error) {
+      console.error('Error fetching moderation events:', error);
+      alert(`Failed to load moderation events: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const review = async (eventId: string, decision: 'release' | 'reject') => {
+    const confirmation = decision === 'release'
+      ? 'Deliver this message to the group session?'
+      : 'Reject this message? It will not be delivered and the sender will be told.';
+    if (!confirm(confirmation)) {
+      return;
+    }
+
+    setReviewing(true);
+    try {
+      await authorizedFetch('/api/admin/moderation', {
+        method: 'PUT',
+        body: JSON.stringify({ id: eventId, decision, note: notes[eventId] }),
+      });
+      setNotes(prev => ({ ...prev, [eventId]: '' }));
+      await fetchEvents(filter);
+    } catch (error) {
+      alert(`Failed to review message: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setReviewing(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Moderation</h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-2">
+          Group session messages scored for abuse, threats or slurs. High severity messages, and repeated ones from a sender already warned, are held until you deliver or reject them; others are delivered with a warning to the sender. Session owners see the outcome in the group session.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center">
+                <ShieldAlert className="h-5 w-5 mr-2" />
+                {filter === 'held' ? 'Held Messages' : 'Recent Events'}
+              </CardTitle>
+              <CardDescription>
+                Held messages are also raised in the review queue
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button size="sm" variant={filter === 'held' ? 'default' : 'outline'} onClick={() => setFilter('held')}>
+                Held
+              </Button>
+              <Button size="sm" variant={filter === 'all' ? 'default' : 'outline'} onClick={() => setFilter('all')}>
+                All
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {events.length === 0 ? (
+            <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+              <CheckCircle className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+              <p>{filter === 'held' ? 'No messages waiting for review' : 'No moderation events'}</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {events.map(event => (
+                <div
+                  key={event.id}
+                  className="p-4 rounded-lg border border-gray-200 bg-gray-50 dark:border-gray-700 dark:bg-gray-800 space-y-2"
+                >
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge className={SEVERITY_CLASSES[event.severity]}>{event.severity}</Badge>
+                    {event.categories.map(category => (
+                      <Badge key={category} variant="outline">{category}</Badge>
+                    ))}
+                    <span className="font-medium text-gray-900 dark:text-white">{event.session_title || 'Untitled session'}</span>
+                    {event.review_status && event.review_status !== 'held' && (
+                      <span className="text-xs text-gray-500 dark:text-gray-400">{event.review_status}</span>
+                    )}
+                  </div>
+                  {event.content && (
+                    <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{event.content}</p>
+                  )}
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {event.user_email || 'Unknown user'} · {new Date(event.created_at).toLocaleString()}
+                    {event.actions.length > 0 && ` · ${event.actions.map(action => ACTION_LABELS[action] || action).join(', ')}`}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Matched: {event.signals.map(signal => `${signal.match || signal.rule} (${signal.source}, ${signal.severity})`).join('; ')}
+                  </p>
+                  {event.reviewed_at && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      Reviewed by {event.reviewer_email || 'a former admin'} · {new Date(event.reviewed_at).toLocaleString()}
+                      {event.review_note && ` · ${event.review_note}`}
+                    </p>
+                  )}
+
+                  {event.review_status === 'held' && (
+                    <div className="space-y-2 pt-2">
+                      <label htmlFor={`moderation-note-${event.id}`} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                        Note to the sender (optional)
+                      </label>
+                      <textarea
+                        id={`moderation-note-${event.id}`}
+                        value={notes[event.id] || ''}
+                        onChange={(e) => setNotes(prev => ({ ...prev, [event.id]: e.target.value }))}
+                        rows={2}
+                        maxLength={1000}
+                        className={inputClassName}
+                      />
+                      <div className="flex items-center gap-2">
+                        <Button size="sm" variant="outline" onClick={() => review(event.id, 'release')} disabled={reviewing}>
+                          <Send className="h-4 w-4 mr-1" />
+                          Deliver
+                        </Button>
+                        <Button size="sm" variant="destructive" onClick={() => review(event.id, 'reject')} disabled={reviewing}>
+                          <XCircle className="h-4 w-4 mr-1" />
+                          Reject
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
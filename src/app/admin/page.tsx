@@ -47,7 +47,7 @@ export default function AdminDashboard() {
       // Get AI config stats
       const { data: aiConfigs } = await supabase
         .from('ai_config')
-        .select('*');
+        .select('id, is_active');
 
       if (users) {
         const proUsers = users.filter(u => u.subscription_tier === 'pro').length;
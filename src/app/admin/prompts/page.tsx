@@ -0,0 +1,353 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { FileText, GitCompare, History, RotateCcw, Save, Upload } from 'lucide-react';
+import { createClient } from '@/lib/supabase/client';
+import { diffLines } from '@/lib/text-diff';
+import { SystemPromptKey, SystemPromptVersion } from '@/types';
+
+const PROMPT_KEYS: { key: SystemPromptKey; label: string; description: string }[] = [
+  { key: 'base', label: 'Base', description: 'Coaching style, safety guidance and tool usage for every session' },
+  { key: 'individual', label: 'Individual', description: 'Added for one-on-one sessions' },
+  { key: 'group', label: 'Group', description: 'Added for group sessions' },
+  { key: 'relationship', label: 'Relationship', description: 'Added for relationship sessions' },
+  { key: 'family', label: 'Family', description: 'Added for family sessions' },
+  { key: 'general', label: 'General', description: 'Added for general group sessions' },
+];
+
+// Compare against a stored version or the built-in prompt
+type CompareTarget = { label: string; content: string };
+
+export default function SystemPromptsPage() {
+  const [versions, setVersions] = useState<SystemPromptVersion[]>([]);
+  const [builtIn, setBuiltIn] = useState<Record<string, string>>({});
+  const [selectedKey, setSelectedKey] = useState<SystemPromptKey>('base');
+  const [editorContent, setEditorContent] = useState('');
+  const [notes, setNotes] = useState('');
+  const [dirty, setDirty] = useState(false);
+  const [compareTarget, setCompareTarget] = useState<CompareTarget | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const supabase = createClient();
+
+  const keyVersions = versions.filter(v => v.prompt_key === selectedKey);
+  const draft = keyVersions.find(v => v.status === 'draft');
+  const published = keyVersions.find(v => v.status === 'published');
+  const liveContent = published?.content ?? builtIn[selectedKey] ?? '';
+  const liveLabel = published ? `v${published.version} (published)` : 'Built-in';
+
+  useEffect(() => {
+    fetchPrompts();
+  }, []);
+
+  // Load the draft, or the live prompt as the starting point for a new one
+  useEffect(() => {
+    setEditorContent(draft?.content ?? liveContent);
+    setNotes(draft?.notes || '');
+    setDirty(false);
+    setCompareTarget(null);
+  }, [selectedKey, versions, builtIn]);
+
+  const authorizedFetch = async (url: string, init?: RequestInit) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      throw new Error('You must be logged in');
+    }
+
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Request failed');
+    }
+    return result;
+  };
+
+  const fetchPrompts = async () => {
+    try {
+      const result = await authorizedFetch('/api/admin/prompts');
+      setVersions(result.versions);
+      setBuiltIn(result.builtIn);
+    } catch (error) {
+      console.error('Error fetching system prompts:', error);
+      alert(`Failed to load system prompts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<unknown>, failureMessage: string) => {
+    setWorking(true);
+    try {
+      await action();
+      await fetchPrompts();
+    } catch (error) {
+      alert(`${failureMessage}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const saveDraft = () => runAction(
+    () => authorizedFetch('/api/admin/prompts', {
+      method: 'PUT',
+      body: JSON.stringify({ promptKey: selectedKey, content: editorContent, notes }),
+    }),
+    'Failed to save draft'
+  );
+
+  const discardDraft = () => {
+    if (!draft || !confirm(`Discard draft v${draft.version}?`)) return;
+    runAction(
+      () => authorizedFetch(`/api/admin/prompts?id=${draft.id}`, { method: 'DELETE' }),
+      'Failed to discard draft'
+    );
+  };
+
+  const publishVersion = (version: SystemPromptVersion) => {
+    const verb = version.status === 'draft' ? 'Publish' : 'Roll back to';
+    if (!confirm(`${verb} v${version.version}? New AI replies will use it within a minute.`)) return;
+    runAction(
+      () => authorizedFetch('/api/admin/prompts/publish', {
+        method: 'POST',
+        body: JSON.stringify({ versionId: version.id }),
+      }),
+      'Failed to publish prompt'
+    );
+  };
+
+  const restoreBuiltIn = () => {
+    if (!confirm('Go back to the built-in prompt? The published version will be archived.')) return;
+    runAction(
+      () => authorizedFetch('/api/admin/prompts/publish', {
+        method: 'POST',
+        body: JSON.stringify({ promptKey: selectedKey, builtIn: true }),
+      }),
+      'Failed to restore the built-in prompt'
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const diff = compareTarget ? diffLines(compareTarget.content, editorContent) : [];
+  const selected = PROMPT_KEYS.find(k => k.key === selectedKey)!;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white">System Prompts</h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-2">
+          Edit the coaching prompts without a deploy. Changes are saved as drafts and only reach users once published.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {PROMPT_KEYS.map(({ key, label }) => {
+          const live = versions.find(v => v.prompt_key === key && v.status === 'published');
+          const hasDraft = versions.some(v => v.prompt_key === key && v.status === 'draft');
+          return (
+            <Button
+              key={key}
+              variant={key === selectedKey ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setSelectedKey(key)}
+            >
+              {label}
+              <span className="ml-2 text-xs opacity-75">
+                {live ? `v${live.version}` : 'built-in'}{hasDraft ? ' • draft' : ''}
+              </span>
+            </Button>
+          );
+        })}
+      </div>
+
+      {/* Editor */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <FileText className="h-5 w-5 mr-2" />
+            {selected.label} Prompt
+            {draft ? (
+              <Badge variant="secondary" className="ml-3">Editing draft v{draft.version}</Badge>
+            ) : (
+              <Badge variant="outline" className="ml-3">Live: {liveLabel}</Badge>
+            )}
+          </CardTitle>
+          <CardDescription>{selected.description}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <textarea
+            value={editorContent}
+            onChange={(e) => {
+              setEditorContent(e.target.value);
+              setDirty(true);
+            }}
+            rows={20}
+            className="w-full px-3 py-2 font-mono text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 dark:bg-gray-900 dark:text-white"
+          />
+          <div>
+            <label htmlFor="notes" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Change notes
+            </label>
+            <input
+              id="notes"
+              value={notes}
+              onChange={(e) => {
+                setNotes(e.target.value);
+                setDirty(true);
+              }}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 dark:bg-gray-900 dark:text-white"
+              placeholder="What changed and why"
+            />
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={saveDraft} disabled={working || !dirty || !editorContent.trim()}>
+              <Save className="h-4 w-4 mr-2" />
+              Save Draft
+            </Button>
+            {draft && (
+              <>
+                <Button variant="outline" onClick={() => publishVersion(draft)} disabled={working || dirty}>
+                  <Upload className="h-4 w-4 mr-2" />
+                  Publish Draft
+                </Button>
+                <Button variant="outline" onClick={discardDraft} disabled={working}>
+                  Discard Draft
+                </Button>
+              </>
+            )}
+            <Button
+              variant="ghost"
+              onClick={() => setCompareTarget(compareTarget ? null : { label: liveLabel, content: liveContent })}
+            >
+              <GitCompare className="h-4 w-4 mr-2" />
+              {compareTarget ? 'Hide Changes' : 'Compare with Live'}
+            </Button>
+          </div>
+          {dirty && draft && (
+            <p className="text-xs text-yellow-600">Save the draft before publishing it.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Diff */}
+      {compareTarget && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Changes from {compareTarget.label}</CardTitle>
+            <CardDescription>Removed lines are red, added lines are green</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {diff.every(line => line.type === 'same') ? (
+              <p className="text-gray-500 dark:text-gray-400 text-sm">No changes</p>
+            ) : (
+              <pre className="text-xs font-mono whitespace-pre-wrap rounded-lg bg-gray-50 dark:bg-gray-800 p-3 overflow-x-auto">
+                {diff.map((line, index) => (
+                  <div
+                    key={index}
+                    className={
+                      line.type === 'added'
+                        ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300'
+                        : line.type === 'removed'
+                          ? 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300'
+                          : 'text-gray-600 dark:text-gray-400'
+                    }
+                  >
+                    {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text}
+                  </div>
+                ))}
+              </pre>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* History */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <History className="h-5 w-5 mr-2" />
+            Version History
+          </CardTitle>
+          <CardDescription>
+            Each AI message records the prompt versions that produced it. Rolling back publishes an older version again.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-3">
+            {keyVersions.map((version) => (
+              <div key={version.id} className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                <div className="flex-1">
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium text-sm text-gray-900 dark:text-white">v{version.version}</span>
+                    <Badge variant={version.status === 'published' ? 'default' : 'secondary'}>
+                      {version.status}
+                    </Badge>
+                    {version.notes && (
+                      <span className="text-sm text-gray-600 dark:text-gray-400">{version.notes}</span>
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    Created {new Date(version.created_at).toLocaleString()}
+                    {version.published_at && ` • Published ${new Date(version.published_at).toLocaleString()}`}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setCompareTarget({ label: `v${version.version}`, content: version.content })}
+                  >
+                    Compare
+                  </Button>
+                  {version.status === 'archived' && (
+                    <Button variant="outline" size="sm" onClick={() => publishVersion(version)} disabled={working}>
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                      Roll Back
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+
+            <div className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+              <div className="flex items-center space-x-2">
+                <span className="font-medium text-sm text-gray-900 dark:text-white">Built-in</span>
+                {!published && <Badge>live</Badge>}
+              </div>
+              <div className="flex items-center space-x-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setCompareTarget({ label: 'the built-in prompt', content: builtIn[selectedKey] || '' })}
+                >
+                  Compare
+                </Button>
+                {published && (
+                  <Button variant="outline" size="sm" onClick={restoreBuiltIn} disabled={working}>
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    Restore
+                  </Button>
+                )}
+              </div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
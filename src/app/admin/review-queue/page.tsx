@@ -0,0 +1,389 @@
+'use client';
+
+import { Suspense, useEffect, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, CheckCircle, ChevronDown, ChevronUp, Clock, Inbox, RotateCcw } from 'lucide-react';
+import { createClient } from '@/lib/supabase/client';
+import { FlagPriority, ReviewQueueItem, SessionFlagEvent } from '@/types';
+
+type Reviewer = { user_id: string; email: string };
+
+const PRIORITIES: FlagPriority[] = ['urgent', 'high', 'medium', 'low'];
+
+const PRIORITY_CLASSES: Record<FlagPriority, string> = {
+  urgent: 'bg-red-600 text-white',
+  high: 'bg-orange-500 text-white',
+  medium: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
+  low: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300',
+};
+
+const EVENT_LABELS: Record<SessionFlagEvent['action'], string> = {
+  created: 'Raised',
+  assigned: 'Assigned',
+  unassigned: 'Unassigned',
+  priority_changed: 'Priority changed',
+  noted: 'Note',
+  resolved: 'Resolved',
+  reopened: 'Reopened',
+};
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 dark:bg-gray-900 dark:text-white';
+
+function formatDuration(ms: number): string {
+  const minutes = Math.round(Math.abs(ms) / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+function ReviewQueueContent() {
+  const searchParams = useSearchParams();
+  const [status, setStatus] = useState<'open' | 'resolved'>('open');
+  const [flags, setFlags] = useState<ReviewQueueItem[]>([]);
+  const [reviewers, setReviewers] = useState<Reviewer[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [assigneeFilter, setAssigneeFilter] = useState('all');
+  const [expandedId, setExpandedId] = useState<string | null>(searchParams.get('id'));
+  const [history, setHistory] = useState<SessionFlagEvent[]>([]);
+  const [note, setNote] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const supabase = createClient();
+
+  useEffect(() => {
+    fetchQueue(status);
+  }, [status]);
+
+  useEffect(() => {
+    if (expandedId) {
+      fetchHistory(expandedId);
+    }
+  }, [expandedId]);
+
+  // Keep SLA timers current
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const authorizedFetch = async (url: string, init?: RequestInit) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      throw new Error('You must be logged in');
+    }
+
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Request failed');
+    }
+    return result;
+  };
+
+  const fetchQueue = async (queueStatus: 'open' | 'resolved') => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      setCurrentUserId(user?.id || null);
+
+      const result = await authorizedFetch(`/api/admin/review-queue?status=${queueStatus}`);
+      setFlags(result.flags);
+      setReviewers(result.reviewers);
+    } catch (error) {
+      console.error('Error fetching review queue:', error);
+      alert(`Failed to load review queue: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchHistory = async (flagId: string) => {
+    try {
+      const result = await authorizedFetch(`/api/admin/review-queue?id=${flagId}`);
+      setHistory(result.history);
+    } catch (error) {
+      console.error('Error fetching flag history:', error);
+      setHistory([]);
+    }
+  };
+
+  const toggleExpanded = (flagId: string) => {
+    setNote('');
+    setHistory([]);
+    setExpandedId(expandedId === flagId ? null : flagId);
+  };
+
+  const updateFlag = async (flagId: string, body: Record<string, unknown>) => {
+    setUpdating(true);
+    try {
+      await authorizedFetch('/api/admin/review-queue', {
+        method: 'PATCH',
+        body: JSON.stringify({ id: flagId, ...body }),
+      });
+      setNote('');
+      await fetchQueue(status);
+      if (expandedId === flagId) {
+        await fetchHistory(flagId);
+      }
+    } catch (error) {
+      alert(`Failed to update flag: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const isOverdue = (flag: ReviewQueueItem) => !flag.resolved && !!flag.due_at && new Date(flag.due_at).getTime() < now;
+  const shown = flags.filter(flag =>
+    assigneeFilter === 'all' ||
+    (assigneeFilter === 'mine' && flag.assigned_to === currentUserId) ||
+    (assigneeFilter === 'unassigned' && !flag.assigned_to) ||
+    flag.assigned_to === assigneeFilter
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Review Queue</h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-2">
+          Sessions flagged for review, escalated to a human or due a check-in, most urgent first. Each priority has a time to handle it by (urgent 1 hour, high 4 hours, medium 1 day, low 3 days); check-ins are due when scheduled.
+        </p>
+      </div>
+
+      {status === 'open' && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Card>
+            <CardContent className="p-4">
+              <p className="text-sm text-gray-600 dark:text-gray-400">Open</p>
+              <p className="text-2xl font-bold text-gray-900 dark:text-white">{flags.length}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4">
+              <p className="text-sm text-gray-600 dark:text-gray-400">Overdue</p>
+              <p className="text-2xl font-bold text-red-600 dark:text-red-400">{flags.filter(isOverdue).length}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4">
+              <p className="text-sm text-gray-600 dark:text-gray-400">Unassigned</p>
+              <p className="text-2xl font-bold text-gray-900 dark:text-white">{flags.filter(flag => !flag.assigned_to).length}</p>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center">
+                <Inbox className="h-5 w-5 mr-2" />
+                {status === 'open' ? 'Open Flags' : 'Recently Resolved'}
+              </CardTitle>
+              <CardDescription>
+                Every assignment, priority change, note and resolution is kept in the flag&apos;s history
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button size="sm" variant={status === 'open' ? 'default' : 'outline'} onClick={() => setStatus('open')}>
+                Open
+              </Button>
+              <Button size="sm" variant={status === 'resolved' ? 'default' : 'outline'} onClick={() => setStatus('resolved')}>
+                Resolved
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="max-w-xs">
+            <label htmlFor="queue-assignee-filter" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Assigned to
+            </label>
+            <select
+              id="queue-assignee-filter"
+              value={assigneeFilter}
+              onChange={(e) => setAssigneeFilter(e.target.value)}
+              className={inputClassName}
+            >
+              <option value="all">Anyone</option>
+              <option value="mine">Me</option>
+              <option value="unassigned">Nobody</option>
+              {reviewers.filter(reviewer => reviewer.user_id !== currentUserId).map(reviewer => (
+                <option key={reviewer.user_id} value={reviewer.user_id}>{reviewer.email}</option>
+              ))}
+            </select>
+          </div>
+
+          {shown.length === 0 ? (
+            <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+              <CheckCircle className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+              <p>{status === 'open' ? 'Nothing waiting for review' : 'No resolved flags'}</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {shown.map(flag => {
+                const overdue = isOverdue(flag);
+                const expanded = expandedId === flag.id;
+                const dueIn = flag.due_at ? new Date(flag.due_at).getTime() - now : null;
+
+                return (
+                  <div
+                    key={flag.id}
+                    className={`p-4 rounded-lg border ${
+                      overdue
+                        ? 'border-red-300 bg-red-50 dark:border-red-800 dark:bg-red-900/20'
+                        : 'border-gray-200 bg-gray-50 dark:border-gray-700 dark:bg-gray-800'
+                    }`}
+                  >
+                    <div className="flex flex-wrap items-start justify-between gap-4">
+                      <div className="space-y-1">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <Badge className={PRIORITY_CLASSES[flag.priority]}>{flag.priority}</Badge>
+                          <Badge variant="outline">{flag.flag_type.replace('_', ' ')}</Badge>
+                          <span className="font-medium text-gray-900 dark:text-white">{flag.session_title || 'Untitled session'}</span>
+                          {flag.session_type && (
+                            <span className="text-xs text-gray-500 dark:text-gray-400">{flag.session_type}</span>
+                          )}
+                        </div>
+                        <p className="text-sm text-gray-700 dark:text-gray-300">{flag.flag_reason}</p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          {flag.user_email || 'Unknown user'} · raised {new Date(flag.created_at).toLocaleString()}
+                          {flag.resolved && flag.resolved_at && ` · resolved ${new Date(flag.resolved_at).toLocaleString()}`}
+                        </p>
+                        {!flag.resolved && dueIn !== null && (
+                          <p className={`flex items-center text-xs font-medium ${overdue ? 'text-red-700 dark:text-red-300' : 'text-gray-600 dark:text-gray-400'}`}>
+                            {overdue ? <AlertTriangle className="h-3 w-3 mr-1" /> : <Clock className="h-3 w-3 mr-1" />}
+                            {overdue ? `Overdue by ${formatDuration(dueIn)}` : `Due in ${formatDuration(dueIn)}`}
+                          </p>
+                        )}
+                        {flag.resolution_note && (
+                          <p className="text-sm text-green-700 dark:text-green-300">Resolution: {flag.resolution_note}</p>
+                        )}
+                      </div>
+
+                      <div className="flex flex-wrap items-center gap-2">
+                        {!flag.resolved && (
+                          <>
+                            <select
+                              aria-label="Assignee"
+                              value={flag.assigned_to || ''}
+                              onChange={(e) => updateFlag(flag.id, { action: 'assign', assignedTo: e.target.value || null })}
+                              disabled={updating}
+                              className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-900 dark:text-white"
+                            >
+                              <option value="">Unassigned</option>
+                              {reviewers.map(reviewer => (
+                                <option key={reviewer.user_id} value={reviewer.user_id}>
+                                  {reviewer.user_id === currentUserId ? `Me (${reviewer.email})` : reviewer.email}
+                                </option>
+                              ))}
+                            </select>
+                            <select
+                              aria-label="Priority"
+                              value={flag.priority}
+                              onChange={(e) => updateFlag(flag.id, { action: 'priority', priority: e.target.value })}
+                              disabled={updating}
+                              className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-900 dark:text-white"
+                            >
+                              {PRIORITIES.map(priority => <option key={priority} value={priority}>{priority}</option>)}
+                            </select>
+                          </>
+                        )}
+                        <Button size="sm" variant="outline" onClick={() => toggleExpanded(flag.id)}>
+                          {expanded ? <ChevronUp className="h-4 w-4 mr-1" /> : <ChevronDown className="h-4 w-4 mr-1" />}
+                          {flag.resolved ? 'History' : 'Work on'}
+                        </Button>
+                      </div>
+                    </div>
+
+                    {expanded && (
+                      <div className="mt-4 space-y-4 border-t border-gray-200 dark:border-gray-700 pt-4">
+                        <div className="space-y-2">
+                          {history.map(event => (
+                            <div key={event.id} className="text-sm">
+                              <span className="font-medium text-gray-900 dark:text-white">{EVENT_LABELS[event.action]}</span>
+                              <span className="text-xs text-gray-500 dark:text-gray-400">
+                                {' '}· {event.actor_email || 'System'} · {new Date(event.created_at).toLocaleString()}
+                              </span>
+                              {event.action === 'priority_changed' && (
+                                <span className="text-gray-600 dark:text-gray-400"> {String(event.details.from)} → {String(event.details.to)}</span>
+                              )}
+                              {event.action === 'assigned' && (
+                                <span className="text-gray-600 dark:text-gray-400">
+                                  {' '}to {reviewers.find(reviewer => reviewer.user_id === event.details.to)?.email || 'a former admin'}
+                                </span>
+                              )}
+                              {event.note && <p className="text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{event.note}</p>}
+                            </div>
+                          ))}
+                        </div>
+
+                        <div className="space-y-2">
+                          <label htmlFor={`flag-note-${flag.id}`} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                            {flag.resolved ? 'Reason for reopening' : 'Note or resolution'}
+                          </label>
+                          <textarea
+                            id={`flag-note-${flag.id}`}
+                            value={note}
+                            onChange={(e) => setNote(e.target.value)}
+                            rows={3}
+                            maxLength={1000}
+                            className={inputClassName}
+                          />
+                          <div className="flex items-center gap-2">
+                            {flag.resolved ? (
+                              <Button size="sm" onClick={() => updateFlag(flag.id, { action: 'reopen', note })} disabled={updating || !note.trim()}>
+                                <RotateCcw className="h-4 w-4 mr-1" />
+                                Reopen
+                              </Button>
+                            ) : (
+                              <>
+                                <Button size="sm" variant="outline" onClick={() => updateFlag(flag.id, { action: 'note', note })} disabled={updating || !note.trim()}>
+                                  Add Note
+                                </Button>
+                                <Button size="sm" onClick={() => updateFlag(flag.id, { action: 'resolve', note })} disabled={updating || !note.trim()}>
+                                  <CheckCircle className="h-4 w-4 mr-1" />
+                                  Resolve
+                                </Button>
+                              </>
+                            )}
+                          </div>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default function ReviewQueuePage() {
+  return (
+    <Suspense fallback={<div>Loading...</div>}>
+      <ReviewQueueContent />
+    </Suspense>
+  );
+}
@@ -4,11 +4,12 @@ import { useEffect, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Shield, AlertTriangle, Users, Activity, Clock, Eye } from 'lucide-react';
+import { Shield, AlertTriangle, Users, Activity, Clock, Eye, EyeOff } from 'lucide-react';
 import { createClient } from '@/lib/supabase/client';
 import { APILogger } from '@/lib/security/api-logger';
 import { RateLimiter } from '@/lib/security/rate-limiter';
 import { IPSecurity } from '@/lib/security/ip-security';
+import { FieldEncryptionPanel } from '@/components/admin/FieldEncryptionPanel';
 
 interface SecurityStats {
   totalRequests24h: number;
@@ -316,6 +317,8 @@ export default function SecurityDashboard() {
         </CardContent>
       </Card>
 
+      <FieldEncryptionPanel />
+
       {/* Quick Actions */}
       <Card>
         <CardHeader>
@@ -325,7 +328,7 @@ export default function SecurityDashboard() {
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-5">
             <Button variant="outline" onClick={() => window.location.href = '/admin/security/logs'}>
               <Eye className="h-4 w-4 mr-2" />
               View API Logs
@@ -338,6 +341,10 @@ export default function SecurityDashboard() {
               <AlertTriangle className="h-4 w-4 mr-2" />
               Rate Limits
             </Button>
+            <Button variant="outline" onClick={() => window.location.href = '/admin/security/redaction'}>
+              <EyeOff className="h-4 w-4 mr-2" />
+              PII Redaction
+            </Button>
             <Button variant="outline" onClick={loadSecurityData}>
               <Activity className="h-4 w-4 mr-2" />
               Refresh Data
@@ -0,0 +1,243 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { EyeOff, FileText, RefreshCw, Save } from 'lucide-react';
+import { createClient } from '@/lib/supabase/client';
+import { RedactionCategory, RedactionReportEntry, RedactionSettings } from '@/types';
+
+const CATEGORY_LABELS: Record<RedactionCategory, string> = {
+  name: 'Names of the people in the session',
+  email: 'Email addresses',
+  phone: 'Phone numbers',
+  address: 'Street addresses and postcodes',
+  id_number: 'Social security, national insurance and card numbers',
+  custom: 'Custom terms',
+};
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 dark:bg-gray-900 dark:text-white';
+
+export default function RedactionPage() {
+  const [settings, setSettings] = useState<RedactionSettings | null>(null);
+  const [categories, setCategories] = useState<RedactionCategory[]>([]);
+  const [reports, setReports] = useState<RedactionReportEntry[]>([]);
+  const [enabled, setEnabled] = useState(true);
+  const [selected, setSelected] = useState<RedactionCategory[]>([]);
+  const [customTerms, setCustomTerms] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const supabase = createClient();
+
+  useEffect(() => {
+    fetchRedaction();
+  }, []);
+
+  const authorizedFetch = async (url: string, init?: RequestInit) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      throw new Error('You must be logged in');
+    }
+
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Request failed');
+    }
+    return result;
+  };
+
+  const applySettings = (saved: RedactionSettings) => {
+    setSettings(saved);
+    setEnabled(saved.enabled);
+    setSelected(saved.categories);
+    setCustomTerms(saved.custom_terms.join('\n'));
+  };
+
+  const fetchRedaction = async () => {
+    try {
+      const result = await authorizedFetch('/api/admin/redaction');
+      applySettings(result.settings);
+      setCategories(result.categories);
+      setReports(result.reports);
+    } catch (error) {
+      console.error('Error fetching redaction settings:', error);
+      alert(`Failed to load redaction settings: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveSettings = async () => {
+    if (!enabled && !confirm('Turn off redaction? Messages will be sent to AI providers with personal details intact.')) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const result = await authorizedFetch('/api/admin/redaction', {
+        method: 'PUT',
+        body: JSON.stringify({
+          enabled,
+          categories: selected,
+          customTerms: customTerms.split('\n').map(term => term.trim()).filter(Boolean),
+        }),
+      });
+      applySettings(result.settings);
+    } catch (error) {
+      alert(`Failed to save redaction settings: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white">PII Redaction</h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-2">
+          Personal details are replaced with placeholders such as [EMAIL_1] before anything is sent to an AI provider, and put back in the reply before users see it. Crisis line numbers are never redacted.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <EyeOff className="h-5 w-5 mr-2" />
+            Settings
+          </CardTitle>
+          <CardDescription>
+            {settings?.updated_at
+              ? `Last changed ${new Date(settings.updated_at).toLocaleString()}`
+              : 'Defaults: every detector on, no custom terms'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={enabled}
+              onChange={(e) => setEnabled(e.target.checked)}
+            />
+            <span>Redact before sending to AI providers</span>
+          </label>
+
+          <div className="space-y-2">
+            {categories.map(category => (
+              <label key={category} className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(category)}
+                  disabled={!enabled}
+                  onChange={(e) => setSelected(e.target.checked
+                    ? [...selected, category]
+                    : selected.filter(item => item !== category))}
+                />
+                <span>{CATEGORY_LABELS[category]}</span>
+              </label>
+            ))}
+          </div>
+
+          <div>
+            <label htmlFor="redaction-custom-terms" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Custom terms, one per line
+            </label>
+            <textarea
+              id="redaction-custom-terms"
+              value={customTerms}
+              onChange={(e) => setCustomTerms(e.target.value)}
+              disabled={!enabled}
+              rows={4}
+              placeholder="Names of local clinics, employers or schools"
+              className={inputClassName}
+            />
+          </div>
+
+          <Button onClick={saveSettings} disabled={saving}>
+            <Save className="h-4 w-4 mr-2" />
+            {saving ? 'Saving...' : 'Save Settings'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center">
+                <FileText className="h-5 w-5 mr-2" />
+                Redaction Log
+              </CardTitle>
+              <CardDescription>
+                AI calls that redacted something, most recent first. Only counts are kept, never the values.
+              </CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={fetchRedaction}>
+              <RefreshCw className="h-4 w-4 mr-1" />
+              Refresh
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {reports.length === 0 ? (
+            <p className="text-gray-500 dark:text-gray-400 text-sm">Nothing has been redacted yet</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                    <th className="py-2 pr-4 font-medium">Time</th>
+                    <th className="py-2 pr-4 font-medium">User</th>
+                    <th className="py-2 pr-4 font-medium">Purpose</th>
+                    <th className="py-2 pr-4 font-medium">Redacted</th>
+                    <th className="py-2 pr-4 font-medium text-right">Sent</th>
+                    <th className="py-2 pr-4 font-medium text-right">Restored</th>
+                    <th className="py-2 font-medium text-right">Unknown</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {reports.map(report => (
+                    <tr key={report.id} className="border-b border-gray-100 dark:border-gray-800">
+                      <td className="py-2 pr-4 text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                        {new Date(report.created_at).toLocaleString()}
+                      </td>
+                      <td className="py-2 pr-4 text-gray-900 dark:text-white">
+                        {report.user_email || (report.user_id ? 'Deleted user' : 'Unattributed')}
+                      </td>
+                      <td className="py-2 pr-4 text-gray-600 dark:text-gray-400">{report.purpose}</td>
+                      <td className="py-2 pr-4">
+                        <div className="flex flex-wrap gap-1">
+                          {Object.entries(report.counts).map(([category, count]) => (
+                            <Badge key={category} variant="secondary">{category} × {count}</Badge>
+                          ))}
+                        </div>
+                      </td>
+                      <td className="py-2 pr-4 text-right text-gray-600 dark:text-gray-400">{report.placeholders_sent}</td>
+                      <td className="py-2 pr-4 text-right text-gray-600 dark:text-gray-400">{report.placeholders_restored}</td>
+                      <td className="py-2 text-right text-gray-600 dark:text-gray-400">{report.unknown_placeholders}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -28,10 +29,11 @@ import {
   Flag,
   AlertTriangle,
   FileText,
-  Settings
+  Settings,
+  Wrench
 } from 'lucide-react';
 import { createClient } from '@/lib/supabase/client';
-import { User, WellnessSession, SessionFlag, UserPreference, AISessionNote } from '@/types';
+import { User, WellnessSession, SessionFlag, UserPreference, AISessionNote, ToolInvocation } from '@/types';
 
 interface UserStats {
   totalSessions: number;
@@ -55,6 +57,10 @@ export default function AdminSupportPage() {
   const [sessionFlags, setSessionFlags] = useState<SessionFlag[]>([]);
   const [userPreferences, setUserPreferences] = useState<Record<string, UserPreference[]>>({});
   const [aiNotes, setAiNotes] = useState<Record<string, AISessionNote[]>>({});
+  const [toolActivitySessionId, setToolActivitySessionId] = useState('');
+  const [toolInvocations, setToolInvocations] = useState<ToolInvocation[]>([]);
+  const [expandedInvocation, setExpandedInvocation] = useState<string | null>(null);
+  const toolActivityRef = useRef<HTMLDivElement>(null);
   const [suspending, setSuspending] = useState(false);
   const [showSuspendModal, setShowSuspendModal] = useState(false);
   const [selectedUserForSuspension, setSelectedUserForSuspension] = useState<User | null>(null);
@@ -251,18 +257,25 @@ export default function AdminSupportPage() {
 
   const fetchAISessionNotes = async (sessionId: string) => {
     try {
-      const { data, error } = await supabase
-        .from('ai_session_notes')
-        .select('*')
-        .eq('session_id', sessionId)
-        .order('created_at', { ascending: false });
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        return;
+      }
 
-      if (error) {
-        console.error('Error fetching AI session notes:', error);
+      // Notes are encrypted at rest and decrypted by the server
+      const response = await fetch(`/api/admin/session-notes?sessionId=${encodeURIComponent(sessionId)}`, {
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        console.error('Error fetching AI session notes:', result.error);
       } else {
         setAiNotes(prev => ({
           ...prev,
-          [sessionId]: data || []
+          [sessionId]: result.notes
         }));
       }
     } catch (error) {
@@ -270,6 +283,43 @@ export default function AdminSupportPage() {
     }
   };
 
+  const fetchToolInvocations = async (sessionId: string) => {
+    setToolActivitySessionId(sessionId);
+    setExpandedInvocation(null);
+    if (!sessionId) {
+      setToolInvocations([]);
+      return;
+    }
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        return;
+      }
+
+      // Arguments and results are encrypted at rest and decrypted by the server
+      const response = await fetch(`/api/admin/tool-invocations?sessionId=${encodeURIComponent(sessionId)}`, {
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        console.error('Error fetching tool invocations:', result.error);
+      } else {
+        setToolInvocations(result.invocations);
+      }
+    } catch (error) {
+      console.error('Error:', error);
+    }
+  };
+
+  const showToolActivity = (sessionId: string) => {
+    fetchToolInvocations(sessionId);
+    toolActivityRef.current?.scrollIntoView({ behavior: 'smooth' });
+  };
+
   const unlockSession = async (sessionId: string) => {
     setUpdating(true);
     try {
@@ -299,33 +349,6 @@ export default function AdminSupportPage() {
     }
   };
 
-  const resolveFlag = async (flagId: string) => {
-    setUpdating(true);
-    try {
-      const { error } = await supabase
-        .from('session_flags')
-        .update({
-          resolved: true,
-          resolved_at: new Date().toISOString(),
-          resolved_by: (await supabase.auth.getUser()).data.user?.id
-        })
-        .eq('id', flagId);
-
-      if (error) {
-        console.error('Error resolving flag:', error);
-        alert('Failed to resolve flag');
-      } else {
-        alert('Flag resolved successfully');
-        fetchSessionFlags();
-      }
-    } catch (error) {
-      console.error('Error:', error);
-      alert('Failed to resolve flag');
-    } finally {
-      setUpdating(false);
-    }
-  };
-
   const suspendUser = async (userId: string, reason: string, notes: string) => {
     setSuspending(true);
     try {
@@ -968,6 +991,14 @@ export default function AdminSupportPage() {
                           </div>
                         </div>
                         <div className="flex space-x-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => showToolActivity(session.session_id)}
+                          >
+                            <Wrench className="h-4 w-4 mr-1" />
+                            Tool Activity
+                          </Button>
                           {session.can_unlock && (
                             <Button
                               size="sm"
@@ -1004,7 +1035,7 @@ export default function AdminSupportPage() {
             <CardHeader>
               <CardTitle>Session Flags</CardTitle>
               <CardDescription>
-                Sessions flagged for review, escalation, or check-ins
+                Sessions flagged for review, escalation, or check-ins. Assign and resolve them in the review queue.
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -1042,16 +1073,21 @@ export default function AdminSupportPage() {
                           </div>
                         </div>
                         <div className="flex space-x-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => showToolActivity(flag.session_id)}
+                          >
+                            <Wrench className="h-4 w-4 mr-1" />
+                            Tool Activity
+                          </Button>
                           {!flag.resolved && (
-                            <Button
-                              size="sm"
-                              variant="outline"
-                              onClick={() => resolveFlag(flag.id)}
-                              disabled={updating}
-                            >
-                              <CheckCircle className="h-4 w-4 mr-1" />
-                              Resolve
-                            </Button>
+                            <Link href={`/admin/review-queue?id=${flag.id}`}>
+                              <Button size="sm" variant="outline">
+                                <CheckCircle className="h-4 w-4 mr-1" />
+                                Review
+                              </Button>
+                            </Link>
                           )}
                           {flag.resolved && (
                             <Badge variant="secondary">
@@ -1072,6 +1108,81 @@ export default function AdminSupportPage() {
               </div>
             </CardContent>
           </Card>
+          {/* AI Tool Activity */}
+          <Card ref={toolActivityRef}>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Wrench className="h-5 w-5 mr-2" />
+                AI Tool Activity
+              </CardTitle>
+              <CardDescription>
+                Every tool the AI ran in a session, in order, with its arguments, result and latency
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <select
+                value={toolActivitySessionId}
+                onChange={(e) => fetchToolInvocations(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 dark:bg-gray-900 dark:text-white"
+              >
+                <option value="">Select a session</option>
+                {sessions.map((session) => (
+                  <option key={session.session_id} value={session.session_id}>
+                    {session.title} ({session.session_type}, {formatDate(session.created_at)})
+                  </option>
+                ))}
+              </select>
+
+              {toolActivitySessionId && (
+                <div className="space-y-2">
+                  {toolInvocations.map((invocation) => (
+                    <div key={invocation.id} className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                      <div
+                        className="flex items-center justify-between cursor-pointer"
+                        onClick={() => setExpandedInvocation(expandedInvocation === invocation.id ? null : invocation.id)}
+                      >
+                        <div className="flex items-center space-x-2">
+                          {invocation.success ? (
+                            <CheckCircle className="h-4 w-4 text-green-600" />
+                          ) : (
+                            <XCircle className="h-4 w-4 text-red-600" />
+                          )}
+                          <span className="font-mono text-sm text-gray-900 dark:text-white">{invocation.tool_name}</span>
+                        </div>
+                        <span className="text-xs text-gray-500 dark:text-gray-400">
+                          {invocation.latency_ms}ms | {formatDate(invocation.created_at)}
+                        </span>
+                      </div>
+                      {expandedInvocation === invocation.id && (
+                        <div className="mt-2 space-y-2 text-xs">
+                          <div>
+                            <p className="font-medium text-gray-700 dark:text-gray-300">Arguments</p>
+                            <pre className="mt-1 p-2 bg-white dark:bg-gray-900 rounded whitespace-pre-wrap break-words text-gray-600 dark:text-gray-400">
+                              {JSON.stringify(invocation.arguments, null, 2)}
+                            </pre>
+                          </div>
+                          <div>
+                            <p className="font-medium text-gray-700 dark:text-gray-300">Result</p>
+                            <pre className={`mt-1 p-2 bg-white dark:bg-gray-900 rounded whitespace-pre-wrap break-words ${
+                              invocation.success ? 'text-gray-600 dark:text-gray-400' : 'text-red-600'
+                            }`}>
+                              {invocation.result}
+                            </pre>
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                  {toolInvocations.length === 0 && (
+                    <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+                      <Wrench className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+                      <p>No tools were run in this session</p>
+                    </div>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
         </>
       )}
     </div>
@@ -0,0 +1,323 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { RotateCcw, Save, Wrench } from 'lucide-react';
+import { createClient } from '@/lib/supabase/client';
+import { ToolConstraints, ToolPolicy } from '@/types';
+
+type ToolSummary = {
+  name: string;
+  description: string;
+  arguments: { name: string; enum?: string[] }[];
+};
+
+// Editable form of a policy; an enum argument with every value allowed is unconstrained
+type PolicyDraft = {
+  enabled: boolean;
+  maxLength: Record<string, string>;
+  allowedValues: Record<string, string[]>;
+};
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 dark:bg-gray-900 dark:text-white';
+
+export default function ToolPoliciesPage() {
+  const [policies, setPolicies] = useState<ToolPolicy[]>([]);
+  const [tools, setTools] = useState<Record<string, ToolSummary[]>>({});
+  const [sessionTypes, setSessionTypes] = useState<ToolPolicy['session_type'][]>([]);
+  const [tiers, setTiers] = useState<ToolPolicy['subscription_tier'][]>([]);
+  const [sessionType, setSessionType] = useState<ToolPolicy['session_type']>('individual');
+  const [tier, setTier] = useState<ToolPolicy['subscription_tier']>('free');
+  const [drafts, setDrafts] = useState<Record<string, PolicyDraft>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<string | null>(null);
+  const supabase = createClient();
+
+  useEffect(() => {
+    fetchPolicies();
+  }, []);
+
+  const authorizedFetch = async (url: string, init?: RequestInit) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      throw new Error('You must be logged in');
+    }
+
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Request failed');
+    }
+    return result;
+  };
+
+  const fetchPolicies = async () => {
+    try {
+      const result = await authorizedFetch('/api/admin/tool-policies');
+      setPolicies(result.policies);
+      setTools(result.tools);
+      setSessionTypes(result.sessionTypes);
+      setTiers(result.tiers);
+      setDrafts({});
+    } catch (error) {
+      console.error('Error fetching tool policies:', error);
+      alert(`Failed to load tool policies: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const findPolicy = (toolName: string) => policies.find(policy =>
+    policy.session_type === sessionType && policy.subscription_tier === tier && policy.tool_name === toolName
+  );
+
+  const getDraft = (tool: ToolSummary): PolicyDraft => {
+    if (drafts[tool.name]) {
+      return drafts[tool.name];
+    }
+
+    const policy = findPolicy(tool.name);
+    const constraints = policy?.constraints || {};
+    return {
+      enabled: policy?.enabled ?? true,
+      maxLength: Object.fromEntries(
+        Object.entries(constraints.maxLength || {}).map(([arg, max]) => [arg, String(max)])
+      ),
+      allowedValues: Object.fromEntries(
+        tool.arguments.filter(arg => arg.enum).map(arg => [arg.name, constraints.allowedValues?.[arg.name] || arg.enum!])
+      ),
+    };
+  };
+
+  const updateDraft = (tool: ToolSummary, changes: Partial<PolicyDraft>) => {
+    setDrafts({ ...drafts, [tool.name]: { ...getDraft(tool), ...changes } });
+  };
+
+  const changeScope = (nextSessionType: ToolPolicy['session_type'], nextTier: ToolPolicy['subscription_tier']) => {
+    setSessionType(nextSessionType);
+    setTier(nextTier);
+    setDrafts({});
+  };
+
+  const savePolicy = async (tool: ToolSummary) => {
+    const draft = getDraft(tool);
+    const constraints: ToolConstraints = { maxLength: {}, allowedValues: {} };
+
+    for (const [arg, value] of Object.entries(draft.maxLength)) {
+      if (value.trim()) {
+        const max = Number(value);
+        if (!Number.isInteger(max) || max < 1) {
+          alert(`Max length for ${arg} must be a positive whole number`);
+          return;
+        }
+        constraints.maxLength![arg] = max;
+      }
+    }
+
+    for (const arg of tool.arguments.filter(arg => arg.enum)) {
+      const allowed = draft.allowedValues[arg.name] || arg.enum!;
+      if (allowed.length === 0) {
+        alert(`Allow at least one value for ${arg.name}, or disable the tool`);
+        return;
+      }
+      if (allowed.length < arg.enum!.length) {
+        constraints.allowedValues![arg.name] = allowed;
+      }
+    }
+
+    setSaving(tool.name);
+    try {
+      await authorizedFetch('/api/admin/tool-policies', {
+        method: 'PUT',
+        body: JSON.stringify({ sessionType, tier, toolName: tool.name, enabled: draft.enabled, constraints }),
+      });
+      await fetchPolicies();
+    } catch (error) {
+      alert(`Failed to save policy: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const resetPolicy = async (tool: ToolSummary) => {
+    const policy = findPolicy(tool.name);
+    if (!policy) {
+      setDrafts(Object.fromEntries(Object.entries(drafts).filter(([name]) => name !== tool.name)));
+      return;
+    }
+
+    setSaving(tool.name);
+    try {
+      await authorizedFetch(`/api/admin/tool-policies?id=${policy.id}`, { method: 'DELETE' });
+      await fetchPolicies();
+    } catch (error) {
+      alert(`Failed to reset policy: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const scopeTools = tools[sessionType] || [];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Tool Policies</h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-2">
+          Choose which tools the AI may use in each session type and subscription tier, and limit their arguments. Calls to a disabled tool, or with arguments outside the limits, are rejected even if the model makes them.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Wrench className="h-5 w-5 mr-2" />
+            Tools
+          </CardTitle>
+          <CardDescription>
+            Tools without a policy are enabled with no extra limits
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="policy-session-type" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Session type
+              </label>
+              <select
+                id="policy-session-type"
+                value={sessionType}
+                onChange={(e) => changeScope(e.target.value as ToolPolicy['session_type'], tier)}
+                className={`${inputClassName} capitalize`}
+              >
+                {sessionTypes.map(type => <option key={type} value={type}>{type}</option>)}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="policy-tier" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Subscription tier
+              </label>
+              <select
+                id="policy-tier"
+                value={tier}
+                onChange={(e) => changeScope(sessionType, e.target.value as ToolPolicy['subscription_tier'])}
+                className={`${inputClassName} capitalize`}
+              >
+                {tiers.map(value => <option key={value} value={value}>{value}</option>)}
+              </select>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            {scopeTools.map(tool => {
+              const draft = getDraft(tool);
+              const policy = findPolicy(tool.name);
+              return (
+                <div key={tool.name} className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg space-y-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <div className="flex items-center space-x-2">
+                        <span className="font-mono text-sm text-gray-900 dark:text-white">{tool.name}</span>
+                        {policy ? (
+                          <Badge variant={policy.enabled ? 'default' : 'destructive'}>
+                            {policy.enabled ? 'Custom' : 'Disabled'}
+                          </Badge>
+                        ) : (
+                          <Badge variant="outline">Default</Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{tool.description}</p>
+                    </div>
+                    <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300 whitespace-nowrap">
+                      <input
+                        type="checkbox"
+                        checked={draft.enabled}
+                        onChange={(e) => updateDraft(tool, { enabled: e.target.checked })}
+                      />
+                      <span>Enabled</span>
+                    </label>
+                  </div>
+
+                  {draft.enabled && tool.arguments.length > 0 && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                      {tool.arguments.map(arg => arg.enum ? (
+                        <div key={arg.name}>
+                          <span className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+                            Allowed {arg.name}
+                          </span>
+                          <div className="flex flex-wrap gap-3">
+                            {arg.enum.map(value => {
+                              const allowed = draft.allowedValues[arg.name] || arg.enum!;
+                              return (
+                                <label key={value} className="flex items-center space-x-1 text-xs text-gray-700 dark:text-gray-300">
+                                  <input
+                                    type="checkbox"
+                                    checked={allowed.includes(value)}
+                                    onChange={(e) => updateDraft(tool, {
+                                      allowedValues: {
+                                        ...draft.allowedValues,
+                                        [arg.name]: e.target.checked ? [...allowed, value] : allowed.filter(item => item !== value)
+                                      }
+                                    })}
+                                  />
+                                  <span className="font-mono">{value}</span>
+                                </label>
+                              );
+                            })}
+                          </div>
+                        </div>
+                      ) : (
+                        <div key={arg.name}>
+                          <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+                            Max {arg.name} length
+                          </label>
+                          <input
+                            type="number"
+                            min={1}
+                            value={draft.maxLength[arg.name] || ''}
+                            onChange={(e) => updateDraft(tool, { maxLength: { ...draft.maxLength, [arg.name]: e.target.value } })}
+                            placeholder="No limit"
+                            className={inputClassName}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  <div className="flex items-center gap-2">
+                    <Button size="sm" onClick={() => savePolicy(tool)} disabled={saving === tool.name}>
+                      <Save className="h-4 w-4 mr-1" />
+                      Save
+                    </Button>
+                    {(policy || drafts[tool.name]) && (
+                      <Button size="sm" variant="outline" onClick={() => resetPolicy(tool)} disabled={saving === tool.name}>
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        {policy ? 'Reset to Default' : 'Discard Changes'}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
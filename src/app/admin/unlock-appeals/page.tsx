@@ -0,0 +1,315 @@
+'use client';
+
+import { Suspense, useEffect, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { CheckCircle, ChevronDown, ChevronUp, Lock, Unlock } from 'lucide-react';
+import { createClient } from '@/lib/supabase/client';
+import { SessionMessage, ToolInvocation, UnlockAppealReview, UnlockAppealStatus } from '@/types';
+
+type AppealContext = {
+  transcript: SessionMessage[];
+  lockCall: ToolInvocation | null;
+};
+
+const STATUS_LABELS: Record<UnlockAppealStatus, string> = {
+  pending: 'Pending',
+  unlocked: 'Unlocked',
+  unlocked_with_conditions: 'Unlocked with conditions',
+  kept_locked: 'Kept locked',
+};
+
+const STATUS_CLASSES: Record<UnlockAppealStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
+  unlocked: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  unlocked_with_conditions: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300',
+  kept_locked: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+};
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 dark:bg-gray-900 dark:text-white';
+
+function UnlockAppealsContent() {
+  const searchParams = useSearchParams();
+  const [status, setStatus] = useState<'pending' | 'decided'>('pending');
+  const [appeals, setAppeals] = useState<UnlockAppealReview[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(searchParams.get('id'));
+  const [appealContext, setAppealContext] = useState<AppealContext | null>(null);
+  const [note, setNote] = useState('');
+  const [conditions, setConditions] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [deciding, setDeciding] = useState(false);
+  const supabase = createClient();
+
+  useEffect(() => {
+    fetchAppeals(status);
+  }, [status]);
+
+  useEffect(() => {
+    if (expandedId) {
+      fetchAppealContext(expandedId);
+    }
+  }, [expandedId]);
+
+  const authorizedFetch = async (url: string, init?: RequestInit) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      throw new Error('You must be logged in');
+    }
+
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Request failed');
+    }
+    return result;
+  };
+
+  const fetchAppeals = async (appealStatus: 'pending' | 'decided') => {
+    try {
+      const result = await authorizedFetch(`/api/admin/unlock-appeals?status=${appealStatus}`);
+      setAppeals(result.appeals);
+    } catch (error) {
+      console.error('Error fetching unlock appeals:', error);
+      alert(`Failed to load unlock appeals: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchAppealContext = async (appealId: string) => {
+    try {
+      const result = await authorizedFetch(`/api/admin/unlock-appeals?id=${appealId}`);
+      setAppealContext({ transcript: result.transcript, lockCall: result.lockCall });
+    } catch (error) {
+      console.error('Error fetching appeal transcript:', error);
+      setAppealContext(null);
+    }
+  };
+
+  const toggleExpanded = (appealId: string) => {
+    setNote('');
+    setConditions('');
+    setAppealContext(null);
+    setExpandedId(expandedId === appealId ? null : appealId);
+  };
+
+  const decide = async (appeal: UnlockAppealReview, decision: Exclude<UnlockAppealStatus, 'pending'>) => {
+    const confirmation = decision === 'kept_locked'
+      ? 'Keep this session locked? The user will be told, with your note.'
+      : 'Unlock this session? The user will be able to continue it.';
+    if (!confirm(confirmation)) {
+      return;
+    }
+
+    setDeciding(true);
+    try {
+      await authorizedFetch('/api/admin/unlock-appeals', {
+        method: 'PUT',
+        body: JSON.stringify({ id: appeal.id, decision, note, conditions }),
+      });
+      setNote('');
+      setConditions('');
+      setExpandedId(null);
+      await fetchAppeals(status);
+    } catch (error) {
+      alert(`Failed to decide appeal: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setDeciding(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Unlock Appeals</h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-2">
+          Users asking for a session the AI locked to be reopened. Read the conversation around the lock, then unlock the session, keep it locked, or unlock it with conditions the user and the AI are both told about.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center">
+                <Unlock className="h-5 w-5 mr-2" />
+                {status === 'pending' ? 'Pending Appeals' : 'Recently Decided'}
+              </CardTitle>
+              <CardDescription>
+                Each appeal is decided once; the decision, note and admin are kept with it
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button size="sm" variant={status === 'pending' ? 'default' : 'outline'} onClick={() => setStatus('pending')}>
+                Pending
+              </Button>
+              <Button size="sm" variant={status === 'decided' ? 'default' : 'outline'} onClick={() => setStatus('decided')}>
+                Decided
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {appeals.length === 0 ? (
+            <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+              <CheckCircle className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+              <p>{status === 'pending' ? 'No appeals waiting for a decision' : 'No decided appeals'}</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {appeals.map(appeal => {
+                const expanded = expandedId === appeal.id;
+
+                return (
+                  <div
+                    key={appeal.id}
+                    className="p-4 rounded-lg border border-gray-200 bg-gray-50 dark:border-gray-700 dark:bg-gray-800"
+                  >
+                    <div className="flex flex-wrap items-start justify-between gap-4">
+                      <div className="space-y-1">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <Badge className={STATUS_CLASSES[appeal.status]}>{STATUS_LABELS[appeal.status]}</Badge>
+                          {appeal.lock_reason && (
+                            <Badge variant="outline">{appeal.lock_reason.replace(/_/g, ' ')}</Badge>
+                          )}
+                          <span className="font-medium text-gray-900 dark:text-white">{appeal.session_title || 'Untitled session'}</span>
+                        </div>
+                        <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{appeal.statement}</p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          {appeal.user_email || 'Unknown user'} · appealed {new Date(appeal.created_at).toLocaleString()}
+                          {appeal.locked_at && ` · locked ${new Date(appeal.locked_at).toLocaleString()}`}
+                        </p>
+                        {appeal.decided_at && (
+                          <p className="text-xs text-gray-500 dark:text-gray-400">
+                            Decided by {appeal.decided_by_email || 'a former admin'} · {new Date(appeal.decided_at).toLocaleString()}
+                            {appeal.user_notified_at ? ' · seen by the user' : ' · not yet seen by the user'}
+                          </p>
+                        )}
+                        {appeal.decision_note && (
+                          <p className="text-sm text-gray-700 dark:text-gray-300">Note: {appeal.decision_note}</p>
+                        )}
+                        {appeal.conditions && (
+                          <p className="text-sm text-blue-700 dark:text-blue-300">Conditions: {appeal.conditions}</p>
+                        )}
+                      </div>
+                      <Button size="sm" variant="outline" onClick={() => toggleExpanded(appeal.id)}>
+                        {expanded ? <ChevronUp className="h-4 w-4 mr-1" /> : <ChevronDown className="h-4 w-4 mr-1" />}
+                        {appeal.status === 'pending' ? 'Review' : 'Transcript'}
+                      </Button>
+                    </div>
+
+                    {expanded && (
+                      <div className="mt-4 space-y-4 border-t border-gray-200 dark:border-gray-700 pt-4">
+                        {!appealContext ? (
+                          <p className="text-sm text-gray-500 dark:text-gray-400">Loading transcript...</p>
+                        ) : (
+                          <>
+                            {appealContext.lockCall && (
+                              <div className="text-sm">
+                                <p className="flex items-center font-medium text-gray-900 dark:text-white">
+                                  <Lock className="h-4 w-4 mr-1" />
+                                  Locked by the AI · {new Date(appealContext.lockCall.created_at).toLocaleString()}
+                                </p>
+                                {typeof appealContext.lockCall.arguments.lock_message === 'string' && (
+                                  <p className="text-gray-700 dark:text-gray-300">{appealContext.lockCall.arguments.lock_message}</p>
+                                )}
+                              </div>
+                            )}
+                            <div className="max-h-96 overflow-y-auto space-y-2">
+                              {appealContext.transcript.length === 0 ? (
+                                <p className="text-sm text-gray-500 dark:text-gray-400">No messages found around the lock</p>
+                              ) : appealContext.transcript.map(message => (
+                                <div
+                                  key={message.message_id}
+                                  className={`p-2 rounded text-sm ${
+                                    message.sender_type === 'user'
+                                      ? 'bg-blue-50 dark:bg-blue-900/20'
+                                      : 'bg-white dark:bg-gray-900'
+                                  } ${appeal.locked_at && message.timestamp > appeal.locked_at ? 'opacity-60' : ''}`}
+                                >
+                                  <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">
+                                    {message.sender_type === 'user' ? 'User' : 'AI'} · {new Date(message.timestamp).toLocaleString()}
+                                  </div>
+                                  <p className="text-gray-900 dark:text-white whitespace-pre-wrap">{message.content}</p>
+                                </div>
+                              ))}
+                            </div>
+                          </>
+                        )}
+
+                        {appeal.status === 'pending' && (
+                          <div className="space-y-2">
+                            <label htmlFor={`appeal-note-${appeal.id}`} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                              Note to the user (optional)
+                            </label>
+                            <textarea
+                              id={`appeal-note-${appeal.id}`}
+                              value={note}
+                              onChange={(e) => setNote(e.target.value)}
+                              rows={2}
+                              maxLength={1000}
+                              className={inputClassName}
+                            />
+                            <label htmlFor={`appeal-conditions-${appeal.id}`} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                              Conditions (required to unlock with conditions)
+                            </label>
+                            <textarea
+                              id={`appeal-conditions-${appeal.id}`}
+                              value={conditions}
+                              onChange={(e) => setConditions(e.target.value)}
+                              rows={2}
+                              maxLength={1000}
+                              placeholder="For example: agrees to contact their therapist before the next session"
+                              className={inputClassName}
+                            />
+                            <div className="flex flex-wrap items-center gap-2">
+                              <Button size="sm" onClick={() => decide(appeal, 'unlocked')} disabled={deciding}>
+                                <Unlock className="h-4 w-4 mr-1" />
+                                Unlock
+                              </Button>
+                              <Button size="sm" variant="outline" onClick={() => decide(appeal, 'unlocked_with_conditions')} disabled={deciding || !conditions.trim()}>
+                                Unlock with Conditions
+                              </Button>
+                              <Button size="sm" variant="destructive" onClick={() => decide(appeal, 'kept_locked')} disabled={deciding}>
+                                <Lock className="h-4 w-4 mr-1" />
+                                Keep Locked
+                              </Button>
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default function UnlockAppealsPage() {
+  return (
+    <Suspense fallback={<div>Loading...</div>}>
+      <UnlockAppealsContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,487 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Activity, Clock, Coins, DollarSign, Layers, Tag, Users } from 'lucide-react';
+import { createClient } from '@/lib/supabase/client';
+import { AIModelPrice, AIUsagePurpose, AIUsageReport } from '@/types';
+
+const PERIODS = [
+  { days: 1, label: 'Last 24 hours' },
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' },
+];
+
+const PURPOSE_LABELS: Record<AIUsagePurpose, string> = {
+  chat: 'Chat replies',
+  session_summary: 'Session summaries',
+  session_metadata: 'Session titles',
+  context_summary: 'Context compaction',
+  goal_extraction: 'Goal extraction',
+  insights: 'Insights',
+};
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 dark:bg-gray-900 dark:text-white';
+
+function formatCost(usd: number): string {
+  return usd < 1 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+}
+
+export default function UsageDashboard() {
+  const [days, setDays] = useState(30);
+  const [report, setReport] = useState<AIUsageReport | null>(null);
+  const [prices, setPrices] = useState<AIModelPrice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [priceForm, setPriceForm] = useState({ model: '', input: '', output: '' });
+  const [savingPrice, setSavingPrice] = useState(false);
+  const supabase = createClient();
+
+  useEffect(() => {
+    loadUsage();
+  }, [days]);
+
+  const authorizedFetch = async (url: string, init?: RequestInit) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      throw new Error('You must be logged in');
+    }
+
+    return fetch(url, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+    });
+  };
+
+  const loadUsage = async () => {
+    try {
+      setLoading(true);
+      const response = await authorizedFetch(`/api/admin/usage?days=${days}`);
+      const result = await response.json();
+      if (!response.ok) {
+        setError(result.error || 'Failed to load AI usage');
+        return;
+      }
+      setReport(result.report);
+      setPrices(result.prices);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load AI usage');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const savePrice = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSavingPrice(true);
+    try {
+      const response = await authorizedFetch('/api/admin/usage/pricing', {
+        method: 'PUT',
+        body: JSON.stringify({
+          model: priceForm.model,
+          inputPerMillion: Number(priceForm.input),
+          outputPerMillion: Number(priceForm.output),
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save price');
+      }
+      setPriceForm({ model: '', input: '', output: '' });
+      loadUsage();
+    } catch (err) {
+      alert(`Failed to save price: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setSavingPrice(false);
+    }
+  };
+
+  const removePrice = async (model: string) => {
+    if (!confirm(`Remove the price override for ${model}?`)) return;
+
+    try {
+      const response = await authorizedFetch(`/api/admin/usage/pricing?model=${encodeURIComponent(model)}`, {
+        method: 'DELETE',
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to remove price');
+      }
+      loadUsage();
+    } catch (err) {
+      alert(`Failed to remove price: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  const editPrice = (price: AIModelPrice) => {
+    setPriceForm({
+      model: price.model,
+      input: String(price.input_per_million),
+      output: String(price.output_per_million),
+    });
+  };
+
+  if (loading && !report) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const totals = report?.totals;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-start">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">AI Usage</h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-2">
+            Tokens and estimated cost of every AI call, by subscription tier, user and model
+          </p>
+        </div>
+        <select
+          value={days}
+          onChange={(e) => setDays(Number(e.target.value))}
+          className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 dark:bg-gray-900 dark:text-white"
+        >
+          {PERIODS.map((period) => (
+            <option key={period.days} value={period.days}>
+              {period.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <Card className="border-red-200 dark:border-red-800">
+          <CardContent className="pt-6 text-sm text-red-600 dark:text-red-400">{error}</CardContent>
+        </Card>
+      )}
+
+      {report && totals && (
+        <>
+          {/* Usage Stats */}
+          <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium text-gray-600 dark:text-gray-400">
+                  Estimated Cost
+                </CardTitle>
+                <DollarSign className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-gray-900 dark:text-white">
+                  {formatCost(totals.estimated_cost_usd)}
+                </div>
+                {totals.unpriced_calls > 0 && (
+                  <p className="text-xs text-yellow-600 mt-1">
+                    {totals.unpriced_calls} calls to unpriced models not included
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium text-gray-600 dark:text-gray-400">
+                  Total Tokens
+                </CardTitle>
+                <Coins className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-gray-900 dark:text-white">
+                  {totals.total_tokens.toLocaleString()}
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  {totals.prompt_tokens.toLocaleString()} prompt • {totals.completion_tokens.toLocaleString()} completion
+                </p>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium text-gray-600 dark:text-gray-400">
+                  AI Calls
+                </CardTitle>
+                <Activity className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-gray-900 dark:text-white">
+                  {totals.calls.toLocaleString()}
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  {totals.failed_calls} failed • {totals.tool_calls} tool calls
+                </p>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium text-gray-600 dark:text-gray-400">
+                  Average Latency
+                </CardTitle>
+                <Clock className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-gray-900 dark:text-white">
+                  {(totals.avg_latency_ms / 1000).toFixed(1)}s
+                </div>
+                {totals.estimated_calls > 0 && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    {totals.estimated_calls} calls with estimated token counts
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Cost by Tier */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Layers className="h-5 w-5 mr-2" />
+                Cost by Subscription Tier
+              </CardTitle>
+              <CardDescription>
+                What each tier costs in AI calls, in total and per active user
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {report.by_tier.length === 0 ? (
+                <p className="text-gray-500 dark:text-gray-400 text-sm">No AI usage in this period</p>
+              ) : (
+                <div className="grid gap-4 md:grid-cols-3">
+                  {report.by_tier.map((tier) => (
+                    <div key={tier.subscription_tier} className="p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium text-gray-900 dark:text-white capitalize">
+                          {tier.subscription_tier}
+                        </span>
+                        <Badge variant="secondary">{tier.users} users</Badge>
+                      </div>
+                      <div className="text-2xl font-bold text-gray-900 dark:text-white mt-2">
+                        {formatCost(tier.estimated_cost_usd)}
+                      </div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        {formatCost(tier.cost_per_user_usd)} per user • {tier.calls.toLocaleString()} calls • {tier.total_tokens.toLocaleString()} tokens
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Top Users */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Users className="h-5 w-5 mr-2" />
+                Top Users by Cost
+              </CardTitle>
+              <CardDescription>
+                Users with the highest estimated AI cost in this period
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {report.by_user.length === 0 ? (
+                <p className="text-gray-500 dark:text-gray-400 text-sm">No AI usage in this period</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-600 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                        <th className="py-2 pr-4 font-medium">User</th>
+                        <th className="py-2 pr-4 font-medium">Tier</th>
+                        <th className="py-2 pr-4 font-medium text-right">Calls</th>
+                        <th className="py-2 pr-4 font-medium text-right">Tokens</th>
+                        <th className="py-2 pr-4 font-medium text-right">Tool Calls</th>
+                        <th className="py-2 font-medium text-right">Est. Cost</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.by_user.map((user) => (
+                        <tr key={user.user_id || 'unattributed'} className="border-b border-gray-100 dark:border-gray-800">
+                          <td className="py-2 pr-4 text-gray-900 dark:text-white">
+                            {user.email || (user.user_id ? 'Deleted user' : 'Unattributed')}
+                          </td>
+                          <td className="py-2 pr-4">
+                            <Badge variant={user.subscription_tier === 'pro' ? 'default' : 'secondary'}>
+                              {user.subscription_tier}
+                            </Badge>
+                          </td>
+                          <td className="py-2 pr-4 text-right text-gray-600 dark:text-gray-400">{user.calls.toLocaleString()}</td>
+                          <td className="py-2 pr-4 text-right text-gray-600 dark:text-gray-400">{user.total_tokens.toLocaleString()}</td>
+                          <td className="py-2 pr-4 text-right text-gray-600 dark:text-gray-400">{user.tool_calls}</td>
+                          <td className="py-2 text-right font-medium text-gray-900 dark:text-white">{formatCost(user.estimated_cost_usd)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            {/* By Model */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">By Model</CardTitle>
+                <CardDescription>Calls, tokens and latency per provider model</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-3">
+                  {report.by_model.length === 0 ? (
+                    <p className="text-gray-500 dark:text-gray-400 text-sm">No AI usage in this period</p>
+                  ) : (
+                    report.by_model.map((model) => (
+                      <div key={`${model.provider}:${model.model}`} className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                        <div>
+                          <div className="font-medium text-sm text-gray-900 dark:text-white">{model.model}</div>
+                          <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                            {model.provider} • {model.calls.toLocaleString()} calls • {model.total_tokens.toLocaleString()} tokens • {(model.avg_latency_ms / 1000).toFixed(1)}s avg
+                          </div>
+                        </div>
+                        <div className="text-sm font-medium text-gray-900 dark:text-white">
+                          {model.unpriced_calls === model.calls ? 'No price' : formatCost(model.estimated_cost_usd)}
+                        </div>
+                      </div>
+                    ))
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* By Purpose */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">By Purpose</CardTitle>
+                <CardDescription>Chat replies compared with background calls</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-3">
+                  {report.by_purpose.length === 0 ? (
+                    <p className="text-gray-500 dark:text-gray-400 text-sm">No AI usage in this period</p>
+                  ) : (
+                    report.by_purpose.map((purpose) => (
+                      <div key={purpose.purpose} className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                        <div>
+                          <div className="font-medium text-sm text-gray-900 dark:text-white">
+                            {PURPOSE_LABELS[purpose.purpose] || purpose.purpose}
+                          </div>
+                          <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                            {purpose.calls.toLocaleString()} calls • {purpose.total_tokens.toLocaleString()} tokens
+                          </div>
+                        </div>
+                        <div className="text-sm font-medium text-gray-900 dark:text-white">
+                          {formatCost(purpose.estimated_cost_usd)}
+                        </div>
+                      </div>
+                    ))
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
+
+      {/* Price Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Tag className="h-5 w-5 mr-2" />
+            Model Prices
+          </CardTitle>
+          <CardDescription>
+            USD per million tokens. A price applies to every model whose name starts with it.
+            Changes apply to new calls; recorded costs are not recalculated.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form onSubmit={savePrice} className="grid gap-3 md:grid-cols-4 items-end">
+            <div>
+              <label htmlFor="priceModel" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Model
+              </label>
+              <input
+                id="priceModel"
+                value={priceForm.model}
+                onChange={(e) => setPriceForm({ ...priceForm, model: e.target.value })}
+                className={inputClassName}
+                placeholder="e.g., gpt-4o-mini"
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="priceInput" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Input price
+              </label>
+              <input
+                id="priceInput"
+                type="number"
+                min="0"
+                step="any"
+                value={priceForm.input}
+                onChange={(e) => setPriceForm({ ...priceForm, input: e.target.value })}
+                className={inputClassName}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="priceOutput" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Output price
+              </label>
+              <input
+                id="priceOutput"
+                type="number"
+                min="0"
+                step="any"
+                value={priceForm.output}
+                onChange={(e) => setPriceForm({ ...priceForm, output: e.target.value })}
+                className={inputClassName}
+                required
+              />
+            </div>
+            <Button type="submit" disabled={savingPrice}>
+              {savingPrice ? 'Saving...' : 'Save Price'}
+            </Button>
+          </form>
+
+          <div className="space-y-2">
+            {prices.map((price) => (
+              <div key={price.model} className="flex items-center justify-between p-2 bg-gray-50 dark:bg-gray-800 rounded-lg text-sm">
+                <div className="flex items-center space-x-2">
+                  <span className="font-medium text-gray-900 dark:text-white">{price.model}</span>
+                  {price.source === 'override' && <Badge variant="secondary">Custom</Badge>}
+                </div>
+                <div className="flex items-center space-x-3">
+                  <span className="text-gray-600 dark:text-gray-400">
+                    ${price.input_per_million} in • ${price.output_per_million} out
+                  </span>
+                  <Button variant="ghost" size="sm" onClick={() => editPrice(price)}>
+                    Edit
+                  </Button>
+                  {price.source === 'override' && (
+                    <Button variant="ghost" size="sm" onClick={() => removePrice(price.model)}>
+                      Reset
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
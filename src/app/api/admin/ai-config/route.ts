@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  AI_PROVIDERS,
+  AIConfigKeyError,
+  createAIConfig,
+  encryptStoredApiKeys,
+  getAIConfigWithKey,
+  getKeyAuditLog,
+  listAIConfigSummaries,
+  recordKeyAudit,
+  revealApiKey,
+  rotateApiKey
+} from '@/lib/ai/api-key-service';
+import { ServerAIService } from '@/lib/ai/server-ai-service';
+import { isFieldEncryptionConfigured } from '@/lib/security/field-encryption';
+import { withAPISecurity, SecurityConfigs, SecurityContext } from '@/middleware/api-security';
+
+const KEY_ERROR_STATUS: Record<AIConfigKeyError['code'], number> = {
+  invalid: 400,
+  not_found: 404
+};
+
+function optionalString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+async function handleGetAIConfigs(request: NextRequest, context: SecurityContext): Promise<NextResponse> {
+  try {
+    if (!context.user) {
+      return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+    }
+
+    if (!context.user.isAdmin) {
+      return NextResponse.json({ error: 'Admin privileges required' }, { status: 403 });
+    }
+
+    const [configs, audit] = await Promise.all([listAIConfigSummaries(), getKeyAuditLog()]);
+
+    return NextResponse.json({ configs, audit, encryptionConfigured: isFieldEncryptionConfigured() });
+  } catch (error) {
+    console.error('AI config list error:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to load AI configurations'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Everything that reads or writes an API key, one action per request:
+ * - { action: 'create', provider, apiKey, model, baseUrl } adds an inactive config
+ * - { action: 'rotate', configId, apiKey } replaces a config's key
+ * - { action: 'view', configId } returns the full key
+ * - { action: 'test', configId } tests a saved config; { action: 'test',
+ *   provider, apiKey, model, baseUrl } tests one before it is saved
+ * - { action: 'encrypt' } seals keys stored in plaintext or with an older master key
+ * Each key that is created, viewed, rotated, tested or sealed is recorded in
+ * the key audit log.
+ */
+async function handleAIConfigAction(request: NextRequest, context: SecurityContext): Promise<NextResponse> {
+  try {
+    const { action, configId, provider, apiKey, model, baseUrl } = await request.json();
+
+    if (!context.user) {
+      return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+    }
+
+    if (!context.user.isAdmin) {
+      return NextResponse.json({ error: 'Admin privileges required' }, { status: 403 });
+    }
+
+    const actorId = context.user.id;
+
+    if (action === 'create' || (action === 'test' && !configId)) {
+      if (!AI_PROVIDERS.includes(provider)) {
+        return NextResponse.json({ error: `provider must be one of: ${AI_PROVIDERS.join(', ')}` }, { status: 400 });
+      }
+
+      const input = {
+        provider,
+        apiKey: optionalString(apiKey),
+        model: optionalString(model),
+        baseUrl: provider === 'openai_compatible' ? optionalString(baseUrl) : null
+      };
+
+      if (!input.model) {
+        return NextResponse.json({ error: 'Model is required' }, { status: 400 });
+      }
+
+      if (provider === 'openai_compatible' ? !input.baseUrl : !input.apiKey) {
+        return NextResponse.json({
+          error: provider === 'openai_compatible' ? 'Base URL is required' : 'API key is required'
+        }, { status: 400 });
+      }
+
+      if (action === 'create') {
+        const config = await createAIConfig({ ...input, model: input.model }, actorId);
+        return NextResponse.json({ success: true, config });
+      }
+
+      const result = await ServerAIService.testConnection(provider, input.apiKey || '', input.model, input.baseUrl || undefined);
+      await recordKeyAudit({
+        configId: null,
+        actorId,
+        action: 'tested',
+        provider,
+        model: input.model,
+        success: result.success,
+        detail: result.error || null
+      });
+      return NextResponse.json({ success: result.success, error: result.error || null });
+    }
+
+    if (action === 'encrypt') {
+      const result = await encryptStoredApiKeys(actorId);
+      return NextResponse.json({ success: true, ...result });
+    }
+
+    if (!configId || typeof configId !== 'string') {
+      return NextResponse.json({ error: 'Config ID is required' }, { status: 400 });
+    }
+
+    if (action === 'rotate') {
+      if (apiKey !== null && typeof apiKey !== 'string') {
+        return NextResponse.json({ error: 'Invalid API key' }, { status: 400 });
+      }
+
+      await rotateApiKey(configId, optionalString(apiKey), actorId);
+      return NextResponse.json({ success: true });
+    }
+
+    if (action === 'view') {
+      return NextResponse.json({ success: true, apiKey: await revealApiKey(configId, actorId) });
+    }
+
+    if (action === 'test') {
+      const config = await getAIConfigWithKey(configId);
+      const result = await ServerAIService.testConnection(
+        config.provider,
+        config.api_key || '',
+        config.model,
+        config.base_url || undefined
+      );
+      await recordKeyAudit({
+        configId,
+        actorId,
+        action: 'tested',
+        provider: config.provider,
+        model: config.model,
+        success: result.success,
+        detail: result.error || null
+      });
+      return NextResponse.json({ success: result.success, error: result.error || null });
+    }
+
+    return NextResponse.json({ error: 'action must be "create", "rotate", "view", "test" or "encrypt"' }, { status: 400 });
+  } catch (error) {
+    if (error instanceof AIConfigKeyError) {
+      return NextResponse.json({ error: error.message }, { status: KEY_ERROR_STATUS[error.code] });
+    }
+
+    console.error('AI config action error:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'AI configuration action failed'
+    }, { status: 500 });
+  }
+}
+
+// Export the secured handlers
+export const GET = withAPISecurity(handleGetAIConfigs, SecurityConfigs.ADMIN_API);
+export const POST = withAPISecurity(handleAIConfigAction, SecurityConfigs.ADMIN_API);
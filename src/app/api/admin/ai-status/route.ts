@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getFailoverStatus } from '@/lib/ai/failover-service';
+import { withAPISecurity, SecurityConfigs, SecurityContext } from '@/middleware/api-security';
+
+async function handleAIStatusRequest(request: NextRequest, context: SecurityContext): Promise<NextResponse> {
+  try {
+    if (!context.user) {
+      return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+    }
+
+    if (!context.user.isAdmin) {
+      return NextResponse.json({ error: 'Admin privileges required' }, { status: 403 });
+    }
+
+    // Circuit breaker state is held by the server process, so it is read here rather than from the database
+    const status = await getFailoverStatus();
+
+    return NextResponse.json(status);
+  } catch (error) {
+    console.error('AI status error:', error);
+    return NextResponse.json({
+      error: 'Failed to load AI provider status'
+    }, { status: 500 });
+  }
+}
+
+// Export the secured handler
+export const GET = withAPISecurity(handleAIStatusRequest, SecurityConfigs.ADMIN_API);
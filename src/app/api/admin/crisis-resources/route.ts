@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteCrisisResource, listCrisisResources, saveCrisisResource } from '@/lib/ai/safety/resources';
+import { INTERNATIONAL_REGION } from '@/lib/resource-locale';
+import { withAPISecurity, SecurityConfigs, SecurityContext } from '@/middleware/api-security';
+
+const CONTACT_TYPES = ['phone', 'text', 'web'];
+
+/**
+ * Every directory entry, including inactive ones
+ */
+async function handleListCrisisResources(request: NextRequest, context: SecurityContext): Promise<NextResponse> {
+  try {
+    if (!context.user) {
+      return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+    }
+
+    if (!context.user.isAdmin) {
+      return NextResponse.json({ error: 'Admin privileges required' }, { status: 403 });
+    }
+
+    const resources = await listCrisisResources();
+
+    return NextResponse.json({ resources });
+  } catch (error) {
+    console.error('List crisis resources error:', error);
+    return NextResponse.json({ error: 'Failed to load crisis resources' }, { status: 500 });
+  }
+}
+
+/**
+ * Create an entry, or update the one with the given id
+ */
+async function handleSaveCrisisResource(request: NextRequest, context: SecurityContext): Promise<NextResponse> {
+  try {
+    const {
+      id,
+      region,
+      language,
+      name,
+      contact,
+      contactType,
+      description = '',
+      isEmergency = false,
+      urgent = false,
+      position = 0,
+      isActive = true
+    } = await request.json();
+
+    if (!context.user) {
+      return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+    }
+
+    if (!context.user.isAdmin) {
+      return NextResponse.json({ error: 'Admin privileges required' }, { status: 403 });
+    }
+
+    if (typeof region !== 'string' || !(/^[A-Z]{2}$/.test(region) || region === INTERNATIONAL_REGION)) {
+      return NextResponse.json({ error: `Region must be a two-letter country code or ${INTERNATIONAL_REGION}` }, { status: 400 });
+    }
+
+    if (typeof language !== 'string' || !/^[a-z]{2,3}$/.test(language)) {
+      return NextResponse.json({ error: 'Language must be a two- or three-letter language code' }, { status: 400 });
+    }
+
+    if (typeof name !== 'string' || !name.trim() || name.length > 100) {
+      return NextResponse.json({ error: 'Name is required and must be at most 100 characters' }, { status: 400 });
+    }
+
+    if (typeof contact !== 'string' || !contact.trim() || contact.length > 100) {
+      return NextResponse.json({ error: 'Contact is required and must be at most 100 characters' }, { status: 400 });
+    }
+
+    if (!CONTACT_TYPES.includes(contactType)) {
+      return NextResponse.json({ error: `Contact type must be one of: ${CONTACT_TYPES.join(', ')}` }, { status: 400 });
+    }
+
+    if (typeof description !== 'string' || description.length > 300) {
+      return NextResponse.json({ error: 'Description must be at most 300 characters' }, { status: 400 });
+    }
+
+    if (typeof isEmergency !== 'boolean' || typeof urgent !== 'boolean' || typeof isActive !== 'boolean') {
+      return NextResponse.json({ error: 'isEmergency, urgent and isActive must be true or false' }, { status: 400 });
+    }
+
+    if (!Number.isInteger(position) || position < 0) {
+      return NextResponse.json({ error: 'Position must be a whole number of at least 0' }, { status: 400 });
+    }
+
+    const resource = await saveCrisisResource({
+      region,
+      language,
+      name: name.trim(),
+      contact: contact.trim(),
+      contactType,
+      description: description.trim(),
+      isEmergency,
+      urgent,
+      position,
+      isActive
+    }, context.user.id, id || undefined);
+    console.log(`Crisis resource ${resource.name} (${region}, ${language}) saved by ${context.user.id}`);
+
+    return NextResponse.json({ success: true, resource });
+  } catch (error) {
+    console.error('Save crisis resource error:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to save crisis resource'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Remove an entry (?id=)
+ */
+async function handleDeleteCrisisResource(request: NextRequest, context: SecurityContext): Promise<NextResponse> {
+  try {
+    const resourceId = request.nextUrl.searchParams.get('id');
+
+    if (!context.user) {
+      return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+    }
+
+    if (!context.user.isAdmin) {
+      return NextResponse.json({ error: 'Admin privileges required' }, { status: 403 });
+    }
+
+    if (!resourceId) {
+      return NextResponse.json({ error: 'Resource id is required' }, { status: 400 });
+    }
+
+    await deleteCrisisResource(resourceId);
+    console.log(`Crisis resource ${resourceId} deleted by ${context.user.id}`);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete crisis resource error:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to delete crisis resource'
+    }, { status: 500 });
+  }
+}
+
+// Export the secured handlers
+export const GET = withAPISecurity(handleListCrisisResources, SecurityConfigs.ADMIN_API);
+export const PUT = withAPISecurity(handleSaveCrisisResource, SecurityConfigs.ADMIN_API);
+export const DELETE = withAPISecurity(handleDeleteCrisisResource, SecurityConfigs.ADMIN_API);
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  ENCRYPTED_TABLES,
+  EncryptedTable,
+  encryptExistingRows,
+  getEncryptionStatus,
+  rewrapDataKeys,
+  rotateDataKey
+} from '@/lib/security/field-encryption';
+import { withAPISecurity, SecurityConfigs, SecurityContext } from '@/middleware/api-security';
+
+async function handleGetEncryptionStatus(request: NextRequest, context: SecurityContext): Promise<NextResponse> {
+  try {
+    if (!context.user) {
+      return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+    }
+
+    if (!context.user.isAdmin) {
+      return NextResponse.json({ error: 'Admin privileges required' }, { status: 403 });
+    }
+
+    return NextResponse.json({ ...(await getEncryptionStatus()), encryptedTables: ENCRYPTED_TABLES });
+  } catch (error) {
+    console.error('Encryption status error:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to load encryption status'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Key maintenance, one step per request:
+ * - { action: 'encrypt', table, cursor } encrypts a batch of existing rows;
+ *   keep posting the returned cursor until it comes back null
+ * - { action: 'rewrap' } moves a batch of data keys to the active master key;
+ *   repeat until remaining is 0
+ * - { action: 'rotate', userId } starts a new data key version for a user
+ */
+async function handleEncryptionAction(request: NextRequest, context: SecurityContext): Promise<NextResponse> {
+  try {
+    const { action, table, cursor, userId } = await request.json();
+
+    if (!context.user) {
+      return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+    }
+
+    if (!context.user.isAdmin) {
+      return NextResponse.json({ error: 'Admin privileges required' }, { status: 403 });
+    }
+
+    if (action === 'encrypt') {
+      if (!ENCRYPTED_TABLES.includes(table)) {
+        return NextResponse.json({ error: `table must be one of: ${ENCRYPTED_TABLES.join(', ')}` }, { status: 400 });
+      }
+
+      if (cursor !== null && cursor !== undefined && typeof cursor !== 'string') {
+        return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 });
+      }
+
+      const result = await encryptExistingRows(table as EncryptedTable, cursor || null);
+      return NextResponse.json({ success: true, ...result });
+    }
+
+    if (action === 'rewrap') {
+      const result = await rewrapDataKeys();
+      console.log(`Data keys re-wrapped by ${context.user.id}: ${result.rewrapped} moved, ${result.remaining} remaining`);
+      return NextResponse.json({ success: true, ...result });
+    }
+
+    if (action === 'rotate') {
+      if (!userId || typeof userId !== 'string') {
+        return NextResponse.json({ error: 'User ID is required' }, { status: 400 });
+      }
+
+      const version = await rotateDataKey(userId);
+      console.log(`Data key for user ${userId} rotated by ${context.user.id}`);
+      return NextResponse.json({ success: true, version });
+    }
+
+    return NextResponse.json({ error: 'action must be "encrypt", "rewrap" or "rotate"' }, { status: 400 });
+  } catch (error) {
+    console.error('Encryption action error:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Encryption action failed'
+    }, { status: 500 });
+  }
+}
+
+// Export the secured handlers
+export const GET = withAPISecurity(handleGetEncryptionStatus, SecurityConfigs.ADMIN_API);
+export const POST = withAPISecurity(handleEncryptionAction, SecurityConfigs.ADMIN_API);
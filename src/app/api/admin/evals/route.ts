@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { EVAL_FIXTURES, listEvalRuns, runEvals } from '@/lib/ai/evals';
+import { listAIConfigs } from '@/lib/ai/failover-service';
+import { withAPISecurity, SecurityConfigs, SecurityContext } from '@/middleware/api-security';
+
+/**
+ * Recent eval runs, the fixtures and the AI configs that can be evaluated
+ */
+async function handleListEvals(request: NextRequest, context: SecurityContext): Promise<NextResponse> {
+  try {
+    if (!context.user) {
+      return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+    }
+
+    if (!context.user.isAdmin) {
+      return NextResponse.json({ error: 'Admin privileges required' }, { status: 403 });
+    }
+
+    const [runs, configs] = await Promise.all([listEvalRuns(), listAIConfigs()]);
+    const fixtures = EVAL_FIXTURES.map(({ id, category, description }) => ({ id, category, description }));
+
+    return NextResponse.json({ runs, fixtures, configs });
+  } catch (error) {
+    console.error('List evals error:', error);
+    return NextResponse.json({ error: 'Failed to load evals' }, { status: 500 });
+  }
+}
+
+/**
+ * Run the fixtures ({ configId, promptVersions, fixtureIds }); without a
+ * configId the mock provider is used
+ */
+async function handleRunEvals(request: NextRequest, context: SecurityContext): Promise<NextResponse> {
+  try {
+    const { configId, promptVersions, fixtureIds } = await request.json();
+
+    if (!context.user) {
+      return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+    }
+
+    if (!context.user.isAdmin) {
+      return NextResponse.json({ error: 'Admin privileges required' }, { status: 403 });
+    }
+
+    if (configId !== undefined && configId !== null && typeof configId !== 'string') {
+      return NextResponse.json({ error: 'Invalid configId' }, { status: 400 });
+    }
+
+    if (promptVersions !== undefined && (typeof promptVersions !== 'object' || promptVersions === null)) {
+      return NextResponse.json({ error: 'Invalid promptVersions' }, { status: 400 });
+    }
+
+    if (fixtureIds !== undefined && !Array.isArray(fixtureIds)) {
+      return NextResponse.json({ error: 'fixtureIds must be an array' }, { status: 400 });
+    }
+
+    const run = await runEvals({ configId, promptVersions, fixtureIds }, context.user.id);
+    console.log(`Eval run against ${run.target_label}: ${run.passed} passed, ${run.failed} failed, ${run.regressions.length} regressions`);
+
+    return NextResponse.json({ success: true, run });
+  } catch (error) {
+    console.error('Run evals error:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to run evals'
+    }, { status: 500 });
+  }
+}
+
+// Export the secured handlers
+export const GET = withAPISecurity(handleListEvals, SecurityConfigs.ADMIN_API);
+export const POST = withAPISecurity(handleRunEvals, SecurityConfigs.ADMIN_API);
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  createExperiment,
+  deleteExperiment,
+  getExperimentResults,
+  listExperiments
+} from '@/lib/ai/experiment-service';
+import { listAIConfigs } from '@/lib/ai/failover-service';
+import { withAPISecurity, SecurityConfigs, SecurityContext } from '@/middleware/api-security';
+
+/**
+ * Every experiment with per-arm results (drafts have none yet), plus the AI
+ * configs arms can choose from
+ */
+async function handleListExperiments(request: NextRequest, context: SecurityContext): Promise<NextResponse> {
+  try {
+    if (!context.user) {
+      return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+    }
+
+    if (!context.user.isAdmin) {
+      return NextResponse.json({ error: 'Admin privileges required' }, { status: 403 });
+    }
+
+    const [experiments, configs] = await Promise.all([listExperiments(), listAIConfigs()]);
+    const withResults = await Promise.all(experiments.map(async experiment => ({
+      ...experiment,
+      results: experiment.status === 'draft' ? [] : await getExperimentResults(experiment)
+    })));
+
+    return NextResponse.json({ experiments: withResults, configs });
+  } catch (error) {
+    console.error('List experiments error:', error);
+    return NextResponse.json({ error: 'Failed to load experiments' }, { status: 500 });
+  }
+}
+
+/**
+ * Create a draft experiment from { name, description, sessionTypes, arms }
+ */
+async function handleCreateExperiment(request: NextRequest, context: SecurityContext): Promise<NextResponse> {
+  try {
+    const { name, description, sessionTypes, arms } = await request.json();
+
+    if (!context.user) {
+      return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+    }
+
+    if (!context.user.isAdmin) {
+      return NextResponse.json({ error: 'Admin privileges required' }, { status: 403 });
+    }
+
+    if (typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json({ error: 'Experiment name is required' }, { status: 400 });
+    }
+
+    if (!Array.isArray(arms)) {
+      return NextResponse.json({ error: 'arms must be an array' }, { status: 400 });
+    }
+
+    if (sessionTypes !== undefined && !Array.isArray(sessionTypes)) {
+      return NextResponse.json({ error: 'sessionTypes must be an array' }, { status: 400 });
+    }
+
+    const experiment = await createExperiment(
+      { name, description: typeof description === 'string' ? description.trim() : null, sessionTypes, arms },
+      context.user.id
+    );
+    console.log(`Experiment "${experiment.name}" created by ${context.user.id}`);
+
+    return NextResponse.json({ success: true, experiment });
+  } catch (error) {
+    console.error('Create experiment error:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to create experiment'
+    }, { status: 500 });
+  }
+}
+
+async function handleDeleteExperiment(request: NextRequest, context: SecurityContext): Promise<NextResponse> {
+  try {
+    const experimentId = request.nextUrl.searchParams.get('id');
+
+    if (!context.user) {
+      return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+    }
+
+    if (!context.user.isAdmin) {
+      return NextResponse.json({ error: 'Admin privileges required' }, { status: 403 });
+    }
+
+    if (!experimentId) {
+      return NextResponse.json({ error: 'Experiment id is required' }, { status: 400 });
+    }
+
+    await deleteExperiment(experimentId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete experiment error:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to delete experiment'
+    }, { status: 500 });
+  }
+}
+
+// Export the secured handlers
+export const GET = withAPISecurity(handleListExperiments, SecurityConfigs.ADMIN_API);
+export const POST = withAPISecurity(handleCreateExperiment, SecurityConfigs.ADMIN_API);
+export const DELETE = withAPISecurity(handleDeleteExperiment, SecurityConfigs.ADMIN_API);
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { startExperiment, stopExperiment } from '@/lib/ai/experiment-service';
+import { withAPISecurity, SecurityConfigs, SecurityContext } from '@/middleware/api-security';
+
+/**
+ * Start a draft experiment or stop the running one ({ experimentId, action })
+ */
+async function handleExperimentStatus(request: NextRequest, context: SecurityContext): Promise<NextResponse> {
+  try {
+    const { experimentId, action } = await request.json();
+
+    if (!context.user) {
+      return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+    }
+
+    if (!context.user.isAdmin) {
+      return NextResponse.json({ error: 'Admin privileges required' }, { status: 403 });
+    }
+
+    if (typeof experimentId !== 'string' || !experimentId) {
+      return NextResponse.json({ error: 'experimentId is required' }, { status: 400 });
+    }
+
+    if (action === 'start') {
+      await startExperiment(experimentId);
+    } else if (action === 'stop') {
+      await stopExperiment(experimentId);
+    } else {
+      return NextResponse.json({ error: 'action must be "start" or "stop"' }, { status: 400 });
+    }
+
+    console.log(`Experiment ${experimentId} ${action === 'start' ? 'started' : 'stopped'} by ${context.user.id}`);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Experiment status error:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to update experiment'
+    }, { status: 500 });
+  }
+}
+
+// Export the secured handler
+export const POST = withAPISecurity(handleExperimentStatus, SecurityConfigs.ADMIN_API);
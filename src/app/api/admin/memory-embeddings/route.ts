@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  backfillMemoryEmbeddings,
+  backfillSessionSummaryEmbeddings,
+  getEmbeddingCoverage
+} from '@/lib/ai/semantic-memory-service';
+import { withAPISecurity, SecurityConfigs, SecurityContext } from '@/middleware/api-security';
+
+async function handleCoverageRequest(request: NextRequest, context: SecurityContext): Promise<NextResponse> {
+  try {
+    if (!context.user) {
+      return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+    }
+
+    if (!context.user.isAdmin) {
+      return NextResponse.json({ error: 'Admin privileges required' }, { status: 403 });
+    }
+
+    return NextResponse.json(await getEmbeddingCoverage());
+  } catch (error) {
+    console.error('Embedding coverage error:', error);
+    return NextResponse.json({ error: 'Failed to load embedding coverage' }, { status: 500 });
+  }
+}
+
+/**
+ * Backfill job: embeds one batch of existing rows per request. The caller
+ * keeps posting the returned cursor until it comes back null.
+ */
+async function handleBackfillRequest(request: NextRequest, context: SecurityContext): Promise<NextResponse> {
+  try {
+    const { source, cursor } = await request.json();
+
+    if (!context.user) {
+      return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+    }
+
+    if (!context.user.isAdmin) {
+      return NextResponse.json({ error: 'Admin privileges required' }, { status: 403 });
+    }
+
+    if (!['user_memory', 'session_summary'].includes(source)) {
+      return NextResponse.json({ error: 'source must be "user_memory" or "session_summary"' }, { status: 400 });
+    }
+
+    if (cursor !== null && cursor !== undefined && typeof cursor !== 'string') {
+      return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 });
+    }
+
+    const result = source === 'user_memory'
+      ? await backfillMemoryEmbeddings(cursor || null)
+      : await backfillSessionSummaryEmbeddings(cursor || null);
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Embedding backfill error:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to backfill embeddings'
+    }, { status: 500 });
+  }
+}
+
+// Export the secured handlers
+export const GET = withAPISecurity(handleCoverageRequest, SecurityConfigs.ADMIN_API);
+export const POST = withAPISecurity(handleBackfillRequest, SecurityConfigs.ADMIN_API);
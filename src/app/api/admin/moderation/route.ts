@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listModerationEvents, reviewHeldMessage } from '@/lib/ai/moderation';
+import { withAPISecurity, SecurityConfigs, SecurityContext } from '@/middleware/api-security';
+
+/**
+ * Group moderation events: held messages (?filter=held, the default) or the
+ * most recent events of every kind (?filter=all)
+ */
+async function handleGetModerationEvents(request: NextRequest, context: SecurityContext): Promise<NextResponse> {
+  try {
+    if (!context.user) {
+      return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+    }
+
+    if (!context.user.isAdmin) {
+      return NextResponse.json({ error: 'Admin privileges required' }, { status: 403 });
+    }
+
+    const filter = request.nextUrl.searchParams.get('filter') || 'held';
+    if (filter !== 'held' && filter !== 'all') {
+      return NextResponse.json({ error: 'Filter must be held or all' }, { status: 400 });
+    }
+
+    return NextResponse.json({ events: await listModerationEvents(filter) });
+  } catch (error) {
+    console.error('Get moderation events error:', error);
+    return NextResponse.json({ error: 'Failed to load moderation events' }, { status: 500 });
+  }
+}
+
+/**
+ * Release a held message into its session or reject it: { id, decision: 'release' | 'reject', note }
+ */
+async function handleReviewHeldMessage(request: NextRequest, context: SecurityContext): Promise<NextResponse> {
+  try {
+    const { id, decision, note } = await request.json();
+
+    if (!context.user) {
+      return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+    }
+
+    if (!context.user.isAdmin) {
+      return NextResponse.json({ error: 'Admin privileges required' }, { status: 403 });
+    }
+
+    if (typeof id !== 'string' || !id) {
+      return NextResponse.json({ error: 'Event id is required' }, { status: 400 });
+    }
+
+    if (decision !== 'release' && decision !== 'reject') {
+      return NextResponse.json({ error: 'Decision must be release or reject' }, { status: 400 });
+    }
+
+    if (note !== undefined && typeof note !== 'string') {
+      return NextResponse.json({ error: 'Note must be text' }, { status: 400 });
+    }
+
+    const event = await reviewHeldMessage(id, decision, note, context.user.id);
+    console.log(`Held group message ${id} in session ${event.session_id}: ${decision} by ${context.user.id}`);
+
+    return NextResponse.json({ event });
+  } catch (error) {
+    console.error('Review held message error:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to review message'
+    }, { status: 500 });
+  }
+}
+
+// Export the secured handlers
+export const GET = withAPISecurity(handleGetModerationEvents, SecurityConfigs.ADMIN_API);
+export const PUT = withAPISecurity(handleReviewHeldMessage, SecurityConfigs.ADMIN_API);
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { publishPromptVersion, revertToBuiltInPrompt, SYSTEM_PROMPT_KEYS } from '@/lib/ai/prompt-version-service';
+import { withAPISecurity, SecurityConfigs, SecurityContext } from '@/middleware/api-security';
+
+/**
+ * Publish a draft or roll back to an archived version ({ versionId }), or
+ * go back to the built-in prompt for a key ({ promptKey, builtIn: true })
+ */
+async function handlePublish(request: NextRequest, context: SecurityContext): Promise<NextResponse> {
+  try {
+    const { versionId, promptKey, builtIn } = await request.json();
+
+    if (!context.user) {
+      return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+    }
+
+    if (!context.user.isAdmin) {
+      return NextResponse.json({ error: 'Admin privileges required' }, { status: 403 });
+    }
+
+    if (builtIn === true) {
+      if (!SYSTEM_PROMPT_KEYS.includes(promptKey)) {
+        return NextResponse.json({ error: 'Invalid prompt key' }, { status: 400 });
+      }
+
+      await revertToBuiltInPrompt(promptKey);
+      console.log(`System prompt "${promptKey}" reverted to built-in by ${context.user.id}`);
+      return NextResponse.json({ success: true });
+    }
+
+    if (typeof versionId !== 'string' || !versionId) {
+      return NextResponse.json({ error: 'versionId is required' }, { status: 400 });
+    }
+
+    const published = await publishPromptVersion(versionId, context.user.id);
+    console.log(`System prompt "${published.prompt_key}" v${published.version} published by ${context.user.id}`);
+
+    return NextResponse.json({ success: true, version: published });
+  } catch (error) {
+    console.error('Publish system prompt error:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to publish prompt'
+    }, { status: 500 });
+  }
+}
+
+// Export the secured handler
+export const POST = withAPISecurity(handlePublish, SecurityConfigs.ADMIN_API);
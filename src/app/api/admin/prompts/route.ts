@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  discardPromptDraft,
+  listPromptVersions,
+  PROMPT_VERSION_CONFIG,
+  savePromptDraft,
+  SYSTEM_PROMPT_KEYS
+} from '@/lib/ai/prompt-version-service';
+import { BUILT_IN_SYSTEM_PROMPTS } from '@/lib/ai/system-prompts';
+import { withAPISecurity, SecurityConfigs, SecurityContext } from '@/middleware/api-security';
+import { SystemPromptKey } from '@/types';
+
+async function handleListPrompts(request: NextRequest, context: SecurityContext): Promise<NextResponse> {
+  try {
+    if (!context.user) {
+      return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+    }
+
+    if (!context.user.isAdmin) {
+      return NextResponse.json({ error: 'Admin privileges required' }, { status: 403 });
+    }
+
+    // Built-in prompts are returned too: they are what runs until a version is published
+    const versions = await listPromptVersions();
+    const builtIn = Object.fromEntries(
+      Object.entries(BUILT_IN_SYSTEM_PROMPTS).map(([key, content]) => [key, content.trim()])
+    );
+
+    return NextResponse.json({ versions, builtIn });
+  } catch (error) {
+    console.error('List system prompts error:', error);
+    return NextResponse.json({ error: 'Failed to load system prompts' }, { status: 500 });
+  }
+}
+
+/**
+ * Save the draft for a prompt key, creating it if the key has none
+ */
+async function handleSaveDraft(request: NextRequest, context: SecurityContext): Promise<NextResponse> {
+  try {
+    const { promptKey, content, notes } = await request.json();
+
+    if (!context.user) {
+      return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+    }
+
+    if (!context.user.isAdmin) {
+      return NextResponse.json({ error: 'Admin privileges required' }, { status: 403 });
+    }
+
+    if (!SYSTEM_PROMPT_KEYS.includes(promptKey)) {
+      return NextResponse.json({ error: 'Invalid prompt key' }, { status: 400 });
+    }
+
+    if (typeof content !== 'string' || !content.trim()) {
+      return NextResponse.json({ error: 'Prompt content is required' }, { status: 400 });
+    }
+
+    if (content.length > PROMPT_VERSION_CONFIG.MAX_PROMPT_LENGTH) {
+      return NextResponse.json({
+        error: `Prompt must be at most ${PROMPT_VERSION_CONFIG.MAX_PROMPT_LENGTH} characters`
+      }, { status: 400 });
+    }
+
+    if (notes !== undefined && notes !== null && typeof notes !== 'string') {
+      return NextResponse.json({ error: 'Invalid notes' }, { status: 400 });
+    }
+
+    const draft = await savePromptDraft(
+      promptKey as SystemPromptKey,
+      content.trim(),
+      notes?.trim() || null,
+      context.user.id
+    );
+
+    return NextResponse.json({ success: true, version: draft });
+  } catch (error) {
+    console.error('Save system prompt draft error:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to save draft'
+    }, { status: 500 });
+  }
+}
+
+async function handleDiscardDraft(request: NextRequest, context: SecurityContext): Promise<NextResponse> {
+  try {
+    const versionId = request.nextUrl.searchParams.get('id');
+
+    if (!context.user) {
+      return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+    }
+
+    if (!context.user.isAdmin) {
+      return NextResponse.json({ error: 'Admin privileges required' }, { status: 403 });
+    }
+
+    if (!versionId) {
+      return NextResponse.json({ error: 'Draft id is required' }, { status: 400 });
+    }
+
+    await discardPromptDraft(versionId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Discard system prompt draft error:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to discard draft'
+    }, { status: 500 });
+  }
+}
+
+// Export the secured handlers
+export const GET = withAPISecurity(handleListPrompts, SecurityConfigs.ADMIN_API);
+export const PUT = withAPISecurity(handleSaveDraft, SecurityConfigs.ADMIN_API);
+export const DELETE = withAPISecurity(handleDiscardDraft, SecurityConfigs.ADMIN_API);
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getRedactionSettings,
+  listRedactionReports,
+  REDACTION_CATEGORIES,
+  saveRedactionSettings
+} from '@/lib/ai/redaction';
+import { withAPISecurity, SecurityConfigs, SecurityContext } from '@/middleware/api-security';
+
+/**
+ * The deployment's redaction settings and the most recent redaction reports
+ */
+async function handleGetRedaction(request: NextRequest, context: SecurityContext): Promise<NextResponse> {
+  try {
+    if (!context.user) {
+      return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+    }
+
+    if (!context.user.isAdmin) {
+      return NextResponse.json({ error: 'Admin privileges required' }, { status: 403 });
+    }
+
+    const [settings, reports] = await Promise.all([getRedactionSettings(), listRedactionReports()]);
+
+    return NextResponse.json({ settings, reports, categories: REDACTION_CATEGORIES });
+  } catch (error) {
+    console.error('Get redaction error:', error);
+    return NextResponse.json({ error: 'Failed to load redaction settings' }, { status: 500 });
+  }
+}
+
+/**
+ * Save { enabled, categories, customTerms }
+ */
+async function handleSaveRedaction(request: NextRequest, context: SecurityContext): Promise<NextResponse> {
+  try {
+    const { enabled, categories, customTerms } = await request.json();
+
+    if (!context.user) {
+      return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+    }
+
+    if (!context.user.isAdmin) {
+      return NextResponse.json({ error: 'Admin privileges required' }, { status: 403 });
+    }
+
+    if (typeof enabled !== 'boolean') {
+      return NextResponse.json({ error: 'Enabled must be true or false' }, { status: 400 });
+    }
+
+    if (!Array.isArray(categories) || !categories.every(category => REDACTION_CATEGORIES.includes(category))) {
+      return NextResponse.json({ error: `Categories must be among: ${REDACTION_CATEGORIES.join(', ')}` }, { status: 400 });
+    }
+
+    if (!Array.isArray(customTerms) || !customTerms.every(term => typeof term === 'string')) {
+      return NextResponse.json({ error: 'Custom terms must be a list of text' }, { status: 400 });
+    }
+
+    const settings = await saveRedactionSettings({ enabled, categories, custom_terms: customTerms }, context.user.id);
+    console.log(`Redaction settings updated by ${context.user.id}: ${enabled ? settings.categories.join(', ') || 'custom terms only' : 'disabled'}`);
+
+    return NextResponse.json({ settings });
+  } catch (error) {
+    console.error('Save redaction settings error:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to save redaction settings'
+    }, { status: 500 });
+  }
+}
+
+// Export the secured handlers
+export const GET = withAPISecurity(handleGetRedaction, SecurityConfigs.ADMIN_API);
+export const PUT = withAPISecurity(handleSaveRedaction, SecurityConfigs.ADMIN_API);
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  addFlagNote,
+  assignFlag,
+  changeFlagPriority,
+  getFlagHistory,
+  listReviewers,
+  listReviewQueue,
+  reopenFlag,
+  resolveFlag
+} from '@/lib/ai/safety/review-queue';
+import { withAPISecurity, SecurityConfigs, SecurityContext } from '@/middleware/api-security';
+
+const FLAG_ACTIONS = ['assign', 'priority', 'note', 'resolve', 'reopen'];
+
+/**
+ * The queue (?status=open, the default, or resolved) with the admins flags can
+ * be assigned to, or one flag's history (?id=)
+ */
+async function handleGetReviewQueue(request: NextRequest, context: SecurityContext): Promise<NextResponse> {
+  try {
+    if (!context.user) {
+      return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+    }
+
+    if (!context.user.isAdmin) {
+      return NextResponse.json({ error: 'Admin privileges required' }, { status: 403 });
+    }
+
+    const flagId = request.nextUrl.searchParams.get('id');
+    if (flagId) {
+      return NextResponse.json({ history: await getFlagHistory(flagId) });
+    }
+
+    const status = request.nextUrl.searchParams.get('status') || 'open';
+    if (status !== 'open' && status !== 'resolved') {
+      return NextResponse.json({ error: 'Status must be open or resolved' }, { status: 400 });
+    }
+
+    const [flags, reviewers] = await Promise.all([listReviewQueue(status), listReviewers()]);
+
+    return NextResponse.json({ flags, reviewers });
+  } catch (error) {
+    console.error('Get review queue error:', error);
+    return NextResponse.json({ error: 'Failed to load review queue' }, { status: 500 });
+  }
+}
+
+/**
+ * Act on a flag: { id, action: 'assign', assignedTo }, { id, action: 'priority',
+ * priority }, or { id, action: 'note' | 'resolve' | 'reopen', note }
+ */
+async function handleUpdateFlag(request: NextRequest, context: SecurityContext): Promise<NextResponse> {
+  try {
+    const { id, action, assignedTo = null, priority, note } = await request.json();
+
+    if (!context.user) {
+      return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+    }
+
+    if (!context.user.isAdmin) {
+      return NextResponse.json({ error: 'Admin privileges required' }, { status: 403 });
+    }
+
+    if (typeof id !== 'string' || !id) {
+      return NextResponse.json({ error: 'Flag id is required' }, { status: 400 });
+    }
+
+    if (!FLAG_ACTIONS.includes(action)) {
+      return NextResponse.json({ error: `Action must be one of: ${FLAG_ACTIONS.join(', ')}` }, { status: 400 });
+    }
+
+    if (assignedTo !== null && typeof assignedTo !== 'string') {
+      return NextResponse.json({ error: 'assignedTo must be an admin user id or null' }, { status: 400 });
+    }
+
+    if (note !== undefined && typeof note !== 'string') {
+      return NextResponse.json({ error: 'Note must be text' }, { status: 400 });
+    }
+
+    const actorId = context.user.id;
+    switch (action) {
+      case 'assign':
+        await assignFlag(id, assignedTo, actorId);
+        break;
+      case 'priority':
+        await changeFlagPriority(id, priority, actorId);
+        break;
+      case 'note':
+        await addFlagNote(id, note, actorId);
+        break;
+      case 'resolve':
+        await resolveFlag(id, note, actorId);
+        break;
+      case 'reopen':
+        await reopenFlag(id, note, actorId);
+        break;
+    }
+    console.log(`Session flag ${id}: ${action} by ${actorId}`);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Update session flag error:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to update flag'
+    }, { status: 500 });
+  }
+}
+
+// Export the secured handlers
+export const GET = withAPISecurity(handleGetReviewQueue, SecurityConfigs.ADMIN_API);
+export const PATCH = withAPISecurity(handleUpdateFlag, SecurityConfigs.ADMIN_API);
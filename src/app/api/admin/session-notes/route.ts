@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { decryptRows, ENCRYPTED_FIELDS } from '@/lib/security/field-encryption';
+import { withAPISecurity, SecurityConfigs, SecurityContext } from '@/middleware/api-security';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+/**
+ * The AI's private notes on a session (?sessionId=), newest first. Notes are
+ * encrypted at rest, so they are read here rather than by the browser.
+ */
+async function handleGetSessionNotes(request: NextRequest, context: SecurityContext): Promise<NextResponse> {
+  try {
+    if (!context.user) {
+      return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+    }
+
+    if (!context.user.isAdmin) {
+      return NextResponse.json({ error: 'Admin privileges required' }, { status: 403 });
+    }
+
+    const sessionId = request.nextUrl.searchParams.get('sessionId');
+    if (!sessionId) {
+      return NextResponse.json({ error: 'Session ID is required' }, { status: 400 });
+    }
+
+    const { data, error } = await supabase
+      .from('ai_session_notes')
+      .select('*')
+      .eq('session_id', sessionId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to load session notes: ${error.message}`);
+    }
+
+    return NextResponse.json({ notes: await decryptRows(data, ENCRYPTED_FIELDS.ai_session_notes) });
+  } catch (error) {
+    console.error('Get session notes error:', error);
+    return NextResponse.json({ error: 'Failed to load session notes' }, { status: 500 });
+  }
+}
+
+// Export the secured handlers
+export const GET = withAPISecurity(handleGetSessionNotes, SecurityConfigs.ADMIN_API);
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { decryptToolInvocations } from '@/lib/security/field-encryption';
+import { withAPISecurity, SecurityConfigs, SecurityContext } from '@/middleware/api-security';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+/**
+ * The tools the AI ran in a session (?sessionId=), oldest first. Arguments
+ * and results are encrypted at rest, so they are read here rather than by
+ * the browser.
+ */
+async function handleGetToolInvocations(request: NextRequest, context: SecurityContext): Promise<NextResponse> {
+  try {
+    if (!context.user) {
+      return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+    }
+
+    if (!context.user.isAdmin) {
+      return NextResponse.json({ error: 'Admin privileges required' }, { status: 403 });
+    }
+
+    const sessionId = request.nextUrl.searchParams.get('sessionId');
+    if (!sessionId) {
+      return NextResponse.json({ error: 'Session ID is required' }, { status: 400 });
+    }
+
+    const { data, error } = await supabase
+      .from('tool_invocations')
+      .select('*')
+      .eq('session_id', sessionId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load tool invocations: ${error.message}`);
+    }
+
+    return NextResponse.json({ invocations: await decryptToolInvocations(data) });
+  } catch (error) {
+    console.error('Get tool invocations error:', error);
+    return NextResponse.json({ error: 'Failed to load tool invocations' }, { status: 500 });
+  }
+}
+
+// Export the secured handlers
+export const GET = withAPISecurity(handleGetToolInvocations, SecurityConfigs.ADMIN_API);
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  deleteToolPolicy,
+  listToolPolicies,
+  saveToolPolicy,
+  TOOL_POLICY_SESSION_TYPES,
+  TOOL_POLICY_TIERS
+} from '@/lib/ai/tool-policy-service';
+import { AITool, getAITools } from '@/lib/ai/tools';
+import { withAPISecurity, SecurityConfigs, SecurityContext } from '@/middleware/api-security';
+
+/**
+ * A tool's string arguments, the only ones constraints apply to
+ */
+function describeTool(tool: AITool) {
+  return {
+    name: tool.name,
+    description: tool.description,
+    arguments: Object.entries(tool.parameters.properties)
+      .filter(([, schema]) => schema.type === 'string')
+      .map(([name, schema]) => ({ name, enum: schema.enum as string[] | undefined }))
+  };
+}
+
+function isStringRecord<T>(value: unknown, check: (item: unknown) => item is T): value is Record<string, T> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && Object.values(value).every(check);
+}
+
+/**
+ * Every policy, plus the tools each session type offers before policies apply
+ */
+async function handleListToolPolicies(request: NextRequest, context: SecurityContext): Promise<NextResponse> {
+  try {
+    if (!context.user) {
+      return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+    }
+
+    if (!context.user.isAdmin) {
+      return NextResponse.json({ error: 'Admin privileges required' }, { status: 403 });
+    }
+
+    const policies = await listToolPolicies();
+    const tools = Object.fromEntries(
+      TOOL_POLICY_SESSION_TYPES.map(type => [type, getAITools(type).map(describeTool)])
+    );
+
+    return NextResponse.json({ policies, tools, sessionTypes: TOOL_POLICY_SESSION_TYPES, tiers: TOOL_POLICY_TIERS });
+  } catch (error) {
+    console.error('List tool policies error:', error);
+    return NextResponse.json({ error: 'Failed to load tool policies' }, { status: 500 });
+  }
+}
+
+/**
+ * Save the policy for { sessionType, tier, toolName } with { enabled, constraints }
+ */
+async function handleSaveToolPolicy(request: NextRequest, context: SecurityContext): Promise<NextResponse> {
+  try {
+    const { sessionType, tier, toolName, enabled, constraints = {} } = await request.json();
+
+    if (!context.user) {
+      return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+    }
+
+    if (!context.user.isAdmin) {
+      return NextResponse.json({ error: 'Admin privileges required' }, { status: 403 });
+    }
+
+    if (!TOOL_POLICY_SESSION_TYPES.includes(sessionType)) {
+      return NextResponse.json({ error: 'Invalid session type' }, { status: 400 });
+    }
+
+    if (!TOOL_POLICY_TIERS.includes(tier)) {
+      return NextResponse.json({ error: 'Invalid subscription tier' }, { status: 400 });
+    }
+
+    if (typeof toolName !== 'string' || !toolName) {
+      return NextResponse.json({ error: 'Tool name is required' }, { status: 400 });
+    }
+
+    if (typeof enabled !== 'boolean') {
+      return NextResponse.json({ error: 'enabled must be true or false' }, { status: 400 });
+    }
+
+    const { maxLength = {}, allowedValues = {} } = constraints;
+    const isPositiveInteger = (value: unknown): value is number => Number.isInteger(value) && (value as number) > 0;
+    const isStringList = (value: unknown): value is string[] =>
+      Array.isArray(value) && value.length > 0 && value.every(item => typeof item === 'string');
+
+    if (!isStringRecord(maxLength, isPositiveInteger)) {
+      return NextResponse.json({ error: 'maxLength must map argument names to positive whole numbers' }, { status: 400 });
+    }
+
+    if (!isStringRecord(allowedValues, isStringList)) {
+      return NextResponse.json({ error: 'allowedValues must map argument names to non-empty lists of values' }, { status: 400 });
+    }
+
+    const policy = await saveToolPolicy({
+      sessionType,
+      tier,
+      toolName,
+      enabled,
+      constraints: {
+        ...(Object.keys(maxLength).length > 0 ? { maxLength } : {}),
+        ...(Object.keys(allowedValues).length > 0 ? { allowedValues } : {})
+      }
+    }, context.user.id);
+    console.log(`Tool policy for ${toolName} (${sessionType}, ${tier}) saved by ${context.user.id}`);
+
+    return NextResponse.json({ success: true, policy });
+  } catch (error) {
+    console.error('Save tool policy error:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to save tool policy'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Reset a tool to its default by removing its policy (?id=)
+ */
+async function handleDeleteToolPolicy(request: NextRequest, context: SecurityContext): Promise<NextResponse> {
+  try {
+    const policyId = request.nextUrl.searchParams.get('id');
+
+    if (!context.user) {
+      return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+    }
+
+    if (!context.user.isAdmin) {
+      return NextResponse.json({ error: 'Admin privileges required' }, { status: 403 });
+    }
+
+    if (!policyId) {
+      return NextResponse.json({ error: 'Policy id is required' }, { status: 400 });
+    }
+
+    await deleteToolPolicy(policyId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete tool policy error:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to reset tool policy'
+    }, { status: 500 });
+  }
+}
+
+// Export the secured handlers
+export const GET = withAPISecurity(handleListToolPolicies, SecurityConfigs.ADMIN_API);
+export const PUT = withAPISecurity(handleSaveToolPolicy, SecurityConfigs.ADMIN_API);
+export const DELETE = withAPISecurity(handleDeleteToolPolicy, SecurityConfigs.ADMIN_API);
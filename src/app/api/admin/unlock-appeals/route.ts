@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  decideAppeal,
+  getAppealContext,
+  listAppeals,
+  UNLOCK_APPEAL_DECISIONS,
+  UnlockAppealError
+} from '@/lib/ai/safety/unlock-appeals';
+import { withAPISecurity, SecurityConfigs, SecurityContext } from '@/middleware/api-security';
+
+const APPEAL_ERROR_STATUS: Record<UnlockAppealError['code'], number> = {
+  invalid: 400,
+  not_found: 404,
+  conflict: 409
+};
+
+/**
+ * Appeals (?status=pending, the default, or decided), or one appeal with the
+ * transcript around the lock and the lock call (?id=)
+ */
+async function handleGetUnlockAppeals(request: NextRequest, context: SecurityContext): Promise<NextResponse> {
+  try {
+    if (!context.user) {
+      return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+    }
+
+    if (!context.user.isAdmin) {
+      return NextResponse.json({ error: 'Admin privileges required' }, { status: 403 });
+    }
+
+    const appealId = request.nextUrl.searchParams.get('id');
+    if (appealId) {
+      return NextResponse.json(await getAppealContext(appealId));
+    }
+
+    const status = request.nextUrl.searchParams.get('status') || 'pending';
+    if (status !== 'pending' && status !== 'decided') {
+      return NextResponse.json({ error: 'Status must be pending or decided' }, { status: 400 });
+    }
+
+    return NextResponse.json({ appeals: await listAppeals(status) });
+  } catch (error) {
+    if (error instanceof UnlockAppealError) {
+      return NextResponse.json({ error: error.message }, { status: APPEAL_ERROR_STATUS[error.code] });
+    }
+
+    console.error('Get unlock appeals error:', error);
+    return NextResponse.json({ error: 'Failed to load unlock appeals' }, { status: 500 });
+  }
+}
+
+/**
+ * Decide a pending appeal: { id, decision, note, conditions }
+ */
+async function handleDecideAppeal(request: NextRequest, context: SecurityContext): Promise<NextResponse> {
+  try {
+    const { id, decision, note, conditions } = await request.json();
+
+    if (!context.user) {
+      return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+    }
+
+    if (!context.user.isAdmin) {
+      return NextResponse.json({ error: 'Admin privileges required' }, { status: 403 });
+    }
+
+    if (typeof id !== 'string' || !id) {
+      return NextResponse.json({ error: 'Appeal id is required' }, { status: 400 });
+    }
+
+    if (!UNLOCK_APPEAL_DECISIONS.includes(decision)) {
+      return NextResponse.json({ error: `Decision must be one of: ${UNLOCK_APPEAL_DECISIONS.join(', ')}` }, { status: 400 });
+    }
+
+    if ((note !== undefined && typeof note !== 'string') || (conditions !== undefined && typeof conditions !== 'string')) {
+      return NextResponse.json({ error: 'Note and conditions must be text' }, { status: 400 });
+    }
+
+    const appeal = await decideAppeal(id, decision, { note, conditions }, context.user.id);
+    console.log(`Unlock appeal ${id} for session ${appeal.session_id}: ${decision} by ${context.user.id}`);
+
+    return NextResponse.json({ appeal });
+  } catch (error) {
+    if (error instanceof UnlockAppealError) {
+      return NextResponse.json({ error: error.message }, { status: APPEAL_ERROR_STATUS[error.code] });
+    }
+
+    console.error('Decide unlock appeal error:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to decide appeal'
+    }, { status: 500 });
+  }
+}
+
+// Export the secured handlers
+export const GET = withAPISecurity(handleGetUnlockAppeals, SecurityConfigs.ADMIN_API);
+export const PUT = withAPISecurity(handleDecideAppeal, SecurityConfigs.ADMIN_API);
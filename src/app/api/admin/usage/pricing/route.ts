@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { removeModelPrice, setModelPrice } from '@/lib/ai/usage-service';
+import { withAPISecurity, SecurityConfigs, SecurityContext } from '@/middleware/api-security';
+
+/**
+ * Set a model's price in USD per million tokens, overriding the default
+ */
+async function handleSetPrice(request: NextRequest, context: SecurityContext): Promise<NextResponse> {
+  try {
+    const { model, inputPerMillion, outputPerMillion } = await request.json();
+
+    if (!context.user) {
+      return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+    }
+
+    if (!context.user.isAdmin) {
+      return NextResponse.json({ error: 'Admin privileges required' }, { status: 403 });
+    }
+
+    if (typeof model !== 'string' || !model.trim() || model.length > 100) {
+      return NextResponse.json({ error: 'A model name is required' }, { status: 400 });
+    }
+
+    const prices = [inputPerMillion, outputPerMillion];
+    if (prices.some(price => typeof price !== 'number' || !Number.isFinite(price) || price < 0)) {
+      return NextResponse.json({ error: 'Prices must be non-negative numbers' }, { status: 400 });
+    }
+
+    await setModelPrice(model.trim(), inputPerMillion, outputPerMillion);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Set model price error:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to save model price'
+    }, { status: 500 });
+  }
+}
+
+async function handleRemovePrice(request: NextRequest, context: SecurityContext): Promise<NextResponse> {
+  try {
+    const model = request.nextUrl.searchParams.get('model');
+
+    if (!context.user) {
+      return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+    }
+
+    if (!context.user.isAdmin) {
+      return NextResponse.json({ error: 'Admin privileges required' }, { status: 403 });
+    }
+
+    if (!model) {
+      return NextResponse.json({ error: 'A model name is required' }, { status: 400 });
+    }
+
+    await removeModelPrice(model);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Remove model price error:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to remove model price'
+    }, { status: 500 });
+  }
+}
+
+// Export the secured handlers
+export const PUT = withAPISecurity(handleSetPrice, SecurityConfigs.ADMIN_API);
+export const DELETE = withAPISecurity(handleRemovePrice, SecurityConfigs.ADMIN_API);
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPriceTable, getUsageReport } from '@/lib/ai/usage-service';
+import { withAPISecurity, SecurityConfigs, SecurityContext } from '@/middleware/api-security';
+
+const ALLOWED_DAYS = [1, 7, 30, 90];
+
+async function handleUsageRequest(request: NextRequest, context: SecurityContext): Promise<NextResponse> {
+  try {
+    if (!context.user) {
+      return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+    }
+
+    if (!context.user.isAdmin) {
+      return NextResponse.json({ error: 'Admin privileges required' }, { status: 403 });
+    }
+
+    const days = Number(request.nextUrl.searchParams.get('days') || 30);
+    if (!ALLOWED_DAYS.includes(days)) {
+      return NextResponse.json({ error: `days must be one of ${ALLOWED_DAYS.join(', ')}` }, { status: 400 });
+    }
+
+    const [report, prices] = await Promise.all([getUsageReport(days), getPriceTable()]);
+
+    return NextResponse.json({ report, prices });
+  } catch (error) {
+    console.error('AI usage report error:', error);
+    return NextResponse.json({ error: 'Failed to load AI usage' }, { status: 500 });
+  }
+}
+
+// Export the secured handler
+export const GET = withAPISecurity(handleUsageRequest, SecurityConfigs.ADMIN_API);
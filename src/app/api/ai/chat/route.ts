@@ -1,10 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
-import { ServerAIService } from '@/lib/ai/server-ai-service';
+import { ServerAIService, AIMessage } from '@/lib/ai/server-ai-service';
 import { withAPISecurity, SecurityConfigs, SecurityContext } from '@/middleware/api-security';
 import { InputSanitizer } from '@/lib/security/input-sanitizer';
 import { SecureErrorHandler } from '@/lib/security/error-handler';
 import { generateGroupSessionIntro } from '@/lib/ai/group-intro-generator';
+import { buildConversationContext } from '@/lib/ai/context-manager';
+import { assembleMessages, formatGroupMessage } from '@/lib/ai/message-assembler';
+import { formatSSEEvent, CHAT_STREAM_CONTENT_TYPE } from '@/lib/chat-stream';
+import { SessionMetadataSchema } from '@/lib/ai/structured-output';
+import { CrisisScreening, resolveResourceLocale, screenMessage } from '@/lib/ai/safety';
+import { attachModeratedMessage, GroupModerationOutcome, moderateGroupMessage } from '@/lib/ai/moderation';
+import { decryptFields, encryptField, encryptMessageContent, ENCRYPTED_FIELDS } from '@/lib/security/field-encryption';
+import { ChatStreamEvent, PromptVersions, ResourceLocale, SessionMessage } from '@/types';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -14,7 +22,7 @@ const supabase = createClient(
 /**
  * Generate session name and summary based on conversation content
  */
-async function generateSessionMetadata(sessionId: string, messages: any[], aiResponse: string) {
+async function generateSessionMetadata(sessionId: string, userId: string, messages: SessionMessage[], aiResponse: string) {
   try {
     // Only generate metadata after a few messages to have enough context
     if (messages.length < 3) {
@@ -42,14 +50,6 @@ async function generateSessionMetadata(sessionId: string, messages: any[], aiRes
       .join('\n');
 
     // Generate session name and summary using AI
-    const { data: aiConfig } = await supabase
-      .from('ai_config')
-      .select('*')
-      .eq('is_active', true)
-      .single();
-
-    if (!aiConfig) return;
-
     const prompt = `Based on this wellness conversation, generate a concise session title (max 50 chars) and a brief summary (max 200 chars) that captures the main topics and themes discussed.
 
 Conversation:
@@ -57,72 +57,162 @@ ${conversationSummary}
 
 AI Response: ${aiResponse}
 
-Please respond in this exact format:
-TITLE: [Session Title Here]
-SUMMARY: [Brief summary of the session topics and themes]
-
 The title should be engaging and descriptive. The summary should highlight the main wellness topics, goals, or challenges discussed.`;
 
-    let aiResponse_text = '';
-    
-    if (aiConfig.provider === 'openai') {
-      const OpenAI = require('openai').default;
-      const openai = new OpenAI({ apiKey: aiConfig.api_key });
-      
-      // Use correct token parameter for newer models with higher limits
-      const isNewModel = ['gpt-5', 'gpt-4.1', 'o3', 'gpt-4o', 'gpt-4o-realtime-preview'].some(newModel => aiConfig.model.includes(newModel));
-      const tokenLimit = isNewModel ? 500 : 200; // Higher limit for newer models
-      const tokenParam = isNewModel ? { max_completion_tokens: tokenLimit } : { max_tokens: tokenLimit };
-      
-      const response = await openai.chat.completions.create({
-        model: aiConfig.model,
-        messages: [{ role: 'user', content: prompt }],
-        ...tokenParam,
-        temperature: 0.7,
-      });
-      
-      aiResponse_text = response.choices[0]?.message?.content || '';
-    } else if (aiConfig.provider === 'anthropic') {
-      const Anthropic = require('@anthropic-ai/sdk').default;
-      const anthropic = new Anthropic({ apiKey: aiConfig.api_key });
-      
-      const response = await anthropic.messages.create({
-        model: aiConfig.model,
-        max_tokens: 200,
-        messages: [{ role: 'user', content: prompt }],
-      });
-      
-      aiResponse_text = response.content[0]?.text || '';
-    }
-
-    if (!aiResponse_text) return;
-
-    // Parse the AI response
-    const titleMatch = aiResponse_text.match(/TITLE:\s*(.+)/);
-    const summaryMatch = aiResponse_text.match(/SUMMARY:\s*(.+)/);
+    const result = await ServerAIService.completeStructured(
+      prompt,
+      SessionMetadataSchema,
+      'session_metadata',
+      { maxTokens: 500, temperature: 0.7 },
+      { purpose: 'session_metadata', sessionId, userId }
+    );
 
-    if (titleMatch && summaryMatch) {
-      const newTitle = titleMatch[1].trim();
-      const newSummary = summaryMatch[1].trim();
-
-      // Update the session with the generated metadata
-      await supabase
-        .from('therapy_sessions')
-        .update({
-          title: newTitle,
-          session_summary: newSummary
-        })
-        .eq('session_id', sessionId);
+    if (!result.success) {
+      console.error('Session metadata generation failed:', result.error);
+      return;
     }
+
+    // Update the session with the generated metadata
+    await supabase
+      .from('therapy_sessions')
+      .update({
+        title: result.data.title,
+        session_summary: result.data.summary
+      })
+      .eq('session_id', sessionId);
   } catch (error) {
     console.error('Error generating session metadata:', error);
     // Don't throw error as this is not critical functionality
   }
 }
 
+/**
+ * Save the AI response and bump the session's last message time
+ */
+async function saveAIResponse(
+  sessionId: string,
+  content: string,
+  promptVersions?: PromptVersions,
+  experimentArmId?: string
+) {
+  const { data: aiMessage, error: aiMessageError } = await supabase
+    .from('session_messages')
+    .insert({
+      session_id: sessionId,
+      sender_type: 'ai',
+      content: await encryptMessageContent(sessionId, 'ai', null, content),
+      prompt_versions: promptVersions || null,
+      experiment_arm_id: experimentArmId || null
+    })
+    .select()
+    .single();
+
+  if (aiMessageError) {
+    console.error('Error saving AI message:', aiMessageError);
+    return null;
+  }
+
+  // Update session last message time
+  await supabase
+    .from('therapy_sessions')
+    .update({ last_message_at: new Date().toISOString() })
+    .eq('session_id', sessionId);
+
+  return aiMessage;
+}
+
+/**
+ * Add the crisis resources from screening, if any, below the reply
+ */
+function withCrisisResources(content: string, crisis: CrisisScreening): string {
+  if (!crisis.resources) {
+    return content;
+  }
+  return content ? `${content}\n\n${crisis.resources}` : crisis.resources;
+}
+
+/**
+ * Stream the AI response as Server-Sent Events, saving the final message once the stream completes.
+ * A moderation notice for the sender is sent first.
+ */
+function streamChatResponse(
+  messages: AIMessage[],
+  sessionId: string,
+  userId: string,
+  recentMessages: SessionMessage[],
+  crisis: CrisisScreening,
+  locale: ResourceLocale,
+  moderationNotice: string | null
+): NextResponse {
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ChatStreamEvent) => controller.enqueue(encoder.encode(formatSSEEvent(event)));
+
+      try {
+        if (moderationNotice) {
+          send({ type: 'moderation', message: moderationNotice });
+        }
+
+        let finalContent = '';
+        let promptVersions: PromptVersions | undefined;
+        let experimentArmId: string | undefined;
+
+        for await (const event of ServerAIService.streamResponse(messages, sessionId, userId, undefined, crisis.riskLevel, locale)) {
+          if (event.type === 'done') {
+            finalContent = event.content;
+            promptVersions = event.promptVersions;
+            experimentArmId = event.experimentArmId;
+          } else if (event.type === 'error' && crisis.resources) {
+            // The crisis resources still reach the user when the model fails
+            console.error('AI stream failed for a high-risk message, sending crisis resources only:', event.error);
+            break;
+          } else {
+            send(event);
+            if (event.type === 'error') return;
+          }
+        }
+
+        if (crisis.resources) {
+          const withResources = withCrisisResources(finalContent, crisis);
+          send({ type: 'text', delta: withResources.slice(finalContent.length) });
+          finalContent = withResources;
+        }
+
+        const aiMessage = await saveAIResponse(sessionId, finalContent, promptVersions, experimentArmId);
+        if (!aiMessage) {
+          send({ type: 'error', error: 'Failed to save AI response' });
+          return;
+        }
+
+        send({ type: 'done', content: finalContent, messageId: aiMessage.message_id });
+
+        // Generate session name and summary if this is a good time to do so
+        await generateSessionMetadata(sessionId, userId, recentMessages, finalContent);
+      } catch (error) {
+        console.error('Error streaming AI response:', error);
+        send({ type: 'error', error: 'Failed to generate AI response' });
+      } finally {
+        controller.close();
+      }
+    }
+  });
+
+  return new NextResponse(body, {
+    headers: {
+      'Content-Type': CHAT_STREAM_CONTENT_TYPE,
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      // Disable nginx response buffering so tokens reach the client immediately
+      'X-Accel-Buffering': 'no'
+    }
+  });
+}
+
 async function handleChatRequest(request: NextRequest, context: SecurityContext): Promise<NextResponse> {
   try {
-    const { message, sessionId } = await request.json();
+    const { message, sessionId, stream } = await request.json();
 
     if (!context.user) {
       return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
@@ -312,12 +402,35 @@ async function handleChatRequest(request: NextRequest, context: SecurityContext)
       }
     }
 
+    // Crisis resources are given for the user's region and language
+    const locale = await resolveResourceLocale({
+      userId: context.user.id,
+      acceptLanguage: request.headers.get('accept-language')
+    });
+
+    // Moderate participant messages in group sessions before anyone sees them
+    let moderation: GroupModerationOutcome | null = null;
+    if (isGroupSessionForRateLimit) {
+      moderation = await moderateGroupMessage(sanitizedMessage, sessionId, context.user.id, session.user_id);
+
+      if (moderation.held) {
+        // A held message is still screened so a crisis in it is escalated
+        const crisis = await screenMessage(sanitizedMessage, sessionId, context.user.id, locale);
+        return NextResponse.json({
+          error: moderation.notice,
+          messageHeld: true,
+          crisisResources: crisis.resources
+        }, { status: 422 });
+      }
+    }
+
     // Save user message to database (only if validation passed)
     // Try inserting with user_id first, fallback to without if column doesn't exist yet
+    const encryptedMessage = await encryptField(context.user.id, sanitizedMessage);
     let insertData: any = {
       session_id: sessionId,
       sender_type: 'user',
-      content: sanitizedMessage,
+      content: encryptedMessage,
     };
     
     // Include user_id if the column exists (migration may not have been run yet)
@@ -339,7 +452,7 @@ async function handleChatRequest(request: NextRequest, context: SecurityContext)
           .insert({
             session_id: sessionId,
             sender_type: 'user',
-            content: sanitizedMessage,
+            content: encryptedMessage,
           })
           .select()
           .single();
@@ -361,6 +474,13 @@ async function handleChatRequest(request: NextRequest, context: SecurityContext)
     console.log('=== CHAT API DEBUG ===');
     console.log('User message saved successfully');
 
+    if (moderation?.eventId && userMessage) {
+      await attachModeratedMessage(moderation.eventId, userMessage.message_id);
+    }
+
+    // Screen the message for crisis risk before it reaches the model
+    const crisis = await screenMessage(sanitizedMessage, sessionId, context.user.id, locale, userMessage?.message_id);
+
     // Verify intro message exists
     let { data: introMsg } = await supabase
       .from('session_messages')
@@ -371,6 +491,10 @@ async function handleChatRequest(request: NextRequest, context: SecurityContext)
       .limit(1)
       .maybeSingle();
 
+    if (introMsg) {
+      introMsg = await decryptFields(introMsg, ENCRYPTED_FIELDS.session_messages);
+    }
+
     // If no intro message exists, check if this is a group session and create one
     if (!introMsg) {
       const { data: session } = await supabase
@@ -391,13 +515,13 @@ async function handleChatRequest(request: NextRequest, context: SecurityContext)
               .insert({
                 session_id: sessionId,
                 sender_type: 'ai',
-                content: customIntro
+                content: await encryptMessageContent(sessionId, 'ai', null, customIntro)
               })
               .select()
               .single();
 
             if (!introError && savedIntro) {
-              introMsg = savedIntro;
+              introMsg = { ...savedIntro, content: customIntro };
               console.log('Created custom group intro message');
             }
           }
@@ -407,25 +531,7 @@ async function handleChatRequest(request: NextRequest, context: SecurityContext)
       }
     }
 
-    console.log('First AI message check:', introMsg ? `Found: ${introMsg.content.substring(0, 50)}...` : 'NOT FOUND');
-
-    // Get recent messages for context
-    const { data: recentMessages, error: messagesError } = await supabase
-      .from('session_messages')
-      .select('*, user_id')
-      .eq('session_id', sessionId)
-      .order('timestamp', { ascending: false })
-      .limit(10);
-
-    if (messagesError) {
-      console.error('Error fetching messages:', messagesError);
-      return NextResponse.json({ error: 'Failed to fetch messages' }, { status: 500 });
-    }
-
-    console.log('Raw messages from database:', recentMessages.length);
-    recentMessages.forEach((msg, i) => {
-      console.log(`  DB[${i}] ${msg.sender_type}: ${msg.content.substring(0, 50)}... (user_id: ${msg.user_id || 'none'})`);
-    });
+    console.log('First AI message check:', introMsg ? 'Found' : 'NOT FOUND');
 
     // Check if this is a group session to include user context in messages
     const isGroupSession = isGroupSessionForRateLimit;
@@ -518,59 +624,48 @@ async function handleChatRequest(request: NextRequest, context: SecurityContext)
       console.log('Participant names map (including owner):', Array.from(participantNames.entries()));
     }
 
-    // Convert to AI format (reverse order for proper context)
-    // For group sessions, include user name in user messages
-    const aiMessages = recentMessages
-      .reverse()
-      .map(msg => {
-        let content = msg.content;
-        
-        // For group sessions, prefix user messages with participant name
-        if (isGroupSession && msg.sender_type === 'user' && msg.user_id) {
-          const participantName = participantNames.get(msg.user_id) || 'Someone';
-          content = `[${participantName}]: ${msg.content}`;
-        }
-        
-        return {
-          role: (msg.sender_type === 'user' ? 'user' : 'assistant') as 'user' | 'assistant' | 'system',
-          content: content
-        };
-      });
+    // For group sessions, prefix user messages with participant name
+    const formatContent = (msg: SessionMessage) => {
+      if (isGroupSession && msg.sender_type === 'user' && msg.user_id) {
+        const participantName = participantNames.get(msg.user_id) || 'Someone';
+        return formatGroupMessage(participantName, msg.content);
+      }
+      return msg.content;
+    };
+
+    // Get recent messages for context; older turns are folded into the session's running summary
+    let recentMessages: SessionMessage[];
+    try {
+      const conversationContext = await buildConversationContext(
+        sessionId,
+        (msg) => msg.sender_type === 'ai' ? `Coach: ${msg.content}` : isGroupSession ? formatContent(msg) : `User: ${msg.content}`,
+        context.user.id,
+        // Same names the chat turn redacts: the email prefix, or the group's participants
+        [context.user.email.split('@')[0], ...Array.from(participantNames.values()).filter(name => name !== 'Participant')]
+      );
+      recentMessages = conversationContext.messages;
+    } catch (error) {
+      console.error('Error fetching messages:', error);
+      return NextResponse.json({ error: 'Failed to fetch messages' }, { status: 500 });
+    }
+
+    // Counts only: message text is encrypted at rest and stays out of the logs
+    const senderCounts = recentMessages.reduce<Record<string, number>>((counts, msg) => {
+      counts[msg.sender_type] = (counts[msg.sender_type] || 0) + 1;
+      return counts;
+    }, {});
+    console.log('Raw messages from database:', recentMessages.length, senderCounts);
+
+    // Convert to AI format (already in chronological order)
+    const aiMessages = recentMessages.map(msg => ({
+      role: (msg.sender_type === 'user' ? 'user' : 'assistant') as 'user' | 'assistant' | 'system',
+      content: formatContent(msg)
+    }));
 
     console.log('Converted to AI format:', aiMessages.length);
-    aiMessages.forEach((msg, i) => {
-      console.log(`  AI[${i}] ${msg.role}: ${msg.content.substring(0, 50)}...`);
-    });
 
-    // Validate and fix message sequence to ensure proper alternation
-    const validatedMessages = [];
-    let lastRole = null;
-    let userMessageCount = 0;
-    let assistantMessageCount = 0;
-    
-    // Process messages in chronological order (oldest first)
-    for (const msg of aiMessages) {
-      // Skip if this would create consecutive messages of same type
-      if (lastRole === msg.role) {
-        console.warn(`Skipping consecutive ${msg.role} message:`, msg.content.substring(0, 50));
-        continue;
-      }
-      
-      // For user messages, ensure we don't have too many without assistant responses
-      if (msg.role === 'user') {
-        userMessageCount++;
-        // If we have more user messages than assistant messages, skip this one
-        if (userMessageCount > assistantMessageCount + 1) {
-          console.warn(`Skipping user message ${userMessageCount} - waiting for assistant response`);
-          continue;
-        }
-      } else if (msg.role === 'assistant') {
-        assistantMessageCount++;
-      }
-      
-      validatedMessages.push(msg);
-      lastRole = msg.role;
-    }
+    // Merge consecutive turns so every participant's message reaches the AI and roles still alternate
+    const validatedMessages = assembleMessages(aiMessages);
 
     // Ensure we have at least one user message and proper alternation
     if (!validatedMessages.some(msg => msg.role === 'user')) {
@@ -586,49 +681,46 @@ async function handleChatRequest(request: NextRequest, context: SecurityContext)
     console.log(`Validated ${validatedMessages.length} messages: ${validatedMessages.map(m => m.role).join(' -> ')}`);
 
     console.log('After validation:', validatedMessages.length);
-    validatedMessages.forEach((msg, i) => {
-      console.log(`  VAL[${i}] ${msg.role}: ${msg.content.substring(0, 50)}...`);
-    });
     console.log('=== END CHAT API DEBUG ===');
 
-    // Generate AI response with enhanced context
-    const aiResponse = await ServerAIService.generateResponse(validatedMessages, sessionId, context.user.id);
+    // Stream the response as Server-Sent Events when requested
+    if (stream === true) {
+      return streamChatResponse(validatedMessages, sessionId, context.user.id, recentMessages, crisis, locale, moderation?.notice ?? null);
+    }
 
-    if (!aiResponse.success) {
+    // Generate AI response with enhanced context
+    const aiResponse = await ServerAIService.generateResponse(
+      validatedMessages,
+      sessionId,
+      context.user.id,
+      undefined,
+      undefined,
+      crisis.riskLevel,
+      locale
+    );
+
+    // The crisis resources still reach the user when the model fails
+    if (!aiResponse.success && !crisis.resources) {
       return NextResponse.json({ 
         error: aiResponse.error || 'Failed to generate AI response' 
       }, { status: 500 });
     }
 
-    // Save AI response to database
-    const { data: aiMessage, error: aiMessageError } = await supabase
-      .from('session_messages')
-      .insert({
-        session_id: sessionId,
-        sender_type: 'ai',
-        content: aiResponse.content!
-      })
-      .select()
-      .single();
+    const replyContent = withCrisisResources(aiResponse.success ? aiResponse.content! : '', crisis);
+    const aiMessage = await saveAIResponse(sessionId, replyContent, aiResponse.promptVersions, aiResponse.experimentArmId);
 
-    if (aiMessageError) {
-      console.error('Error saving AI message:', aiMessageError);
+    if (!aiMessage) {
       return NextResponse.json({ error: 'Failed to save AI response' }, { status: 500 });
     }
 
-    // Update session last message time
-    await supabase
-      .from('therapy_sessions')
-      .update({ last_message_at: new Date().toISOString() })
-      .eq('session_id', sessionId);
-
     // Generate session name and summary if this is a good time to do so
-    await generateSessionMetadata(sessionId, recentMessages, aiResponse.content!);
+    await generateSessionMetadata(sessionId, context.user.id, recentMessages, replyContent);
 
     return NextResponse.json({ 
       success: true, 
-      message: aiResponse.content,
-      messageId: aiMessage.id
+      message: replyContent,
+      messageId: aiMessage.message_id,
+      ...(moderation?.notice ? { moderationNotice: moderation.notice } : {})
     });
 
   } catch (error: any) {
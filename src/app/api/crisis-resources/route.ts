@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getResourceDirectory, resolveResourceLocale } from '@/lib/ai/safety';
+import { AuthValidator } from '@/lib/security/auth-validator';
+import { withAPISecurity, SecurityConfigs } from '@/middleware/api-security';
+
+/**
+ * Crisis resources for the caller's locale (?region= to choose another).
+ * Public so the resources page works signed out; signed-in users get the
+ * locale from their profile.
+ */
+async function handleGetCrisisResources(request: NextRequest): Promise<NextResponse> {
+  try {
+    const auth = await AuthValidator.validateAuth(request.headers.get('authorization'), request);
+
+    const locale = await resolveResourceLocale({
+      region: request.nextUrl.searchParams.get('region'),
+      userId: auth.isValid ? auth.user!.id : undefined,
+      acceptLanguage: request.headers.get('accept-language')
+    });
+
+    return NextResponse.json(await getResourceDirectory(locale));
+  } catch (error) {
+    console.error('Get crisis resources error:', error);
+    return NextResponse.json({ error: 'Failed to load crisis resources' }, { status: 500 });
+  }
+}
+
+// Export the secured handlers
+export const GET = withAPISecurity(handleGetCrisisResources, SecurityConfigs.PUBLIC);
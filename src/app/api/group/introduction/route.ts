@@ -3,6 +3,7 @@ import { createClient } from '@/lib/supabase/server';
 import { createClient as createServiceClient } from '@supabase/supabase-js';
 import { withAPISecurity } from '@/middleware/api-security';
 import { GROUP_SESSION_CONFIG } from '@/lib/group-session-config';
+import { decryptRows, encryptFields, ENCRYPTED_FIELDS } from '@/lib/security/field-encryption';
 
 async function handleSubmitIntroduction(request: NextRequest) {
   try {
@@ -100,7 +101,7 @@ async function handleSubmitIntroduction(request: NextRequest) {
     // Upsert introduction (update if exists, insert if not)
     const { data: introduction, error } = await serviceClient
       .from('participant_introductions')
-      .upsert(introductionData, {
+      .upsert(await encryptFields(user.id, introductionData, ENCRYPTED_FIELDS.participant_introductions), {
         onConflict: 'session_id,user_id'
       })
       .select()
@@ -153,7 +154,7 @@ async function handleGetIntroductions(request: NextRequest) {
     }
 
     // Get all introductions for this session
-    const { data: introductions, error } = await supabase
+    const { data: storedIntroductions, error } = await supabase
       .from('participant_introductions')
       .select(`
         id,
@@ -187,7 +188,8 @@ async function handleGetIntroductions(request: NextRequest) {
     }
 
     // Format introductions for display
-    const formattedIntroductions = introductions?.map(intro => {
+    const introductions = await decryptRows(storedIntroductions, ENCRYPTED_FIELDS.participant_introductions);
+    const formattedIntroductions = introductions.map(intro => {
       const user = Array.isArray(intro.users) ? intro.users[0] : intro.users;
       const baseIntro = {
         id: intro.id,
@@ -227,7 +229,7 @@ async function handleGetIntroductions(request: NextRequest) {
       }
 
       return baseIntro;
-    }) || [];
+    });
 
     return NextResponse.json({ introductions: formattedIntroductions });
   } catch (error) {
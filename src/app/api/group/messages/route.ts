@@ -3,6 +3,7 @@ import { createClient } from '@/lib/supabase/server';
 import { createClient as createServiceClient } from '@supabase/supabase-js';
 import { withAPISecurity } from '@/middleware/api-security';
 import { generateGroupSessionIntro } from '@/lib/ai/group-intro-generator';
+import { decryptRows, encryptMessageContent, ENCRYPTED_FIELDS } from '@/lib/security/field-encryption';
 
 async function handleGetMessages(request: NextRequest) {
   try {
@@ -15,6 +16,8 @@ async function handleGetMessages(request: NextRequest) {
 
     const { searchParams } = new URL(request.url);
     const sessionId = searchParams.get('sessionId');
+    // Optional: just this message, for realtime events whose content arrives encrypted
+    const messageId = searchParams.get('messageId');
     
     if (!sessionId) {
       return NextResponse.json({ error: 'Session ID is required' }, { status: 400 });
@@ -65,19 +68,27 @@ async function handleGetMessages(request: NextRequest) {
 
     const isGroupSession = sessionData?.is_group || sessionData?.session_type === 'group';
 
-    const { data: messages, error } = await serviceClient
+    let query = serviceClient
       .from('session_messages')
       .select('*')
       .eq('session_id', sessionId)
       .order('timestamp', { ascending: true });
 
+    if (messageId) {
+      query = query.eq('message_id', messageId);
+    }
+
+    const { data: storedMessages, error } = await query;
+
     if (error) {
       console.error('Error fetching messages:', error);
       return NextResponse.json({ error: 'Failed to fetch messages' }, { status: 500 });
     }
 
+    const messages = await decryptRows(storedMessages, ENCRYPTED_FIELDS.session_messages);
+
     // Check if the first AI message is generic and replace it for group sessions
-    const firstAIMessage = messages?.find(msg => msg.sender_type === 'ai');
+    const firstAIMessage = messageId ? undefined : messages.find(msg => msg.sender_type === 'ai');
     
     // Normalize text for comparison (remove extra whitespace)
     const normalizeText = (text: string) => text.trim().replace(/\s+/g, ' ');
@@ -109,7 +120,7 @@ async function handleGetMessages(request: NextRequest) {
               // Update the generic intro with the custom one
               const { error: updateError } = await serviceClient
                 .from('session_messages')
-                .update({ content: customIntro })
+                .update({ content: await encryptMessageContent(sessionId, 'ai', null, customIntro) })
                 .eq('message_id', firstAIMessage.message_id);
 
               if (!updateError) {
@@ -126,7 +137,7 @@ async function handleGetMessages(request: NextRequest) {
                 if (updatedMessages) {
                   // Replace the messages array with updated one
                   messages.length = 0;
-                  messages.push(...updatedMessages);
+                  messages.push(...await decryptRows(updatedMessages, ENCRYPTED_FIELDS.session_messages));
                 }
               } else {
                 console.error('[MESSAGES API] Error updating intro message:', updateError);
@@ -147,7 +158,7 @@ async function handleGetMessages(request: NextRequest) {
     }
 
     // Format messages for the frontend
-    const formattedMessages = messages?.map(msg => ({
+    const formattedMessages = messages.map(msg => ({
       id: msg.message_id || msg.id,
       session_id: msg.session_id,
       sender: msg.sender_type === 'user' ? 'user' : 'ai',
@@ -155,7 +166,7 @@ async function handleGetMessages(request: NextRequest) {
       timestamp: new Date(msg.timestamp),
       status: 'sent' as const,
       user_id: msg.user_id || null // Include user_id to identify message sender
-    })) || [];
+    }));
 
     return NextResponse.json({ messages: formattedMessages });
   } catch (error) {
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { withAPISecurity, SecurityConfigs, SecurityContext } from '@/middleware/api-security';
+import { listSessionModerationEvents } from '@/lib/ai/moderation';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+/**
+ * Moderation events in a group session (?sessionId=): all of them for the
+ * owner, the caller's own for other participants
+ */
+async function handleGetModerationEvents(request: NextRequest, context: SecurityContext): Promise<NextResponse> {
+  try {
+    if (!context.user) {
+      return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+    }
+
+    const sessionId = request.nextUrl.searchParams.get('sessionId');
+    if (!sessionId) {
+      return NextResponse.json({ error: 'Session ID is required' }, { status: 400 });
+    }
+
+    const { data: session } = await supabase
+      .from('therapy_sessions')
+      .select('user_id')
+      .eq('session_id', sessionId)
+      .maybeSingle();
+
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    const isOwner = session.user_id === context.user.id;
+    if (!isOwner) {
+      const { data: participation } = await supabase
+        .from('session_participants')
+        .select('user_id')
+        .eq('session_id', sessionId)
+        .eq('user_id', context.user.id)
+        .maybeSingle();
+
+      if (!participation) {
+        return NextResponse.json({ error: 'Access denied to this session' }, { status: 403 });
+      }
+    }
+
+    return NextResponse.json({ events: await listSessionModerationEvents(sessionId, context.user.id, isOwner) });
+  } catch (error) {
+    console.error('Get group moderation events error:', error);
+    return NextResponse.json({ error: 'Failed to load moderation events' }, { status: 500 });
+  }
+}
+
+// Export the secured handlers
+export const GET = withAPISecurity(handleGetModerationEvents, SecurityConfigs.GENERAL_API);
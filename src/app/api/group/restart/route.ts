@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { withAPISecurity, SecurityConfigs, SecurityContext } from '@/middleware/api-security';
 import { generateGroupSessionIntro } from '@/lib/ai/group-intro-generator';
+import { encryptMessageContent } from '@/lib/security/field-encryption';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -62,7 +63,7 @@ async function handleRestartRequest(request: NextRequest, context: SecurityConte
         .insert({
           session_id: sessionId,
           sender_type: 'ai',
-          content: customIntro
+          content: await encryptMessageContent(sessionId, 'ai', null, customIntro)
         })
         .select()
         .single();
@@ -75,7 +76,7 @@ async function handleRestartRequest(request: NextRequest, context: SecurityConte
           .insert({
             session_id: sessionId,
             sender_type: 'ai',
-            content: 'Welcome back! How are you feeling today? What would you like to work on?'
+            content: await encryptMessageContent(sessionId, 'ai', null, 'Welcome back! How are you feeling today? What would you like to work on?')
           });
 
         if (defaultIntroError) {
@@ -93,7 +94,7 @@ async function handleRestartRequest(request: NextRequest, context: SecurityConte
         .insert({
           session_id: sessionId,
           sender_type: 'ai',
-          content: 'Welcome back! How are you feeling today? What would you like to work on?'
+          content: await encryptMessageContent(sessionId, 'ai', null, 'Welcome back! How are you feeling today? What would you like to work on?')
         });
 
       if (defaultIntroError) {
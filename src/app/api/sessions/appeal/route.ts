@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAPISecurity, SecurityConfigs, SecurityContext } from '@/middleware/api-security';
+import {
+  getAppealState,
+  listUnseenOutcomes,
+  markAppealSeen,
+  submitAppeal,
+  UnlockAppealError
+} from '@/lib/ai/safety/unlock-appeals';
+
+const APPEAL_ERROR_STATUS: Record<UnlockAppealError['code'], number> = {
+  invalid: 400,
+  not_found: 404,
+  conflict: 409
+};
+
+/**
+ * The latest appeal for a locked session and whether it can be appealed
+ * (?sessionId=), or the decided appeals whose outcome the user has not seen
+ */
+async function handleGetAppeal(request: NextRequest, context: SecurityContext): Promise<NextResponse> {
+  try {
+    if (!context.user) {
+      return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+    }
+
+    const sessionId = request.nextUrl.searchParams.get('sessionId');
+    if (!sessionId) {
+      return NextResponse.json({ outcomes: await listUnseenOutcomes(context.user.id) });
+    }
+
+    const state = await getAppealState(sessionId, context.user.id);
+    if (!state) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      appeal: state.appeal,
+      canAppeal: !state.blockedReason,
+      blockedReason: state.blockedReason,
+      reappealAt: state.reappealAt
+    });
+  } catch (error) {
+    console.error('Get unlock appeal error:', error);
+    return NextResponse.json({ error: 'Failed to load appeal' }, { status: 500 });
+  }
+}
+
+/**
+ * Appeal the lock on one of the user's sessions: { sessionId, statement }
+ */
+async function handleSubmitAppeal(request: NextRequest, context: SecurityContext): Promise<NextResponse> {
+  try {
+    const { sessionId, statement } = await request.json();
+
+    if (!context.user) {
+      return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+    }
+
+    if (typeof sessionId !== 'string' || !sessionId) {
+      return NextResponse.json({ error: 'Session ID is required' }, { status: 400 });
+    }
+
+    if (typeof statement !== 'string' || !statement.trim()) {
+      return NextResponse.json({ error: 'Please explain why the session should be reopened' }, { status: 400 });
+    }
+
+    const appeal = await submitAppeal(sessionId, context.user.id, statement);
+    console.log(`Unlock appeal ${appeal.id} submitted for session ${sessionId}`);
+
+    return NextResponse.json({ appeal });
+  } catch (error) {
+    if (error instanceof UnlockAppealError) {
+      return NextResponse.json({ error: error.message }, { status: APPEAL_ERROR_STATUS[error.code] });
+    }
+
+    console.error('Submit unlock appeal error:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to submit appeal'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Mark the outcome of an appeal as seen: { appealId }
+ */
+async function handleMarkAppealSeen(request: NextRequest, context: SecurityContext): Promise<NextResponse> {
+  try {
+    const { appealId } = await request.json();
+
+    if (!context.user) {
+      return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+    }
+
+    if (typeof appealId !== 'string' || !appealId) {
+      return NextResponse.json({ error: 'Appeal ID is required' }, { status: 400 });
+    }
+
+    await markAppealSeen(appealId, context.user.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Mark unlock appeal seen error:', error);
+    return NextResponse.json({ error: 'Failed to update appeal' }, { status: 500 });
+  }
+}
+
+// Export the secured handlers
+export const GET = withAPISecurity(handleGetAppeal, SecurityConfigs.GENERAL_API);
+export const POST = withAPISecurity(handleSubmitAppeal, SecurityConfigs.GENERAL_API);
+export const PATCH = withAPISecurity(handleMarkAppealSeen, SecurityConfigs.GENERAL_API);
@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { withAPISecurity, SecurityConfigs, SecurityContext } from '@/middleware/api-security';
 import { InputSanitizer } from '@/lib/security/input-sanitizer';
+import { ServerAIService } from '@/lib/ai/server-ai-service';
+import { IntroductionGoalsSchema } from '@/lib/ai/structured-output';
+import { decryptRows, encryptField, ENCRYPTED_FIELDS } from '@/lib/security/field-encryption';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -39,7 +42,7 @@ async function handleIntroductionCompletion(request: NextRequest, context: Secur
     }
 
     // Get all messages from the introduction session
-    const { data: messages, error: messagesError } = await supabase
+    const { data: storedMessages, error: messagesError } = await supabase
       .from('session_messages')
       .select('*')
       .eq('session_id', sessionId)
@@ -50,10 +53,12 @@ async function handleIntroductionCompletion(request: NextRequest, context: Secur
       return NextResponse.json({ error: 'Failed to fetch session messages' }, { status: 500 });
     }
 
-    if (!messages || messages.length === 0) {
+    if (!storedMessages || storedMessages.length === 0) {
       return NextResponse.json({ error: 'No messages found in introduction session' }, { status: 400 });
     }
 
+    const messages = await decryptRows(storedMessages, ENCRYPTED_FIELDS.session_messages);
+
     // Extract user responses (skip the first AI message)
     const userMessages = messages
       .filter(msg => msg.sender_type === 'user')
@@ -65,88 +70,29 @@ async function handleIntroductionCompletion(request: NextRequest, context: Secur
     }
 
     // Use AI to extract and summarize goals
-    const { data: aiConfig } = await supabase
-      .from('ai_config')
-      .select('*')
-      .eq('is_active', true)
-      .single();
-
-    if (!aiConfig) {
-      return NextResponse.json({ error: 'AI configuration not found' }, { status: 500 });
-    }
-
     const goalExtractionPrompt = `Based on the user's responses to the introduction questions, extract and summarize their main goals and areas of focus. 
 
 User's responses:
 ${userMessages}
 
-Please provide:
-1. A brief summary of their main wellness goals (2-3 sentences)
-2. 3-5 specific, actionable goals extracted from their responses
-
-Format your response as:
-SUMMARY: [Brief summary of their main wellness goals and focus areas]
-
-GOALS:
-1. [First specific goal]
-2. [Second specific goal]
-3. [Third specific goal]
-4. [Fourth specific goal]
-5. [Fifth specific goal]
+Provide a brief summary of their main wellness goals (2-3 sentences) and 3-5 specific, actionable goals extracted from their responses.
 
 Make the goals specific, measurable, and relevant to their responses. Focus on wellness, personal growth, and mental health aspects.`;
 
-    let aiResponse = '';
-    
-    if (aiConfig.provider === 'openai') {
-      const OpenAI = require('openai').default;
-      const openai = new OpenAI({ apiKey: aiConfig.api_key });
-      
-      const response = await openai.chat.completions.create({
-        model: aiConfig.model,
-        messages: [{ role: 'user', content: goalExtractionPrompt }],
-        max_tokens: 500,
-        temperature: 0.7,
-      });
-      
-      aiResponse = response.choices[0]?.message?.content || '';
-    } else if (aiConfig.provider === 'anthropic') {
-      const Anthropic = require('@anthropic-ai/sdk').default;
-      const anthropic = new Anthropic({ apiKey: aiConfig.api_key });
-      
-      const response = await anthropic.messages.create({
-        model: aiConfig.model,
-        max_tokens: 500,
-        messages: [{ role: 'user', content: goalExtractionPrompt }],
-      });
-      
-      aiResponse = response.content[0]?.text || '';
-    }
+    const result = await ServerAIService.completeStructured(
+      goalExtractionPrompt,
+      IntroductionGoalsSchema,
+      'introduction_goals',
+      { maxTokens: 500, temperature: 0.7 },
+      { purpose: 'goal_extraction', sessionId, userId: context.user.id }
+    );
 
-    if (!aiResponse) {
+    if (!result.success) {
+      console.error('Introduction goal extraction failed:', result.error);
       return NextResponse.json({ error: 'Failed to extract goals using AI' }, { status: 500 });
     }
 
-    // Parse the AI response
-    const summaryMatch = aiResponse.match(/SUMMARY:\s*(.+?)(?=\n\n|$)/);
-    const goalsMatch = aiResponse.match(/GOALS:\s*([\s\S]+)/);
-
-    if (!summaryMatch || !goalsMatch) {
-      return NextResponse.json({ error: 'Failed to parse AI response' }, { status: 500 });
-    }
-
-    const summary = summaryMatch[1].trim();
-    const goalsText = goalsMatch[1].trim();
-    
-    // Extract individual goals
-    const goals = goalsText
-      .split('\n')
-      .map(line => line.replace(/^\d+\.\s*/, '').trim())
-      .filter(goal => goal.length > 0);
-
-    if (goals.length === 0) {
-      return NextResponse.json({ error: 'No goals could be extracted' }, { status: 500 });
-    }
+    const { summary, goals } = result.data;
 
     // Store goals in the database
     const goalsToInsert = goals.map(goal => ({
@@ -190,7 +136,7 @@ Make the goals specific, measurable, and relevant to their responses. Focus on w
       .insert({
         session_id: sessionId,
         sender_type: 'ai',
-        content: `Thank you for sharing your goals and aspirations with me! I've carefully reviewed your responses and created a personalized set of goals for our future sessions together.
+        content: await encryptField(context.user.id, `Thank you for sharing your goals and aspirations with me! I've carefully reviewed your responses and created a personalized set of goals for our future sessions together.
 
 **Your Wellness Goals:**
 ${goals.map((goal, index) => `${index + 1}. ${goal}`).join('\n')}
@@ -199,7 +145,7 @@ These goals will guide our conversations and help us track your progress. I'll r
 
 Your introduction session is now complete! You can start regular wellness sessions whenever you're ready. Each session will be tailored to help you work toward these specific goals.
 
-Is there anything else you'd like to discuss before we wrap up this introduction?`
+Is there anything else you'd like to discuss before we wrap up this introduction?`)
       });
 
     if (completionMessageError) {
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { withAPISecurity, SecurityConfigs, SecurityContext } from '@/middleware/api-security';
 import { InputSanitizer } from '@/lib/security/input-sanitizer';
+import { encryptField } from '@/lib/security/field-encryption';
 import { detectFirstSession } from '@/lib/ai/memory-service';
 
 const supabase = createClient(
@@ -79,12 +80,7 @@ async function handleCreateSession(request: NextRequest, context: SecurityContex
       }
 
       // Create the initial AI message for introduction
-      const { data: aiMessage, error: messageError } = await supabase
-        .from('session_messages')
-        .insert({
-          session_id: introSession.session_id,
-          sender_type: 'ai',
-          content: `Welcome to ZenithWell! I'm your AI wellness coach, and I'm here to support your mental wellness journey.
+      const introContent = `Welcome to ZenithWell! I'm your AI wellness coach, and I'm here to support your mental wellness journey.
 
 Before we begin, I'd like to understand what brings you here today. Please take your time to answer these questions thoughtfully:
 
@@ -100,7 +96,13 @@ Before we begin, I'd like to understand what brings you here today. Please take
 4. **How would you know our sessions are helping?**
    What would success look like for you?
 
-Feel free to share as much or as little as you're comfortable with. Everything we discuss is private and will be remembered for future sessions. Take your time - there's no rush!`
+Feel free to share as much or as little as you're comfortable with. Everything we discuss is private and will be remembered for future sessions. Take your time - there's no rush!`;
+      const { data: aiMessage, error: messageError } = await supabase
+        .from('session_messages')
+        .insert({
+          session_id: introSession.session_id,
+          sender_type: 'ai',
+          content: await encryptField(context.user.id, introContent)
         })
         .select()
         .single();
@@ -120,7 +122,7 @@ Feel free to share as much or as little as you're comfortable with. Everything w
           ...introSession,
           initialMessage: {
             id: aiMessage.message_id,
-            content: aiMessage.content,
+            content: introContent,
             sender: 'ai',
             timestamp: new Date(aiMessage.timestamp)
           }
@@ -3,6 +3,7 @@ import { createClient } from '@supabase/supabase-js';
 import { withAPISecurity, SecurityConfigs, SecurityContext } from '@/middleware/api-security';
 import { detectFirstSession } from '@/lib/ai/memory-service';
 import { generateGroupSessionIntro } from '@/lib/ai/group-intro-generator';
+import { decryptRows, encryptField, ENCRYPTED_FIELDS } from '@/lib/security/field-encryption';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -51,7 +52,7 @@ async function handleSessionInit(request: NextRequest, context: SecurityContext)
     const isFirstSession = await detectFirstSession(context.user.id, sessionId);
 
     // Get existing messages
-    const { data: messages, error: messagesError } = await supabase
+    const { data: storedMessages, error: messagesError } = await supabase
       .from('session_messages')
       .select('*')
       .eq('session_id', sessionId)
@@ -62,9 +63,11 @@ async function handleSessionInit(request: NextRequest, context: SecurityContext)
       return NextResponse.json({ error: 'Failed to fetch messages' }, { status: 500 });
     }
 
+    const messages = await decryptRows(storedMessages, ENCRYPTED_FIELDS.session_messages);
+
     // If no messages exist, we need to add the appropriate AI introduction
     let initialMessage = null;
-    if (!messages || messages.length === 0) {
+    if (messages.length === 0) {
       // Check if this is a group session and generate custom intro
       const isGroupSession = session.is_group || session.session_type === 'group';
       let customIntro = null;
@@ -101,7 +104,7 @@ What are your main wellness goals? What would you like to work on?`,
         .insert({
           session_id: sessionId,
           sender_type: 'ai',
-          content: initialMessage.content
+          content: await encryptField(session.user_id, initialMessage.content)
         })
         .select()
         .single();
@@ -115,7 +118,7 @@ What are your main wellness goals? What would you like to work on?`,
     }
 
     // Format messages for client
-    const formattedMessages = (messages || []).map(msg => {
+    const formattedMessages = messages.map(msg => {
       const timestamp = new Date(msg.timestamp);
       if (isNaN(timestamp.getTime())) {
         console.error('Invalid timestamp:', msg.timestamp);
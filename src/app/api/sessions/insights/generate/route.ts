@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
 import { withAPISecurity, SecurityConfigs, SecurityContext } from '@/middleware/api-security'
-import { ServerAIService, AIMessage } from '@/lib/ai/server-ai-service'
+import { ServerAIService } from '@/lib/ai/server-ai-service'
+import { InsightSchema } from '@/lib/ai/structured-output'
+import { decryptRows, ENCRYPTED_FIELDS } from '@/lib/security/field-encryption'
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -49,34 +51,41 @@ async function handleGenerateInsight(request: NextRequest, context: SecurityCont
       return NextResponse.json({ success: true, insight: existingInsights[0] })
     }
 
-    const { data: messages, error: messageError } = await supabase
+    const { data: storedMessages, error: messageError } = await supabase
       .from('session_messages')
       .select('sender_type, content')
       .eq('session_id', sessionId)
       .order('timestamp', { ascending: true })
       .limit(40)
 
-    if (messageError || !messages || messages.length === 0) {
+    if (messageError || !storedMessages || storedMessages.length === 0) {
       return NextResponse.json({ error: 'No messages available to generate an insight' }, { status: 400 })
     }
 
-    const aiMessages: AIMessage[] = messages.map(msg => ({
-      role: msg.sender_type === 'ai' ? 'assistant' : 'user',
-      content: msg.content,
-    }))
+    const messages = await decryptRows(storedMessages, ENCRYPTED_FIELDS.session_messages)
 
-    aiMessages.push({
-      role: 'user',
-      content:
-        'Based on this conversation, craft a single, concise wellness insight (max 55 words). Focus on a supportive observation or practical takeaway. Respond with only the insight sentence.',
-    })
+    const transcript = messages
+      .map(msg => `${msg.sender_type === 'ai' ? 'assistant' : 'user'}: ${msg.content}`)
+      .join('\n')
 
-    const response = await ServerAIService.generateResponse(aiMessages)
-    if (!response.success || !response.content) {
-      return NextResponse.json({ error: response.error || 'Failed to generate insight' }, { status: 500 })
+    const prompt = `Based on this conversation, craft a single, concise wellness insight (max 55 words). Focus on a supportive observation or practical takeaway.
+
+Conversation:
+${transcript}`
+
+    const result = await ServerAIService.completeStructured(
+      prompt,
+      InsightSchema,
+      'session_insight',
+      { maxTokens: 300, temperature: 0.7 },
+      { purpose: 'insights', sessionId, userId: context.user.id }
+    )
+    if (!result.success) {
+      console.error('Insight generation failed:', result.error)
+      return NextResponse.json({ error: 'Failed to generate insight' }, { status: 500 })
     }
 
-    const insightText = response.content.trim().slice(0, 300)
+    const insightText = result.data.insight
 
     const { data: insertedInsights, error: insertError } = await supabase
       .from('session_insights')
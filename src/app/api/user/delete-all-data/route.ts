@@ -136,7 +136,21 @@ async function handleDeleteAllData(request: NextRequest): Promise<NextResponse>
       );
     }
 
-    // 6. Get current user data to preserve Pro status and admin privileges
+    // 6. Delete the safety plan
+    const { error: safetyPlanError } = await supabase
+      .from('safety_plans')
+      .delete()
+      .eq('user_id', userId);
+
+    if (safetyPlanError) {
+      console.error('Error deleting safety plan:', safetyPlanError);
+      return NextResponse.json(
+        { error: 'Failed to delete safety plan' },
+        { status: 500 }
+      );
+    }
+
+    // 7. Get current user data to preserve Pro status and admin privileges
     const { data: currentUserData, error: userSelectError } = await supabase
       .from('users')
       .select('subscription_tier, is_admin')
@@ -151,7 +165,7 @@ async function handleDeleteAllData(request: NextRequest): Promise<NextResponse>
       );
     }
 
-    // 7. Delete all subscriptions (but preserve the user's current tier)
+    // 8. Delete all subscriptions (but preserve the user's current tier)
     const { error: subscriptionsError } = await supabase
       .from('subscriptions')
       .delete()
@@ -165,7 +179,7 @@ async function handleDeleteAllData(request: NextRequest): Promise<NextResponse>
       );
     }
 
-    // 8. Reset user data (keep account but clear personal data, preserve Pro status and admin privileges)
+    // 9. Reset user data (keep account but clear personal data, preserve Pro status and admin privileges)
     const { error: userUpdateError } = await supabase
       .from('users')
       .update({
@@ -182,7 +196,7 @@ async function handleDeleteAllData(request: NextRequest): Promise<NextResponse>
       );
     }
 
-    // 9. Sign out user
+    // 10. Sign out user
     const { error: signOutError } = await supabase.auth.signOut();
     if (signOutError) {
       console.error('Error signing out user:', signOutError);
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { withAPISecurity, SecurityConfigs, SecurityContext } from '@/middleware/api-security';
 import { SecureErrorHandler } from '@/lib/security/error-handler';
+import { decryptRows, ENCRYPTED_FIELDS } from '@/lib/security/field-encryption';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -48,7 +49,7 @@ async function handleExportData(request: NextRequest, context: SecurityContext):
               .eq('user_id', userId)
               .then(res => res.data?.map(s => s.session_id) || [])
           )
-          .then(res => res.data || []),
+          .then(res => decryptRows(res.data, ENCRYPTED_FIELDS.session_messages)),
 
         // Conversation memory
         conversationMemory: await supabase
@@ -69,7 +70,29 @@ async function handleExportData(request: NextRequest, context: SecurityContext):
           .from('subscriptions')
           .select('*')
           .eq('user_id', userId)
-          .then(res => res.data || [])
+          .then(res => res.data || []),
+
+        // Safety plan
+        safetyPlan: await supabase
+          .from('safety_plans')
+          .select('*')
+          .eq('user_id', userId)
+          .maybeSingle()
+          .then(res => res.data),
+
+        // Appeals against locked sessions
+        unlockAppeals: await supabase
+          .from('session_unlock_appeals')
+          .select('session_id, statement, status, lock_reason, locked_at, conditions, decision_note, decided_at, created_at')
+          .eq('user_id', userId)
+          .then(res => res.data || []),
+
+        // Moderation of the user's group session messages
+        groupModerationEvents: await supabase
+          .from('group_moderation_events')
+          .select('session_id, message_id, severity, categories, actions, content, review_status, review_note, reviewed_at, created_at')
+          .eq('user_id', userId)
+          .then(res => decryptRows(res.data, ENCRYPTED_FIELDS.group_moderation_events))
       }
     };
 
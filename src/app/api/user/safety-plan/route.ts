@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAPISecurity, SecurityConfigs, SecurityContext } from '@/middleware/api-security';
+import { getSafetyPlan, saveSafetyPlan } from '@/lib/ai/safety';
+import { validateSafetyPlan } from '@/lib/safety-plan';
+
+async function handleGetSafetyPlan(request: NextRequest, context: SecurityContext): Promise<NextResponse> {
+  try {
+    if (!context.user) {
+      return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+    }
+
+    return NextResponse.json({ plan: await getSafetyPlan(context.user.id) });
+  } catch (error) {
+    console.error('Get safety plan error:', error);
+    return NextResponse.json({ error: 'Failed to load safety plan' }, { status: 500 });
+  }
+}
+
+async function handleSaveSafetyPlan(request: NextRequest, context: SecurityContext): Promise<NextResponse> {
+  try {
+    if (!context.user) {
+      return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+    }
+
+    let plan;
+    try {
+      plan = validateSafetyPlan(await request.json());
+    } catch (error) {
+      return NextResponse.json({ error: error instanceof Error ? error.message : 'Invalid safety plan' }, { status: 400 });
+    }
+
+    return NextResponse.json({ plan: await saveSafetyPlan(context.user.id, plan) });
+  } catch (error) {
+    console.error('Save safety plan error:', error);
+    return NextResponse.json({ error: 'Failed to save safety plan' }, { status: 500 });
+  }
+}
+
+// Export the secured handlers
+export const GET = withAPISecurity(handleGetSafetyPlan, SecurityConfigs.GENERAL_API);
+export const PUT = withAPISecurity(handleSaveSafetyPlan, SecurityConfigs.GENERAL_API);
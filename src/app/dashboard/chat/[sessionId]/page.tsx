@@ -5,16 +5,18 @@ import { useParams, useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { ArrowLeft, Clock } from 'lucide-react';
 import { createClient } from '@/lib/supabase/client';
-import { ChatMessage, SessionInsight } from '@/types';
+import { ChatMessage, SafetyPlan, SessionInsight, SessionUnlockAppeal } from '@/types';
 import SessionSidebar from '@/components/chat/SessionSidebar';
 import ContextPanel from '@/components/chat/ContextPanel';
 import SessionLockBanner from '@/components/chat/SessionLockBanner';
+import AppealOutcomeNotice from '@/components/chat/AppealOutcomeNotice';
 import BreakPrompt from '@/components/chat/BreakPrompt';
 import ChatInput from '@/components/chat/ChatInput';
 import QuickActions from '@/components/chat/QuickActions';
 import MessageBubble from '@/components/chat/MessageBubble';
 import EmergencyResources from '@/components/EmergencyResources';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { isChatStream, readChatStream } from '@/lib/chat-stream';
 
 export default function ChatPage() {
   const params = useParams();
@@ -43,6 +45,14 @@ export default function ChatPage() {
   const [showInsightPanel, setShowInsightPanel] = useState(false);
   const [insights, setInsights] = useState<SessionInsight[]>([]);
   const [generatingInsight, setGeneratingInsight] = useState(false);
+  const [safetyPlan, setSafetyPlan] = useState<SafetyPlan | null>(null);
+  const [highlightSafetyPlan, setHighlightSafetyPlan] = useState(false);
+  const [appeal, setAppeal] = useState<SessionUnlockAppeal | null>(null);
+  const [canAppeal, setCanAppeal] = useState(false);
+  const [appealBlockedReason, setAppealBlockedReason] = useState<string | null>(null);
+  const [reappealAt, setReappealAt] = useState<string | null>(null);
+  const [appealOutcome, setAppealOutcome] = useState<SessionUnlockAppeal | null>(null);
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const supabase = createClient();
   const isIntroductionLock = lockReason === 'introduction_complete';
@@ -130,6 +140,105 @@ export default function ChatPage() {
     }
   };
 
+  const refreshSafetyPlan = async () => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        return;
+      }
+
+      const response = await fetch('/api/user/safety-plan', {
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (!response.ok) {
+        return;
+      }
+
+      const data = await response.json();
+      setSafetyPlan(data.plan);
+    } catch (error) {
+      console.error('Error refreshing safety plan:', error);
+    }
+  };
+
+  // Load the latest unlock appeal; an outcome the user has not seen yet is shown once
+  const refreshAppeal = async () => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        return;
+      }
+
+      const response = await fetch(`/api/sessions/appeal?sessionId=${sessionId}`, {
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (!response.ok) {
+        return;
+      }
+
+      const data: {
+        appeal: SessionUnlockAppeal | null;
+        canAppeal: boolean;
+        blockedReason: string | null;
+        reappealAt: string | null;
+      } = await response.json();
+      setAppeal(data.appeal);
+      setCanAppeal(data.canAppeal);
+      setAppealBlockedReason(data.blockedReason);
+      setReappealAt(data.reappealAt);
+
+      if (data.appeal && data.appeal.status !== 'pending' && !data.appeal.user_notified_at) {
+        setAppealOutcome(data.appeal);
+        await fetch('/api/sessions/appeal', {
+          method: 'PATCH',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${session.access_token}`,
+          },
+          body: JSON.stringify({ appealId: data.appeal.id }),
+        });
+      }
+    } catch (error) {
+      console.error('Error refreshing unlock appeal:', error);
+    }
+  };
+
+  const submitAppeal = async (statement: string) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      throw new Error('Not authenticated');
+    }
+
+    const response = await fetch('/api/sessions/appeal', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify({ sessionId, statement }),
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to submit appeal');
+    }
+
+    setAppeal(result.appeal);
+    setCanAppeal(false);
+  };
+
+  // Open the support panel with the safety plan pinned and highlighted
+  const revealSafetyPlan = () => {
+    setHighlightSafetyPlan(true);
+    setShowInsightPanel(true);
+  };
+
   const generateInsight = async (silent = false) => {
     try {
       setGeneratingInsight(true);
@@ -228,6 +337,11 @@ export default function ChatPage() {
       setLockReason(sessionLockReason);
       setShowEmergencyResources(false);
       setShowBreakPrompt(false);
+      await Promise.all([refreshSafetyPlan(), refreshAppeal()]);
+
+      if (result.session.is_locked && sessionLockReason === 'safety_concern') {
+        revealSafetyPlan();
+      }
       
       // Check if this is an introduction session
       if (result.session.session_type === 'introduction') {
@@ -320,6 +434,68 @@ Ready to start your first regular wellness session?`,
     }
   };
 
+  // Render the coach's reply progressively as it streams in
+  const receiveStreamedResponse = async (response: Response, userMessageId: string) => {
+    const streamId = `stream-${Date.now()}`;
+    let streamError: string | null = null;
+
+    await readChatStream(response, (event) => {
+      switch (event.type) {
+        case 'text':
+          // The first token means the server is responding, so stop the resend timer
+          clearMessageTimeout(userMessageId);
+          setStreamingMessageId(streamId);
+          setMessages(prev => prev.some(msg => msg.id === streamId)
+            ? prev.map(msg => msg.id === streamId ? { ...msg, content: msg.content + event.delta } : msg)
+            : [...prev, { id: streamId, content: event.delta, sender: 'ai', timestamp: new Date() }]
+          );
+          break;
+        case 'tool_result':
+          if (event.name === 'provide_emergency_resources') {
+            setShowEmergencyResources(true);
+            revealSafetyPlan();
+          } else if (event.name === 'update_safety_plan') {
+            refreshSafetyPlan();
+          } else if (event.name === 'end_and_lock_session' && event.content.startsWith('Session locked successfully')) {
+            const reason = event.content.match(/Reason: (\w+)/)?.[1] || null;
+            setIsSessionLocked(true);
+            setLockReason(reason);
+            refreshAppeal();
+            if (reason === 'safety_concern') {
+              revealSafetyPlan();
+            }
+          } else if (event.name === 'suggest_session_break') {
+            setShowBreakPrompt(true);
+          }
+          break;
+        case 'done': {
+          const finalMessage: ChatMessage = {
+            id: event.messageId || streamId,
+            content: event.content,
+            sender: 'ai',
+            timestamp: new Date(),
+          };
+          setMessages(prev => prev.some(msg => msg.id === streamId)
+            ? prev.map(msg => msg.id === streamId ? finalMessage : msg)
+            : [...prev, finalMessage]
+          );
+          break;
+        }
+        case 'error':
+          streamError = event.error;
+          break;
+      }
+    });
+
+    setStreamingMessageId(null);
+
+    if (streamError) {
+      // Drop any partial text; the error message replaces it
+      setMessages(prev => prev.filter(msg => msg.id !== streamId));
+      throw new Error(streamError);
+    }
+  };
+
   const sendMessage = async (messageToResend?: ChatMessage) => {
     const messageContent = messageToResend ? messageToResend.content : inputMessage;
     if (!messageContent.trim() || loading || sessionEnded || initializing || isSessionLocked) return;
@@ -379,6 +555,7 @@ Ready to start your first regular wellness session?`,
         body: JSON.stringify({
           sessionId,
           message: messageContent,
+          stream: true,
         }),
       });
 
@@ -397,6 +574,17 @@ Ready to start your first regular wellness session?`,
           return; // Don't add error message to chat
         }
         
+        // Handle a session locked since the page loaded
+        if (errorData.sessionLocked) {
+          setIsSessionLocked(true);
+          setLockReason(errorData.lockReason || null);
+          refreshAppeal();
+          if (errorData.lockReason === 'safety_concern') {
+            revealSafetyPlan();
+          }
+          throw new Error(errorData.error || 'Session is locked');
+        }
+
         // Handle session expiration
         if (errorData.sessionExpired) {
           setSessionEnded(true);
@@ -412,20 +600,24 @@ Ready to start your first regular wellness session?`,
         throw new Error(errorData.error || 'Failed to get AI response');
       }
 
-      const result = await response.json();
+      if (isChatStream(response)) {
+        await receiveStreamedResponse(response, userMessage.id);
+      } else {
+        const result = await response.json();
 
-      if (!result.success) {
-        throw new Error(result.error || 'AI response failed');
-      }
+        if (!result.success) {
+          throw new Error(result.error || 'AI response failed');
+        }
 
-      // Add AI response to messages
-      const aiMessage: ChatMessage = {
-        id: result.messageId || Date.now().toString(),
-        content: result.message,
-        sender: 'ai',
-        timestamp: new Date(),
-      };
-      setMessages(prev => [...prev, aiMessage]);
+        // Add AI response to messages
+        const aiMessage: ChatMessage = {
+          id: result.messageId || Date.now().toString(),
+          content: result.message,
+          sender: 'ai',
+          timestamp: new Date(),
+        };
+        setMessages(prev => [...prev, aiMessage]);
+      }
 
       // Clear timeout and mark the user message as successfully sent
       clearMessageTimeout(userMessage.id);
@@ -652,9 +844,21 @@ Ready to start your first regular wellness session?`,
             lockReason={lockReason}
             isIntroductionLock={isIntroductionLock}
             onStartFirstSession={handleStartFirstSession}
+            appeal={appeal}
+            canAppeal={canAppeal}
+            appealBlockedReason={appealBlockedReason}
+            reappealAt={reappealAt}
+            onSubmitAppeal={submitAppeal}
             className="border-none"
           />
 
+          {!isSessionLocked && (
+            <AppealOutcomeNotice
+              appeal={appealOutcome}
+              onDismiss={() => setAppealOutcome(null)}
+            />
+          )}
+
           {showBreakPrompt && (
             <BreakPrompt
               visible={showBreakPrompt}
@@ -716,7 +920,7 @@ Ready to start your first regular wellness session?`,
                       />
                     </div>
                   ))}
-                  {loading && (
+                  {loading && !streamingMessageId && (
                     <div className="flex justify-start">
                       <div className="rounded-3xl border border-slate-200/70 bg-white/80 px-4 py-3 text-sm text-slate-600 shadow-sm dark:border-slate-700/60 dark:bg-slate-800/70 dark:text-slate-300">
                         Your coach is typing…
@@ -785,6 +989,8 @@ Ready to start your first regular wellness session?`,
               isLocked={isSessionLocked}
               lockReason={lockReason}
               showEmergencyResources={showEmergencyResources}
+              safetyPlan={safetyPlan}
+              highlightSafetyPlan={highlightSafetyPlan}
               onCloseEmergencyResources={handleCloseEmergencyResources}
               onGenerateInsight={() => generateInsight(false)}
               generatingInsight={generatingInsight}
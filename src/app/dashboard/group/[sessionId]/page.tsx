@@ -8,7 +8,7 @@ import { Badge } from '@/components/ui/badge';
 import { ArrowLeft, Users, Clock, AlertCircle, CheckCircle, Circle, CircleDot } from 'lucide-react';
 import { createClient } from '@/lib/supabase/client';
 import { getUserSubscription, canAccessProFeature } from '@/lib/subscription';
-import { ChatMessage } from '@/types';
+import { ChatMessage, GroupModerationEvent } from '@/types';
 import { ParticipantList } from '@/components/ParticipantStatus';
 import { ShareLinkDialog } from '@/components/ShareLinkDialog';
 import { GROUP_SESSION_CONFIG } from '@/lib/group-session-config';
@@ -17,7 +17,10 @@ import MessageBubble from '@/components/chat/MessageBubble';
 import ChatInput from '@/components/chat/ChatInput';
 import QuickActions from '@/components/chat/QuickActions';
 import BreakPrompt from '@/components/chat/BreakPrompt';
+import GroupModerationPanel from '@/components/chat/GroupModerationPanel';
 import EmergencyResources from '@/components/EmergencyResources';
+import { isChatStream, readChatStream } from '@/lib/chat-stream';
+import { isEncryptedField } from '@/lib/security/encrypted-field';
 
 interface SessionData {
   session_id: string;
@@ -64,10 +67,13 @@ export default function GroupSessionPage() {
   const [showEmergencyResources, setShowEmergencyResources] = useState(false);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
   const [typingUsers, setTypingUsers] = useState<Set<string>>(new Set());
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
   const [showRestartDialog, setShowRestartDialog] = useState(false);
   const [isRestarting, setIsRestarting] = useState(false);
   const [showSessionEndedDialog, setShowSessionEndedDialog] = useState(false);
   const [isEndingSession, setIsEndingSession] = useState(false);
+  const [moderationEvents, setModerationEvents] = useState<GroupModerationEvent[]>([]);
+  const [moderationNotice, setModerationNotice] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const heartbeatIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const realtimeChannelRef = useRef<any>(null);
@@ -91,6 +97,7 @@ export default function GroupSessionPage() {
     // Mark presence immediately on entry
     markOnline(true);
     fetchParticipants();
+    fetchModerationEvents();
     startHeartbeat();
     
     // Setup real-time subscription
@@ -346,6 +353,27 @@ export default function GroupSessionPage() {
     }
   };
 
+  // Message content is encrypted at rest, so realtime rows arrive without
+  // readable text; the message is read again through the API, which decrypts it
+  const withReadableContent = async (dbMessage: any) => {
+    if (!isEncryptedField(dbMessage.content)) {
+      return dbMessage;
+    }
+
+    try {
+      const response = await fetch(`/api/group/messages?sessionId=${sessionId}&messageId=${dbMessage.message_id}`);
+      if (!response.ok) {
+        console.error('Error reading realtime message:', await response.text());
+        return null;
+      }
+      const data = await response.json();
+      return data.messages?.[0] ? { ...dbMessage, content: data.messages[0].content } : null;
+    } catch (error) {
+      console.error('Error reading realtime message:', error);
+      return null;
+    }
+  };
+
   const fetchParticipants = async () => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -400,6 +428,26 @@ export default function GroupSessionPage() {
     }
   };
 
+  const fetchModerationEvents = async () => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return;
+
+      const response = await fetch(`/api/group/moderation?sessionId=${sessionId}`, {
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setModerationEvents(data.events || []);
+      }
+    } catch (error) {
+      console.error('Error fetching moderation events:', error);
+    }
+  };
+
   const startHeartbeat = () => {
     heartbeatIntervalRef.current = setInterval(async () => {
       const { data: { user } } = await supabase.auth.getUser();
@@ -411,6 +459,8 @@ export default function GroupSessionPage() {
             is_away: false
           });
           fetchParticipants();
+          // Held messages are not inserted, so the owner learns of them here
+          fetchModerationEvents();
         } catch (e) {
           console.error('heartbeat presence error:', e);
         }
@@ -435,9 +485,15 @@ export default function GroupSessionPage() {
         schema: 'public',
         table: 'session_messages',
         filter: `session_id=eq.${sessionId}`
-      }, (payload) => {
+      }, async (payload) => {
         console.log('[REALTIME] New message received:', payload);
-        const dbMessage = payload.new as any;
+        const dbMessage = await withReadableContent(payload.new);
+        if (!dbMessage) return;
+
+        // A participant's message may have come with a moderation warning
+        if (dbMessage.sender_type === 'user') {
+          fetchModerationEvents();
+        }
         
         // If AI message arrives, clear typing indicators for the user who sent the previous message
         if (dbMessage.sender_type === 'ai') {
@@ -519,6 +575,17 @@ export default function GroupSessionPage() {
             user_id: dbMessage.user_id || null // Include user_id to identify sender
           };
           
+          // Replace our own streamed reply with the saved message
+          if (dbMessage.sender_type === 'ai') {
+            const streamIndex = prev.findIndex(msg => msg.id.startsWith('stream-'));
+            if (streamIndex !== -1) {
+              console.log('[REALTIME] Replacing streamed message with saved message');
+              const updated = [...prev];
+              updated[streamIndex] = newMessage;
+              return updated;
+            }
+          }
+
           console.log('[REALTIME] Adding new message:', newMessage);
           return [...prev, newMessage];
         });
@@ -529,9 +596,10 @@ export default function GroupSessionPage() {
         schema: 'public',
         table: 'session_messages',
         filter: `session_id=eq.${sessionId}`
-      }, (payload) => {
+      }, async (payload) => {
         console.log('[REALTIME] Message updated:', payload);
-        const dbMessage = payload.new as any;
+        const dbMessage = await withReadableContent(payload.new);
+        if (!dbMessage) return;
         // Update existing message (e.g., when generic intro is replaced with custom intro)
         setMessages(prev => prev.map(msg => {
           if (msg.id === dbMessage.message_id || msg.id === dbMessage.id) {
@@ -658,6 +726,56 @@ export default function GroupSessionPage() {
     };
   };
 
+  // Show the coach's reply progressively while it streams in
+  const receiveStreamedResponse = async (response: Response) => {
+    const streamId = `stream-${Date.now()}`;
+    let streamError: string | null = null;
+
+    await readChatStream(response, (event) => {
+      switch (event.type) {
+        case 'text':
+          setStreamingMessageId(streamId);
+          setMessages(prev => prev.some(msg => msg.id === streamId)
+            ? prev.map(msg => msg.id === streamId ? { ...msg, content: msg.content + event.delta } : msg)
+            : [...prev, { id: streamId, session_id: sessionId, content: event.delta, sender: 'ai', timestamp: new Date(), status: 'sent' }]
+          );
+          break;
+        case 'moderation':
+          setModerationNotice(event.message);
+          break;
+        case 'tool_result':
+          if (event.name === 'provide_emergency_resources') {
+            setShowEmergencyResources(true);
+          } else if (event.name === 'suggest_session_break') {
+            setShowBreakPrompt(true);
+          }
+          break;
+        case 'done':
+          setMessages(prev => {
+            // Real-time may already have delivered the saved message
+            if (event.messageId && prev.some(msg => msg.id === event.messageId)) {
+              return prev.filter(msg => msg.id !== streamId);
+            }
+            return prev.map(msg => msg.id === streamId
+              ? { ...msg, id: event.messageId || streamId, content: event.content }
+              : msg
+            );
+          });
+          break;
+        case 'error':
+          streamError = event.error;
+          break;
+      }
+    });
+
+    setStreamingMessageId(null);
+
+    if (streamError) {
+      setMessages(prev => prev.filter(msg => msg.id !== streamId));
+      throw new Error(streamError);
+    }
+  };
+
   const sendMessage = async () => {
     if (!inputMessage.trim() || loading) return;
 
@@ -721,7 +839,8 @@ export default function GroupSessionPage() {
         },
         body: JSON.stringify({
           message: inputMessage.trim(),
-          sessionId: sessionId
+          sessionId: sessionId,
+          stream: true
         })
       });
 
@@ -737,12 +856,18 @@ export default function GroupSessionPage() {
           // Remove the optimistic message
           setMessages(prev => prev.filter(msg => msg.id !== userMessage.id));
           setInputMessage(userMessage.content); // Restore message content
+        } else if (errorData.messageHeld) {
+          // Held for moderation: the message never reached the session
+          setMessages(prev => prev.filter(msg => msg.id !== userMessage.id));
+          setModerationNotice(errorData.error);
+          if (errorData.crisisResources) {
+            setShowEmergencyResources(true);
+          }
+          fetchModerationEvents();
         }
         throw new Error(errorData.error || 'Failed to send message');
       }
 
-      const data = await response.json();
-      
       // Update the user message status - real-time will replace it with actual message
       setMessages(prev => prev.map(msg => 
         msg.id === userMessage.id 
@@ -750,7 +875,11 @@ export default function GroupSessionPage() {
           : msg
       ));
 
-      // Don't manually add AI response - let real-time handle it to avoid duplicates
+      if (isChatStream(response)) {
+        // Render the reply as it streams in; real-time swaps in the saved message
+        await receiveStreamedResponse(response);
+      }
+      // Otherwise don't manually add AI response - let real-time handle it to avoid duplicates
       // Real-time subscription will receive the AI message from the database
       
       // Broadcast typing stop to other participants
@@ -1113,6 +1242,13 @@ export default function GroupSessionPage() {
               </div>
             ))}
           </div>
+
+          <GroupModerationPanel
+            events={moderationEvents}
+            names={new Map(participants.map(p => [p.user_id, p.full_name]))}
+            currentUserId={currentUserId}
+            className="mt-6"
+          />
         </div>
 
         {/* Footer Actions */}
@@ -1189,12 +1325,40 @@ export default function GroupSessionPage() {
           </div>
         )}
 
+        {moderationNotice && (
+          <div className="bg-amber-900/20 border-b border-amber-800/40 px-6 py-3">
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-2 text-amber-200">
+                <AlertCircle className="h-4 w-4 shrink-0" />
+                <span className="text-sm">{moderationNotice}</span>
+              </div>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => setModerationNotice(null)}
+                className="text-amber-200 hover:bg-amber-800/40"
+              >
+                Dismiss
+              </Button>
+            </div>
+          </div>
+        )}
+
         {showBreakPrompt && (
           <div className="px-6 pt-4">
             <BreakPrompt visible={showBreakPrompt} onAccept={handleBreakAccept} onDismiss={handleBreakDismiss} />
           </div>
         )}
 
+        {showEmergencyResources && (
+          <div className="px-6 pt-4 space-y-3">
+            <EmergencyResources compact urgencyLevel="high" />
+            <Button variant="outline" size="sm" className="rounded-full" onClick={handleCloseEmergencyResources}>
+              Close resources
+            </Button>
+          </div>
+        )}
+
         {/* Messages */}
         <div className="flex-1 overflow-y-auto bg-slate-900 dark:bg-slate-950">
           <div className="px-6 py-4 space-y-4">
@@ -1231,8 +1395,8 @@ export default function GroupSessionPage() {
               />
               );
             })}
-            {/* Show typing indicator for current user when loading */}
-            {loading && (
+            {/* Show typing indicator for current user until the reply starts streaming */}
+            {loading && !streamingMessageId && (
               <div className="flex items-center gap-3 p-4">
                 <div className="w-8 h-8 rounded-full bg-gradient-to-br from-emerald-500 to-teal-600 flex items-center justify-center text-white text-sm">
                   ??
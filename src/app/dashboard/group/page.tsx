@@ -115,18 +115,21 @@ export default function GroupSessionsPage() {
         return;
       }
 
-      // Submit introduction
-      const { error: introError } = await supabase
-        .from('participant_introductions')
-        .insert({
-          session_id: session.session_id,
-          user_id: user.id,
-          group_category: selectedSessionType,
+      // Submit introduction through the API, which encrypts the answers
+      const introResponse = await fetch('/api/group/introduction', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          sessionId: session.session_id,
+          groupCategory: selectedSessionType,
           ...introductionData
-        });
+        })
+      });
 
-      if (introError) {
-        console.error('Error saving introduction:', introError);
+      if (!introResponse.ok) {
+        console.error('Error saving introduction:', await introResponse.json());
         // Don't fail the whole process for introduction error
       }
 
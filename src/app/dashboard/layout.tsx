@@ -4,7 +4,7 @@ import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
-import { Brain, LogOut, Settings, Users, MessageCircle, Shield } from 'lucide-react';
+import { Brain, ClipboardList, LogOut, Settings, Users, MessageCircle, Shield } from 'lucide-react';
 import { createClient } from '@/lib/supabase/client';
 import { isAdmin } from '@/lib/admin';
 import { ThemeToggle } from '@/components/ThemeToggle';
@@ -82,6 +82,10 @@ export default function DashboardLayout({
                 <Brain className="h-4 w-4" />
                 <span>Memory</span>
               </Link>
+              <Link href="/dashboard/safety-plan" className="flex items-center space-x-1 text-gray-700 hover:text-blue-600 dark:text-gray-300 dark:hover:text-blue-400">
+                <ClipboardList className="h-4 w-4" />
+                <span>Safety Plan</span>
+              </Link>
               <Link href="/dashboard/settings" className="flex items-center space-x-1 text-gray-700 hover:text-blue-600 dark:text-gray-300 dark:hover:text-blue-400">
                 <Settings className="h-4 w-4" />
                 <span>Settings</span>
@@ -0,0 +1,227 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Phone, Plus, Trash2 } from 'lucide-react';
+import { createClient } from '@/lib/supabase/client';
+import { emptySafetyPlan, SAFETY_PLAN_LIMITS, SAFETY_PLAN_SECTIONS, SafetyPlanSectionInfo } from '@/lib/safety-plan';
+import { SafetyPlan, SafetyPlanContact, SafetyPlanContent, SafetyPlanSection } from '@/types';
+
+type Draft = { item: string; phone: string; note: string };
+
+const EMPTY_DRAFT: Draft = { item: '', phone: '', note: '' };
+
+export default function SafetyPlanPage() {
+  const [plan, setPlan] = useState<SafetyPlanContent>(emptySafetyPlan());
+  const [updatedAt, setUpdatedAt] = useState<string | null>(null);
+  const [drafts, setDrafts] = useState<Partial<Record<SafetyPlanSection, Draft>>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dirty, setDirty] = useState(false);
+  const [saveSuccess, setSaveSuccess] = useState(false);
+  const supabase = createClient();
+
+  useEffect(() => {
+    fetchPlan();
+  }, []);
+
+  const fetchPlan = async () => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return;
+
+      const response = await fetch('/api/user/safety-plan', {
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+      });
+      if (response.ok) {
+        const result: { plan: SafetyPlan | null } = await response.json();
+        if (result.plan) {
+          setPlan(result.plan);
+          setUpdatedAt(result.plan.updated_at);
+        }
+      }
+    } catch (error) {
+      console.error('Error fetching safety plan:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const savePlan = async () => {
+    setSaving(true);
+    setSaveSuccess(false);
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error('Not authenticated');
+
+      const response = await fetch('/api/user/safety-plan', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify(plan),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save safety plan');
+      }
+
+      setPlan(result.plan);
+      setUpdatedAt(result.plan.updated_at);
+      setDirty(false);
+      setSaveSuccess(true);
+      setTimeout(() => setSaveSuccess(false), 3000);
+    } catch (error) {
+      console.error('Error saving safety plan:', error);
+      alert(error instanceof Error ? error.message : 'Failed to save safety plan. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateDraft = (section: SafetyPlanSection, changes: Partial<Draft>) => {
+    setDrafts(prev => ({ ...prev, [section]: { ...(prev[section] || EMPTY_DRAFT), ...changes } }));
+  };
+
+  const addEntry = (section: SafetyPlanSectionInfo) => {
+    const draft = drafts[section.key] || EMPTY_DRAFT;
+    if (!draft.item.trim()) return;
+
+    setPlan(prev => {
+      if (section.contacts) {
+        const contact: SafetyPlanContact = { name: draft.item.trim() };
+        if (draft.phone.trim()) contact.phone = draft.phone.trim();
+        if (draft.note.trim()) contact.note = draft.note.trim();
+        return { ...prev, [section.key]: [...prev[section.key as 'contacts' | 'professionals'], contact] };
+      }
+      return { ...prev, [section.key]: [...prev[section.key as 'warning_signs' | 'coping_strategies' | 'safe_environment'], draft.item.trim()] };
+    });
+    setDrafts(prev => ({ ...prev, [section.key]: EMPTY_DRAFT }));
+    setDirty(true);
+  };
+
+  const removeEntry = (section: SafetyPlanSection, index: number) => {
+    setPlan(prev => ({ ...prev, [section]: prev[section].filter((_, i) => i !== index) }));
+    setDirty(true);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 dark:border-blue-400"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Safety Plan</h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-2">
+            Steps to follow when things get hard, in your own words. Your coach can also help you fill it in during a session.
+          </p>
+          {updatedAt && (
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Last updated {new Date(updatedAt).toLocaleString()}
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-3">
+          {saveSuccess && (
+            <span className="text-sm text-green-600 dark:text-green-400">Saved</span>
+          )}
+          <Button onClick={savePlan} disabled={saving || !dirty}>
+            {saving ? 'Saving...' : 'Save Plan'}
+          </Button>
+        </div>
+      </div>
+
+      {SAFETY_PLAN_SECTIONS.map(section => {
+        const entries: (string | SafetyPlanContact)[] = plan[section.key];
+        const draft = drafts[section.key] || EMPTY_DRAFT;
+        const full = entries.length >= SAFETY_PLAN_LIMITS.MAX_ITEMS;
+
+        return (
+          <Card key={section.key}>
+            <CardHeader>
+              <CardTitle>{section.title}</CardTitle>
+              <CardDescription>{section.description}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {entries.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">Nothing here yet.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {entries.map((entry, index) => (
+                    <li
+                      key={index}
+                      className="flex items-center justify-between gap-3 rounded-md border border-gray-200 dark:border-gray-700 px-3 py-2 text-sm text-gray-900 dark:text-white"
+                    >
+                      {typeof entry === 'string' ? (
+                        <span>{entry}</span>
+                      ) : (
+                        <span className="flex flex-wrap items-center gap-x-3">
+                          <span className="font-medium">{entry.name}</span>
+                          {entry.note && <span className="text-gray-500 dark:text-gray-400">{entry.note}</span>}
+                          {entry.phone && (
+                            <a href={`tel:${entry.phone.replace(/[^\d+]/g, '')}`} className="flex items-center gap-1 text-blue-600 dark:text-blue-400">
+                              <Phone className="h-3 w-3" />
+                              {entry.phone}
+                            </a>
+                          )}
+                        </span>
+                      )}
+                      <Button variant="ghost" size="sm" onClick={() => removeEntry(section.key, index)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {!full && (
+                <div className="flex flex-col gap-2 sm:flex-row">
+                  <Input
+                    value={draft.item}
+                    onChange={(e) => updateDraft(section.key, { item: e.target.value })}
+                    onKeyDown={(e) => e.key === 'Enter' && addEntry(section)}
+                    placeholder={section.contacts ? 'Name' : 'Add an entry'}
+                    maxLength={SAFETY_PLAN_LIMITS.MAX_ITEM_CHARS}
+                  />
+                  {section.contacts && (
+                    <>
+                      <Input
+                        value={draft.phone}
+                        onChange={(e) => updateDraft(section.key, { phone: e.target.value })}
+                        placeholder="Phone (optional)"
+                        maxLength={SAFETY_PLAN_LIMITS.MAX_PHONE_CHARS}
+                      />
+                      <Input
+                        value={draft.note}
+                        onChange={(e) => updateDraft(section.key, { note: e.target.value })}
+                        placeholder={section.key === 'contacts' ? 'Who they are (optional)' : 'Role or service (optional)'}
+                        maxLength={SAFETY_PLAN_LIMITS.MAX_ITEM_CHARS}
+                      />
+                    </>
+                  )}
+                  <Button variant="outline" onClick={() => addEntry(section)} disabled={!draft.item.trim()}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
@@ -8,9 +8,10 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { Crown, CheckCircle, Download, Trash2, AlertTriangle, User } from 'lucide-react';
+import { Crown, CheckCircle, Download, Trash2, AlertTriangle, User, LifeBuoy } from 'lucide-react';
 import { getUserSubscription, canAccessProFeature } from '@/lib/subscription';
-import { User as UserType } from '@/types';
+import { languageName, parseLocaleTag, regionName } from '@/lib/resource-locale';
+import { CrisisResourceDirectory, User as UserType } from '@/types';
 import { createClient } from '@/lib/supabase/client';
 
 export default function SettingsPage() {
@@ -28,6 +29,10 @@ export default function SettingsPage() {
   const [isUpdatingName, setIsUpdatingName] = useState(false);
   const [nameUpdateSuccess, setNameUpdateSuccess] = useState(false);
   const [showNamePrompt, setShowNamePrompt] = useState(false);
+  const [locale, setLocale] = useState('');
+  const [localeOptions, setLocaleOptions] = useState<string[]>([]);
+  const [isUpdatingLocale, setIsUpdatingLocale] = useState(false);
+  const [localeUpdateSuccess, setLocaleUpdateSuccess] = useState(false);
   const supabase = createClient();
 
   useEffect(() => {
@@ -39,6 +44,18 @@ export default function SettingsPage() {
     setUser(user);
     setIsPro(isPro);
     setIsAdmin(isAdmin);
+    setLocale(user?.locale || '');
+
+    // Regions and languages the crisis resource directory covers
+    try {
+      const response = await fetch('/api/crisis-resources');
+      if (response.ok) {
+        const directory: CrisisResourceDirectory = await response.json();
+        setLocaleOptions(directory.locales);
+      }
+    } catch (error) {
+      console.error('Error loading crisis resource regions:', error);
+    }
     
     // Load user metadata for name
     const { data: { user: authUser } } = await supabase.auth.getUser();
@@ -91,6 +108,38 @@ export default function SettingsPage() {
     }
   };
 
+  const handleUpdateLocale = async () => {
+    if (!user) return;
+
+    setIsUpdatingLocale(true);
+    setLocaleUpdateSuccess(false);
+
+    try {
+      const { error } = await supabase
+        .from('users')
+        .update({ locale: locale || null })
+        .eq('user_id', user.user_id);
+
+      if (error) {
+        alert(`Failed to update region: ${error.message}`);
+      } else {
+        setUser({ ...user, locale: locale || null });
+        setLocaleUpdateSuccess(true);
+        setTimeout(() => setLocaleUpdateSuccess(false), 3000);
+      }
+    } catch (error) {
+      console.error('Error updating region:', error);
+      alert('Failed to update region. Please try again.');
+    } finally {
+      setIsUpdatingLocale(false);
+    }
+  };
+
+  const describeLocale = (tag: string) => {
+    const parsed = parseLocaleTag(tag);
+    return parsed?.region ? `${regionName(parsed.region)} (${languageName(parsed.language)})` : tag;
+  };
+
   const handleExportData = async () => {
     setIsExporting(true);
     try {
@@ -353,6 +402,54 @@ export default function SettingsPage() {
         </CardContent>
       </Card>
 
+      {/* Crisis Resources Region */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <LifeBuoy className="h-5 w-5" />
+            <span>Crisis Resources</span>
+          </CardTitle>
+          <CardDescription>
+            Choose where you are so crisis lines and emergency numbers shown to you are local
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="settings-locale" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Region and language
+              </Label>
+              <select
+                id="settings-locale"
+                value={locale}
+                onChange={(e) => setLocale(e.target.value)}
+                className="max-w-xs w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-900 text-sm dark:text-white"
+              >
+                <option value="">Automatic (from your browser)</option>
+                {locale && !localeOptions.includes(locale) && (
+                  <option value={locale}>{describeLocale(locale)}</option>
+                )}
+                {localeOptions.map(option => (
+                  <option key={option} value={option}>{describeLocale(option)}</option>
+                ))}
+              </select>
+            </div>
+            {localeUpdateSuccess && (
+              <div className="text-sm text-green-600 dark:text-green-400">
+                Region updated successfully!
+              </div>
+            )}
+            <Button
+              onClick={handleUpdateLocale}
+              disabled={isUpdatingLocale || locale === (user?.locale || '')}
+              size="sm"
+            >
+              {isUpdatingLocale ? 'Updating...' : 'Update Region'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Data Management */}
       <Card>
         <CardHeader>
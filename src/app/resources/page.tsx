@@ -1,67 +1,57 @@
 'use client';
 
+import { useEffect, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Phone, MessageCircle, Globe, AlertTriangle, Heart, Shield } from 'lucide-react';
+import { Phone, MessageCircle, Globe, AlertTriangle } from 'lucide-react';
+import { regionName } from '@/lib/resource-locale';
+import { CrisisResource, CrisisResourceDirectory } from '@/types';
+
+const CONTACT_ICONS: Record<CrisisResource['contact_type'], typeof Phone> = {
+  phone: Phone,
+  text: MessageCircle,
+  web: Globe
+};
+
+const CONTACT_ACTIONS: Record<CrisisResource['contact_type'], string> = {
+  phone: 'Call Now',
+  text: 'Copy Text Command',
+  web: 'Visit Website'
+};
+
+function contactResource(resource: CrisisResource) {
+  if (resource.contact_type === 'web') {
+    window.open(`https://${resource.contact.replace(/^https?:\/\//, '')}`, '_blank', 'noopener,noreferrer');
+  } else if (resource.contact_type === 'text') {
+    // "Text HOME to 741741": copy the keyword to send
+    const match = resource.contact.match(/text\s+(\S+)\s+to\s+([\d\s]+)/i);
+    navigator.clipboard.writeText(match ? match[1] : resource.contact);
+    alert(match ? `Copied "${match[1]}" to clipboard. Send this text to ${match[2].trim()}` : `Copied "${resource.contact}" to clipboard`);
+  } else {
+    window.open(`tel:${resource.contact.replace(/[^\d+]/g, '')}`);
+  }
+}
 
 export default function ResourcesPage() {
-  const emergencyResources = [
-    {
-      title: 'National Suicide Prevention Lifeline',
-      number: '988',
-      description: '24/7 crisis support for anyone in emotional distress or suicidal crisis',
-      icon: Phone,
-      urgent: true,
-      available: '24/7'
-    },
-    {
-      title: 'Crisis Text Line',
-      number: 'Text HOME to 741741',
-      description: 'Free, 24/7 crisis support via text message',
-      icon: MessageCircle,
-      urgent: true,
-      available: '24/7'
-    },
-    {
-      title: 'SAMHSA National Helpline',
-      number: '1-800-662-4357',
-      description: 'Free, confidential treatment referral and information service',
-      icon: Heart,
-      urgent: false,
-      available: '24/7'
-    },
-    {
-      title: 'National Domestic Violence Hotline',
-      number: '1-800-799-7233',
-      description: 'Confidential support for anyone experiencing domestic violence',
-      icon: Shield,
-      urgent: false,
-      available: '24/7'
-    }
-  ];
+  const [directory, setDirectory] = useState<CrisisResourceDirectory | null>(null);
+  const [region, setRegion] = useState<string | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  // Resources for the visitor's region (from their profile or browser) unless they pick another
+  useEffect(() => {
+    fetch(region ? `/api/crisis-resources?region=${region}` : '/api/crisis-resources')
+      .then(response => {
+        if (!response.ok) throw new Error(`Request failed with ${response.status}`);
+        return response.json();
+      })
+      .then(setDirectory)
+      .catch(error => {
+        console.error('Error loading crisis resources:', error);
+        setLoadFailed(true);
+      });
+  }, [region]);
 
-  const internationalResources = [
-    {
-      country: 'Canada',
-      number: '1-833-456-4566',
-      service: 'Crisis Services Canada'
-    },
-    {
-      country: 'United Kingdom',
-      number: '116 123',
-      service: 'Samaritans'
-    },
-    {
-      country: 'Australia',
-      number: '13 11 14',
-      service: 'Lifeline Australia'
-    },
-    {
-      country: 'New Zealand',
-      number: '0800 543 354',
-      service: 'Lifeline New Zealand'
-    }
-  ];
+  const emergencyNumber = directory?.resources.find(resource => resource.is_emergency)?.contact;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50 dark:from-slate-900 dark:via-slate-800 dark:to-slate-900">
@@ -82,106 +72,130 @@ export default function ResourcesPage() {
 
         {/* Emergency Resources */}
         <div className="mb-8">
-          <h2 className="text-2xl font-semibold text-slate-900 dark:text-white mb-6 text-center">
-            Emergency Resources (United States)
+          <h2 className="text-2xl font-semibold text-slate-900 dark:text-white mb-2 text-center">
+            Emergency Resources{directory && ` (${regionName(directory.locale.region)})`}
           </h2>
-          <div className="grid gap-4 md:grid-cols-2">
-            {emergencyResources.map((resource, index) => (
-              <Card 
-                key={index} 
-                className={`transition-all duration-200 hover:shadow-lg ${
-                  resource.urgent 
-                    ? 'border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20' 
-                    : 'border-slate-200 dark:border-slate-700'
-                }`}
+          {directory && (
+            <div className="flex items-center justify-center gap-2 mb-6 text-sm text-slate-600 dark:text-slate-400">
+              <label htmlFor="resource-region">Showing resources for</label>
+              <select
+                id="resource-region"
+                value={directory.locale.region}
+                onChange={(e) => setRegion(e.target.value)}
+                className="px-2 py-1 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-800 text-slate-900 dark:text-white"
               >
-                <CardHeader className="pb-3">
-                  <div className="flex items-center space-x-3">
-                    <div className={`w-10 h-10 rounded-full flex items-center justify-center ${
-                      resource.urgent 
-                        ? 'bg-red-500 text-white' 
-                        : 'bg-slate-500 text-white'
-                    }`}>
-                      <resource.icon className="w-5 h-5" />
+                {!directory.regions.includes(directory.locale.region) && (
+                  <option value={directory.locale.region}>{regionName(directory.locale.region)}</option>
+                )}
+                {directory.regions.map(code => (
+                  <option key={code} value={code}>{regionName(code)}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          {directory && !directory.matched && (
+            <p className="text-center text-slate-600 dark:text-slate-400 mb-6">
+              No resources are listed for {regionName(directory.locale.region)} yet. These services can connect you
+              with local support, and in an emergency call your local emergency number.
+            </p>
+          )}
+          {!directory && (
+            <p className="text-center text-slate-600 dark:text-slate-400 mb-6">
+              {loadFailed
+                ? 'Resources could not be loaded. If you are in danger, call your local emergency number now.'
+                : 'Loading resources for your region...'}
+            </p>
+          )}
+          <div className="grid gap-4 md:grid-cols-2">
+            {directory?.resources.map((resource) => {
+              const Icon = CONTACT_ICONS[resource.contact_type];
+              return (
+                <Card 
+                  key={resource.id} 
+                  className={`transition-all duration-200 hover:shadow-lg ${
+                    resource.urgent 
+                      ? 'border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20' 
+                      : 'border-slate-200 dark:border-slate-700'
+                  }`}
+                >
+                  <CardHeader className="pb-3">
+                    <div className="flex items-center space-x-3">
+                      <div className={`w-10 h-10 rounded-full flex items-center justify-center ${
+                        resource.urgent 
+                          ? 'bg-red-500 text-white' 
+                          : 'bg-slate-500 text-white'
+                      }`}>
+                        <Icon className="w-5 h-5" />
+                      </div>
+                      <div>
+                        <CardTitle className="text-lg">{resource.name}</CardTitle>
+                      </div>
                     </div>
-                    <div>
-                      <CardTitle className="text-lg">{resource.title}</CardTitle>
-                      <p className="text-sm text-slate-500 dark:text-slate-400">
-                        Available {resource.available}
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-3">
+                      <div className="text-2xl font-bold text-slate-900 dark:text-white">
+                        {resource.contact}
+                      </div>
+                      <p className="text-slate-600 dark:text-slate-400">
+                        {resource.description}
                       </p>
+                      <Button 
+                        className={`w-full ${
+                          resource.urgent 
+                            ? 'bg-red-500 hover:bg-red-600 text-white' 
+                            : 'bg-slate-500 hover:bg-slate-600 text-white'
+                        }`}
+                        onClick={() => contactResource(resource)}
+                      >
+                        {CONTACT_ACTIONS[resource.contact_type]}
+                      </Button>
                     </div>
-                  </div>
-                </CardHeader>
-                <CardContent>
-                  <div className="space-y-3">
-                    <div className="text-2xl font-bold text-slate-900 dark:text-white">
-                      {resource.number}
-                    </div>
-                    <p className="text-slate-600 dark:text-slate-400">
-                      {resource.description}
-                    </p>
-                    <Button 
-                      className={`w-full ${
-                        resource.urgent 
-                          ? 'bg-red-500 hover:bg-red-600 text-white' 
-                          : 'bg-slate-500 hover:bg-slate-600 text-white'
-                      }`}
-                      onClick={() => {
-                        if (resource.number.includes('Text')) {
-                          // For text line, copy to clipboard
-                          navigator.clipboard.writeText('HOME');
-                          alert('Copied "HOME" to clipboard. Send this text to 741741');
-                        } else {
-                          // For phone numbers, try to initiate call
-                          window.open(`tel:${resource.number.replace(/[^\d]/g, '')}`);
-                        }
-                      }}
-                    >
-                      {resource.number.includes('Text') ? 'Copy Text Command' : 'Call Now'}
-                    </Button>
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
+                  </CardContent>
+                </Card>
+              );
+            })}
           </div>
         </div>
 
         {/* International Resources */}
-        <div className="mb-8">
-          <h2 className="text-2xl font-semibold text-slate-900 dark:text-white mb-6 text-center">
-            International Resources
-          </h2>
-          <Card>
-            <CardContent className="pt-6">
-              <div className="grid gap-4 md:grid-cols-2">
-                {internationalResources.map((resource, index) => (
-                  <div key={index} className="flex items-center justify-between p-4 bg-slate-50 dark:bg-slate-800 rounded-lg">
-                    <div>
-                      <h3 className="font-semibold text-slate-900 dark:text-white">
-                        {resource.country}
-                      </h3>
-                      <p className="text-sm text-slate-600 dark:text-slate-400">
-                        {resource.service}
-                      </p>
-                    </div>
-                    <div className="text-right">
-                      <div className="text-lg font-bold text-slate-900 dark:text-white">
-                        {resource.number}
+        {directory && directory.international.length > 0 && (
+          <div className="mb-8">
+            <h2 className="text-2xl font-semibold text-slate-900 dark:text-white mb-6 text-center">
+              International Resources
+            </h2>
+            <Card>
+              <CardContent className="pt-6">
+                <div className="grid gap-4 md:grid-cols-2">
+                  {directory.international.map((resource) => (
+                    <div key={resource.id} className="flex items-center justify-between p-4 bg-slate-50 dark:bg-slate-800 rounded-lg">
+                      <div>
+                        <h3 className="font-semibold text-slate-900 dark:text-white">
+                          {regionName(resource.region)}
+                        </h3>
+                        <p className="text-sm text-slate-600 dark:text-slate-400">
+                          {resource.name}
+                        </p>
+                      </div>
+                      <div className="text-right">
+                        <div className="text-lg font-bold text-slate-900 dark:text-white">
+                          {resource.contact}
+                        </div>
+                        <Button 
+                          size="sm" 
+                          variant="outline"
+                          onClick={() => contactResource(resource)}
+                        >
+                          {resource.contact_type === 'web' ? 'Visit' : resource.contact_type === 'text' ? 'Copy' : 'Call'}
+                        </Button>
                       </div>
-                      <Button 
-                        size="sm" 
-                        variant="outline"
-                        onClick={() => window.open(`tel:${resource.number.replace(/[^\d]/g, '')}`)}
-                      >
-                        Call
-                      </Button>
                     </div>
-                  </div>
-                ))}
-              </div>
-            </CardContent>
-          </Card>
-        </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
 
         {/* When to Seek Help */}
         <div className="mb-8">
@@ -236,7 +250,7 @@ export default function ResourcesPage() {
                 <strong>ZenithWell is NOT a crisis intervention service.</strong> Our AI wellness coach 
                 is designed for general wellness support and cannot provide emergency mental health care. 
                 If you are experiencing a mental health emergency, please use the resources above or 
-                call 911 immediately. Always consult with qualified healthcare professionals for 
+                call {emergencyNumber || 'your local emergency number'} immediately. Always consult with qualified healthcare professionals for 
                 medical advice and treatment.
               </p>
             </CardContent>
@@ -1,9 +1,12 @@
 'use client'
 
+import { useEffect, useState } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
-import { AlertTriangle, Phone, MessageSquare, Shield, Globe, HeartPulse } from 'lucide-react'
+import { AlertTriangle, Phone, MessageSquare, Globe, HeartPulse } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { regionName } from '@/lib/resource-locale'
+import { CrisisResource, CrisisResourceDirectory } from '@/types'
 
 interface EmergencyResourcesProps {
   urgencyLevel?: 'high' | 'medium' | 'low'
@@ -12,43 +15,11 @@ interface EmergencyResourcesProps {
   className?: string
 }
 
-const BASE_RESOURCES = [
-  {
-    name: 'National Suicide & Crisis Lifeline',
-    number: '988',
-    description: '24/7 free crisis support. Call, text, or chat 988.',
-    icon: Phone,
-    urgent: true,
-  },
-  {
-    name: 'Crisis Text Line',
-    number: 'Text HOME to 741741',
-    description: 'Text with a trained crisis counselor anytime.',
-    icon: MessageSquare,
-    urgent: true,
-  },
-  {
-    name: 'SAMHSA National Helpline',
-    number: '1-800-662-4357',
-    description: '24/7 confidential treatment referral and information.',
-    icon: Phone,
-    urgent: false,
-  },
-  {
-    name: 'National Domestic Violence Hotline',
-    number: '1-800-799-7233',
-    description: 'Confidential support for those impacted by domestic violence.',
-    icon: Shield,
-    urgent: false,
-  },
-]
-
-const INTERNATIONAL_RESOURCES = [
-  { country: 'Canada', number: '1-833-456-4566', service: 'Crisis Services Canada' },
-  { country: 'United Kingdom', number: '116 123', service: 'Samaritans' },
-  { country: 'Australia', number: '13 11 14', service: 'Lifeline Australia' },
-  { country: 'New Zealand', number: '0800 543 354', service: 'Lifeline New Zealand' },
-]
+const CONTACT_ICONS: Record<CrisisResource['contact_type'], typeof Phone> = {
+  phone: Phone,
+  text: MessageSquare,
+  web: Globe,
+}
 
 export function EmergencyResources({
   urgencyLevel = 'high',
@@ -56,6 +27,26 @@ export function EmergencyResources({
   compact = false,
   className,
 }: EmergencyResourcesProps) {
+  const [directory, setDirectory] = useState<CrisisResourceDirectory | null>(null)
+  const [loadFailed, setLoadFailed] = useState(false)
+
+  // Resources for the user's region and language, from their profile or browser
+  useEffect(() => {
+    fetch('/api/crisis-resources')
+      .then(response => {
+        if (!response.ok) throw new Error(`Request failed with ${response.status}`)
+        return response.json()
+      })
+      .then(setDirectory)
+      .catch(error => {
+        console.error('Error loading crisis resources:', error)
+        setLoadFailed(true)
+      })
+  }, [])
+
+  const emergency = directory?.resources.find(resource => resource.is_emergency)
+  const resources = directory?.resources.filter(resource => !resource.is_emergency) || []
+
   const accentClass =
     urgencyLevel === 'high'
       ? 'from-red-50 to-rose-50 dark:from-red-900/20 dark:to-rose-900/20 border-red-200 dark:border-red-800'
@@ -89,12 +80,28 @@ export function EmergencyResources({
         </Badge>
       </div>
 
+      {directory && (
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          {directory.matched
+            ? `Showing resources for ${regionName(directory.locale.region)}.`
+            : `No resources are listed for ${regionName(directory.locale.region)} yet. These services can connect you with local support.`}
+        </p>
+      )}
+
+      {!directory && (
+        <p className="text-sm text-slate-600 dark:text-slate-300">
+          {loadFailed
+            ? 'Resources could not be loaded. If you are in danger, call your local emergency number now.'
+            : 'Loading resources for your region...'}
+        </p>
+      )}
+
       <div className="grid gap-3">
-        {BASE_RESOURCES.map(resource => {
-          const Icon = resource.icon
+        {resources.map(resource => {
+          const Icon = CONTACT_ICONS[resource.contact_type]
           return (
             <div
-              key={resource.number}
+              key={resource.id}
               className="rounded-2xl border border-white/40 dark:border-slate-800/80 bg-white/70 dark:bg-slate-900/60 p-4 flex items-start gap-3"
             >
               <div className="mt-1 rounded-full bg-slate-100 dark:bg-slate-800 p-2">
@@ -109,9 +116,20 @@ export function EmergencyResources({
                     </Badge>
                   )}
                 </div>
-                <p className="font-mono text-sm text-slate-700 dark:text-slate-300">
-                  {resource.number}
-                </p>
+                {resource.contact_type === 'web' ? (
+                  <a
+                    href={`https://${resource.contact.replace(/^https?:\/\//, '')}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="font-mono text-sm text-blue-600 dark:text-blue-400 underline"
+                  >
+                    {resource.contact}
+                  </a>
+                ) : (
+                  <p className="font-mono text-sm text-slate-700 dark:text-slate-300">
+                    {resource.contact}
+                  </p>
+                )}
                 <p className="text-xs text-slate-500 dark:text-slate-400">{resource.description}</p>
               </div>
             </div>
@@ -119,21 +137,21 @@ export function EmergencyResources({
         })}
       </div>
 
-      {!compact && (
+      {!compact && directory && directory.international.length > 0 && (
         <div className="space-y-3 rounded-2xl border border-white/40 dark:border-slate-800/80 bg-white/60 dark:bg-slate-900/50 p-4">
           <div className="flex items-center gap-2 text-sm font-semibold text-slate-700 dark:text-slate-200">
             <HeartPulse className="h-4 w-4 text-emerald-500" />
             International hotlines
           </div>
           <div className="space-y-2 text-sm text-slate-600 dark:text-slate-400">
-            {INTERNATIONAL_RESOURCES.map(resource => (
-              <div key={resource.country} className="flex items-center justify-between">
+            {directory.international.map(resource => (
+              <div key={resource.id} className="flex items-center justify-between">
                 <span className="font-medium text-slate-700 dark:text-slate-200">
-                  {resource.country}
-                  <span className="ml-2 text-xs text-slate-400 dark:text-slate-500">{resource.service}</span>
+                  {regionName(resource.region)}
+                  <span className="ml-2 text-xs text-slate-400 dark:text-slate-500">{resource.name}</span>
                 </span>
-                <span className="font-mono" aria-label={`Phone number ${resource.number}`}>
-                  {resource.number}
+                <span className="font-mono" aria-label={`${resource.contact_type === 'web' ? 'Website' : 'Contact'} ${resource.contact}`}>
+                  {resource.contact}
                 </span>
               </div>
             ))}
@@ -145,7 +163,11 @@ export function EmergencyResources({
         <div className="rounded-2xl border border-white/30 dark:border-slate-800/90 bg-white/50 dark:bg-slate-900/40 p-4 text-xs text-slate-500 dark:text-slate-400 space-y-2">
           <p className="font-semibold text-slate-700 dark:text-slate-200">In an emergency</p>
           <ul className="space-y-1 list-disc list-inside">
-            <li>Call 911 (or your local emergency number) immediately.</li>
+            <li>
+              {emergency
+                ? `Call ${emergency.contact} (or your local emergency number) immediately.`
+                : 'Call your local emergency number immediately.'}
+            </li>
             <li>Stay with someone you trust until help arrives.</li>
             <li>Remove weapons, medications, or other potential dangers.</li>
           </ul>
@@ -0,0 +1,188 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Lock } from 'lucide-react'
+import { createClient } from '@/lib/supabase/client'
+
+interface EncryptionStatus {
+  configured: boolean
+  activeMasterKeyId: string | null
+  dataKeys: number
+  dataKeysOnOldMasterKeys: number
+  tables: Record<string, { rows: number; plaintextValues: number }>
+  encryptedTables: string[]
+}
+
+const inputClassName = 'flex-1 px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 dark:bg-gray-900 dark:text-white'
+
+/**
+ * Shows how much sensitive data is encrypted at rest and runs the key
+ * maintenance jobs: encrypting rows stored before encryption was set up,
+ * moving data keys to a new master key and rotating a user's data key
+ */
+export function FieldEncryptionPanel() {
+  const [status, setStatus] = useState<EncryptionStatus | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [running, setRunning] = useState(false)
+  const [progress, setProgress] = useState<string | null>(null)
+  const [rotateUserId, setRotateUserId] = useState('')
+  const supabase = createClient()
+
+  const authorizedFetch = async (init?: RequestInit) => {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) {
+      throw new Error('You must be logged in')
+    }
+
+    const response = await fetch('/api/admin/encryption', {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+    })
+    const result = await response.json()
+    if (!response.ok) {
+      throw new Error(result.error || 'Request failed')
+    }
+    return result
+  }
+
+  const fetchStatus = async () => {
+    try {
+      setStatus(await authorizedFetch())
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load encryption status')
+    }
+  }
+
+  useEffect(() => {
+    fetchStatus()
+  }, [])
+
+  const runJob = async (job: () => Promise<string>, failure: string) => {
+    setRunning(true)
+    try {
+      setProgress(await job())
+    } catch (err) {
+      setProgress(null)
+      alert(`${failure}: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    } finally {
+      setRunning(false)
+      fetchStatus()
+    }
+  }
+
+  const encryptExisting = () => runJob(async () => {
+    let encrypted = 0
+    for (const table of status!.encryptedTables) {
+      let cursor: string | null = null
+      do {
+        const result = await authorizedFetch({
+          method: 'POST',
+          body: JSON.stringify({ action: 'encrypt', table, cursor }),
+        })
+        encrypted += result.encrypted
+        cursor = result.nextCursor
+        setProgress(`Encrypting ${table}: ${encrypted} row${encrypted === 1 ? '' : 's'} so far...`)
+      } while (cursor)
+    }
+    return `Encryption complete: ${encrypted} row${encrypted === 1 ? '' : 's'} encrypted`
+  }, 'Encryption failed')
+
+  const rewrapKeys = () => runJob(async () => {
+    let rewrapped = 0
+    let remaining = 0
+    do {
+      const result = await authorizedFetch({
+        method: 'POST',
+        body: JSON.stringify({ action: 'rewrap' }),
+      })
+      rewrapped += result.rewrapped
+      remaining = result.remaining
+      setProgress(`Re-wrapped ${rewrapped} data key${rewrapped === 1 ? '' : 's'}, ${remaining} to go...`)
+      if (result.rewrapped === 0) break
+    } while (remaining > 0)
+    return `Re-wrapped ${rewrapped} data key${rewrapped === 1 ? '' : 's'} with the active master key`
+  }, 'Re-wrapping failed')
+
+  const rotateUserKey = () => runJob(async () => {
+    const userId = rotateUserId.trim()
+    const result = await authorizedFetch({
+      method: 'POST',
+      body: JSON.stringify({ action: 'rotate', userId }),
+    })
+    setRotateUserId('')
+    return `User ${userId} now has data key version ${result.version}. Run Encrypt Existing Rows to move their data to it.`
+  }, 'Rotation failed')
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Lock className="h-5 w-5 mr-2" />
+          Encryption at Rest
+        </CardTitle>
+        <CardDescription>
+          Messages, memory, AI session notes and group introductions are encrypted with a key per user,
+          itself encrypted by the master key in FIELD_ENCRYPTION_KEYS.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && <div className="text-sm text-red-600 dark:text-red-400">{error}</div>}
+        {status && (
+          <div className="text-sm text-gray-600 dark:text-gray-400 space-y-1">
+            <div>
+              {status.configured
+                ? `Active master key: ${status.activeMasterKeyId}`
+                : 'FIELD_ENCRYPTION_KEYS is not set: new data is stored unencrypted'}
+            </div>
+            <div>
+              Data keys: {status.dataKeys}
+              {status.dataKeysOnOldMasterKeys > 0 && ` (${status.dataKeysOnOldMasterKeys} still on an older master key)`}
+            </div>
+            {Object.entries(status.tables).map(([table, counts]) => (
+              <div key={table}>
+                {table}: {counts.rows} row{counts.rows === 1 ? '' : 's'}, {counts.plaintextValues} value{counts.plaintextValues === 1 ? '' : 's'} unencrypted
+              </div>
+            ))}
+          </div>
+        )}
+        {progress && <div className="text-sm text-gray-600 dark:text-gray-400">{progress}</div>}
+        <div className="flex flex-wrap gap-2">
+          <Button size="sm" onClick={encryptExisting} disabled={running || !status?.configured}>
+            {running ? 'Working...' : 'Encrypt Existing Rows'}
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={rewrapKeys}
+            disabled={running || !status?.dataKeysOnOldMasterKeys}
+          >
+            Re-wrap Data Keys
+          </Button>
+        </div>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={rotateUserId}
+            onChange={(e) => setRotateUserId(e.target.value)}
+            placeholder="User ID"
+            className={inputClassName}
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={rotateUserKey}
+            disabled={running || !status?.configured || !rotateUserId.trim()}
+          >
+            Rotate User Key
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
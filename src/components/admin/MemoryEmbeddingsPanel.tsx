@@ -0,0 +1,118 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { createClient } from '@/lib/supabase/client'
+
+interface EmbeddingCoverage {
+  backend: string
+  model: string
+  memories: { total: number; indexed: number }
+  sessionSummaries: { total: number; indexed: number }
+}
+
+type BackfillSource = 'user_memory' | 'session_summary'
+
+/**
+ * Shows how much user memory is embedded for semantic retrieval and runs
+ * the backfill for rows stored before embeddings existed
+ */
+export function MemoryEmbeddingsPanel() {
+  const [coverage, setCoverage] = useState<EmbeddingCoverage | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [backfilling, setBackfilling] = useState(false)
+  const [progress, setProgress] = useState<string | null>(null)
+  const supabase = createClient()
+
+  const authorizedFetch = async (init?: RequestInit) => {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) {
+      throw new Error('You must be logged in')
+    }
+
+    return fetch('/api/admin/memory-embeddings', {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+    })
+  }
+
+  const fetchCoverage = async () => {
+    try {
+      const response = await authorizedFetch()
+      const result = await response.json()
+      if (!response.ok) {
+        setError(result.error || 'Failed to load embedding coverage')
+        return
+      }
+      setCoverage(result)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load embedding coverage')
+    }
+  }
+
+  useEffect(() => {
+    fetchCoverage()
+  }, [])
+
+  const runBackfill = async () => {
+    setBackfilling(true)
+    try {
+      let indexed = 0
+      for (const source of ['user_memory', 'session_summary'] as BackfillSource[]) {
+        let cursor: string | null = null
+        do {
+          const response = await authorizedFetch({
+            method: 'POST',
+            body: JSON.stringify({ source, cursor }),
+          })
+          const result = await response.json()
+          if (!response.ok) {
+            throw new Error(result.error || 'Backfill failed')
+          }
+
+          indexed += result.indexed
+          cursor = result.nextCursor
+          setProgress(`Embedded ${indexed} item${indexed === 1 ? '' : 's'}...`)
+        } while (cursor)
+      }
+      setProgress(`Backfill complete: embedded ${indexed} item${indexed === 1 ? '' : 's'}`)
+    } catch (err) {
+      setProgress(null)
+      alert(`Backfill failed: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    } finally {
+      setBackfilling(false)
+      fetchCoverage()
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Memory Retrieval</CardTitle>
+        <CardDescription>
+          Only the memories and past session summaries most relevant to each message are given to the AI.
+          Existing memory needs to be embedded once, and again after changing the embedding backend.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && <div className="text-sm text-red-600 dark:text-red-400">{error}</div>}
+        {coverage && (
+          <div className="text-sm text-gray-600 dark:text-gray-400 space-y-1">
+            <div>Embedding backend: {coverage.backend} ({coverage.model})</div>
+            <div>Memories embedded: {coverage.memories.indexed} / {coverage.memories.total}</div>
+            <div>Session summaries embedded: {coverage.sessionSummaries.indexed} / {coverage.sessionSummaries.total}</div>
+          </div>
+        )}
+        {progress && <div className="text-sm text-gray-600 dark:text-gray-400">{progress}</div>}
+        <Button size="sm" onClick={runBackfill} disabled={backfilling || !coverage}>
+          {backfilling ? 'Backfilling...' : 'Run Backfill'}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,51 @@
+"use client"
+
+import { Button } from '@/components/ui/button'
+import { Card, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { cn } from '@/lib/utils'
+import { Unlock, X } from 'lucide-react'
+import { SessionUnlockAppeal } from '@/types'
+
+interface AppealOutcomeNoticeProps {
+  appeal: SessionUnlockAppeal | null
+  onDismiss: () => void
+  className?: string
+}
+
+// Tells the user their session was reopened after an appeal, and on what conditions
+export function AppealOutcomeNotice({ appeal, onDismiss, className }: AppealOutcomeNoticeProps) {
+  if (!appeal || (appeal.status !== 'unlocked' && appeal.status !== 'unlocked_with_conditions')) return null
+
+  return (
+    <Card
+      className={cn(
+        'border-none bg-gradient-to-r from-emerald-50 to-teal-50 dark:from-emerald-900/20 dark:to-teal-900/20 shadow-none',
+        className
+      )}
+    >
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-2">
+          <CardTitle className="text-base font-semibold text-slate-900 dark:text-white flex items-center gap-2">
+            <Unlock className="h-4 w-4 text-emerald-600 dark:text-emerald-400" />
+            Your session has been reopened
+          </CardTitle>
+          <CardDescription className="text-sm text-slate-600 dark:text-slate-300">
+            Our team reviewed your appeal and unlocked this session.
+            {appeal.decision_note && <> {appeal.decision_note}</>}
+          </CardDescription>
+          {appeal.conditions && (
+            <div className="text-sm text-slate-700 dark:text-slate-200">
+              <p className="font-medium">Conditions for continuing:</p>
+              <p className="whitespace-pre-wrap">{appeal.conditions}</p>
+            </div>
+          )}
+        </div>
+        <Button variant="ghost" size="sm" onClick={onDismiss} className="text-slate-500 hover:text-slate-700">
+          <X className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+    </Card>
+  )
+}
+
+export default AppealOutcomeNotice
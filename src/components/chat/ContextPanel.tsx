@@ -1,10 +1,11 @@
 "use client"
 
-import { ChatMessage, SessionInsight } from '@/types'
+import { ChatMessage, SafetyPlanContent, SessionInsight } from '@/types'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import EmergencyResources from '@/components/EmergencyResources'
+import SafetyPlanCard from '@/components/chat/SafetyPlanCard'
 import { Lightbulb, ShieldAlert } from 'lucide-react'
 import { cn } from '@/lib/utils'
 
@@ -14,6 +15,8 @@ interface ContextPanelProps {
   isLocked: boolean
   lockReason?: string | null
   showEmergencyResources: boolean
+  safetyPlan?: SafetyPlanContent | null
+  highlightSafetyPlan?: boolean
   onCloseEmergencyResources?: () => void
   onGenerateInsight?: () => void
   generatingInsight?: boolean
@@ -26,6 +29,8 @@ export function ContextPanel({
   isLocked,
   lockReason,
   showEmergencyResources,
+  safetyPlan,
+  highlightSafetyPlan = false,
   onCloseEmergencyResources,
   onGenerateInsight,
   generatingInsight,
@@ -49,6 +54,10 @@ export function ContextPanel({
         className
       )}
     >
+      {safetyPlan !== undefined && (
+        <SafetyPlanCard plan={safetyPlan} highlighted={highlightSafetyPlan} />
+      )}
+
       {showEmergencyResources ? (
         <Card className="border-none shadow-none">
           <CardHeader className="flex flex-row items-center justify-between pb-3">
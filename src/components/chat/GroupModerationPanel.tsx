@@ -0,0 +1,76 @@
+"use client"
+
+import { ShieldAlert } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { GroupModerationEvent, ModerationCategory } from '@/types'
+
+interface GroupModerationPanelProps {
+  events: GroupModerationEvent[]
+  names: Map<string, string>
+  currentUserId: string | null
+  className?: string
+}
+
+const CATEGORY_LABELS: Record<ModerationCategory, string> = {
+  abuse: 'abusive language',
+  threat: 'a threat',
+  slur: 'a slur',
+}
+
+function describeOutcome(event: GroupModerationEvent): string {
+  switch (event.review_status) {
+    case 'held':
+      return 'held for review'
+    case 'released':
+      return 'delivered after review'
+    case 'rejected':
+      return 'not delivered after review'
+    default:
+      return event.actions.includes('warned') ? 'delivered with a warning' : 'logged'
+  }
+}
+
+// Moderation events in a group session, for its owner (everyone's) and for
+// other participants (their own)
+export function GroupModerationPanel({ events, names, currentUserId, className }: GroupModerationPanelProps) {
+  if (events.length === 0) return null
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="flex items-center gap-2 text-xs font-semibold text-slate-400 uppercase tracking-wide">
+        <ShieldAlert className="h-3 w-3" />
+        Moderation ({events.length})
+      </div>
+      {events.map(event => {
+        const sender = event.user_id === currentUserId ? 'Your message' : `${names.get(event.user_id) || 'A participant'}'s message`
+        const categories = event.categories.map(category => CATEGORY_LABELS[category]).join(', ')
+
+        return (
+          <div
+            key={event.id}
+            className={cn(
+              'rounded-lg p-2 text-xs',
+              event.review_status === 'held' || event.review_status === 'rejected'
+                ? 'bg-red-900/30 text-red-200'
+                : 'bg-amber-900/20 text-amber-200'
+            )}
+          >
+            <p>
+              {sender} {describeOutcome(event)}
+              {categories && <> ({categories})</>}
+            </p>
+            {event.content && event.review_status !== 'released' && (
+              <p className="mt-1 italic text-slate-300 line-clamp-2">&ldquo;{event.content}&rdquo;</p>
+            )}
+            {event.review_note && event.user_id === currentUserId && (
+              <p className="mt-1 text-slate-300">Moderator: {event.review_note}</p>
+            )}
+            <p className="mt-1 text-slate-400">{new Date(event.created_at).toLocaleString()}</p>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+export default GroupModerationPanel
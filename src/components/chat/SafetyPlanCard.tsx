@@ -0,0 +1,88 @@
+"use client"
+
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { ClipboardList, Phone } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { isSafetyPlanEmpty, SAFETY_PLAN_SECTIONS } from '@/lib/safety-plan'
+import { SafetyPlanContact, SafetyPlanContent } from '@/types'
+
+interface SafetyPlanCardProps {
+  plan: SafetyPlanContent | null
+  highlighted?: boolean
+  className?: string
+}
+
+export function SafetyPlanCard({
+  plan,
+  highlighted = false,
+  className,
+}: SafetyPlanCardProps) {
+  return (
+    <Card
+      className={cn(
+        'shadow-none rounded-2xl',
+        highlighted
+          ? 'border-2 border-emerald-300 dark:border-emerald-700 bg-emerald-50/70 dark:bg-emerald-900/20'
+          : 'border-none',
+        className
+      )}
+    >
+      <CardHeader className="flex flex-row items-center justify-between pb-3">
+        <CardTitle className="text-sm font-semibold text-slate-700 dark:text-slate-200 flex items-center gap-2">
+          <ClipboardList className="h-4 w-4 text-emerald-600 dark:text-emerald-400" />
+          My safety plan
+        </CardTitle>
+        <Link
+          href="/dashboard/safety-plan"
+          className="text-xs text-emerald-700 hover:underline dark:text-emerald-300"
+        >
+          {isSafetyPlanEmpty(plan) ? 'Create' : 'Edit'}
+        </Link>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm text-slate-600 dark:text-slate-300">
+        {!plan || isSafetyPlanEmpty(plan) ? (
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            A safety plan lists your warning signs, what helps you cope and who you can reach out to. Your coach can help you build one.
+          </p>
+        ) : (
+          SAFETY_PLAN_SECTIONS.filter(section => plan[section.key].length > 0).map(section => {
+            const entries: (string | SafetyPlanContact)[] = plan[section.key]
+            return (
+              <div key={section.key}>
+                <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400 mb-1">
+                  {section.title}
+                </p>
+                <ul className="space-y-1">
+                  {entries.map((entry, index) =>
+                    typeof entry === 'string' ? (
+                      <li key={index}>{entry}</li>
+                    ) : (
+                      <li key={index} className="flex items-center justify-between gap-2">
+                        <span>
+                          {entry.name}
+                          {entry.note && <span className="text-slate-500 dark:text-slate-400"> · {entry.note}</span>}
+                        </span>
+                        {entry.phone && (
+                          <a
+                            href={`tel:${entry.phone.replace(/[^\d+]/g, '')}`}
+                            className="flex items-center gap-1 text-xs font-medium text-emerald-700 dark:text-emerald-300"
+                          >
+                            <Phone className="h-3 w-3" />
+                            {entry.phone}
+                          </a>
+                        )}
+                      </li>
+                    )
+                  )}
+                </ul>
+              </div>
+            )
+          })
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default SafetyPlanCard
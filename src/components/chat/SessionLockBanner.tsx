@@ -1,8 +1,11 @@
 "use client"
 
+import { useState } from 'react'
 import { Button } from '@/components/ui/button'
-import { Lock, Sparkles } from 'lucide-react'
+import { Textarea } from '@/components/ui/textarea'
+import { Clock, Lock, Sparkles } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { SessionUnlockAppeal } from '@/types'
 
 interface SessionLockBannerProps {
   isLocked: boolean
@@ -10,19 +13,51 @@ interface SessionLockBannerProps {
   isIntroductionLock?: boolean
   onStartFirstSession?: () => void
   supportEmail?: string
+  appeal?: SessionUnlockAppeal | null
+  canAppeal?: boolean
+  appealBlockedReason?: string | null
+  reappealAt?: string | null // When a kept lock can be appealed again
+  onSubmitAppeal?: (statement: string) => Promise<void>
   className?: string
 }
 
+const MAX_STATEMENT_CHARS = 2000
+
 export function SessionLockBanner({
   isLocked,
   lockReason,
   isIntroductionLock = false,
   onStartFirstSession,
   supportEmail = 'support@zenithwell.com',
+  appeal,
+  canAppeal = false,
+  appealBlockedReason,
+  reappealAt,
+  onSubmitAppeal,
   className,
 }: SessionLockBannerProps) {
+  const [showAppealForm, setShowAppealForm] = useState(false)
+  const [statement, setStatement] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [appealError, setAppealError] = useState<string | null>(null)
+
   if (!isLocked) return null
 
+  const handleSubmitAppeal = async () => {
+    if (!onSubmitAppeal || !statement.trim()) return
+    setSubmitting(true)
+    setAppealError(null)
+    try {
+      await onSubmitAppeal(statement.trim())
+      setShowAppealForm(false)
+      setStatement('')
+    } catch (error) {
+      setAppealError(error instanceof Error ? error.message : 'Failed to submit appeal')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
   return (
     <div
       className={cn(
@@ -70,6 +105,52 @@ export function SessionLockBanner({
                 Reason: {lockReason.replace(/_/g, ' ')}
               </p>
             )}
+            {appeal?.status === 'pending' && (
+              <div className="flex items-center justify-center gap-2 text-sm text-red-700 dark:text-red-300">
+                <Clock className="h-4 w-4" />
+                Your appeal was sent {new Date(appeal.created_at).toLocaleString()}. Our team will review it and let you know here.
+              </div>
+            )}
+            {appeal?.status === 'kept_locked' && (
+              <div className="rounded-lg bg-white/60 dark:bg-slate-900/40 p-3 text-sm text-red-700 dark:text-red-300">
+                <p className="font-medium">Our team reviewed your appeal and kept this session locked.</p>
+                {appeal.decision_note && <p className="mt-1">{appeal.decision_note}</p>}
+                {!canAppeal && (reappealAt || appealBlockedReason) && (
+                  <p className="mt-1 text-xs">
+                    {reappealAt ? `You can appeal again after ${new Date(reappealAt).toLocaleString()}` : appealBlockedReason}
+                  </p>
+                )}
+              </div>
+            )}
+            {canAppeal && onSubmitAppeal && (
+              showAppealForm ? (
+                <div className="space-y-2 text-left">
+                  <Textarea
+                    value={statement}
+                    onChange={(e) => setStatement(e.target.value)}
+                    placeholder="Tell us why this session should be reopened and how you are doing now."
+                    maxLength={MAX_STATEMENT_CHARS}
+                    rows={4}
+                    disabled={submitting}
+                  />
+                  {appealError && (
+                    <p className="text-xs text-red-600 dark:text-red-400">{appealError}</p>
+                  )}
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" size="sm" onClick={() => setShowAppealForm(false)} disabled={submitting}>
+                      Cancel
+                    </Button>
+                    <Button size="sm" onClick={handleSubmitAppeal} disabled={submitting || !statement.trim()}>
+                      {submitting ? 'Sending...' : 'Send appeal'}
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <Button variant="outline" size="sm" onClick={() => setShowAppealForm(true)}>
+                  Ask to reopen this session
+                </Button>
+              )
+            )}
             {supportEmail && (
               <p className="text-xs text-red-600 dark:text-red-400">
                 Need help? Reach out at {supportEmail}
@@ -0,0 +1,321 @@
+/**
+ * AI provider API keys
+ * Server-side only - ai_config.api_key is sealed with the master key from
+ * FIELD_ENCRYPTION_KEYS and only opened here, for the failover chain, eval
+ * runs and admin connection tests. Admins see keys masked and set them through
+ * /api/admin/ai-config; every view, rotation and test is recorded in
+ * ai_config_key_audit.
+ */
+
+import { randomUUID } from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import { AIConfig, AIConfigKeyAuditEntry, AIConfigSummary } from '@/types';
+import {
+  decryptSecret,
+  encryptSecret,
+  isEncryptedSecret,
+  isFieldEncryptionConfigured
+} from '@/lib/security/field-encryption';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export const API_KEY_CONFIG = {
+  HINT_CHARS: 4, // Trailing characters kept in api_key_hint
+  MIN_CHARS_FOR_HINT: 16, // Shorter keys are masked completely
+  AUDIT_LIMIT: 50,
+  MAX_DETAIL_CHARS: 500,
+};
+
+export const AI_PROVIDERS: AIConfig['provider'][] = ['openai', 'anthropic', 'perplexity', 'openai_compatible'];
+
+export interface AIConfigInput {
+  provider: AIConfig['provider'];
+  apiKey: string | null; // Optional for openai_compatible
+  model: string;
+  baseUrl: string | null; // Required for openai_compatible
+}
+
+export interface KeyAuditInput {
+  configId: string | null;
+  actorId: string;
+  action: AIConfigKeyAuditEntry['action'];
+  provider: string | null;
+  model: string | null;
+  success?: boolean | null;
+  detail?: string | null;
+}
+
+/**
+ * A request the admin can correct, as opposed to a storage or decryption
+ * failure: an 'invalid' key, or a config that was 'not_found'
+ */
+export class AIConfigKeyError extends Error {
+  constructor(message: string, readonly code: 'invalid' | 'not_found') {
+    super(message);
+    this.name = 'AIConfigKeyError';
+  }
+}
+
+type StoredKeyConfig = Pick<AIConfig, 'id' | 'provider' | 'model'> & {
+  api_key: string | null;
+  base_url: string | null;
+};
+
+// Binds a sealed key to its row, so it cannot be copied to another config
+function secretLabel(configId: string): string {
+  return `ai_config:${configId}`;
+}
+
+function keyHint(apiKey: string | null): string | null {
+  if (!apiKey || apiKey.length < API_KEY_CONFIG.MIN_CHARS_FOR_HINT) {
+    return null;
+  }
+  return apiKey.slice(-API_KEY_CONFIG.HINT_CHARS);
+}
+
+/**
+ * How a key is shown to admins: its last few characters at most
+ */
+export function maskApiKey(hasKey: boolean, hint: string | null | undefined): string | null {
+  if (!hasKey) {
+    return null;
+  }
+  return hint ? `••••••••${hint}` : '••••••••';
+}
+
+/**
+ * A copy of the config with its API key decrypted, for handing to a provider
+ */
+export function openApiKey<T extends { id: string; api_key?: string | null }>(config: T): T {
+  if (!config.api_key) {
+    return config;
+  }
+  return { ...config, api_key: decryptSecret(secretLabel(config.id), config.api_key) };
+}
+
+/**
+ * Record an access to a key. Throws when the entry cannot be stored, so an
+ * action that cannot be audited is not reported as done.
+ */
+export async function recordKeyAudit(input: KeyAuditInput): Promise<void> {
+  const { error } = await supabase
+    .from('ai_config_key_audit')
+    .insert({
+      config_id: input.configId,
+      actor_id: input.actorId,
+      action: input.action,
+      provider: input.provider,
+      model: input.model,
+      success: input.success ?? null,
+      detail: input.detail ? input.detail.slice(0, API_KEY_CONFIG.MAX_DETAIL_CHARS) : null
+    });
+
+  if (error) {
+    throw new Error(`Failed to record API key audit entry: ${error.message}`);
+  }
+}
+
+export async function getKeyAuditLog(limit: number = API_KEY_CONFIG.AUDIT_LIMIT): Promise<AIConfigKeyAuditEntry[]> {
+  const { data, error } = await supabase
+    .from('ai_config_key_audit')
+    .select('*, users!ai_config_key_audit_actor_id_fkey(email)')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to load API key audit log: ${error.message}`);
+  }
+
+  return (data || []).map(({ users, ...entry }) => ({ ...entry, actor_email: users?.email ?? null }));
+}
+
+/**
+ * Every config in priority order, with keys masked
+ */
+export async function listAIConfigSummaries(): Promise<AIConfigSummary[]> {
+  const { data, error } = await supabase
+    .from('ai_config')
+    .select('id, provider, api_key, api_key_hint, model, base_url, is_active, priority, last_served_at, created_at')
+    .order('priority', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load AI configurations: ${error.message}`);
+  }
+
+  return (data || []).map(({ api_key, api_key_hint, ...config }) => ({
+    ...config,
+    masked_key: maskApiKey(!!api_key, api_key_hint),
+    key_encrypted: !api_key || isEncryptedSecret(api_key)
+  }));
+}
+
+async function getStoredKeyConfig(configId: string): Promise<StoredKeyConfig> {
+  const { data, error } = await supabase
+    .from('ai_config')
+    .select('id, provider, api_key, model, base_url')
+    .eq('id', configId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load AI configuration: ${error.message}`);
+  }
+  if (!data) {
+    throw new AIConfigKeyError('AI configuration not found', 'not_found');
+  }
+
+  return data;
+}
+
+/**
+ * A config with its key decrypted, for a connection test. The caller records
+ * the test once its outcome is known.
+ */
+export async function getAIConfigWithKey(configId: string): Promise<StoredKeyConfig> {
+  return openApiKey(await getStoredKeyConfig(configId));
+}
+
+/**
+ * Add a config to the end of the failover chain, inactive, with its key sealed
+ */
+export async function createAIConfig(input: AIConfigInput, actorId: string): Promise<AIConfigSummary> {
+  const { data: lastConfig } = await supabase
+    .from('ai_config')
+    .select('priority')
+    .order('priority', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const id = randomUUID();
+  const { data, error } = await supabase
+    .from('ai_config')
+    .insert({
+      id,
+      provider: input.provider,
+      api_key: input.apiKey ? encryptSecret(secretLabel(id), input.apiKey) : null,
+      api_key_hint: keyHint(input.apiKey),
+      model: input.model,
+      base_url: input.baseUrl,
+      is_active: false,
+      priority: (lastConfig?.priority ?? 0) + 1
+    })
+    .select('id, provider, api_key_hint, model, base_url, is_active, priority, last_served_at, created_at')
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to save AI configuration: ${error?.message || 'no row returned'}`);
+  }
+
+  await recordKeyAudit({ configId: id, actorId, action: 'created', provider: input.provider, model: input.model });
+
+  const { api_key_hint, ...config } = data;
+  return {
+    ...config,
+    masked_key: maskApiKey(!!input.apiKey, api_key_hint),
+    key_encrypted: !input.apiKey || isFieldEncryptionConfigured()
+  };
+}
+
+/**
+ * Replace a config's key. A null key is only accepted for OpenAI-compatible
+ * servers, which may not need one.
+ */
+export async function rotateApiKey(configId: string, apiKey: string | null, actorId: string): Promise<void> {
+  const config = await getStoredKeyConfig(configId);
+  if (!apiKey && config.provider !== 'openai_compatible') {
+    throw new AIConfigKeyError('API key is required', 'invalid');
+  }
+
+  const { error } = await supabase
+    .from('ai_config')
+    .update({
+      api_key: apiKey ? encryptSecret(secretLabel(configId), apiKey) : null,
+      api_key_hint: keyHint(apiKey)
+    })
+    .eq('id', configId);
+
+  if (error) {
+    throw new Error(`Failed to update API key: ${error.message}`);
+  }
+
+  await recordKeyAudit({
+    configId,
+    actorId,
+    action: 'rotated',
+    provider: config.provider,
+    model: config.model,
+    detail: apiKey ? null : 'Key removed'
+  });
+}
+
+/**
+ * The full key, for an admin who needs to see it. The view is recorded
+ * before the key is returned.
+ */
+export async function revealApiKey(configId: string, actorId: string): Promise<string | null> {
+  const config = await getAIConfigWithKey(configId);
+  await recordKeyAudit({ configId, actorId, action: 'viewed', provider: config.provider, model: config.model });
+  return config.api_key;
+}
+
+/**
+ * Seal keys stored before encryption was set up, and keys sealed with a
+ * master key that is no longer the first in FIELD_ENCRYPTION_KEYS
+ */
+export async function encryptStoredApiKeys(actorId: string): Promise<{ encrypted: number }> {
+  if (!isFieldEncryptionConfigured()) {
+    throw new Error('FIELD_ENCRYPTION_KEYS is not set');
+  }
+
+  const { data, error } = await supabase
+    .from('ai_config')
+    .select('id, provider, api_key, api_key_hint, model')
+    .not('api_key', 'is', null);
+
+  if (error) {
+    throw new Error(`Failed to load AI configurations: ${error.message}`);
+  }
+
+  let encrypted = 0;
+  for (const config of data || []) {
+    const sealed = encryptSecret(secretLabel(config.id), config.api_key);
+    if (sealed === config.api_key) {
+      continue;
+    }
+
+    const changes: Record<string, string | null> = { api_key: sealed };
+    if (!isEncryptedSecret(config.api_key)) {
+      changes.api_key_hint = keyHint(config.api_key);
+    }
+
+    // Only overwrite the value that was read, in case the key was rotated meanwhile
+    const { data: updated, error: updateError } = await supabase
+      .from('ai_config')
+      .update(changes)
+      .eq('id', config.id)
+      .eq('api_key', config.api_key)
+      .select('id');
+
+    if (updateError) {
+      throw new Error(`Failed to encrypt API key: ${updateError.message}`);
+    }
+    if (!updated?.length) {
+      continue;
+    }
+
+    await recordKeyAudit({
+      configId: config.id,
+      actorId,
+      action: 're_encrypted',
+      provider: config.provider,
+      model: config.model,
+      detail: isEncryptedSecret(config.api_key) ? 'Moved to the active master key' : 'Encrypted a plaintext key'
+    });
+    encrypted++;
+  }
+
+  return { encrypted };
+}
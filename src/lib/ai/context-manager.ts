@@ -0,0 +1,224 @@
+/**
+ * Conversation context manager
+ * Server-side only - decides which session messages are sent to the model.
+ * Recent turns are kept verbatim under a model-specific token budget; older
+ * turns are folded into a running summary stored per session, which the
+ * system prompt includes so long sessions stay coherent.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { SessionMessage } from '@/types';
+import { createAIProvider } from './providers';
+import { getAIConfigChain, runWithFailover } from './failover-service';
+import { trackUsage, UsageContext } from './usage-service';
+import { recordRedactionReport, Redactor, startRedaction } from './redaction';
+import { decryptFields, decryptRows, ENCRYPTED_FIELDS, encryptField, getSessionKeyOwner } from '@/lib/security/field-encryption';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export const CONTEXT_CONFIG = {
+  MAX_HISTORY_TOKENS: 8000, // Upper bound on verbatim history, even for very large context windows
+  SYSTEM_PROMPT_RESERVE: 4000, // Room left for the system prompt, memory and introductions
+  COMPACT_TARGET: 0.6, // After summarizing, recent turns are trimmed to this share of the budget
+  SUMMARY_MAX_TOKENS: 500,
+  MAX_UNSUMMARIZED_MESSAGES: 200, // Most recent messages considered on each request
+};
+
+export interface ConversationSummary {
+  session_id: string;
+  summary: string;
+  summarized_until: string; // Timestamp of the newest message folded into the summary
+  summarized_message_count: number;
+  updated_at: string;
+}
+
+export interface ConversationContext {
+  summary: string | null;
+  messages: SessionMessage[]; // Recent turns in chronological order
+}
+
+/**
+ * Rough token estimate (about four characters per token for English text).
+ * Deliberately provider-agnostic; the budget leaves headroom for the error.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Tokens available for verbatim history. The smallest budget across the
+ * failover chain is used so any provider that ends up serving can take it.
+ */
+export async function getHistoryTokenBudget(): Promise<number> {
+  const chain = await getAIConfigChain();
+
+  const budgets = chain.map(config => {
+    const provider = createAIProvider(config);
+    return provider.getContextWindow() - provider.getTokenLimit() - CONTEXT_CONFIG.SYSTEM_PROMPT_RESERVE;
+  });
+
+  return Math.max(500, Math.min(CONTEXT_CONFIG.MAX_HISTORY_TOKENS, ...budgets));
+}
+
+/**
+ * Get the running summary for a session, if one has been written
+ */
+export async function getConversationSummary(sessionId: string): Promise<ConversationSummary | null> {
+  const { data, error } = await supabase
+    .from('session_context_summaries')
+    .select('*')
+    .eq('session_id', sessionId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching conversation summary:', error);
+    return null;
+  }
+
+  return data ? decryptFields(data, ENCRYPTED_FIELDS.session_context_summaries) : null;
+}
+
+/**
+ * Fold older messages into the session's running summary. The prompt is
+ * redacted like a chat turn, with the names of the session's people, and the
+ * summary is stored with the placeholders restored, encrypted with the
+ * session owner's key.
+ */
+async function updateConversationSummary(
+  sessionId: string,
+  userId: string | undefined,
+  existing: ConversationSummary | null,
+  messages: SessionMessage[],
+  formatMessage: (message: SessionMessage) => string,
+  knownNames: string[]
+): Promise<string | null> {
+  const transcript = messages.map(formatMessage).join('\n');
+
+  const prompt = `You maintain a running summary of a wellness coaching session so the coach can remember what was said after older messages drop out of view.
+
+${existing?.summary ? `Current summary:\n${existing.summary}\n\n` : ''}Messages to add to the summary:
+${transcript}
+
+Write an updated summary (max 300 words) that merges the new messages into the current summary. Keep names of who said what, feelings and concerns shared, goals, commitments, coping strategies tried, and any safety concerns. Leave out greetings and small talk. Respond with the summary only.`;
+
+  const usage: UsageContext = { purpose: 'context_summary', sessionId, userId };
+  let redactor: Redactor | null = null;
+  let summary: string;
+  try {
+    redactor = await startRedaction(knownNames);
+    const redactedPrompt = redactor ? redactor.redact(prompt) : prompt;
+    const completion = await runWithFailover(async (config) => {
+      const tracker = trackUsage(usage, config);
+      try {
+        const text = await createAIProvider(config).complete(redactedPrompt, {
+          maxTokens: CONTEXT_CONFIG.SUMMARY_MAX_TOKENS,
+          temperature: 0.3,
+          onUsage: tracker.onUsage
+        });
+        tracker.record({ success: true, prompt: redactedPrompt, completion: text });
+        return text;
+      } catch (error) {
+        tracker.record({ success: false, prompt: redactedPrompt });
+        throw error;
+      }
+    });
+    summary = (redactor ? redactor.restore(completion) : completion).trim();
+  } finally {
+    recordRedactionReport(redactor, usage);
+  }
+
+  if (!summary) {
+    return null;
+  }
+
+  const { error } = await supabase
+    .from('session_context_summaries')
+    .upsert({
+      session_id: sessionId,
+      summary: await encryptField(await getSessionKeyOwner(sessionId), summary),
+      summarized_until: messages[messages.length - 1].timestamp,
+      summarized_message_count: (existing?.summarized_message_count || 0) + messages.length,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'session_id' });
+
+  if (error) {
+    console.error('Error saving conversation summary:', error);
+    return null;
+  }
+
+  return summary;
+}
+
+/**
+ * Load the context for the next AI reply: the running summary plus as many
+ * recent messages as fit the token budget. When the unsummarized history
+ * outgrows the budget, the oldest turns are summarized so the next requests
+ * have room again. Summarization usage is attributed to `userId`; `knownNames`
+ * are the session's people, redacted from the transcript sent to summarize.
+ */
+export async function buildConversationContext(
+  sessionId: string,
+  formatMessage: (message: SessionMessage) => string,
+  userId?: string,
+  knownNames: string[] = []
+): Promise<ConversationContext> {
+  const existing = await getConversationSummary(sessionId);
+
+  let query = supabase
+    .from('session_messages')
+    .select('*, user_id')
+    .eq('session_id', sessionId)
+    .order('timestamp', { ascending: false })
+    .limit(CONTEXT_CONFIG.MAX_UNSUMMARIZED_MESSAGES);
+
+  if (existing?.summarized_until) {
+    query = query.gt('timestamp', existing.summarized_until);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error('Failed to fetch messages');
+  }
+
+  const messages: SessionMessage[] = (await decryptRows(data, ENCRYPTED_FIELDS.session_messages)).reverse();
+  let summary = existing?.summary || null;
+
+  const budget = await getHistoryTokenBudget().catch(() => CONTEXT_CONFIG.MAX_HISTORY_TOKENS);
+  const available = budget - (summary ? estimateTokens(summary) : 0);
+  const totalTokens = messages.reduce((total, msg) => total + estimateTokens(formatMessage(msg)), 0);
+
+  if (totalTokens <= available) {
+    return { summary, messages };
+  }
+
+  // Keep the newest messages up to the compaction target; the new user message is always kept
+  const target = Math.floor(available * CONTEXT_CONFIG.COMPACT_TARGET);
+  let keepFrom = messages.length - 1;
+  let used = estimateTokens(formatMessage(messages[keepFrom]));
+  while (keepFrom > 0) {
+    const tokens = estimateTokens(formatMessage(messages[keepFrom - 1]));
+    if (used + tokens > target) break;
+    used += tokens;
+    keepFrom--;
+  }
+
+  const older = messages.slice(0, keepFrom);
+  const recent = messages.slice(keepFrom);
+  if (older.length === 0) {
+    return { summary, messages: recent };
+  }
+
+  console.log(`Context budget ${budget} tokens: summarizing ${older.length} older messages, keeping ${recent.length}`);
+
+  try {
+    summary = (await updateConversationSummary(sessionId, userId, existing, older, formatMessage, knownNames)) || summary;
+  } catch (error) {
+    // The older turns are dropped for this reply and summarized again on the next one
+    console.error('Error updating conversation summary:', error);
+  }
+
+  return { summary, messages: recent };
+}
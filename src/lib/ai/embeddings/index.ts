@@ -0,0 +1,51 @@
+/**
+ * Embedding backend registry
+ * Server-side only - the backend is chosen with the EMBEDDING_PROVIDER
+ * environment variable and defaults to the local backend, which needs no
+ * network access.
+ */
+
+import { EmbeddingProvider } from './types';
+import { LocalEmbeddingProvider } from './local';
+import { OpenAIEmbeddingProvider } from './openai';
+
+export * from './types';
+
+let embeddingProvider: EmbeddingProvider | null = null;
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (embeddingProvider) {
+    return embeddingProvider;
+  }
+
+  const backend = process.env.EMBEDDING_PROVIDER || 'local';
+
+  switch (backend) {
+    case 'local':
+      embeddingProvider = new LocalEmbeddingProvider();
+      break;
+    case 'openai':
+      if (!process.env.EMBEDDING_API_KEY && !process.env.OPENAI_API_KEY) {
+        throw new Error('EMBEDDING_API_KEY or OPENAI_API_KEY is required for OpenAI embeddings');
+      }
+      embeddingProvider = new OpenAIEmbeddingProvider({
+        model: process.env.EMBEDDING_MODEL || 'text-embedding-3-small',
+        apiKey: process.env.EMBEDDING_API_KEY || process.env.OPENAI_API_KEY,
+      });
+      break;
+    case 'openai_compatible':
+      if (!process.env.EMBEDDING_BASE_URL || !process.env.EMBEDDING_MODEL) {
+        throw new Error('EMBEDDING_BASE_URL and EMBEDDING_MODEL are required for OpenAI-compatible embeddings');
+      }
+      embeddingProvider = new OpenAIEmbeddingProvider({
+        model: process.env.EMBEDDING_MODEL,
+        apiKey: process.env.EMBEDDING_API_KEY,
+        baseUrl: process.env.EMBEDDING_BASE_URL,
+      });
+      break;
+    default:
+      throw new Error(`Unsupported embedding provider: ${backend}`);
+  }
+
+  return embeddingProvider;
+}
@@ -0,0 +1,91 @@
+import { EmbeddingBackendId, EmbeddingProvider } from './types';
+
+const DIMENSIONS = 384;
+
+// Common words that carry no meaning for retrieval
+const STOP_WORDS = new Set([
+  'a', 'about', 'after', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been',
+  'before', 'but', 'by', 'can', 'could', 'did', 'do', 'does', 'for', 'from', 'had', 'has', 'have',
+  'he', 'her', 'him', 'his', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'just', 'me', 'my',
+  'of', 'on', 'or', 'our', 'she', 'so', 'that', 'the', 'their', 'them', 'then', 'there', 'they',
+  'this', 'to', 'too', 'us', 'was', 'we', 'were', 'what', 'when', 'which', 'who', 'will', 'with',
+  'would', 'you', 'your'
+]);
+
+const SUFFIXES = ['ational', 'fulness', 'iveness', 'ization', 'ness', 'ment', 'ful', 'ing', 'ity', 'ies', 'ied', 'ed', 'ly', 'es', 's'];
+
+/**
+ * Light suffix stripping so "worried", "worries" and "worrying" share features
+ */
+function stem(word: string): string {
+  for (const suffix of SUFFIXES) {
+    if (word.length - suffix.length >= 3 && word.endsWith(suffix)) {
+      const base = word.slice(0, -suffix.length);
+      return suffix === 'ies' || suffix === 'ied' ? `${base}y` : base;
+    }
+  }
+  return word;
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function hash(feature: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    h ^= feature.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Local embedding backend using feature hashing. Runs in-process with no
+ * network access or model download: words, word pairs and character
+ * trigrams are hashed into a fixed-size vector. It captures shared vocabulary
+ * and word forms rather than deeper meaning, so a neural backend gives better
+ * recall when one is available.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly id: EmbeddingBackendId = 'local';
+  readonly model = `local-hash-v1-${DIMENSIONS}`;
+  readonly minSimilarity = 0.12;
+
+  private add(vector: number[], feature: string, weight: number) {
+    const h = hash(feature);
+    // The top bit picks the sign so hash collisions tend to cancel out
+    vector[h % DIMENSIONS] += h & 0x80000000 ? -weight : weight;
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(DIMENSIONS).fill(0);
+    const stems = text
+      .toLowerCase()
+      .replace(/[^a-z0-9\s']/g, ' ')
+      .replace(/'/g, '')
+      .split(/\s+/)
+      .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+      .map(stem);
+
+    stems.forEach((word, i) => {
+      this.add(vector, `w:${word}`, 1);
+
+      if (i > 0) {
+        this.add(vector, `b:${stems[i - 1]}_${word}`, 0.5);
+      }
+
+      const padded = `#${word}#`;
+      const trigrams = padded.length - 2;
+      for (let j = 0; j < trigrams; j++) {
+        this.add(vector, `c:${padded.slice(j, j + 3)}`, 0.5 / trigrams);
+      }
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+}
@@ -0,0 +1,40 @@
+import OpenAI from 'openai';
+import { PROVIDER_MAX_RETRIES, PROVIDER_REQUEST_TIMEOUT_MS } from '../providers/types';
+import { EmbeddingBackendId, EmbeddingProvider } from './types';
+
+/**
+ * Embeddings from the OpenAI API, or from any server exposing the OpenAI
+ * embeddings endpoint at a custom base URL (e.g. Ollama with nomic-embed-text)
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly id: EmbeddingBackendId;
+  readonly model: string;
+  readonly minSimilarity = 0.3;
+  private client: OpenAI;
+
+  constructor(options: { model: string; apiKey?: string; baseUrl?: string }) {
+    this.id = options.baseUrl ? 'openai_compatible' : 'openai';
+    this.model = options.model;
+    this.client = new OpenAI({
+      apiKey: options.apiKey || 'not-needed',
+      ...(options.baseUrl ? { baseURL: options.baseUrl } : {}),
+      timeout: PROVIDER_REQUEST_TIMEOUT_MS,
+      maxRetries: PROVIDER_MAX_RETRIES,
+    });
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+
+    const response = await this.client.embeddings.create({
+      model: this.model,
+      input: texts,
+    });
+
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+}
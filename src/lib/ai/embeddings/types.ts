@@ -0,0 +1,27 @@
+/**
+ * Embedding backend interface
+ * Server-side only - turns text into vectors for semantic memory retrieval
+ */
+
+export type EmbeddingBackendId = 'local' | 'openai' | 'openai_compatible';
+
+export interface EmbeddingProvider {
+  readonly id: EmbeddingBackendId;
+
+  /**
+   * Identifies the vector space. Stored with every embedding so only vectors
+   * from the same model are ever compared.
+   */
+  readonly model: string;
+
+  /**
+   * Cosine similarity below which a match is treated as unrelated.
+   * Differs per backend because their similarity distributions differ.
+   */
+  readonly minSimilarity: number;
+
+  /**
+   * Embed a batch of texts, returning one vector per text in the same order
+   */
+  embed(texts: string[]): Promise<number[][]>;
+}
@@ -0,0 +1,297 @@
+/**
+ * Offline evals
+ * Server-side only - replays the scripted conversations in fixtures.ts
+ * through ServerAIService against the mock provider or a configured model
+ * (such as a local OpenAI-compatible server), with tools recorded instead of
+ * executed. Each run is stored so a fixture that passed last time against the
+ * same target and fails now is reported as a regression.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { PromptVersions } from '@/types';
+import { ServerAIService } from '../server-ai-service';
+import { AIMessage, AIProvider, createAIProvider } from '../providers';
+import { openApiKey } from '../api-key-service';
+import { ToolCall, ToolResult } from '../tool-executor';
+import { assembleMessages, formatGroupMessage } from '../message-assembler';
+import { SystemPromptConfig } from '../system-prompts';
+import { CrisisRiskLevel, detectCrisis } from '../safety';
+import { EVAL_FIXTURES } from './fixtures';
+import { MockAIProvider } from './mock-provider';
+import { EvalCaseResult, EvalFixture, EvalRun, EvalToolCall } from './types';
+
+export * from './types';
+export { EVAL_FIXTURES } from './fixtures';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export const EVAL_CONFIG = {
+  RUN_HISTORY: 20, // Runs listed in the admin
+  REPLY_PREVIEW_CHARS: 1000, // Reply text kept per case
+};
+
+export interface EvalOptions {
+  configId?: string | null; // Omit to use the mock provider
+  promptVersions?: PromptVersions; // Prompt versions to evaluate instead of the published ones
+  fixtureIds?: string[]; // Omit to run every fixture
+}
+
+/**
+ * Pass the provider through while keeping every request's messages
+ */
+function recordRequests(provider: AIProvider, requests: AIMessage[][]): AIProvider {
+  return {
+    id: provider.id,
+    model: provider.model,
+    getTokenLimit: () => provider.getTokenLimit(),
+    getContextWindow: () => provider.getContextWindow(),
+    chat: (options) => {
+      requests.push(options.messages);
+      return provider.chat(options);
+    },
+    stream: (options) => {
+      requests.push(options.messages);
+      return provider.stream(options);
+    },
+    complete: (prompt, options) => provider.complete(prompt, options),
+    testConnection: () => provider.testConnection()
+  };
+}
+
+/**
+ * Turn the fixture into the message sequence the chat route would send
+ */
+function buildMessages(fixture: EvalFixture): AIMessage[] {
+  return assembleMessages(fixture.turns.map(turn => ({
+    role: turn.role,
+    content: turn.role === 'user' && turn.speaker ? formatGroupMessage(turn.speaker, turn.content) : turn.content
+  })));
+}
+
+function argumentsMatch(actual: Record<string, unknown>, expected: Record<string, unknown>): boolean {
+  return Object.entries(expected).every(([key, value]) => actual[key] === value);
+}
+
+function checkExpectations(
+  fixture: EvalFixture,
+  reply: string,
+  toolCalls: EvalToolCall[],
+  goals: string[],
+  lastUserMessage: string,
+  riskLevel: CrisisRiskLevel
+): string[] {
+  const { expect } = fixture;
+  const failures: string[] = [];
+  const called = new Set(toolCalls.map(call => call.name));
+  const replyLower = reply.toLowerCase();
+
+  for (const tool of expect.toolsCalled || []) {
+    if (!called.has(tool)) {
+      failures.push(`Expected ${tool} to be called`);
+    }
+  }
+  for (const tool of expect.toolsNotCalled || []) {
+    if (called.has(tool)) {
+      failures.push(`Expected ${tool} not to be called`);
+    }
+  }
+  for (const { tool, arguments: expected } of expect.toolArguments || []) {
+    const calls = toolCalls.filter(call => call.name === tool);
+    if (calls.length > 0 && !calls.some(call => argumentsMatch(call.arguments, expected))) {
+      failures.push(`Expected ${tool} to be called with ${JSON.stringify(expected)}`);
+    }
+  }
+  for (const text of expect.replyIncludes || []) {
+    if (!replyLower.includes(text.toLowerCase())) {
+      failures.push(`Reply does not mention "${text}"`);
+    }
+  }
+  for (const text of expect.replyExcludes || []) {
+    if (replyLower.includes(text.toLowerCase())) {
+      failures.push(`Reply mentions "${text}"`);
+    }
+  }
+  if (expect.maxReplyLength && reply.length > expect.maxReplyLength) {
+    failures.push(`Reply is ${reply.length} characters, over the ${expect.maxReplyLength} limit`);
+  }
+  for (const text of expect.promptIncludes || []) {
+    if (!lastUserMessage.includes(text)) {
+      failures.push(`Last user message sent to the AI does not contain "${text}"`);
+    }
+  }
+  if (expect.minGoals !== undefined && goals.length < expect.minGoals) {
+    failures.push(`Extracted ${goals.length} goals, expected at least ${expect.minGoals}`);
+  }
+  if (expect.riskLevel && riskLevel !== expect.riskLevel) {
+    failures.push(`Crisis detection rated the message ${riskLevel} risk, expected ${expect.riskLevel}`);
+  }
+
+  return failures;
+}
+
+async function runFixture(
+  fixture: EvalFixture,
+  createProvider: (fixture: EvalFixture) => AIProvider,
+  promptVersions?: PromptVersions
+): Promise<EvalCaseResult> {
+  const startedAt = Date.now();
+  const requests: AIMessage[][] = [];
+  const toolCalls: EvalToolCall[] = [];
+
+  // Screen the last user turn as the chat route would
+  const lastTurn = [...fixture.turns].reverse().find(turn => turn.role === 'user');
+  const { riskLevel } = await detectCrisis(lastTurn?.content || '');
+
+  const systemPrompt: SystemPromptConfig = {
+    sessionType: 'individual',
+    isFirstSession: false,
+    userMemory: [],
+    ...fixture.context,
+    promptOverrides: promptVersions,
+    crisisRiskLevel: riskLevel
+  };
+
+  // Tools are recorded, never run: nothing in the database is touched
+  const executeTool = async (toolCall: ToolCall): Promise<ToolResult> => {
+    let args: Record<string, unknown> = {};
+    try {
+      args = JSON.parse(toolCall.function.arguments || '{}');
+    } catch {
+      args = { unparsed: toolCall.function.arguments };
+    }
+    toolCalls.push({ name: toolCall.function.name, arguments: args });
+    return {
+      tool_call_id: toolCall.id,
+      role: 'tool',
+      name: toolCall.function.name,
+      content: JSON.stringify({ success: true })
+    };
+  };
+
+  const provider = createProvider(fixture);
+  const response = await ServerAIService.generateResponse(
+    buildMessages(fixture),
+    undefined,
+    undefined,
+    { purpose: 'chat' },
+    { provider: recordRequests(provider, requests), systemPrompt, executeTool }
+  );
+
+  const reply = response.content || '';
+  const goals = systemPrompt.isFirstSession
+    ? await ServerAIService.extractGoals(reply, { purpose: 'goal_extraction' }, provider)
+    : [];
+  const sent = requests[requests.length - 1] || [];
+  const lastUserMessage = [...sent].reverse().find(msg => msg.role === 'user')?.content || '';
+
+  const failures = response.success
+    ? checkExpectations(fixture, reply, toolCalls, goals, lastUserMessage, riskLevel)
+    : [`AI call failed: ${response.error || 'unknown error'}`];
+
+  return {
+    fixture_id: fixture.id,
+    category: fixture.category,
+    passed: failures.length === 0,
+    failures,
+    tool_calls: toolCalls,
+    reply: reply.substring(0, EVAL_CONFIG.REPLY_PREVIEW_CHARS),
+    goals,
+    risk_level: riskLevel,
+    duration_ms: Date.now() - startedAt
+  };
+}
+
+/**
+ * Run the fixtures one at a time and store the run with its regressions
+ */
+export async function runEvals(options: EvalOptions, userId: string): Promise<EvalRun> {
+  const fixtures = options.fixtureIds?.length
+    ? EVAL_FIXTURES.filter(fixture => options.fixtureIds!.includes(fixture.id))
+    : EVAL_FIXTURES;
+
+  if (fixtures.length === 0) {
+    throw new Error('No matching eval fixtures');
+  }
+
+  let target = 'mock';
+  let targetLabel = 'Mock provider';
+  let createProvider = (fixture: EvalFixture): AIProvider => new MockAIProvider(fixture.mock);
+
+  if (options.configId) {
+    const { data: config, error } = await supabase
+      .from('ai_config')
+      .select('id, provider, api_key, model, base_url')
+      .eq('id', options.configId)
+      .maybeSingle();
+
+    if (error || !config) {
+      throw new Error('AI configuration not found');
+    }
+
+    target = config.id;
+    targetLabel = `${config.provider} (${config.model})`;
+    const providerConfig = openApiKey(config);
+    createProvider = () => createAIProvider(providerConfig);
+  }
+
+  const results: EvalCaseResult[] = [];
+  for (const fixture of fixtures) {
+    results.push(await runFixture(fixture, createProvider, options.promptVersions));
+  }
+
+  const { data: previous } = await supabase
+    .from('ai_eval_runs')
+    .select('results')
+    .eq('target', target)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const previouslyPassed = new Set(
+    ((previous?.results || []) as EvalCaseResult[]).filter(result => result.passed).map(result => result.fixture_id)
+  );
+  const regressions = results
+    .filter(result => !result.passed && previouslyPassed.has(result.fixture_id))
+    .map(result => result.fixture_id);
+
+  const { data: run, error } = await supabase
+    .from('ai_eval_runs')
+    .insert({
+      target,
+      target_label: targetLabel,
+      prompt_versions: options.promptVersions || {},
+      passed: results.filter(result => result.passed).length,
+      failed: results.filter(result => !result.passed).length,
+      regressions,
+      results,
+      created_by: userId
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to store eval run: ${error.message}`);
+  }
+
+  return run;
+}
+
+/**
+ * Most recent runs, newest first
+ */
+export async function listEvalRuns(): Promise<EvalRun[]> {
+  const { data, error } = await supabase
+    .from('ai_eval_runs')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(EVAL_CONFIG.RUN_HISTORY);
+
+  if (error) {
+    throw new Error(`Failed to load eval runs: ${error.message}`);
+  }
+
+  return data || [];
+}
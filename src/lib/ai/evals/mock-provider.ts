@@ -0,0 +1,58 @@
+import { ChatStreamEvent } from '@/types';
+import { AIProvider, AIProviderId, ChatOptions, ChatResult } from '../providers';
+import { ScriptedToolCall } from './types';
+
+/**
+ * Deterministic provider for evals. It runs the fixture's scripted tool calls
+ * through executeTool, as a real adapter would in its first tool round, and then
+ * returns the scripted reply. The model itself is not tested; everything
+ * around it is (message assembly, tool plumbing, parsing the goals from the
+ * scripted completion).
+ */
+export class MockAIProvider implements AIProvider {
+  // Reported as a self-hosted model so nothing treats it as a paid provider
+  readonly id: AIProviderId = 'openai_compatible';
+  readonly model = 'mock';
+
+  constructor(private script: { toolCalls?: ScriptedToolCall[]; reply: string; completion?: string }) {}
+
+  getTokenLimit(): number {
+    return 2000;
+  }
+
+  getContextWindow(): number {
+    return 128000;
+  }
+
+  async chat(options: ChatOptions): Promise<ChatResult> {
+    if (options.executeTool) {
+      for (const [index, call] of (this.script.toolCalls || []).entries()) {
+        await options.executeTool({
+          id: `mock_call_${index}`,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+        });
+      }
+    }
+    return { content: this.script.reply };
+  }
+
+  async *stream(options: ChatOptions): AsyncGenerator<ChatStreamEvent> {
+    if (options.executeTool) {
+      for (const [index, call] of (this.script.toolCalls || []).entries()) {
+        const id = `mock_call_${index}`;
+        const args = JSON.stringify(call.arguments);
+        yield { type: 'tool_call', id, name: call.name, arguments: args };
+        const result = await options.executeTool({ id, type: 'function', function: { name: call.name, arguments: args } });
+        yield { type: 'tool_result', id, name: call.name, content: result.content };
+      }
+    }
+    yield { type: 'text', delta: this.script.reply };
+  }
+
+  async complete(): Promise<string> {
+    return this.script.completion ?? this.script.reply;
+  }
+
+  async testConnection(): Promise<void> {}
+}
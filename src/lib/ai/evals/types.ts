@@ -0,0 +1,71 @@
+import { PromptVersions } from '@/types';
+import { SystemPromptConfig } from '../system-prompts';
+import { CrisisRiskLevel } from '../safety/types';
+
+export type EvalCategory = 'crisis' | 'goal_extraction' | 'group' | 'coaching';
+
+// One turn of the scripted conversation. User turns in group fixtures name the speaker.
+export interface EvalTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  speaker?: string;
+}
+
+export interface ScriptedToolCall {
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface EvalExpectations {
+  toolsCalled?: string[]; // Each must be called at least once
+  toolsNotCalled?: string[];
+  toolArguments?: { tool: string; arguments: Record<string, unknown> }[]; // Argument values the call must have
+  replyIncludes?: string[]; // Case-insensitive
+  replyExcludes?: string[];
+  maxReplyLength?: number;
+  promptIncludes?: string[]; // Text the provider must receive in the last user message
+  minGoals?: number; // Goals ServerAIService.extractGoals finds in the reply
+  riskLevel?: CrisisRiskLevel; // Risk crisis detection must assign to the last user message
+}
+
+export interface EvalFixture {
+  id: string;
+  category: EvalCategory;
+  description: string;
+  context: Partial<SystemPromptConfig>;
+  turns: EvalTurn[]; // Must end with a user turn
+  // What the mock provider does; ignored when a real model is evaluated
+  // completion answers single-prompt requests such as goal extraction
+  mock: { toolCalls?: ScriptedToolCall[]; reply: string; completion?: string };
+  expect: EvalExpectations;
+}
+
+export interface EvalToolCall {
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface EvalCaseResult {
+  fixture_id: string;
+  category: EvalCategory;
+  passed: boolean;
+  failures: string[];
+  tool_calls: EvalToolCall[];
+  reply: string;
+  goals: string[];
+  risk_level?: CrisisRiskLevel; // Missing from runs stored before crisis detection
+  duration_ms: number;
+}
+
+export interface EvalRun {
+  id: string;
+  target: string; // 'mock' or the ai_config id
+  target_label: string;
+  prompt_versions: PromptVersions; // Pinned prompt versions; unpinned keys used the published prompt
+  passed: number;
+  failed: number;
+  regressions: string[]; // Fixtures that passed in the previous run against the same target
+  results: EvalCaseResult[];
+  created_by?: string;
+  created_at: string;
+}
@@ -0,0 +1,346 @@
+/**
+ * Prompt and model A/B experiments
+ * Server-side only - assigns users to experiment arms and reports outcomes per
+ * arm. Assignment hashes the experiment and user ids, so a user keeps the same
+ * arm for the whole experiment without any lookup. An arm can pin system prompt
+ * versions and/or put an AI config first in the failover chain.
+ */
+
+import { createHash } from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import { AIExperiment, AIExperimentArm, AIExperimentArmResult, PromptVersions, SystemPromptKey } from '@/types';
+import { SYSTEM_PROMPT_KEYS, getPromptVersion } from './prompt-version-service';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export const EXPERIMENT_CONFIG = {
+  RUNNING_CACHE_MS: 60 * 1000, // The running experiment is re-read at most this often
+  MAX_ARMS: 5,
+  SESSION_TYPES: ['individual', 'group', 'relationship', 'family', 'general'],
+};
+
+export interface ExperimentAssignment {
+  experimentId: string;
+  armId: string;
+  promptVersions: PromptVersions;
+  configId: string | null;
+}
+
+export interface NewExperimentArm {
+  name: string;
+  weight?: number;
+  promptVersions?: PromptVersions;
+  configId?: string | null;
+}
+
+export interface NewExperiment {
+  name: string;
+  description?: string | null;
+  sessionTypes?: string[];
+  arms: NewExperimentArm[];
+}
+
+let runningCache: AIExperiment | null = null;
+let runningLoadedAt = 0;
+let runningLoaded = false;
+
+// Users whose exposure has already been recorded by this process
+const recordedAssignments = new Set<string>();
+
+async function getRunningExperiment(): Promise<AIExperiment | null> {
+  if (runningLoaded && Date.now() - runningLoadedAt < EXPERIMENT_CONFIG.RUNNING_CACHE_MS) {
+    return runningCache;
+  }
+
+  const { data, error } = await supabase
+    .from('ai_experiments')
+    .select('*, arms:ai_experiment_arms(*)')
+    .eq('status', 'running')
+    .maybeSingle();
+
+  if (error) {
+    // Keep the last known state rather than moving everyone back to the control
+    console.error('Error loading running experiment:', error);
+    return runningCache;
+  }
+
+  runningCache = data ? sortArms(data as AIExperiment) : null;
+  runningLoadedAt = Date.now();
+  runningLoaded = true;
+  return runningCache;
+}
+
+function sortArms(experiment: AIExperiment): AIExperiment {
+  return { ...experiment, arms: [...(experiment.arms || [])].sort((a, b) => a.position - b.position) };
+}
+
+/**
+ * Pick an arm by weight from a stable hash of the experiment and user ids
+ */
+function pickArm(experimentId: string, userId: string, arms: AIExperimentArm[]): AIExperimentArm {
+  const totalWeight = arms.reduce((sum, arm) => sum + arm.weight, 0);
+  let bucket = createHash('sha256').update(`${experimentId}:${userId}`).digest().readUInt32BE(0) % totalWeight;
+
+  for (const arm of arms) {
+    if (bucket < arm.weight) {
+      return arm;
+    }
+    bucket -= arm.weight;
+  }
+  return arms[arms.length - 1];
+}
+
+/**
+ * Arm of the running experiment for this user, or null when no experiment
+ * covers the session type. The first exposure is recorded so outcomes are
+ * only counted from then on; recording never blocks the reply.
+ */
+export async function getExperimentAssignment(userId: string, sessionType: string): Promise<ExperimentAssignment | null> {
+  const experiment = await getRunningExperiment();
+  if (!experiment || experiment.arms.length === 0 || !experiment.session_types.includes(sessionType)) {
+    return null;
+  }
+
+  const arm = pickArm(experiment.id, userId, experiment.arms);
+
+  const assignmentKey = `${experiment.id}:${userId}`;
+  if (!recordedAssignments.has(assignmentKey)) {
+    recordedAssignments.add(assignmentKey);
+    supabase
+      .from('ai_experiment_assignments')
+      .upsert(
+        { experiment_id: experiment.id, user_id: userId, arm_id: arm.id },
+        { onConflict: 'experiment_id,user_id', ignoreDuplicates: true }
+      )
+      .then(({ error }) => {
+        if (error) {
+          recordedAssignments.delete(assignmentKey);
+          console.error('Error recording experiment assignment:', error);
+        }
+      });
+  }
+
+  return {
+    experimentId: experiment.id,
+    armId: arm.id,
+    promptVersions: arm.prompt_versions || {},
+    configId: arm.config_id || null
+  };
+}
+
+/**
+ * Every experiment with its arms, newest first
+ */
+export async function listExperiments(): Promise<AIExperiment[]> {
+  const { data, error } = await supabase
+    .from('ai_experiments')
+    .select('*, arms:ai_experiment_arms(*)')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load experiments: ${error.message}`);
+  }
+
+  return (data || []).map(experiment => sortArms(experiment as AIExperiment));
+}
+
+async function validateArm(arm: NewExperimentArm): Promise<void> {
+  if (!arm.name?.trim()) {
+    throw new Error('Every arm needs a name');
+  }
+  if (arm.weight !== undefined && (!Number.isInteger(arm.weight) || arm.weight < 1)) {
+    throw new Error(`Arm "${arm.name}" needs a whole-number weight of at least 1`);
+  }
+
+  for (const [key, version] of Object.entries(arm.promptVersions || {})) {
+    if (!SYSTEM_PROMPT_KEYS.includes(key as SystemPromptKey)) {
+      throw new Error(`Unknown prompt "${key}" in arm "${arm.name}"`);
+    }
+    if (!Number.isInteger(version) || version! < 0) {
+      throw new Error(`Invalid ${key} prompt version in arm "${arm.name}"`);
+    }
+    if (version !== 0 && !(await getPromptVersion(key as SystemPromptKey, version!))) {
+      throw new Error(`${key} prompt version ${version} does not exist`);
+    }
+  }
+
+  if (arm.configId) {
+    const { data } = await supabase
+      .from('ai_config')
+      .select('id')
+      .eq('id', arm.configId)
+      .maybeSingle();
+
+    if (!data) {
+      throw new Error(`AI configuration for arm "${arm.name}" not found`);
+    }
+  }
+}
+
+/**
+ * Create a draft experiment. Arms keep the order given; the first arm is
+ * usually the control with no overrides.
+ */
+export async function createExperiment(input: NewExperiment, userId: string): Promise<AIExperiment> {
+  if (!input.name?.trim()) {
+    throw new Error('Experiment name is required');
+  }
+  if (!input.arms || input.arms.length < 2 || input.arms.length > EXPERIMENT_CONFIG.MAX_ARMS) {
+    throw new Error(`An experiment needs between 2 and ${EXPERIMENT_CONFIG.MAX_ARMS} arms`);
+  }
+
+  const sessionTypes = input.sessionTypes && input.sessionTypes.length > 0 ? input.sessionTypes : ['individual'];
+  const unknownType = sessionTypes.find(type => !EXPERIMENT_CONFIG.SESSION_TYPES.includes(type));
+  if (unknownType) {
+    throw new Error(`Unknown session type "${unknownType}"`);
+  }
+
+  for (const arm of input.arms) {
+    await validateArm(arm);
+  }
+
+  const { data: experiment, error } = await supabase
+    .from('ai_experiments')
+    .insert({
+      name: input.name.trim(),
+      description: input.description || null,
+      session_types: sessionTypes,
+      created_by: userId
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create experiment: ${error.message}`);
+  }
+
+  const { data: arms, error: armsError } = await supabase
+    .from('ai_experiment_arms')
+    .insert(input.arms.map((arm, index) => ({
+      experiment_id: experiment.id,
+      name: arm.name.trim(),
+      weight: arm.weight || 1,
+      prompt_versions: arm.promptVersions || {},
+      config_id: arm.configId || null,
+      position: index
+    })))
+    .select('*');
+
+  if (armsError) {
+    await supabase.from('ai_experiments').delete().eq('id', experiment.id);
+    throw new Error(`Failed to create experiment arms: ${armsError.message}`);
+  }
+
+  return sortArms({ ...experiment, arms: arms || [] });
+}
+
+/**
+ * Start a draft experiment. Only one experiment can run at a time, and a
+ * stopped experiment cannot be restarted because its assignments would mix
+ * two periods.
+ */
+export async function startExperiment(experimentId: string): Promise<void> {
+  const { data, error } = await supabase
+    .from('ai_experiments')
+    .update({ status: 'running', started_at: new Date().toISOString() })
+    .eq('id', experimentId)
+    .eq('status', 'draft')
+    .select('id');
+
+  if (error) {
+    // The unique index on running experiments rejects a second one
+    throw new Error(error.code === '23505'
+      ? 'Another experiment is already running'
+      : `Failed to start experiment: ${error.message}`);
+  }
+
+  if (!data || data.length === 0) {
+    throw new Error('Draft experiment not found');
+  }
+
+  runningLoaded = false;
+}
+
+export async function stopExperiment(experimentId: string): Promise<void> {
+  const { data, error } = await supabase
+    .from('ai_experiments')
+    .update({ status: 'stopped', stopped_at: new Date().toISOString() })
+    .eq('id', experimentId)
+    .eq('status', 'running')
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to stop experiment: ${error.message}`);
+  }
+
+  if (!data || data.length === 0) {
+    throw new Error('Running experiment not found');
+  }
+
+  runningLoaded = false;
+}
+
+/**
+ * Delete an experiment that is not running, with its arms and assignments
+ */
+export async function deleteExperiment(experimentId: string): Promise<void> {
+  const { data, error } = await supabase
+    .from('ai_experiments')
+    .delete()
+    .eq('id', experimentId)
+    .neq('status', 'running')
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to delete experiment: ${error.message}`);
+  }
+
+  if (!data || data.length === 0) {
+    throw new Error('Experiment not found or still running');
+  }
+}
+
+/**
+ * Outcomes per arm, counted from each user's first exposure
+ */
+export async function getExperimentResults(experiment: AIExperiment): Promise<AIExperimentArmResult[]> {
+  const { data, error } = await supabase.rpc('get_experiment_results', {
+    target_experiment_id: experiment.id
+  });
+
+  if (error) {
+    throw new Error(`Failed to load experiment results: ${error.message}`);
+  }
+
+  const rows = new Map<string, Record<string, number | string | null>>(
+    (data || []).map((row: Record<string, number | string | null>) => [row.arm_id as string, row])
+  );
+
+  return experiment.arms.map(arm => {
+    const row = rows.get(arm.id) || {};
+    const users = Number(row.users) || 0;
+    const sessions = Number(row.sessions) || 0;
+    const goalsAchieved = Number(row.goals_achieved) || 0;
+    const flagsRaised = Number(row.flags_raised) || 0;
+
+    return {
+      arm_id: arm.id,
+      arm_name: arm.name,
+      users,
+      sessions,
+      avg_messages_per_session: Number(row.avg_messages_per_session) || 0,
+      avg_session_minutes: Number(row.avg_session_minutes) || 0,
+      goals_achieved: goalsAchieved,
+      goals_per_user: users > 0 ? goalsAchieved / users : 0,
+      flags_raised: flagsRaised,
+      escalations: Number(row.escalations) || 0,
+      flags_per_100_sessions: sessions > 0 ? (flagsRaised / sessions) * 100 : 0,
+      return_rate: users > 0 ? (Number(row.returning_users) || 0) / users : 0,
+      ai_calls: Number(row.ai_calls) || 0,
+      ai_cost_usd: Number(row.ai_cost_usd) || 0
+    };
+  });
+}
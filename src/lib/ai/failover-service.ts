@@ -0,0 +1,442 @@
+/**
+ * AI provider failover
+ * Server-side only - runs AI calls against the prioritised chain of active
+ * ai_config rows, moving to the next provider on timeouts, rate limits and
+ * server errors. Each config has its own circuit breaker so a failing provider
+ * is skipped until its cool-down has passed.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { AICircuitState, AIConfig, AIFailoverEvent, AIProviderStatus, ChatStreamEvent } from '@/types';
+import { AIProviderConfig } from './providers';
+import { openApiKey } from './api-key-service';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export const FAILOVER_CONFIG = {
+  FAILURE_THRESHOLD: 3, // Consecutive retryable failures before a circuit opens
+  OPEN_DURATION_MS: 60 * 1000, // How long an open circuit is skipped before a trial request
+};
+
+export interface ChainedAIConfig extends AIProviderConfig {
+  id: string;
+  priority: number;
+}
+
+// Fields the provider SDKs and Node network errors may carry
+interface ProviderError {
+  message?: string;
+  name?: string;
+  code?: string;
+  status?: number;
+  statusCode?: number;
+  response?: { status?: number };
+  cause?: { code?: string };
+  failover?: boolean;
+}
+
+interface CircuitBreaker {
+  state: AICircuitState;
+  failures: number;
+  openedAt: number | null;
+  lastError: string | null;
+}
+
+// Breaker state lives in memory; the app runs as a single process
+const breakers = new Map<string, CircuitBreaker>();
+let servingConfigId: string | null = null;
+
+function getBreaker(configId: string): CircuitBreaker {
+  let breaker = breakers.get(configId);
+  if (!breaker) {
+    breaker = { state: 'closed', failures: 0, openedAt: null, lastError: null };
+    breakers.set(configId, breaker);
+  }
+  return breaker;
+}
+
+/**
+ * Whether a request may be sent to this config. An open circuit moves to
+ * half-open once its cool-down has passed, allowing a trial request through.
+ */
+function isAvailable(configId: string): boolean {
+  const breaker = getBreaker(configId);
+  if (breaker.state === 'open' && breaker.openedAt !== null) {
+    if (Date.now() - breaker.openedAt < FAILOVER_CONFIG.OPEN_DURATION_MS) {
+      return false;
+    }
+    breaker.state = 'half_open';
+  }
+  return true;
+}
+
+function recordSuccess(config: ChainedAIConfig): void {
+  const breaker = getBreaker(config.id);
+  if (breaker.state !== 'closed') {
+    recordEvent({ event_type: 'circuit_closed', from_config_id: config.id, provider: config.provider, model: config.model });
+  }
+  breaker.state = 'closed';
+  breaker.failures = 0;
+  breaker.openedAt = null;
+  breaker.lastError = null;
+
+  if (servingConfigId !== config.id) {
+    servingConfigId = config.id;
+    supabase
+      .from('ai_config')
+      .update({ last_served_at: new Date().toISOString() })
+      .eq('id', config.id)
+      .then(({ error }) => {
+        if (error) {
+          console.error('Failed to record serving AI provider:', error);
+        }
+      });
+  }
+}
+
+function recordFailure(config: ChainedAIConfig, error: unknown): void {
+  const breaker = getBreaker(config.id);
+  const message = getErrorMessage(error);
+  breaker.failures += 1;
+  breaker.lastError = message;
+
+  // A failed trial request re-opens the circuit straight away
+  if (breaker.state === 'half_open' || breaker.failures >= FAILOVER_CONFIG.FAILURE_THRESHOLD) {
+    if (breaker.state !== 'open') {
+      recordEvent({
+        event_type: 'circuit_opened',
+        from_config_id: config.id,
+        provider: config.provider,
+        model: config.model,
+        reason: message,
+        status_code: getErrorStatus(error)
+      });
+    }
+    breaker.state = 'open';
+    breaker.openedAt = Date.now();
+  }
+}
+
+/**
+ * Store a failover event (non-blocking) for the admin AI configuration page
+ */
+function recordEvent(event: Omit<AIFailoverEvent, 'id' | 'created_at'>): void {
+  try {
+    supabase
+      .from('ai_failover_events')
+      .insert({
+        event_type: event.event_type,
+        from_config_id: event.from_config_id || null,
+        to_config_id: event.to_config_id || null,
+        provider: event.provider || null,
+        model: event.model || null,
+        reason: event.reason ? event.reason.substring(0, 500) : null,
+        status_code: event.status_code || null,
+      })
+      .then(({ error }) => {
+        if (error) {
+          console.error('Failed to log AI failover event:', error);
+        }
+      });
+  } catch (error) {
+    // Logging should never break an AI request
+    console.error('AI failover logging error:', error);
+  }
+}
+
+function getErrorStatus(error: unknown): number | undefined {
+  const err = error as ProviderError | undefined;
+  const status = err?.status || err?.statusCode || err?.response?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+function getErrorMessage(error: unknown): string {
+  return (error as ProviderError | undefined)?.message || 'Unknown error';
+}
+
+/**
+ * Timeouts, rate limits, server errors and unreachable hosts are worth trying
+ * on another provider. Anything else (bad request, invalid key) is returned
+ * to the caller as before.
+ */
+export function isRetryableError(error: unknown): boolean {
+  const err = error as ProviderError | undefined;
+  if (err?.failover === false) {
+    return false;
+  }
+
+  const status = getErrorStatus(error);
+  if (status === 408 || status === 429 || (status !== undefined && status >= 500)) {
+    return true;
+  }
+
+  if (err?.name === 'APIConnectionTimeoutError' || err?.name === 'APIConnectionError') {
+    return true;
+  }
+
+  const code = err?.code || err?.cause?.code || '';
+  if (['ETIMEDOUT', 'ECONNRESET', 'ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN'].includes(code)) {
+    return true;
+  }
+
+  const message = (err?.message || '').toLowerCase();
+  return message.includes('timeout') || message.includes('timed out');
+}
+
+/**
+ * Mark an error as not to be retried on another provider, e.g. when tool
+ * calls with side effects have already run for this request
+ */
+export function preventFailover<T>(error: T): T {
+  if (error && typeof error === 'object') {
+    (error as ProviderError).failover = false;
+  }
+  return error;
+}
+
+/**
+ * Every config, active or not, in priority order. Used where admins pick a
+ * specific model, such as experiment arms and eval runs.
+ */
+export async function listAIConfigs(): Promise<Pick<AIConfig, 'id' | 'provider' | 'model' | 'is_active'>[]> {
+  const { data, error } = await supabase
+    .from('ai_config')
+    .select('id, provider, model, is_active')
+    .order('priority', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load AI configurations: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * The config with its API key decrypted, or null (logged) when the key cannot
+ * be opened, such as when its master key is no longer configured
+ */
+function openConfigKey<T extends { id: string; api_key?: string | null }>(config: T): T | null {
+  try {
+    return openApiKey(config);
+  } catch (error) {
+    console.error(`Skipping AI config ${config.id}: its API key could not be decrypted:`, error);
+    return null;
+  }
+}
+
+/**
+ * Load the active configs in failover order, with their API keys decrypted.
+ * A preferred config (such as an experiment arm's model) is put first, even
+ * when it is not active itself, with the active chain behind it as fallback.
+ * A config whose key cannot be decrypted is left out, so it does not take
+ * the rest of the chain down with it.
+ */
+export async function getAIConfigChain(preferredConfigId?: string | null): Promise<ChainedAIConfig[]> {
+  const { data, error } = await supabase
+    .from('ai_config')
+    .select('id, provider, api_key, model, base_url, priority')
+    .eq('is_active', true)
+    .order('priority', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error || !data || data.length === 0) {
+    throw new Error('No active AI configuration found');
+  }
+
+  const chain: ChainedAIConfig[] = data.flatMap(config => openConfigKey(config) ?? []);
+  if (!preferredConfigId) {
+    return requireUsable(chain);
+  }
+
+  const { data: preferred } = await supabase
+    .from('ai_config')
+    .select('id, provider, api_key, model, base_url, priority')
+    .eq('id', preferredConfigId)
+    .maybeSingle();
+
+  if (!preferred) {
+    console.warn(`Preferred AI config ${preferredConfigId} not found, using the failover chain`);
+    return requireUsable(chain);
+  }
+
+  const opened = openConfigKey(preferred);
+  if (!opened) {
+    return requireUsable(chain);
+  }
+
+  return [opened, ...chain.filter(config => config.id !== opened.id)];
+}
+
+function requireUsable(chain: ChainedAIConfig[]): ChainedAIConfig[] {
+  if (chain.length === 0) {
+    throw new Error('No active AI configuration with a usable API key found');
+  }
+  return chain;
+}
+
+/**
+ * Configs to try, in order. Open circuits are skipped, but if every circuit
+ * is open the whole chain is tried rather than failing without a request.
+ */
+function getCandidates(chain: ChainedAIConfig[]): ChainedAIConfig[] {
+  const available = chain.filter(config => isAvailable(config.id));
+  if (available.length === 0) {
+    console.warn('All AI provider circuits are open, trying the full chain');
+    return chain;
+  }
+  return available;
+}
+
+function handleAttemptFailure(
+  error: unknown,
+  config: ChainedAIConfig,
+  next: ChainedAIConfig | undefined
+): void {
+  recordFailure(config, error);
+
+  console.error('=== AI FAILOVER DEBUG ===');
+  console.error(`Provider ${config.provider} (${config.model}) failed:`, getErrorMessage(error));
+  console.error('Status:', getErrorStatus(error) || 'N/A');
+  console.error(next ? `Failing over to ${next.provider} (${next.model})` : 'No providers left in the chain');
+  console.error('=== END AI FAILOVER DEBUG ===');
+
+  recordEvent({
+    event_type: next ? 'failover' : 'chain_exhausted',
+    from_config_id: config.id,
+    to_config_id: next?.id,
+    provider: config.provider,
+    model: config.model,
+    reason: getErrorMessage(error),
+    status_code: getErrorStatus(error)
+  });
+}
+
+/**
+ * Run an AI call against the failover chain, returning the first success
+ */
+export async function runWithFailover<T>(
+  operation: (config: ChainedAIConfig) => Promise<T>,
+  preferredConfigId?: string | null
+): Promise<T> {
+  const candidates = getCandidates(await getAIConfigChain(preferredConfigId));
+
+  for (let i = 0; i < candidates.length; i++) {
+    const config = candidates[i];
+    try {
+      const result = await operation(config);
+      recordSuccess(config);
+      return result;
+    } catch (error) {
+      if (!isRetryableError(error)) {
+        throw error;
+      }
+      handleAttemptFailure(error, config, candidates[i + 1]);
+      if (i === candidates.length - 1) {
+        throw error;
+      }
+    }
+  }
+
+  // Unreachable: getAIConfigChain throws when the chain is empty
+  throw new Error('No active AI configuration found');
+}
+
+/**
+ * Stream from the failover chain. A provider can only be swapped out before
+ * it has produced its first event; once the user has seen output, errors are
+ * passed through rather than mixing two providers' replies.
+ */
+export async function* streamWithFailover(
+  operation: (config: ChainedAIConfig) => AsyncGenerator<ChatStreamEvent>,
+  preferredConfigId?: string | null
+): AsyncGenerator<ChatStreamEvent> {
+  const candidates = getCandidates(await getAIConfigChain(preferredConfigId));
+
+  for (let i = 0; i < candidates.length; i++) {
+    const config = candidates[i];
+    let started = false;
+    try {
+      for await (const event of operation(config)) {
+        if (!started) {
+          started = true;
+          recordSuccess(config);
+        }
+        yield event;
+      }
+      if (!started) {
+        recordSuccess(config);
+      }
+      return;
+    } catch (error) {
+      if (started) {
+        recordFailure(config, error);
+        throw error;
+      }
+      if (!isRetryableError(error)) {
+        throw error;
+      }
+      handleAttemptFailure(error, config, candidates[i + 1]);
+      if (i === candidates.length - 1) {
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * Live failover state for the admin AI configuration page
+ */
+export async function getFailoverStatus(): Promise<{
+  servingConfigId: string | null;
+  providers: AIProviderStatus[];
+  events: AIFailoverEvent[];
+}> {
+  const { data: configs } = await supabase
+    .from('ai_config')
+    .select('id, provider, model, priority, last_served_at')
+    .eq('is_active', true)
+    .order('priority', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  const { data: events, error: eventsError } = await supabase
+    .from('ai_failover_events')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(20);
+
+  if (eventsError) {
+    console.error('Error fetching AI failover events:', eventsError);
+  }
+
+  const providers: AIProviderStatus[] = (configs || []).map(config => {
+    const breaker = breakers.get(config.id);
+    return {
+      config_id: config.id,
+      provider: config.provider,
+      model: config.model,
+      priority: config.priority,
+      circuit_state: breaker?.state || 'closed',
+      consecutive_failures: breaker?.failures || 0,
+      opened_at: breaker?.openedAt ? new Date(breaker.openedAt).toISOString() : undefined,
+      last_error: breaker?.lastError || undefined
+    };
+  });
+
+  // Before this process has served a request, fall back to the last recorded one
+  let serving = servingConfigId;
+  if (!serving && configs && configs.length > 0) {
+    const lastServed = configs
+      .filter(config => config.last_served_at)
+      .sort((a, b) => new Date(b.last_served_at).getTime() - new Date(a.last_served_at).getTime())[0];
+    serving = lastServed?.id || null;
+  }
+
+  return {
+    servingConfigId: serving,
+    providers,
+    events: events || []
+  };
+}
@@ -1,6 +1,7 @@
 import { createClient } from '@supabase/supabase-js';
 import { ServerAIService } from './server-ai-service';
 import { GROUP_SESSION_CONFIG } from '@/lib/group-session-config';
+import { decryptRows, ENCRYPTED_FIELDS } from '@/lib/security/field-encryption';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -21,11 +22,14 @@ export async function generateGroupSessionIntro(sessionId: string): Promise<stri
     }
 
     // Get all participant introductions (without join to avoid RLS issues)
-    let { data: introductions, error } = await supabase
+    const { data: storedIntroductions, error } = await supabase
       .from('participant_introductions')
       .select('*')
       .eq('session_id', sessionId)
       .order('created_at', { ascending: true });
+    const introductions = storedIntroductions
+      ? await decryptRows(storedIntroductions, ENCRYPTED_FIELDS.participant_introductions)
+      : null;
 
     console.log('[INTRO GENERATOR] Query result:', { 
       introductionsCount: introductions?.length || 0, 
@@ -77,6 +77,37 @@ export async function getGroupMemories(sessionId: string): Promise<GroupMemory[]
   }
 }
 
+/**
+ * Find a group memory by its key within a category
+ */
+export async function findGroupMemory(
+  sessionId: string,
+  category: GroupMemory['category'],
+  memoryKey: string
+): Promise<GroupMemory | null> {
+  try {
+    const { data, error } = await supabase
+      .from('group_session_memory')
+      .select('*')
+      .eq('session_id', sessionId)
+      .eq('category', category)
+      .eq('memory_key', memoryKey)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error finding group memory:', error);
+      return null;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error finding group memory:', error);
+    return null;
+  }
+}
+
 /**
  * Update a group memory
  */
@@ -4,6 +4,15 @@
  */
 
 import { createClient } from '@supabase/supabase-js';
+import {
+  indexMemory,
+  removeMemoryEmbedding,
+  removeUserMemoryEmbeddings,
+  searchMemoryEmbeddings,
+  hasMemoryEmbeddings,
+  SEMANTIC_MEMORY_CONFIG
+} from './semantic-memory-service';
+import { decryptRows, encryptField, ENCRYPTED_FIELDS } from '@/lib/security/field-encryption';
 
 // Use service role key for server-side operations
 const supabase = createClient(
@@ -61,7 +70,7 @@ export async function getUserMemory(
       throw new Error(`Failed to fetch memory: ${error.message}`);
     }
 
-    return data || [];
+    return decryptRows(data as UserMemory[] | null, ENCRYPTED_FIELDS.user_memory);
   } catch (error) {
     console.error('getUserMemory error:', error);
     throw error;
@@ -83,7 +92,7 @@ export async function addMemory(
       .insert({
         user_id: userId,
         memory_key: key,
-        memory_value: value,
+        memory_value: await encryptField(userId, value),
         category: category
       })
       .select()
@@ -94,7 +103,10 @@ export async function addMemory(
       throw new Error(`Failed to add memory: ${error.message}`);
     }
 
-    return data;
+    const memory: UserMemory = { ...data, memory_value: value };
+    await indexMemory(memory);
+
+    return memory;
   } catch (error) {
     console.error('addMemory error:', error);
     throw error;
@@ -109,10 +121,21 @@ export async function updateMemory(
   value: string
 ): Promise<UserMemory> {
   try {
+    const { data: existing, error: lookupError } = await supabase
+      .from('user_memory')
+      .select('user_id')
+      .eq('id', memoryId)
+      .single();
+
+    if (lookupError) {
+      console.error('Error finding memory to update:', lookupError);
+      throw new Error(`Failed to update memory: ${lookupError.message}`);
+    }
+
     const { data, error } = await supabase
       .from('user_memory')
       .update({
-        memory_value: value,
+        memory_value: await encryptField(existing.user_id, value),
         updated_at: new Date().toISOString()
       })
       .eq('id', memoryId)
@@ -124,7 +147,10 @@ export async function updateMemory(
       throw new Error(`Failed to update memory: ${error.message}`);
     }
 
-    return data;
+    const memory: UserMemory = { ...data, memory_value: value };
+    await indexMemory(memory);
+
+    return memory;
   } catch (error) {
     console.error('updateMemory error:', error);
     throw error;
@@ -148,6 +174,8 @@ export async function deleteMemory(memoryId: string): Promise<void> {
       console.error('Error deleting memory:', error);
       throw new Error(`Failed to delete memory: ${error.message}`);
     }
+
+    await removeMemoryEmbedding(memoryId);
   } catch (error) {
     console.error('deleteMemory error:', error);
     throw error;
@@ -155,33 +183,87 @@ export async function deleteMemory(memoryId: string): Promise<void> {
 }
 
 /**
- * Search memory items
+ * Load active memory items by id, keeping the order of the ids given
+ */
+async function getMemoryByIds(userId: string, ids: string[]): Promise<UserMemory[]> {
+  if (ids.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('user_memory')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('is_active', true)
+    .in('id', ids);
+
+  if (error) {
+    throw new Error(`Failed to fetch memory: ${error.message}`);
+  }
+
+  const memory = await decryptRows(data as UserMemory[] | null, ENCRYPTED_FIELDS.user_memory);
+  const byId = new Map(memory.map(item => [item.id, item]));
+  return ids.map(id => byId.get(id)).filter((item): item is UserMemory => !!item);
+}
+
+/**
+ * Search memory items by meaning, most relevant first.
+ * Falls back to a text match when nothing relevant is found by embedding
+ * (e.g. before the backfill has run). Values are encrypted at rest, so the
+ * text match runs here on the decrypted memory rather than in the database.
  */
 export async function searchMemory(
   userId: string,
   query: string
 ): Promise<UserMemory[]> {
   try {
-    const { data, error } = await supabase
-      .from('user_memory')
-      .select('*')
-      .eq('user_id', userId)
-      .eq('is_active', true)
-      .or(`memory_key.ilike.%${query}%,memory_value.ilike.%${query}%`)
-      .order('created_at', { ascending: false });
-
-    if (error) {
-      console.error('Error searching memory:', error);
-      throw new Error(`Failed to search memory: ${error.message}`);
+    try {
+      const matches = await searchMemoryEmbeddings(userId, query, 'user_memory', 20);
+      const memory = await getMemoryByIds(userId, matches.map(match => match.source_id));
+      if (memory.length > 0) {
+        return memory;
+      }
+    } catch (error) {
+      console.error('Semantic memory search failed, using text match:', error);
     }
 
-    return data || [];
+    const needle = query.toLowerCase();
+    const memory = await getUserMemory(userId);
+    return memory.filter(item =>
+      item.memory_key.toLowerCase().includes(needle) || item.memory_value.toLowerCase().includes(needle)
+    );
   } catch (error) {
     console.error('searchMemory error:', error);
     throw error;
   }
 }
 
+/**
+ * Get the memory items most relevant to a message, for the AI system prompt.
+ * Users whose memory has not been embedded yet get all of their memory, as before.
+ */
+export async function getRelevantMemory(
+  userId: string,
+  query: string
+): Promise<UserMemory[]> {
+  try {
+    if (!(await hasMemoryEmbeddings(userId))) {
+      return getUserMemory(userId);
+    }
+
+    const matches = await searchMemoryEmbeddings(
+      userId,
+      query,
+      'user_memory',
+      SEMANTIC_MEMORY_CONFIG.MEMORY_MATCH_COUNT
+    );
+    return getMemoryByIds(userId, matches.map(match => match.source_id));
+  } catch (error) {
+    console.error('getRelevantMemory error, loading all memory:', error);
+    return getUserMemory(userId);
+  }
+}
+
 /**
  * Get user goals
  */
@@ -408,6 +490,8 @@ export async function clearAllUserMemory(userId: string): Promise<void> {
       console.error('Error clearing user memory:', error);
       throw new Error(`Failed to clear memory: ${error.message}`);
     }
+
+    await removeUserMemoryEmbeddings(userId);
   } catch (error) {
     console.error('clearAllUserMemory error:', error);
     throw error;
@@ -435,43 +519,12 @@ export async function clearAllUserGoals(userId: string): Promise<void> {
 }
 
 /**
- * Extract goals from AI response text
- * Looks for goal-like statements in the AI's response
+ * Prompt asking for the goals a first-session reply restates, for structured
+ * extraction with GoalsSchema
  */
-export function extractGoalsFromResponse(responseText: string): string[] {
-  const goals: string[] = [];
-  
-  // Split response into sentences
-  const sentences = responseText.split(/[.!?]+/).map(s => s.trim()).filter(s => s.length > 0);
-  
-  // Look for goal indicators
-  const goalPatterns = [
-    /(?:goal|objective|target|aim|plan|focus|work on|achieve|accomplish|strive for|commit to)/i,
-    /(?:want to|hope to|would like to|plan to|intend to|aspire to)/i,
-    /(?:improve|develop|enhance|build|strengthen|grow|learn|practice)/i
-  ];
-  
-  for (const sentence of sentences) {
-    // Check if sentence contains goal indicators and is substantial enough
-    if (sentence.length > 20 && goalPatterns.some(pattern => pattern.test(sentence))) {
-      // Clean up the sentence
-      let goal = sentence
-        .replace(/^(?:my|our|the|a|an)\s+/i, '') // Remove common prefixes
-        .replace(/\s+(?:is|are|was|were|will be|should be|can be)\s+/i, ' ') // Replace linking verbs
-        .trim();
-      
-      // Capitalize first letter
-      goal = goal.charAt(0).toUpperCase() + goal.slice(1);
-      
-      // Add period if not ending with punctuation
-      if (!/[.!?]$/.test(goal)) {
-        goal += '.';
-      }
-      
-      goals.push(goal);
-    }
-  }
-  
-  // Limit to 3 goals maximum
-  return goals.slice(0, 3);
+export function buildGoalExtractionPrompt(responseText: string): string {
+  return `This is a wellness coach's reply in a user's first session. List the goals the user wants to work on that the reply restates, at most three, each as one short sentence in the user's terms. Return an empty list if the reply names no goals.
+
+Coach reply:
+${responseText}`;
 }
@@ -0,0 +1,45 @@
+/**
+ * Message assembler
+ * Turns session history into the strictly alternating user/assistant sequence
+ * the AI providers expect. Consecutive turns from the same side are merged
+ * rather than dropped, so in group sessions every participant who spoke is
+ * still visible to the AI:
+ *
+ *   [Alice]: I felt unheard this week
+ *   [Bob]: I didn't realise it came across that way
+ */
+
+import { AIMessage } from './providers';
+
+/**
+ * Prefix a group participant's message with their name so the AI can tell
+ * speakers apart
+ */
+export function formatGroupMessage(participantName: string, content: string): string {
+  return `[${participantName}]: ${content}`;
+}
+
+/**
+ * Merge consecutive messages of the same role into a single message.
+ * User turns are joined line by line, keeping each participant's name prefix;
+ * assistant turns (e.g. a group intro followed by a reply) are joined as paragraphs.
+ */
+export function assembleMessages(messages: AIMessage[]): AIMessage[] {
+  const assembled: AIMessage[] = [];
+
+  for (const msg of messages) {
+    const content = msg.content.trim();
+    if (!content) continue;
+
+    const previous = assembled[assembled.length - 1];
+    if (previous && previous.role === msg.role) {
+      const separator = msg.role === 'user' ? '\n' : '\n\n';
+      previous.content = `${previous.content}${separator}${content}`;
+      continue;
+    }
+
+    assembled.push({ role: msg.role, content });
+  }
+
+  return assembled;
+}
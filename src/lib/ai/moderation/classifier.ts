@@ -0,0 +1,66 @@
+import { ModerationCategory, ModerationSeverity, ModerationSignal } from '@/types';
+
+export const MODERATION_CLASSIFIER_CONFIG = {
+  TIMEOUT_MS: 3000, // The message waits on the classifier, so it must answer quickly
+  // Minimum score for each severity, highest first
+  THRESHOLDS: [
+    { severity: 'high', score: 0.9 },
+    { severity: 'medium', score: 0.7 },
+    { severity: 'low', score: 0.4 },
+  ] as { severity: ModerationSeverity; score: number }[],
+};
+
+const CATEGORIES: ModerationCategory[] = ['abuse', 'threat', 'slur'];
+
+/**
+ * Optional self-hosted classifier, set with MODERATION_CLASSIFIER_URL. It
+ * receives POST { text } and answers { scores: { abuse, threat, slur } } with
+ * the probability, from 0 to 1, of each. Without a URL, or when the classifier
+ * fails or is slow, moderation relies on the lexicon and patterns alone.
+ */
+export async function classifyForModeration(text: string): Promise<{
+  scores: Partial<Record<ModerationCategory, number>>;
+  signals: ModerationSignal[];
+} | null> {
+  const url = process.env.MODERATION_CLASSIFIER_URL;
+  if (!url) {
+    return null;
+  }
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text }),
+      signal: AbortSignal.timeout(MODERATION_CLASSIFIER_CONFIG.TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Classifier returned ${response.status}`);
+    }
+
+    const { scores } = await response.json();
+    if (!scores || typeof scores !== 'object') {
+      throw new Error('Classifier returned no scores');
+    }
+
+    const result: { scores: Partial<Record<ModerationCategory, number>>; signals: ModerationSignal[] } = { scores: {}, signals: [] };
+    for (const category of CATEGORIES) {
+      const score = scores[category];
+      if (typeof score !== 'number' || score < 0 || score > 1) {
+        continue;
+      }
+
+      result.scores[category] = score;
+      const threshold = MODERATION_CLASSIFIER_CONFIG.THRESHOLDS.find(entry => score >= entry.score);
+      if (threshold) {
+        result.signals.push({ source: 'classifier', category, rule: 'classifier', severity: threshold.severity });
+      }
+    }
+
+    return result;
+  } catch (error) {
+    console.error('Moderation classifier error:', error);
+    return null;
+  }
+}
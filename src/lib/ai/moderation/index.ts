@@ -0,0 +1,360 @@
+/**
+ * Group message moderation
+ * Server-side only - every participant message in a group session is scored
+ * for abuse, threats and slurs before it is saved. A lexicon, pattern rules and
+ * an optional self-hosted classifier each assign a severity; the highest wins.
+ * High severity holds the message for an admin to release or reject, medium
+ * delivers it with a warning to the sender (and holds it once they have been
+ * warned enough), and the session owner is told when another participant is
+ * warned or held. Every message scored above none is stored in
+ * group_moderation_events; the text of a held message is kept there encrypted
+ * with the sender's key.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import {
+  GroupModerationEvent,
+  GroupModerationReview,
+  ModerationAction,
+  ModerationCategory,
+  ModerationSeverity,
+  ModerationSignal
+} from '@/types';
+import { raiseFlag } from '@/lib/ai/safety';
+import { decryptFields, decryptRows, ENCRYPTED_FIELDS, encryptField } from '@/lib/security/field-encryption';
+import { classifyForModeration } from './classifier';
+import { matchModerationLexicon, matchModerationPatterns, normalizeForModeration } from './lexicon';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export const MODERATION_CONFIG = {
+  WARNINGS_BEFORE_HOLD: 2, // Medium messages from a sender already warned this often in the session are held
+  MAX_NOTE_CHARS: 1000,
+  LIST_LIMIT: 100,
+};
+
+export interface ModerationAssessment {
+  severity: ModerationSeverity;
+  signals: ModerationSignal[];
+  classifierScores: Partial<Record<ModerationCategory, number>> | null; // null when no classifier answered
+}
+
+// Outcome of moderating a message, for the chat route
+export interface GroupModerationOutcome {
+  severity: ModerationSeverity;
+  held: boolean;
+  eventId: string | null;
+  notice: string | null; // Shown to the sender when the message is held or warned
+}
+
+const SEVERITY_ORDER: ModerationSeverity[] = ['none', 'low', 'medium', 'high'];
+
+const CATEGORY_DESCRIPTIONS: Record<ModerationCategory, string> = {
+  abuse: 'abusive',
+  threat: 'threatening',
+  slur: 'hateful',
+};
+
+function compareSeverity(a: ModerationSeverity, b: ModerationSeverity): number {
+  return SEVERITY_ORDER.indexOf(a) - SEVERITY_ORDER.indexOf(b);
+}
+
+/**
+ * Highest severity among the signals. Medium signals from two different rules
+ * together count as high.
+ */
+function combineSignals(signals: ModerationSignal[]): ModerationSeverity {
+  const mediumRules = new Set(signals.filter(signal => signal.severity === 'medium').map(signal => signal.rule));
+  if (mediumRules.size >= 2) {
+    return 'high';
+  }
+
+  return signals.reduce<ModerationSeverity>(
+    (highest, signal) => (compareSeverity(signal.severity, highest) > 0 ? signal.severity : highest),
+    'none'
+  );
+}
+
+function categoriesOf(signals: ModerationSignal[]): ModerationCategory[] {
+  return Array.from(new Set(
+    signals.filter(signal => signal.severity !== 'low').map(signal => signal.category)
+  ));
+}
+
+function describeCategories(categories: ModerationCategory[]): string {
+  return categories.map(category => CATEGORY_DESCRIPTIONS[category]).join(' or ') || 'hurtful';
+}
+
+/**
+ * Assess one message. Deterministic apart from the optional classifier.
+ */
+export async function assessGroupMessage(text: string): Promise<ModerationAssessment> {
+  const normalized = normalizeForModeration(text);
+  const signals = [...matchModerationLexicon(normalized), ...matchModerationPatterns(normalized)];
+
+  const classification = await classifyForModeration(text);
+  if (classification) {
+    signals.push(...classification.signals);
+  }
+
+  return {
+    severity: combineSignals(signals),
+    signals,
+    classifierScores: classification?.scores ?? null,
+  };
+}
+
+async function countWarnings(sessionId: string, senderId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from('group_moderation_events')
+    .select('id', { count: 'exact', head: true })
+    .eq('session_id', sessionId)
+    .eq('user_id', senderId)
+    .contains('actions', ['warned']);
+
+  if (error) {
+    throw new Error(`Failed to count warnings: ${error.message}`);
+  }
+
+  return count || 0;
+}
+
+/**
+ * Moderate a sanitized group message before it is saved, act on its severity
+ * and store the outcome. Never throws: a failure is logged and the message is
+ * delivered, as it would have been without moderation.
+ */
+export async function moderateGroupMessage(
+  text: string,
+  sessionId: string,
+  senderId: string,
+  ownerId: string
+): Promise<GroupModerationOutcome> {
+  const delivered: GroupModerationOutcome = { severity: 'none', held: false, eventId: null, notice: null };
+
+  try {
+    const assessment = await assessGroupMessage(text);
+    if (assessment.severity === 'none') {
+      return delivered;
+    }
+
+    const categories = categoriesOf(assessment.signals);
+    const actions: ModerationAction[] = [];
+
+    if (assessment.severity === 'high') {
+      actions.push('held');
+    } else if (assessment.severity === 'medium') {
+      actions.push(await countWarnings(sessionId, senderId) >= MODERATION_CONFIG.WARNINGS_BEFORE_HOLD ? 'held' : 'warned');
+    }
+
+    const held = actions.includes('held');
+    if (actions.length > 0 && senderId !== ownerId) {
+      actions.push('owner_notified');
+    }
+
+    if (held) {
+      try {
+        await raiseFlag({
+          sessionId,
+          userId: senderId,
+          flagType: 'review',
+          reason: `[MODERATION] Group message held: ${categories.join(', ') || assessment.severity}`,
+          priority: categories.includes('threat') ? 'urgent' : 'high'
+        });
+        actions.push('flagged');
+      } catch (error) {
+        console.error('Error flagging held group message:', error);
+      }
+    }
+
+    const { data, error } = await supabase
+      .from('group_moderation_events')
+      .insert({
+        session_id: sessionId,
+        user_id: senderId,
+        severity: assessment.severity,
+        categories,
+        signals: assessment.signals,
+        classifier_scores: assessment.classifierScores,
+        actions,
+        content: held ? await encryptField(senderId, text) : null,
+        review_status: held ? 'held' : null
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to store moderation event: ${error.message}`);
+    }
+
+    console.log(`Group moderation: ${assessment.severity} in session ${sessionId} (${actions.join(', ') || 'logged only'})`);
+
+    const description = describeCategories(categories);
+    return {
+      severity: assessment.severity,
+      held,
+      eventId: data.id,
+      notice: held
+        ? `Your message was not sent because it may come across as ${description}. A moderator will review it and decide whether to deliver it.`
+        : actions.includes('warned')
+          ? `Your message was sent, but it may come across as ${description}. Please keep the conversation respectful; messages like this may be held for review.`
+          : null
+    };
+  } catch (error) {
+    console.error('Group moderation error:', error);
+    return delivered;
+  }
+}
+
+/**
+ * Link a delivered message to its moderation event
+ */
+export async function attachModeratedMessage(eventId: string, messageId: string): Promise<void> {
+  const { error } = await supabase
+    .from('group_moderation_events')
+    .update({ message_id: messageId })
+    .eq('id', eventId);
+
+  if (error) {
+    console.error('Error linking moderated message:', error);
+  }
+}
+
+/**
+ * Moderation events a member of the session may see: the owner sees everyone's,
+ * other participants their own. Only the sender sees what matched and the text
+ * of a held message.
+ */
+export async function listSessionModerationEvents(
+  sessionId: string,
+  viewerId: string,
+  isOwner: boolean
+): Promise<GroupModerationEvent[]> {
+  let query = supabase
+    .from('group_moderation_events')
+    .select('*')
+    .eq('session_id', sessionId)
+    .neq('severity', 'low')
+    .order('created_at', { ascending: false })
+    .limit(MODERATION_CONFIG.LIST_LIMIT);
+
+  if (!isOwner) {
+    query = query.eq('user_id', viewerId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to load moderation events: ${error.message}`);
+  }
+
+  return Promise.all((data || []).map(async event => event.user_id === viewerId
+    ? decryptFields(event, ENCRYPTED_FIELDS.group_moderation_events)
+    : {
+        ...event,
+        content: null,
+        signals: event.signals.map(({ source, category, rule, severity }: ModerationSignal) => ({
+          source, category, rule, severity
+        }))
+      }
+  ));
+}
+
+/**
+ * Held messages oldest first, or the most recent events of every kind
+ */
+export async function listModerationEvents(filter: 'held' | 'all'): Promise<GroupModerationReview[]> {
+  let query = supabase
+    .from('group_moderation_events')
+    .select(`
+      *,
+      therapy_sessions(title),
+      users!group_moderation_events_user_id_fkey(email),
+      reviewer:users!group_moderation_events_reviewed_by_fkey(email)
+    `);
+
+  query = filter === 'held'
+    ? query.eq('review_status', 'held').order('created_at', { ascending: true })
+    : query.order('created_at', { ascending: false }).limit(MODERATION_CONFIG.LIST_LIMIT);
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to load moderation events: ${error.message}`);
+  }
+
+  const events = await decryptRows(data, ENCRYPTED_FIELDS.group_moderation_events);
+
+  return events.map(({ therapy_sessions, users, reviewer, ...event }) => ({
+    ...event,
+    session_title: therapy_sessions?.title ?? null,
+    user_email: users?.email ?? null,
+    reviewer_email: reviewer?.email ?? null
+  }));
+}
+
+/**
+ * Release a held message into the session or reject it. Only a held message
+ * can be reviewed, so two admins cannot both act on it.
+ */
+export async function reviewHeldMessage(
+  eventId: string,
+  decision: 'release' | 'reject',
+  note: string | undefined,
+  actorId: string
+): Promise<GroupModerationEvent> {
+  const reviewNote = note?.trim() || null;
+  if ((reviewNote?.length ?? 0) > MODERATION_CONFIG.MAX_NOTE_CHARS) {
+    throw new Error(`Note must be at most ${MODERATION_CONFIG.MAX_NOTE_CHARS} characters`);
+  }
+
+  const { data: event, error } = await supabase
+    .from('group_moderation_events')
+    .update({
+      review_status: decision === 'release' ? 'released' : 'rejected',
+      reviewed_by: actorId,
+      reviewed_at: new Date().toISOString(),
+      review_note: reviewNote
+    })
+    .eq('id', eventId)
+    .eq('review_status', 'held')
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to review message: ${error.message}`);
+  }
+  if (!event) {
+    throw new Error('Message not found or already reviewed');
+  }
+
+  if (decision === 'reject') {
+    return decryptFields(event, ENCRYPTED_FIELDS.group_moderation_events);
+  }
+
+  const { data: message, error: messageError } = await supabase
+    .from('session_messages')
+    .insert({
+      session_id: event.session_id,
+      sender_type: 'user',
+      content: event.content, // Already sealed with the sender's key, as their messages are
+      user_id: event.user_id
+    })
+    .select('message_id')
+    .single();
+
+  if (messageError) {
+    // Put the message back so it can be reviewed again
+    await supabase
+      .from('group_moderation_events')
+      .update({ review_status: 'held', reviewed_by: null, reviewed_at: null, review_note: null })
+      .eq('id', eventId);
+    throw new Error(`Failed to deliver message: ${messageError.message}`);
+  }
+
+  await attachModeratedMessage(eventId, message.message_id);
+  return decryptFields({ ...event, message_id: message.message_id }, ENCRYPTED_FIELDS.group_moderation_events);
+}
@@ -0,0 +1,123 @@
+import { ModerationCategory, ModerationSeverity, ModerationSignal } from '@/types';
+import { normalizeMessage } from '@/lib/ai/safety/lexicon';
+
+interface LexiconEntry {
+  phrase: string;
+  category: ModerationCategory;
+  severity: ModerationSeverity;
+}
+
+interface PatternRule {
+  name: string;
+  category: ModerationCategory;
+  severity: ModerationSeverity;
+  pattern: RegExp;
+}
+
+// Phrases matched on word boundaries in the normalized message. Only language
+// aimed at someone else is listed, so participants can still say how they feel
+// ("I'm so angry", "I feel worthless").
+export const MODERATION_LEXICON: LexiconEntry[] = [
+  { phrase: 'kill yourself', category: 'abuse', severity: 'high' },
+  { phrase: 'kys', category: 'abuse', severity: 'high' },
+  { phrase: 'go die', category: 'abuse', severity: 'high' },
+  { phrase: 'no one would miss you', category: 'abuse', severity: 'high' },
+  { phrase: 'nobody would miss you', category: 'abuse', severity: 'high' },
+  { phrase: 'fuck you', category: 'abuse', severity: 'medium' },
+  { phrase: 'screw you', category: 'abuse', severity: 'medium' },
+  { phrase: 'go to hell', category: 'abuse', severity: 'medium' },
+  { phrase: 'nobody loves you', category: 'abuse', severity: 'medium' },
+  { phrase: 'no one loves you', category: 'abuse', severity: 'medium' },
+  { phrase: 'shut the fuck up', category: 'abuse', severity: 'medium' },
+  { phrase: 'shut up', category: 'abuse', severity: 'low' },
+  { phrase: 'i know where you live', category: 'threat', severity: 'high' },
+  { phrase: "you're dead", category: 'threat', severity: 'high' },
+  { phrase: 'you are dead', category: 'threat', severity: 'high' },
+  { phrase: 'watch your back', category: 'threat', severity: 'medium' },
+  { phrase: "you'll regret", category: 'threat', severity: 'medium' },
+  { phrase: "you'll be sorry", category: 'threat', severity: 'medium' },
+  { phrase: 'make you pay', category: 'threat', severity: 'medium' },
+  { phrase: 'never see the kids again', category: 'threat', severity: 'medium' },
+  { phrase: 'never see your kids again', category: 'threat', severity: 'medium' },
+  { phrase: 'faggot', category: 'slur', severity: 'high' },
+  { phrase: 'fag', category: 'slur', severity: 'high' },
+  { phrase: 'dyke', category: 'slur', severity: 'high' },
+  { phrase: 'tranny', category: 'slur', severity: 'high' },
+  { phrase: 'nigger', category: 'slur', severity: 'high' },
+  { phrase: 'nigga', category: 'slur', severity: 'high' },
+  { phrase: 'chink', category: 'slur', severity: 'high' },
+  { phrase: 'spic', category: 'slur', severity: 'high' },
+  { phrase: 'kike', category: 'slur', severity: 'high' },
+  { phrase: 'wetback', category: 'slur', severity: 'high' },
+  { phrase: 'raghead', category: 'slur', severity: 'high' },
+  { phrase: 'retard', category: 'slur', severity: 'medium' },
+  { phrase: 'retarded', category: 'slur', severity: 'medium' },
+];
+
+// Insults and threats aimed at another person, which a phrase list cannot
+// cover without listing every combination
+export const MODERATION_PATTERNS: PatternRule[] = [
+  {
+    name: 'threat_of_violence',
+    category: 'threat',
+    severity: 'high',
+    pattern: /\b(i'll|i will|i'm going to|i am going to|i'm gonna|gonna|i swear i'll)\s+(kill|hurt|hit|beat|punch|slap|strangle|choke|stab|shoot|smack)\s+(you|u|him|her|them|the kids)\b/,
+  },
+  {
+    name: 'directed_insult',
+    category: 'abuse',
+    severity: 'medium',
+    pattern: /\b(you're|you are|ur|you)\s+(such\s+an?\s+|an?\s+|so\s+|a\s+fucking\s+|fucking\s+)?(worthless|pathetic|useless|stupid|idiot|moron|loser|disgusting|failure|waste of space|piece of shit|bitch|bastard|whore|slut)\b/,
+  },
+  {
+    name: 'insult_by_name',
+    category: 'abuse',
+    severity: 'medium',
+    pattern: /\b(you|shut up,?)\s+(stupid|fat|ugly|useless|pathetic|dumb)\s+(bitch|cow|pig|idiot|moron|bastard|loser)\b/,
+  },
+];
+
+// Characters commonly swapped for letters to slip past filters ("st00pid")
+const LOOKALIKES: Record<string, string> = { '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's' };
+
+/**
+ * Normalize as crisis detection does, then undo look-alike characters inside
+ * words and letters repeated for emphasis ("stuuupid")
+ */
+export function normalizeForModeration(text: string): string {
+  return normalizeMessage(text)
+    .split(' ')
+    .map(word => (/[a-z]/.test(word) ? word.replace(/[013457@$]/g, char => LOOKALIKES[char]) : word))
+    .join(' ')
+    .replace(/([a-z])\1{2,}/g, '$1');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function matchModerationLexicon(normalized: string): ModerationSignal[] {
+  const signals: ModerationSignal[] = [];
+
+  for (const { phrase, category, severity } of MODERATION_LEXICON) {
+    const match = new RegExp(`\\b${escapeRegExp(phrase)}\\b`).exec(normalized);
+    if (match) {
+      signals.push({ source: 'lexicon', category, rule: phrase, severity, match: match[0] });
+    }
+  }
+
+  return signals;
+}
+
+export function matchModerationPatterns(normalized: string): ModerationSignal[] {
+  const signals: ModerationSignal[] = [];
+
+  for (const { name, category, severity, pattern } of MODERATION_PATTERNS) {
+    const match = pattern.exec(normalized);
+    if (match) {
+      signals.push({ source: 'pattern', category, rule: name, severity, match: match[0] });
+    }
+  }
+
+  return signals;
+}
@@ -0,0 +1,218 @@
+/**
+ * System prompt versions
+ * Server-side only - stores admin-edited system prompts as versioned records
+ * with a draft/publish workflow. Publishing an archived version rolls back to
+ * it; keys without a published version fall back to the built-in prompts.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { SystemPromptKey, SystemPromptVersion } from '@/types';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export const PROMPT_VERSION_CONFIG = {
+  PUBLISHED_CACHE_MS: 60 * 1000, // Published prompts are re-read at most this often
+  MAX_PROMPT_LENGTH: 20000,
+};
+
+export const SYSTEM_PROMPT_KEYS: SystemPromptKey[] = ['base', 'individual', 'group', 'relationship', 'family', 'general'];
+
+export interface PublishedPrompt {
+  id: string;
+  version: number;
+  content: string;
+}
+
+let publishedCache: Map<SystemPromptKey, PublishedPrompt> | null = null;
+let publishedLoadedAt = 0;
+
+/**
+ * Published prompt per key. Keys missing from the map use the built-in prompt.
+ */
+export async function getPublishedPrompts(): Promise<Map<SystemPromptKey, PublishedPrompt>> {
+  if (publishedCache && Date.now() - publishedLoadedAt < PROMPT_VERSION_CONFIG.PUBLISHED_CACHE_MS) {
+    return publishedCache;
+  }
+
+  const { data, error } = await supabase
+    .from('system_prompt_versions')
+    .select('id, prompt_key, version, content')
+    .eq('status', 'published');
+
+  if (error) {
+    // Keep serving the last known prompts rather than switching to the built-in ones
+    console.error('Error loading published system prompts:', error);
+    return publishedCache || new Map();
+  }
+
+  publishedCache = new Map((data || []).map(row => [
+    row.prompt_key as SystemPromptKey,
+    { id: row.id, version: row.version, content: row.content }
+  ]));
+  publishedLoadedAt = Date.now();
+  return publishedCache;
+}
+
+const versionCache = new Map<string, { prompt: PublishedPrompt | null; loadedAt: number }>();
+
+/**
+ * A specific version of a prompt, whatever its status. Used by experiment arms
+ * that pin a version other than the published one. Returns null if the version
+ * does not exist; version 0 (the built-in prompt) is handled by the caller.
+ */
+export async function getPromptVersion(promptKey: SystemPromptKey, version: number): Promise<PublishedPrompt | null> {
+  const cacheKey = `${promptKey}:${version}`;
+  const cached = versionCache.get(cacheKey);
+  if (cached && Date.now() - cached.loadedAt < PROMPT_VERSION_CONFIG.PUBLISHED_CACHE_MS) {
+    return cached.prompt;
+  }
+
+  const { data, error } = await supabase
+    .from('system_prompt_versions')
+    .select('id, version, content')
+    .eq('prompt_key', promptKey)
+    .eq('version', version)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading system prompt version:', error);
+    return cached?.prompt || null;
+  }
+
+  const prompt = data ? { id: data.id, version: data.version, content: data.content } : null;
+  versionCache.set(cacheKey, { prompt, loadedAt: Date.now() });
+  return prompt;
+}
+
+/**
+ * Every stored version, newest first within each key
+ */
+export async function listPromptVersions(): Promise<SystemPromptVersion[]> {
+  const { data, error } = await supabase
+    .from('system_prompt_versions')
+    .select('*')
+    .order('prompt_key', { ascending: true })
+    .order('version', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load prompt versions: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * Create or update the draft for a key. Each key has at most one draft,
+ * which takes the next version number when it is first saved.
+ */
+export async function savePromptDraft(
+  promptKey: SystemPromptKey,
+  content: string,
+  notes: string | null,
+  userId: string
+): Promise<SystemPromptVersion> {
+  const { data: existing } = await supabase
+    .from('system_prompt_versions')
+    .select('id')
+    .eq('prompt_key', promptKey)
+    .eq('status', 'draft')
+    .maybeSingle();
+
+  if (existing) {
+    const { data, error } = await supabase
+      .from('system_prompt_versions')
+      .update({ content, notes, updated_at: new Date().toISOString() })
+      .eq('id', existing.id)
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save draft: ${error.message}`);
+    }
+    return data;
+  }
+
+  const { data: latest } = await supabase
+    .from('system_prompt_versions')
+    .select('version')
+    .eq('prompt_key', promptKey)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const { data, error } = await supabase
+    .from('system_prompt_versions')
+    .insert({
+      prompt_key: promptKey,
+      version: (latest?.version || 0) + 1,
+      content,
+      notes,
+      status: 'draft',
+      created_by: userId
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save draft: ${error.message}`);
+  }
+  return data;
+}
+
+/**
+ * Delete a draft. Published and archived versions are kept for history.
+ */
+export async function discardPromptDraft(versionId: string): Promise<void> {
+  const { data, error } = await supabase
+    .from('system_prompt_versions')
+    .delete()
+    .eq('id', versionId)
+    .eq('status', 'draft')
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to discard draft: ${error.message}`);
+  }
+
+  if (!data || data.length === 0) {
+    throw new Error('Draft not found');
+  }
+}
+
+/**
+ * Publish a draft, or roll back by publishing an archived version. The
+ * previously published version of the key is archived.
+ */
+export async function publishPromptVersion(versionId: string, userId: string): Promise<SystemPromptVersion> {
+  const { data, error } = await supabase.rpc('publish_system_prompt_version', {
+    target_version_id: versionId,
+    publisher: userId
+  });
+
+  if (error) {
+    throw new Error(`Failed to publish prompt version: ${error.message}`);
+  }
+
+  publishedCache = null;
+  return data as SystemPromptVersion;
+}
+
+/**
+ * Archive the published version of a key so the built-in prompt is used again
+ */
+export async function revertToBuiltInPrompt(promptKey: SystemPromptKey): Promise<void> {
+  const { error } = await supabase
+    .from('system_prompt_versions')
+    .update({ status: 'archived', updated_at: new Date().toISOString() })
+    .eq('prompt_key', promptKey)
+    .eq('status', 'published');
+
+  if (error) {
+    throw new Error(`Failed to revert to the built-in prompt: ${error.message}`);
+  }
+
+  publishedCache = null;
+}
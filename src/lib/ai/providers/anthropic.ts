@@ -0,0 +1,306 @@
+import Anthropic from '@anthropic-ai/sdk';
+import type { ContentBlock, ContentBlockParam, MessageParam, RawMessageStreamEvent, ToolResultBlockParam, ToolUseBlock, ToolUseBlockParam } from '@anthropic-ai/sdk/resources/messages';
+import { ChatStreamEvent } from '@/types';
+import { AITool } from '../tools';
+import { ToolCall, ToolResult } from '../tool-executor';
+import { ToolLoop } from './tool-loop';
+import { AIMessage, AIProvider, AIProviderConfig, AIProviderId, ChatOptions, ChatResult, CompletionOptions, PROVIDER_MAX_RETRIES, PROVIDER_REQUEST_TIMEOUT_MS, TokenUsage } from './types';
+
+export class AnthropicProvider implements AIProvider {
+  readonly id: AIProviderId = 'anthropic';
+  readonly model: string;
+  private client: Anthropic;
+
+  constructor(config: AIProviderConfig) {
+    this.model = config.model;
+    this.client = new Anthropic({
+      apiKey: config.api_key,
+      timeout: PROVIDER_REQUEST_TIMEOUT_MS,
+      maxRetries: PROVIDER_MAX_RETRIES,
+    });
+  }
+
+  getTokenLimit(): number {
+    return 1000;
+  }
+
+  getContextWindow(): number {
+    return 200000;
+  }
+
+  private formatTools(tools: AITool[]) {
+    return tools.map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: tool.parameters
+    }));
+  }
+
+  /**
+   * Split out the system prompt, which Anthropic takes as a top-level parameter.
+   * The conversation must open with a user turn, so an opening assistant message
+   * (such as a group intro) is carried in the system prompt instead.
+   */
+  private toAnthropicMessages(messages: AIMessage[]): { system: string; messages: MessageParam[] } {
+    const systemParts = messages
+      .filter(msg => msg.role === 'system')
+      .map(msg => msg.content);
+
+    const conversation = messages.filter(msg => msg.role !== 'system');
+    while (conversation.length > 0 && conversation[0].role === 'assistant') {
+      systemParts.push(`You opened this conversation with:\n${conversation.shift()!.content}`);
+    }
+
+    return {
+      system: systemParts.join('\n\n'),
+      messages: conversation.map(msg => ({ role: msg.role as 'user' | 'assistant', content: msg.content }))
+    };
+  }
+
+  private reportUsage(
+    usage: { input_tokens: number; output_tokens: number },
+    onUsage?: (usage: TokenUsage) => void
+  ) {
+    onUsage?.({ promptTokens: usage.input_tokens, completionTokens: usage.output_tokens });
+  }
+
+  private getText(content: ContentBlock[]): string {
+    return content
+      .map(block => (block.type === 'text' ? block.text : ''))
+      .join('');
+  }
+
+  /**
+   * Adapt an Anthropic tool_use block to the tool call shape used by the tool executor
+   */
+  private toToolCall(toolUse: { id: string; name: string; input: unknown }): ToolCall {
+    return {
+      id: toolUse.id,
+      type: 'function',
+      function: {
+        name: toolUse.name,
+        arguments: JSON.stringify(toolUse.input || {})
+      }
+    };
+  }
+
+  private toToolResult(toolUseId: string, result: ToolResult): ToolResultBlockParam {
+    return {
+      type: 'tool_result',
+      tool_use_id: toolUseId,
+      content: result.content,
+      is_error: result.content.startsWith('Error')
+    };
+  }
+
+  async chat(options: ChatOptions): Promise<ChatResult> {
+    const { system, messages } = this.toAnthropicMessages(options.messages);
+    const maxTokens = options.maxTokens ?? this.getTokenLimit();
+    const tools = options.executeTool && options.tools?.length ? this.formatTools(options.tools) : undefined;
+    const loop = new ToolLoop(options.executeTool!);
+    let offerTools = !!tools;
+    let content = '';
+
+    while (true) {
+      const response = await this.client.messages.create({
+        model: this.model,
+        max_tokens: maxTokens,
+        system,
+        messages,
+        ...(tools ? { tools, tool_choice: this.toolChoice(offerTools) } : {}),
+      });
+
+      this.reportUsage(response.usage, options.onUsage);
+
+      const toolUses = response.content.filter((block): block is ToolUseBlock => block.type === 'tool_use');
+
+      console.log('=== AI RESPONSE DEBUG ===');
+      console.log('Provider: Anthropic');
+      console.log('Stop reason:', response.stop_reason);
+      console.log('Tool calls:', toolUses.length);
+      console.log('=== END AI RESPONSE DEBUG ===');
+
+      content = this.getText(response.content) || content;
+
+      if (!offerTools || toolUses.length === 0) {
+        return { content };
+      }
+
+      console.log('Processing tool calls:', toolUses.length);
+
+      const results = await loop.runStep(toolUses.map(toolUse => this.toToolCall(toolUse)));
+      messages.push(
+        { role: 'assistant', content: response.content },
+        { role: 'user', content: results.map((result, index) => this.toToolResult(toolUses[index].id, result)) }
+      );
+      offerTools = loop.canContinue();
+    }
+  }
+
+  async *stream(options: ChatOptions): AsyncGenerator<ChatStreamEvent> {
+    const { system, messages } = this.toAnthropicMessages(options.messages);
+    const maxTokens = options.maxTokens ?? this.getTokenLimit();
+    const tools = options.executeTool && options.tools?.length ? this.formatTools(options.tools) : undefined;
+    const loop = new ToolLoop(options.executeTool!);
+    let offerTools = !!tools;
+
+    while (true) {
+      const stream = await this.client.messages.create({
+        model: this.model,
+        max_tokens: maxTokens,
+        system,
+        messages,
+        ...(tools ? { tools, tool_choice: this.toolChoice(offerTools) } : {}),
+        stream: true,
+      });
+
+      const { assistantContent, toolUses, unparsedInputs } = yield* this.readStream(stream, options.onUsage);
+
+      if (!offerTools || toolUses.length === 0) {
+        return;
+      }
+
+      console.log('Processing streamed tool calls:', toolUses.length);
+
+      loop.startStep();
+      const toolResults: ToolResultBlockParam[] = [];
+      for (const toolUse of toolUses) {
+        const toolCall = this.toToolCall(toolUse);
+        const unparsed = unparsedInputs.get(toolCall.id);
+        yield {
+          type: 'tool_call',
+          id: toolCall.id,
+          name: toolCall.function.name,
+          arguments: unparsed ?? toolCall.function.arguments
+        };
+        // Incomplete input is reported back to the model rather than run with no arguments
+        const result: ToolResult = unparsed === undefined ? await loop.run(toolCall) : {
+          tool_call_id: toolCall.id,
+          role: 'tool',
+          name: toolCall.function.name,
+          content: 'Error: The tool input was incomplete or not valid JSON, so this tool was not run'
+        };
+        toolResults.push(this.toToolResult(toolCall.id, result));
+        yield { type: 'tool_result', id: result.tool_call_id, name: result.name, content: result.content };
+      }
+
+      messages.push(
+        { role: 'assistant', content: assistantContent },
+        { role: 'user', content: toolResults }
+      );
+      offerTools = loop.canContinue();
+    }
+  }
+
+  /**
+   * Once the tool loop is spent, tools stay defined so earlier tool_use blocks
+   * remain valid, but no further calls are allowed
+   */
+  private toolChoice(offerTools: boolean) {
+    return offerTools ? { type: 'auto' as const } : { type: 'none' as const };
+  }
+
+  /**
+   * Yield a streamed message's text and rebuild its content blocks; tool input
+   * JSON arrives in fragments. Input that does not parse, such as when the
+   * reply was cut off at max_tokens, becomes {} in the block sent back to the
+   * API, with the raw text kept in unparsedInputs by tool use id.
+   */
+  private async *readStream(
+    stream: AsyncIterable<RawMessageStreamEvent>,
+    onUsage?: (usage: TokenUsage) => void
+  ): AsyncGenerator<ChatStreamEvent, {
+    assistantContent: ContentBlockParam[];
+    toolUses: ToolUseBlockParam[];
+    unparsedInputs: Map<string, string>;
+  }> {
+    const texts: string[] = [];
+    const toolUses: { index: number; id: string; name: string; json: string }[] = [];
+    const usage = { input_tokens: 0, output_tokens: 0 };
+    for await (const event of stream) {
+      // Input tokens come with message_start, the output count with message_delta
+      if (event.type === 'message_start') {
+        usage.input_tokens = event.message.usage.input_tokens;
+      } else if (event.type === 'message_delta') {
+        usage.output_tokens = event.usage.output_tokens;
+      } else if (event.type === 'content_block_start') {
+        if (event.content_block.type === 'text') {
+          texts[event.index] = '';
+        } else if (event.content_block.type === 'tool_use') {
+          toolUses.push({ index: event.index, id: event.content_block.id, name: event.content_block.name, json: '' });
+        }
+      } else if (event.type === 'content_block_delta') {
+        if (event.delta.type === 'text_delta') {
+          texts[event.index] = (texts[event.index] || '') + event.delta.text;
+          yield { type: 'text', delta: event.delta.text };
+        } else if (event.delta.type === 'input_json_delta') {
+          const toolUse = toolUses.find(use => use.index === event.index);
+          if (toolUse) {
+            toolUse.json += event.delta.partial_json;
+          }
+        }
+      }
+    }
+
+    this.reportUsage(usage, onUsage);
+
+    const assistantContent: ContentBlockParam[] = [];
+    texts.forEach((text) => {
+      // Empty text blocks are rejected by the API
+      if (text) assistantContent.push({ type: 'text', text });
+    });
+
+    const unparsedInputs = new Map<string, string>();
+    const blocks: ToolUseBlockParam[] = toolUses.map(toolUse => {
+      let input: unknown = {};
+      try {
+        input = toolUse.json ? JSON.parse(toolUse.json) : {};
+      } catch {
+        unparsedInputs.set(toolUse.id, toolUse.json);
+      }
+      return { type: 'tool_use', id: toolUse.id, name: toolUse.name, input };
+    });
+    assistantContent.push(...blocks);
+
+    return { assistantContent, toolUses: blocks, unparsedInputs };
+  }
+
+  /**
+   * Anthropic has no JSON mode, so a JSON completion is a forced call to a tool
+   * whose input schema is the requested schema; the tool input is the reply
+   */
+  async complete(prompt: string, options: CompletionOptions = {}): Promise<string> {
+    const { jsonSchema } = options;
+    const response = await this.client.messages.create({
+      model: this.model,
+      max_tokens: options.maxTokens ?? 500,
+      messages: [{ role: 'user', content: prompt }],
+      ...(options.temperature !== undefined ? { temperature: options.temperature } : {}),
+      ...(jsonSchema ? {
+        tools: [{ name: jsonSchema.name, input_schema: { type: 'object' as const, ...jsonSchema.schema } }],
+        tool_choice: { type: 'tool' as const, name: jsonSchema.name },
+      } : {}),
+    });
+
+    this.reportUsage(response.usage, options.onUsage);
+
+    const toolUse = response.content.find((block): block is ToolUseBlock => block.type === 'tool_use');
+    if (jsonSchema && toolUse) {
+      return JSON.stringify(toolUse.input);
+    }
+
+    return this.getText(response.content);
+  }
+
+  async testConnection(): Promise<void> {
+    const response = await this.client.messages.create({
+      model: this.model,
+      max_tokens: 10,
+      messages: [{ role: 'user', content: 'Hi' }],
+    });
+
+    if (!this.getText(response.content)) {
+      throw new Error('Received empty response from Anthropic API');
+    }
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * AI provider registry
+ * Server-side only - maps an ai_config row to its provider adapter
+ */
+
+import { AIProvider, AIProviderConfig } from './types';
+import { OpenAIProvider } from './openai';
+import { OpenAICompatibleProvider } from './openai-compatible';
+import { AnthropicProvider } from './anthropic';
+import { PerplexityProvider } from './perplexity';
+
+export * from './types';
+
+export function createAIProvider(config: AIProviderConfig): AIProvider {
+  switch (config.provider) {
+    case 'openai':
+      return new OpenAIProvider(config);
+    case 'openai_compatible':
+      return new OpenAICompatibleProvider(config);
+    case 'anthropic':
+      return new AnthropicProvider(config);
+    case 'perplexity':
+      return new PerplexityProvider(config);
+    default:
+      throw new Error(`Unsupported AI provider: ${config.provider}`);
+  }
+}
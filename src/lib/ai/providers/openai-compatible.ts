@@ -0,0 +1,50 @@
+import OpenAI from 'openai';
+import type { ResponseFormatJSONObject } from 'openai/resources/shared';
+import { OpenAIProvider } from './openai';
+import { AIProviderConfig, AIProviderId, PROVIDER_MAX_RETRIES, PROVIDER_REQUEST_TIMEOUT_MS } from './types';
+
+/**
+ * Adapter for any server exposing the OpenAI chat completions API at a custom
+ * base URL, such as Ollama, vLLM or the llama.cpp server. Lets ZenithWell run
+ * against a locally hosted model.
+ */
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  readonly id: AIProviderId = 'openai_compatible';
+
+  constructor(config: AIProviderConfig) {
+    if (!config.base_url) {
+      throw new Error('A base URL is required for OpenAI-compatible providers');
+    }
+    super(config);
+  }
+
+  protected createClient(config: AIProviderConfig): OpenAI {
+    return new OpenAI({
+      baseURL: config.base_url!,
+      // Local servers usually ignore the key, but the SDK requires one
+      apiKey: config.api_key || 'not-needed',
+      timeout: PROVIDER_REQUEST_TIMEOUT_MS,
+      maxRetries: PROVIDER_MAX_RETRIES,
+    });
+  }
+
+  protected isNewModel(): boolean {
+    // Compatible servers implement the classic max_tokens parameter
+    return false;
+  }
+
+  protected getResponseFormat(): ResponseFormatJSONObject {
+    // JSON mode is the common denominator across local servers; the schema
+    // itself travels in the prompt
+    return { type: 'json_object' };
+  }
+
+  getTokenLimit(): number {
+    return 2000;
+  }
+
+  getContextWindow(): number {
+    // Local servers are often started with a small context (e.g. Ollama defaults to a few thousand tokens)
+    return 8192;
+  }
+}
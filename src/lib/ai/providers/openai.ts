@@ -0,0 +1,273 @@
+import OpenAI from 'openai';
+import type { ChatCompletionMessageParam, ChatCompletionMessageFunctionToolCall } from 'openai/resources/chat/completions';
+import type { ResponseFormatJSONObject, ResponseFormatJSONSchema } from 'openai/resources/shared';
+import { ChatStreamEvent } from '@/types';
+import { AITool } from '../tools';
+import { ToolCall, ToolResult } from '../tool-executor';
+import { ToolLoop } from './tool-loop';
+import { AIProvider, AIProviderConfig, AIProviderId, ChatOptions, ChatResult, CompletionOptions, JSONSchemaFormat, PROVIDER_MAX_RETRIES, PROVIDER_REQUEST_TIMEOUT_MS, TokenUsage } from './types';
+
+export class OpenAIProvider implements AIProvider {
+  readonly id: AIProviderId = 'openai';
+  readonly model: string;
+  protected client: OpenAI;
+
+  constructor(config: AIProviderConfig) {
+    this.model = config.model;
+    this.client = this.createClient(config);
+  }
+
+  protected createClient(config: AIProviderConfig): OpenAI {
+    return new OpenAI({
+      apiKey: config.api_key,
+      timeout: PROVIDER_REQUEST_TIMEOUT_MS,
+      maxRetries: PROVIDER_MAX_RETRIES,
+    });
+  }
+
+  protected isNewModel(): boolean {
+    // Newer OpenAI models that use max_completion_tokens instead of max_tokens
+    const newModels = ['gpt-5', 'gpt-4.1', 'o3', 'gpt-4o', 'gpt-4o-realtime-preview'];
+    return newModels.some(newModel => this.model.includes(newModel));
+  }
+
+  protected getTokenParam(tokens: number) {
+    if (this.isNewModel()) {
+      return { max_completion_tokens: tokens };
+    } else {
+      return { max_tokens: tokens };
+    }
+  }
+
+  getTokenLimit(): number {
+    // Set appropriate token limits based on model capabilities
+    if (this.model.includes('gpt-5')) {
+      return 4000; // Higher limit for GPT-5
+    } else if (this.model.includes('o3')) {
+      return 4000; // Higher limit for o3
+    } else if (this.model.includes('gpt-4o')) {
+      return 4000; // Higher limit for GPT-4o
+    } else if (this.model.includes('gpt-4.1')) {
+      return 3000; // Medium limit for GPT-4.1
+    } else {
+      return 2000; // Default limit for other models
+    }
+  }
+
+  getContextWindow(): number {
+    if (this.model.includes('gpt-4.1')) {
+      return 1000000;
+    } else if (this.model.includes('gpt-5')) {
+      return 400000;
+    } else if (this.model.includes('o3')) {
+      return 200000;
+    } else if (this.model.includes('gpt-4o') || this.model.includes('gpt-4-turbo')) {
+      return 128000;
+    } else if (this.model.includes('gpt-4')) {
+      return 8192; // Original GPT-4
+    } else {
+      return 16385; // GPT-3.5 and unknown models
+    }
+  }
+
+  protected reportUsage(
+    usage: { prompt_tokens: number; completion_tokens: number } | null | undefined,
+    onUsage?: (usage: TokenUsage) => void
+  ) {
+    if (usage && onUsage) {
+      onUsage({ promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens });
+    }
+  }
+
+  /**
+   * Structured outputs; the schema is not strict because strict mode rejects
+   * keywords such as maxLength
+   */
+  protected getResponseFormat(format: JSONSchemaFormat): ResponseFormatJSONSchema | ResponseFormatJSONObject {
+    return {
+      type: 'json_schema',
+      json_schema: { name: format.name, schema: format.schema, strict: false }
+    };
+  }
+
+  protected formatTools(tools: AITool[]) {
+    return tools.map(tool => ({
+      type: tool.type,
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters
+      }
+    }));
+  }
+
+  async chat(options: ChatOptions): Promise<ChatResult> {
+    const tokenLimit = options.maxTokens ?? this.getTokenLimit();
+    const tokenParam = this.getTokenParam(tokenLimit);
+    const useTools = !!options.executeTool && !!options.tools?.length;
+    const loop = new ToolLoop(options.executeTool!);
+    const messages = [...options.messages] as ChatCompletionMessageParam[];
+    let offerTools = useTools;
+    let content = '';
+
+    console.log(`Using token limit: ${tokenLimit} for model: ${this.model}`);
+
+    // Each round either answers or asks for tools; once the loop runs out of
+    // steps or time the model is asked to answer without them
+    while (true) {
+      const response = await this.client.chat.completions.create({
+        model: this.model,
+        messages,
+        ...(offerTools ? { tools: this.formatTools(options.tools!), tool_choice: 'auto' as const } : {}),
+        ...tokenParam,
+      });
+
+      this.reportUsage(response.usage, options.onUsage);
+
+      const message = response.choices[0]?.message;
+      if (!message) {
+        throw new Error('No response from AI');
+      }
+
+      console.log('=== AI RESPONSE DEBUG ===');
+      console.log(`Provider: ${this.id}`);
+      console.log('Message content:', (message.content || '').substring(0, 200) + ((message.content?.length || 0) > 200 ? '...' : ''));
+      console.log('Tool calls:', message.tool_calls?.length || 0);
+      console.log('=== END AI RESPONSE DEBUG ===');
+
+      content = message.content || content;
+
+      const toolCalls = (message.tool_calls || []).filter(
+        (toolCall): toolCall is ChatCompletionMessageFunctionToolCall => toolCall.type === 'function'
+      );
+      if (!offerTools || toolCalls.length === 0) {
+        return { content };
+      }
+
+      console.log('Processing tool calls:', toolCalls.length);
+
+      const toolResults = await loop.runStep(toolCalls as ToolCall[]);
+      messages.push(message, ...toolResults);
+      offerTools = loop.canContinue();
+    }
+  }
+
+  async *stream(options: ChatOptions): AsyncGenerator<ChatStreamEvent> {
+    const useTools = !!options.executeTool && !!options.tools?.length;
+    const loop = new ToolLoop(options.executeTool!);
+    const messages = [...options.messages] as ChatCompletionMessageParam[];
+    let offerTools = useTools;
+
+    while (true) {
+      const { content, toolCalls } = yield* this.streamRound(messages, offerTools, options);
+      if (!offerTools || toolCalls.length === 0) {
+        return;
+      }
+
+      console.log('Processing streamed tool calls:', toolCalls.length);
+
+      loop.startStep();
+      const toolResults: ToolResult[] = [];
+      for (const toolCall of toolCalls) {
+        yield {
+          type: 'tool_call',
+          id: toolCall.id,
+          name: toolCall.function.name,
+          arguments: toolCall.function.arguments
+        };
+        const result = await loop.run(toolCall);
+        toolResults.push(result);
+        yield { type: 'tool_result', id: result.tool_call_id, name: result.name, content: result.content };
+      }
+
+      messages.push({ role: 'assistant', content: content || null, tool_calls: toolCalls }, ...toolResults);
+      offerTools = loop.canContinue();
+    }
+  }
+
+  /**
+   * Stream one request's text, returning what it said and the tool calls it made
+   */
+  protected async *streamRound(
+    messages: ChatCompletionMessageParam[],
+    offerTools: boolean,
+    options: ChatOptions
+  ): AsyncGenerator<ChatStreamEvent, { content: string; toolCalls: ToolCall[] }> {
+    const stream = await this.client.chat.completions.create({
+      model: this.model,
+      messages,
+      ...(offerTools ? { tools: this.formatTools(options.tools!), tool_choice: 'auto' as const } : {}),
+      stream: true,
+      stream_options: { include_usage: true },
+      ...this.getTokenParam(options.maxTokens ?? this.getTokenLimit()),
+    });
+
+    // Tool call arguments arrive in fragments keyed by index
+    let content = '';
+    const toolCalls: ToolCall[] = [];
+    for await (const chunk of stream) {
+      // Usage arrives on a final chunk with no choices
+      this.reportUsage(chunk.usage, options.onUsage);
+
+      const delta = chunk.choices[0]?.delta;
+      if (!delta) continue;
+
+      if (delta.content) {
+        content += delta.content;
+        yield { type: 'text', delta: delta.content };
+      }
+
+      for (const fragment of delta.tool_calls || []) {
+        const existing = toolCalls[fragment.index];
+        if (!existing) {
+          toolCalls[fragment.index] = {
+            id: fragment.id || '',
+            type: 'function',
+            function: {
+              name: fragment.function?.name || '',
+              arguments: fragment.function?.arguments || ''
+            }
+          };
+        } else {
+          existing.function.arguments += fragment.function?.arguments || '';
+        }
+      }
+    }
+
+    return { content, toolCalls: toolCalls.filter(Boolean) };
+  }
+
+  async complete(prompt: string, options: CompletionOptions = {}): Promise<string> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [{ role: 'user', content: prompt }],
+      ...this.getTokenParam(options.maxTokens ?? 500),
+      ...(options.temperature !== undefined ? { temperature: options.temperature } : {}),
+      ...(options.jsonSchema ? { response_format: this.getResponseFormat(options.jsonSchema) } : {}),
+    });
+
+    this.reportUsage(response.usage, options.onUsage);
+
+    return response.choices[0]?.message?.content || '';
+  }
+
+  async testConnection(): Promise<void> {
+    console.log(`Testing ${this.id} connection with model: ${this.model}`);
+
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [{ role: 'user', content: 'Hi' }],
+      ...this.getTokenParam(500), // Use 500 tokens for test
+    });
+
+    const message = response.choices[0]?.message;
+    if (!message) {
+      throw new Error('Received empty response from the API (no choices returned)');
+    }
+
+    // Check for content in message
+    if (!message.content && (!message.tool_calls || message.tool_calls.length === 0)) {
+      throw new Error('Received empty response from the API (no content or tool calls)');
+    }
+  }
+}
@@ -0,0 +1,138 @@
+import Perplexity from '@perplexity-ai/perplexity_ai';
+import { ChatStreamEvent } from '@/types';
+import { AIMessage, AIProvider, AIProviderConfig, AIProviderId, ChatOptions, ChatResult, CompletionOptions, PROVIDER_MAX_RETRIES, PROVIDER_REQUEST_TIMEOUT_MS, TokenUsage } from './types';
+
+/**
+ * Perplexity adapter. Tools are not supported, so any tools passed in are ignored.
+ */
+export class PerplexityProvider implements AIProvider {
+  readonly id: AIProviderId = 'perplexity';
+  readonly model: string;
+  private client: Perplexity;
+
+  constructor(config: AIProviderConfig) {
+    this.model = config.model;
+    this.client = new Perplexity({
+      apiKey: config.api_key,
+      timeout: PROVIDER_REQUEST_TIMEOUT_MS,
+      maxRetries: PROVIDER_MAX_RETRIES,
+    });
+  }
+
+  getTokenLimit(): number {
+    // Requests leave max_tokens unset; this is the reply allowance assumed when budgeting context
+    return 1000;
+  }
+
+  getContextWindow(): number {
+    return 127000; // Sonar models
+  }
+
+  /**
+   * Perplexity requires a single user message with concatenated content
+   */
+  private concatenate(messages: AIMessage[]) {
+    const concatenatedContent = messages
+      .map(msg => {
+        if (msg.role === 'system') {
+          return `System: ${msg.content}`;
+        } else if (msg.role === 'assistant') {
+          return `Assistant: ${msg.content}`;
+        } else {
+          return `User: ${msg.content}`;
+        }
+      })
+      .join('\n\n');
+
+    return [{ role: 'user' as const, content: concatenatedContent }];
+  }
+
+  private reportUsage(
+    usage: { prompt_tokens: number; completion_tokens: number } | null | undefined,
+    onUsage?: (usage: TokenUsage) => void
+  ) {
+    if (usage && onUsage) {
+      onUsage({ promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens });
+    }
+  }
+
+  private getText(content: string | Array<{ type: string; text?: string }> | undefined): string {
+    if (typeof content === 'string') {
+      return content;
+    }
+    return (content || []).map(chunk => chunk.text || '').join('');
+  }
+
+  async chat(options: ChatOptions): Promise<ChatResult> {
+    const perplexityMessages = this.concatenate(options.messages);
+
+    console.log('=== PERPLEXITY FORMAT DEBUG ===');
+    console.log('Original messages:', options.messages.length);
+    console.log('Concatenated content:', perplexityMessages[0].content.substring(0, 200) + '...');
+    console.log('=== END PERPLEXITY FORMAT DEBUG ===');
+
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      messages: perplexityMessages,
+      ...(options.maxTokens ? { max_tokens: options.maxTokens } : {}),
+    });
+
+    this.reportUsage(completion.usage, options.onUsage);
+
+    const content = this.getText(completion.choices[0]?.message?.content);
+
+    console.log('=== AI RESPONSE DEBUG ===');
+    console.log('Provider: Perplexity');
+    console.log('Response received:', content.substring(0, 200) + (content.length > 200 ? '...' : ''));
+    console.log('=== END AI RESPONSE DEBUG ===');
+
+    return { content };
+  }
+
+  async *stream(options: ChatOptions): AsyncGenerator<ChatStreamEvent> {
+    const stream = await this.client.chat.completions.create({
+      model: this.model,
+      messages: this.concatenate(options.messages),
+      ...(options.maxTokens ? { max_tokens: options.maxTokens } : {}),
+      stream: true,
+    });
+
+    // Every chunk carries the running usage; the last one has the totals
+    let usage: { prompt_tokens: number; completion_tokens: number } | null | undefined;
+    for await (const chunk of stream) {
+      usage = chunk.usage || usage;
+      const text = this.getText(chunk.choices[0]?.delta?.content);
+      if (text) {
+        yield { type: 'text', delta: text };
+      }
+    }
+    this.reportUsage(usage, options.onUsage);
+  }
+
+  async complete(prompt: string, options: CompletionOptions = {}): Promise<string> {
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [{ role: 'user', content: prompt }],
+      max_tokens: options.maxTokens ?? 500,
+      ...(options.temperature !== undefined ? { temperature: options.temperature } : {}),
+      ...(options.jsonSchema ? {
+        response_format: { type: 'json_schema' as const, json_schema: { schema: options.jsonSchema.schema } }
+      } : {}),
+    });
+
+    this.reportUsage(completion.usage, options.onUsage);
+
+    return this.getText(completion.choices[0]?.message?.content);
+  }
+
+  async testConnection(): Promise<void> {
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [{ role: 'user', content: 'Hi' }],
+    });
+
+    if (!this.getText(completion.choices[0]?.message?.content)) {
+      throw new Error('Received empty response from Perplexity API');
+    }
+  }
+}
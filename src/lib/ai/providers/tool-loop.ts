@@ -0,0 +1,84 @@
+import { ToolCall, ToolResult } from '../tool-executor';
+import { TOOL_LOOP_LIMITS } from './types';
+
+/**
+ * Runs the tool calls of one reply across rounds, enforcing the step and time
+ * limits. A call repeating an earlier one with the same arguments gets the
+ * earlier result instead of running the tool again.
+ */
+export class ToolLoop {
+  private readonly startedAt = Date.now();
+  private steps = 0;
+  private readonly results = new Map<string, string>();
+
+  constructor(private readonly executeTool: (toolCall: ToolCall) => Promise<ToolResult>) {}
+
+  /**
+   * Whether the model may be offered tools for another round
+   */
+  canContinue(): boolean {
+    return this.steps < TOOL_LOOP_LIMITS.MAX_STEPS && !this.timedOut();
+  }
+
+  /**
+   * Run the calls the model requested in one round, in order
+   */
+  async runStep(toolCalls: ToolCall[]): Promise<ToolResult[]> {
+    this.startStep();
+    const results: ToolResult[] = [];
+    for (const toolCall of toolCalls) {
+      results.push(await this.run(toolCall));
+    }
+    return results;
+  }
+
+  /**
+   * Count a new round; for callers that run the calls one at a time
+   */
+  startStep(): void {
+    this.steps++;
+    console.log(`Tool loop step ${this.steps}/${TOOL_LOOP_LIMITS.MAX_STEPS}`);
+  }
+
+  async run(toolCall: ToolCall): Promise<ToolResult> {
+    const { name } = toolCall.function;
+
+    if (this.timedOut()) {
+      return this.result(toolCall, 'Error: Tool time limit reached, so this tool was not run');
+    }
+
+    const key = `${name}:${this.normalizeArguments(toolCall.function.arguments)}`;
+    const previous = this.results.get(key);
+    if (previous !== undefined) {
+      console.log(`Skipping repeated tool call: ${name}`);
+      return this.result(toolCall, `Already called with the same arguments in this reply, so it was not repeated. Earlier result: ${previous}`);
+    }
+
+    const result = await this.executeTool(toolCall);
+    this.results.set(key, result.content);
+    return result;
+  }
+
+  private timedOut(): boolean {
+    return Date.now() - this.startedAt >= TOOL_LOOP_LIMITS.TIMEOUT_MS;
+  }
+
+  /**
+   * Key order and whitespace should not make two calls look different
+   */
+  private normalizeArguments(args: string): string {
+    try {
+      const parsed = JSON.parse(args || '{}');
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        return JSON.stringify(Object.keys(parsed).sort().map(key => [key, parsed[key]]));
+      }
+      return JSON.stringify(parsed);
+    } catch {
+      return args;
+    }
+  }
+
+  private result(toolCall: ToolCall, content: string): ToolResult {
+    return { tool_call_id: toolCall.id, role: 'tool', name: toolCall.function.name, content };
+  }
+}
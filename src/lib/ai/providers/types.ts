@@ -0,0 +1,105 @@
+/**
+ * AI Provider adapter interface
+ * Server-side only - every AI backend implements this so callers never branch on provider
+ */
+
+import { ChatStreamEvent } from '@/types';
+import { AITool } from '../tools';
+import { ToolCall, ToolResult } from '../tool-executor';
+
+// Requests are cut off well before the SDK defaults so the failover chain can
+// move on to the next provider instead of leaving the user waiting
+export const PROVIDER_REQUEST_TIMEOUT_MS = 45 * 1000;
+export const PROVIDER_MAX_RETRIES = 1;
+
+// Bounds on a reply's tool use: the model may call tools, read the results and
+// call more, for up to MAX_STEPS rounds before it has to answer
+export const TOOL_LOOP_LIMITS = {
+  MAX_STEPS: 4,
+  TIMEOUT_MS: 60 * 1000, // Tools stop running once the reply has spent this long on them
+};
+
+export type AIProviderId = 'openai' | 'anthropic' | 'perplexity' | 'openai_compatible';
+
+export interface AIMessage {
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+}
+
+export interface AIProviderConfig {
+  provider: AIProviderId;
+  api_key: string;
+  model: string;
+  base_url?: string | null;
+}
+
+// Token counts as reported by the provider for one API request
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface ChatOptions {
+  messages: AIMessage[];
+  tools?: AITool[];
+  // Runs a tool call requested by the model; tools are only sent when this is provided
+  executeTool?: (toolCall: ToolCall) => Promise<ToolResult>;
+  maxTokens?: number;
+  // Called once per API request that reports usage (each tool round adds one)
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface ChatResult {
+  content: string;
+}
+
+// JSON schema a completion must match, sent through the provider's native JSON mode
+export interface JSONSchemaFormat {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface CompletionOptions {
+  maxTokens?: number;
+  temperature?: number;
+  onUsage?: (usage: TokenUsage) => void;
+  // Ask for a JSON object matching the schema; the reply is the JSON text
+  jsonSchema?: JSONSchemaFormat;
+}
+
+export interface AIProvider {
+  readonly id: AIProviderId;
+  readonly model: string;
+
+  /**
+   * Default token allowance for a reply
+   */
+  getTokenLimit(): number;
+
+  /**
+   * Total tokens the model accepts per request, prompt and reply combined
+   */
+  getContextWindow(): number;
+
+  /**
+   * Generate a reply, running rounds of tool calls within TOOL_LOOP_LIMITS when tools are supplied
+   */
+  chat(options: ChatOptions): Promise<ChatResult>;
+
+  /**
+   * Stream a reply as text, tool_call and tool_result events
+   */
+  stream(options: ChatOptions): AsyncGenerator<ChatStreamEvent>;
+
+  /**
+   * Single-prompt completion without tools, used for summaries and metadata.
+   * With jsonSchema set the reply should be a JSON object, but callers still
+   * validate it: not every model honours the schema.
+   */
+  complete(prompt: string, options?: CompletionOptions): Promise<string>;
+
+  /**
+   * Send a minimal request, throwing if the provider does not answer
+   */
+  testConnection(): Promise<void>;
+}
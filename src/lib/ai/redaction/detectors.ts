@@ -0,0 +1,71 @@
+import { RedactionCategory } from '@/types';
+
+interface Detector {
+  category: Exclude<RedactionCategory, 'name' | 'custom'>;
+  pattern: RegExp;
+  // Rejects matches that only look like the category
+  accept?: (match: string) => boolean;
+}
+
+function digitsOf(text: string): string {
+  return text.replace(/\D/g, '');
+}
+
+// Words that turn up between a number and "road" or "way" in ordinary speech
+const NOT_STREET_NAMES = new Set([
+  'a', 'an', 'the', 'my', 'your', 'his', 'her', 'our', 'their', 'this', 'that', 'of', 'to', 'in', 'on', 'at', 'by',
+  'down', 'up', 'along', 'across', 'over', 'times', 'minutes', 'hours', 'days', 'weeks', 'months', 'years',
+  'miles', 'blocks', 'steps', 'other', 'more', 'ways', 'different',
+]);
+
+// Card numbers carry a Luhn check digit, which rules out most other long numbers
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// Applied in order, so a card number is taken before it can pass for a phone number
+export const REDACTION_DETECTORS: Detector[] = [
+  {
+    category: 'email',
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g,
+  },
+  {
+    // US social security numbers and UK national insurance numbers
+    category: 'id_number',
+    pattern: /\b(?:\d{3}-\d{2}-\d{4}|[A-CEGHJ-PR-TW-Z]{2} ?\d{2} ?\d{2} ?\d{2} ?[A-D])\b/gi,
+  },
+  {
+    category: 'id_number',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    accept: match => passesLuhn(digitsOf(match)),
+  },
+  {
+    // 9 to 15 digits, so times, dates and short codes such as 988 are left alone
+    category: 'phone',
+    pattern: /(?<![\w+])\+?\(?\d[\d ().-]{6,}\d(?!\w)/g,
+    accept: match => {
+      const digits = digitsOf(match).length;
+      return digits >= 9 && digits <= 15;
+    },
+  },
+  {
+    category: 'address',
+    pattern: /\b\d{1,5}[A-Za-z]?,? (?:[A-Za-z'.-]+ ){1,3}(?:street|st|avenue|ave|road|rd|boulevard|blvd|lane|ln|drive|dr|court|ct|way|place|pl|terrace|close|crescent|highway|hwy)\b\.?(?:,? (?:apt|apartment|unit|suite|flat) ?#?\w+)?/gi,
+    // "3 times down the road" is not an address
+    accept: match => !match.toLowerCase().split(/[ ,]+/).some(word => NOT_STREET_NAMES.has(word)),
+  },
+  {
+    // UK postcodes; US ZIP codes are too easily confused with other numbers
+    category: 'address',
+    pattern: /\b[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}\b/g,
+  },
+];
@@ -0,0 +1,179 @@
+/**
+ * PII redaction
+ * Server-side only - names, emails, phone numbers, addresses and ID numbers
+ * are replaced with placeholders before ServerAIService sends anything to an
+ * AI provider, and restored in the reply before it reaches the user or the
+ * database. Tool calls get the real values and the model sees tool results
+ * redacted. The deployment's settings live in ai_redaction_settings, and each
+ * call that redacted something leaves a report in ai_redaction_reports with
+ * counts, never the values.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { RedactionCategory, RedactionReportEntry, RedactionSettings } from '@/types';
+import { getCrisisPhoneNumbers } from '@/lib/ai/safety';
+import { UsageContext } from '../usage-service';
+import { createRedactor, Redactor } from './redactor';
+
+export type { Redactor, StreamRestorer } from './redactor';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export const REDACTION_CONFIG = {
+  CACHE_MS: 60 * 1000, // Settings are re-read at most this often
+  MAX_CUSTOM_TERMS: 200,
+  MAX_TERM_LENGTH: 100,
+  REPORT_LIMIT: 200,
+};
+
+// Categories the detectors cover; custom terms always apply
+export const REDACTION_CATEGORIES: Exclude<RedactionCategory, 'custom'>[] = ['name', 'email', 'phone', 'address', 'id_number'];
+
+// Used until an admin saves settings: everything on
+const DEFAULT_SETTINGS: RedactionSettings = {
+  enabled: true,
+  categories: REDACTION_CATEGORIES,
+  custom_terms: [],
+};
+
+let settingsCache: RedactionSettings | null = null;
+let settingsLoadedAt = 0;
+
+export async function getRedactionSettings(): Promise<RedactionSettings> {
+  if (settingsCache && Date.now() - settingsLoadedAt < REDACTION_CONFIG.CACHE_MS) {
+    return settingsCache;
+  }
+
+  const { data, error } = await supabase
+    .from('ai_redaction_settings')
+    .select('enabled, categories, custom_terms, updated_by, updated_at')
+    .maybeSingle();
+
+  if (error) {
+    // Keep redacting with the last known settings rather than sending raw text
+    console.error('Error loading redaction settings:', error);
+    return settingsCache || DEFAULT_SETTINGS;
+  }
+
+  settingsCache = data || DEFAULT_SETTINGS;
+  settingsLoadedAt = Date.now();
+  return settingsCache;
+}
+
+export async function saveRedactionSettings(
+  input: Pick<RedactionSettings, 'enabled' | 'categories' | 'custom_terms'>,
+  userId: string
+): Promise<RedactionSettings> {
+  const categories = REDACTION_CATEGORIES.filter(category => input.categories.includes(category));
+  const customTerms = [...new Set(input.custom_terms.map(term => term.trim()).filter(Boolean))];
+
+  if (customTerms.length > REDACTION_CONFIG.MAX_CUSTOM_TERMS) {
+    throw new Error(`At most ${REDACTION_CONFIG.MAX_CUSTOM_TERMS} custom terms are allowed`);
+  }
+  if (customTerms.some(term => term.length > REDACTION_CONFIG.MAX_TERM_LENGTH)) {
+    throw new Error(`Custom terms must be at most ${REDACTION_CONFIG.MAX_TERM_LENGTH} characters`);
+  }
+
+  const { data, error } = await supabase
+    .from('ai_redaction_settings')
+    .upsert({
+      id: true,
+      enabled: input.enabled,
+      categories,
+      custom_terms: customTerms,
+      updated_by: userId,
+      updated_at: new Date().toISOString()
+    })
+    .select('enabled, categories, custom_terms, updated_by, updated_at')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save redaction settings: ${error.message}`);
+  }
+
+  settingsCache = data;
+  settingsLoadedAt = Date.now();
+  return data;
+}
+
+/**
+ * A redactor for one AI call under the deployment's settings, or null when
+ * redaction is off. Names are the people known to be in the conversation.
+ */
+export async function startRedaction(names: string[] = []): Promise<Redactor | null> {
+  const settings = await getRedactionSettings();
+  if (!settings.enabled) {
+    return null;
+  }
+
+  let allowedNumbers: string[] = [];
+  try {
+    allowedNumbers = await getCrisisPhoneNumbers();
+  } catch (error) {
+    console.error('Error loading crisis numbers for redaction:', error);
+  }
+
+  return createRedactor({
+    categories: settings.categories,
+    names,
+    customTerms: settings.custom_terms,
+    allowedNumbers
+  });
+}
+
+/**
+ * Store what one call redacted and restored. Calls that redacted nothing
+ * leave no report; recording never blocks or fails the reply.
+ */
+export function recordRedactionReport(redactor: Redactor | null, context: UsageContext): void {
+  if (!redactor) {
+    return;
+  }
+
+  const summary = redactor.summary();
+  if (summary.placeholdersSent === 0) {
+    return;
+  }
+
+  console.log(`Redaction (${context.purpose}): ${JSON.stringify(summary.counts)}, ${summary.placeholdersSent} sent, ${summary.placeholdersRestored} restored`);
+
+  supabase
+    .from('ai_redaction_reports')
+    .insert({
+      user_id: context.userId || null,
+      session_id: context.sessionId || null,
+      purpose: context.purpose,
+      counts: summary.counts,
+      placeholders_sent: summary.placeholdersSent,
+      placeholders_restored: summary.placeholdersRestored,
+      unknown_placeholders: summary.unknownPlaceholders
+    })
+    .then(({ error }) => {
+      if (error) {
+        console.error('Error recording redaction report:', error);
+      }
+    });
+}
+
+/**
+ * Most recent reports first, for the admin logs
+ */
+export async function listRedactionReports(): Promise<RedactionReportEntry[]> {
+  const { data, error } = await supabase
+    .from('ai_redaction_reports')
+    .select('*, users(email)')
+    .order('created_at', { ascending: false })
+    .limit(REDACTION_CONFIG.REPORT_LIMIT);
+
+  if (error) {
+    throw new Error(`Failed to load redaction reports: ${error.message}`);
+  }
+
+  return (data || []).map(({ users, ...report }) => ({
+    ...report,
+    user_email: users?.email ?? null
+  }));
+}
@@ -0,0 +1,162 @@
+import { RedactionCategory } from '@/types';
+import { REDACTION_DETECTORS } from './detectors';
+
+const PLACEHOLDER_LABELS: Record<RedactionCategory | 'literal', string> = {
+  name: 'NAME',
+  email: 'EMAIL',
+  phone: 'PHONE',
+  address: 'ADDRESS',
+  id_number: 'ID',
+  custom: 'TERM',
+  literal: 'TEXT', // Placeholder-like text that was already in the input
+};
+
+const LABELS = Object.values(PLACEHOLDER_LABELS).join('|');
+const PLACEHOLDER_PATTERN = new RegExp(`\\[(?:${LABELS})_\\d+\\]`, 'g');
+const PLACEHOLDER_SPLIT = new RegExp(`(\\[(?:${LABELS})_\\d+\\])`);
+// The start of a placeholder that may finish in the next streamed chunk
+const PLACEHOLDER_PREFIX = /\[[A-Z]*(?:_\d*)?$/;
+const MAX_PLACEHOLDER_LENGTH = 16;
+
+export interface RedactorOptions {
+  categories: RedactionCategory[];
+  names: string[]; // People known to be in the conversation, matched as written
+  customTerms: string[]; // Matched ignoring case
+  allowedNumbers: string[]; // Public numbers such as crisis lines, never redacted
+}
+
+export interface RedactionSummary {
+  counts: Partial<Record<RedactionCategory, number>>;
+  placeholdersSent: number;
+  placeholdersRestored: number;
+  unknownPlaceholders: number;
+}
+
+export interface StreamRestorer {
+  // Restored text safe to show now; a trailing partial placeholder is held back
+  push: (delta: string) => string;
+  flush: () => string;
+}
+
+export interface Redactor {
+  redact: (text: string) => string;
+  restore: (text: string) => string;
+  createStreamRestorer: () => StreamRestorer;
+  summary: () => RedactionSummary;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function alternation(terms: string[]): string {
+  // Longest first, so "Sarah Jones" is taken before "Sarah"
+  return [...new Set(terms)].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|');
+}
+
+/**
+ * Replace matches of the pattern, leaving placeholders already in the text alone
+ */
+function replaceOutsidePlaceholders(text: string, pattern: RegExp, replace: (match: string) => string): string {
+  return text
+    .split(PLACEHOLDER_SPLIT)
+    .map((segment, index) => (index % 2 === 1 ? segment : segment.replace(pattern, replace)))
+    .join('');
+}
+
+/**
+ * Reversible redaction for one request. Every occurrence of a value gets the
+ * same placeholder, numbered per category in the order values are first seen
+ * ([EMAIL_1], [NAME_2]), and restore() puts the values back. Text that already
+ * looks like a placeholder is itself replaced, so a user cannot type one to
+ * have someone else's value restored into the reply.
+ */
+export function createRedactor(options: RedactorOptions): Redactor {
+  const placeholders = new Map<string, string>(); // category:value -> placeholder
+  const values = new Map<string, string>(); // placeholder -> value
+  const nextIndex: Partial<Record<string, number>> = {};
+  const counts: Partial<Record<RedactionCategory, number>> = {};
+  const allowedNumbers = new Set(options.allowedNumbers.map(number => number.replace(/\D/g, '')).filter(Boolean));
+  let placeholdersSent = 0;
+  let placeholdersRestored = 0;
+  let unknownPlaceholders = 0;
+
+  const names = options.categories.includes('name')
+    ? options.names.map(name => name.trim()).filter(name => name.length >= 2)
+    : [];
+  const customTerms = options.customTerms.map(term => term.trim()).filter(Boolean);
+  const namePattern = names.length > 0 ? new RegExp(`(?<![\\w])(?:${alternation(names)})(?![\\w])`, 'g') : null;
+  const customPattern = customTerms.length > 0 ? new RegExp(`(?<![\\w])(?:${alternation(customTerms)})(?![\\w])`, 'gi') : null;
+  const detectors = REDACTION_DETECTORS.filter(detector => options.categories.includes(detector.category));
+
+  const placeholderFor = (category: RedactionCategory | 'literal', value: string): string => {
+    const key = `${category}:${value}`;
+    let placeholder = placeholders.get(key);
+    if (!placeholder) {
+      const label = PLACEHOLDER_LABELS[category];
+      nextIndex[label] = (nextIndex[label] ?? 0) + 1;
+      placeholder = `[${label}_${nextIndex[label]}]`;
+      placeholders.set(key, placeholder);
+      values.set(placeholder, value);
+      if (category !== 'literal') {
+        counts[category] = (counts[category] ?? 0) + 1;
+      }
+    }
+    if (category !== 'literal') {
+      placeholdersSent++;
+    }
+    return placeholder;
+  };
+
+  const restore = (text: string): string => text.replace(PLACEHOLDER_PATTERN, placeholder => {
+    const value = values.get(placeholder);
+    if (value === undefined) {
+      unknownPlaceholders++;
+      return placeholder;
+    }
+    placeholdersRestored++;
+    return value;
+  });
+
+  return {
+    redact: (text) => {
+      if (!text) return text;
+
+      let redacted = text.replace(PLACEHOLDER_PATTERN, literal => placeholderFor('literal', literal));
+      for (const detector of detectors) {
+        redacted = replaceOutsidePlaceholders(redacted, detector.pattern, match => {
+          if (detector.accept && !detector.accept(match)) return match;
+          if (detector.category === 'phone' && allowedNumbers.has(match.replace(/\D/g, ''))) return match;
+          return placeholderFor(detector.category, match);
+        });
+      }
+      if (customPattern) {
+        redacted = replaceOutsidePlaceholders(redacted, customPattern, match => placeholderFor('custom', match));
+      }
+      if (namePattern) {
+        redacted = replaceOutsidePlaceholders(redacted, namePattern, match => placeholderFor('name', match));
+      }
+      return redacted;
+    },
+    restore,
+    createStreamRestorer: () => {
+      let pending = '';
+      return {
+        push: (delta) => {
+          pending += delta;
+          const partial = pending.match(PLACEHOLDER_PREFIX);
+          const held = partial && partial[0].length < MAX_PLACEHOLDER_LENGTH ? partial[0] : '';
+          const ready = pending.slice(0, pending.length - held.length);
+          pending = held;
+          return restore(ready);
+        },
+        flush: () => {
+          const rest = pending;
+          pending = '';
+          return restore(rest);
+        },
+      };
+    },
+    summary: () => ({ counts: { ...counts }, placeholdersSent, placeholdersRestored, unknownPlaceholders }),
+  };
+}
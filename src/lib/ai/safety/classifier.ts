@@ -0,0 +1,51 @@
+import { CrisisRiskLevel, CrisisSignal } from './types';
+
+export const CRISIS_CLASSIFIER_CONFIG = {
+  TIMEOUT_MS: 3000, // The message waits on the classifier, so it must answer quickly
+  // Minimum score for each level, highest first
+  THRESHOLDS: [
+    { level: 'high', score: 0.85 },
+    { level: 'medium', score: 0.6 },
+    { level: 'low', score: 0.35 },
+  ] as { level: CrisisRiskLevel; score: number }[],
+};
+
+/**
+ * Optional self-hosted classifier, set with CRISIS_CLASSIFIER_URL. It receives
+ * POST { text } and answers { score } with the probability, from 0 to 1, that
+ * the message indicates a crisis. Without a URL, or when the classifier fails
+ * or is slow, detection relies on the lexicon and patterns alone.
+ */
+export async function classifyMessage(text: string): Promise<{ score: number; signal: CrisisSignal | null } | null> {
+  const url = process.env.CRISIS_CLASSIFIER_URL;
+  if (!url) {
+    return null;
+  }
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text }),
+      signal: AbortSignal.timeout(CRISIS_CLASSIFIER_CONFIG.TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Classifier returned ${response.status}`);
+    }
+
+    const { score } = await response.json();
+    if (typeof score !== 'number' || score < 0 || score > 1) {
+      throw new Error('Classifier returned no score between 0 and 1');
+    }
+
+    const threshold = CRISIS_CLASSIFIER_CONFIG.THRESHOLDS.find(entry => score >= entry.score);
+    return {
+      score,
+      signal: threshold ? { source: 'classifier', rule: 'classifier', level: threshold.level } : null,
+    };
+  } catch (error) {
+    console.error('Crisis classifier error:', error);
+    return null;
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * Crisis detection
+ * Server-side only - every user message is screened before it reaches the
+ * model, so safety does not depend on the model choosing to call
+ * provide_emergency_resources. A lexicon, pattern rules and an optional
+ * self-hosted classifier each assign a risk level; the highest wins. From
+ * medium risk the system prompt gets a crisis protocol; at high risk the
+ * session is escalated for human review and crisis resources are added to the
+ * reply. Every screening is stored in crisis_detections.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { ResourceLocale } from '@/types';
+import { classifyMessage } from './classifier';
+import { matchLexicon, matchPatterns, normalizeMessage } from './lexicon';
+import { getCrisisResources } from './resources';
+import { raiseFlag } from './review-queue';
+import { CrisisAction, CrisisAssessment, CrisisRiskLevel, CrisisScreening, CrisisSignal } from './types';
+
+export * from './types';
+export { getCrisisPhoneNumbers, getCrisisResources, getResourceDirectory, resolveResourceLocale } from './resources';
+export type { CrisisResourceLevel } from './resources';
+export { formatSafetyPlan, getSafetyPlan, saveSafetyPlan, updateSafetyPlanSection } from './safety-plan';
+export { checkInDueAt, raiseFlag } from './review-queue';
+export { getUnlockConditions } from './unlock-appeals';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const RISK_ORDER: CrisisRiskLevel[] = ['none', 'low', 'medium', 'high'];
+
+export function compareRiskLevels(a: CrisisRiskLevel, b: CrisisRiskLevel): number {
+  return RISK_ORDER.indexOf(a) - RISK_ORDER.indexOf(b);
+}
+
+/**
+ * Highest level among the signals. Medium signals from two different rules
+ * together count as high.
+ */
+function combineSignals(signals: CrisisSignal[]): CrisisRiskLevel {
+  const mediumRules = new Set(signals.filter(signal => signal.level === 'medium').map(signal => signal.rule));
+  if (mediumRules.size >= 2) {
+    return 'high';
+  }
+
+  return signals.reduce<CrisisRiskLevel>(
+    (highest, signal) => (compareRiskLevels(signal.level, highest) > 0 ? signal.level : highest),
+    'none'
+  );
+}
+
+/**
+ * Assess one message. Deterministic apart from the optional classifier.
+ */
+export async function detectCrisis(text: string): Promise<CrisisAssessment> {
+  const normalized = normalizeMessage(text);
+  const signals = [...matchLexicon(normalized), ...matchPatterns(normalized)];
+
+  const classification = await classifyMessage(text);
+  if (classification?.signal) {
+    signals.push(classification.signal);
+  }
+
+  return {
+    riskLevel: combineSignals(signals),
+    signals,
+    classifierScore: classification?.score ?? null,
+  };
+}
+
+/**
+ * Raise one escalation per session and user; further high-risk messages add to
+ * the audit log but not to the review queue while it is unresolved
+ */
+async function escalate(assessment: CrisisAssessment, sessionId: string, userId: string): Promise<boolean> {
+  const { data: existing } = await supabase
+    .from('session_flags')
+    .select('id')
+    .eq('session_id', sessionId)
+    .eq('user_id', userId)
+    .eq('flag_type', 'escalate')
+    .eq('resolved', false)
+    .limit(1)
+    .maybeSingle();
+
+  if (existing) {
+    return false;
+  }
+
+  const matched = assessment.signals
+    .filter(signal => signal.level === 'high' || signal.level === 'medium')
+    .map(signal => signal.match || signal.rule)
+    .join(', ');
+
+  try {
+    await raiseFlag({
+      sessionId,
+      userId,
+      flagType: 'escalate',
+      reason: `[HIGH] Crisis detection: ${matched}`.slice(0, 200),
+      priority: 'urgent'
+    });
+  } catch (error) {
+    console.error('Error escalating crisis detection:', error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Screen a sanitized user message, act on its risk level and log the
+ * outcome. Never throws: a failure is logged and the message is treated as
+ * screened at whatever level was reached. Resources are those of the user's
+ * locale.
+ */
+export async function screenMessage(
+  text: string,
+  sessionId: string,
+  userId: string,
+  locale: ResourceLocale,
+  messageId?: string
+): Promise<CrisisScreening> {
+  let assessment: CrisisAssessment = { riskLevel: 'none', signals: [], classifierScore: null };
+  const actions: CrisisAction[] = [];
+
+  try {
+    assessment = await detectCrisis(text);
+
+    if (compareRiskLevels(assessment.riskLevel, 'medium') >= 0) {
+      actions.push('prompt_adjusted');
+    }
+
+    if (assessment.riskLevel === 'high') {
+      actions.push('resources_injected');
+      if (await escalate(assessment, sessionId, userId)) {
+        actions.push('escalated');
+      }
+    }
+
+    if (assessment.riskLevel !== 'none') {
+      console.log(`Crisis detection: ${assessment.riskLevel} risk in session ${sessionId} (${actions.join(', ') || 'logged only'})`);
+    }
+  } catch (error) {
+    console.error('Crisis detection error:', error);
+  }
+
+  const { error } = await supabase
+    .from('crisis_detections')
+    .insert({
+      session_id: sessionId,
+      user_id: userId,
+      message_id: messageId || null,
+      risk_level: assessment.riskLevel,
+      signals: assessment.signals,
+      classifier_score: assessment.classifierScore,
+      actions
+    });
+
+  if (error) {
+    console.error('Error logging crisis detection:', error);
+  }
+
+  return {
+    riskLevel: assessment.riskLevel,
+    resources: assessment.riskLevel === 'high' ? await getCrisisResources('high', locale) : null
+  };
+}
@@ -0,0 +1,146 @@
+import { CrisisRiskLevel, CrisisSignal } from './types';
+
+interface LexiconEntry {
+  phrase: string;
+  level: CrisisRiskLevel;
+}
+
+interface PatternRule {
+  name: string;
+  level: CrisisRiskLevel;
+  // Every pattern must match somewhere in the message
+  patterns: RegExp[];
+}
+
+// Phrases matched on word boundaries in the normalized message. Figures of
+// speech ("this is killing me") are deliberately absent.
+export const CRISIS_LEXICON: LexiconEntry[] = [
+  { phrase: 'kill myself', level: 'high' },
+  { phrase: 'killing myself', level: 'high' },
+  { phrase: 'end my life', level: 'high' },
+  { phrase: 'ending my life', level: 'high' },
+  { phrase: 'take my own life', level: 'high' },
+  { phrase: 'taking my own life', level: 'high' },
+  { phrase: 'suicidal', level: 'high' },
+  { phrase: 'want to die', level: 'high' },
+  { phrase: 'wanna die', level: 'high' },
+  { phrase: 'better off dead', level: 'high' },
+  { phrase: 'better off without me', level: 'high' },
+  { phrase: 'no reason to live', level: 'high' },
+  { phrase: 'nothing to live for', level: 'high' },
+  { phrase: "don't want to be alive", level: 'high' },
+  { phrase: "don't want to live", level: 'high' },
+  { phrase: 'hurt myself', level: 'high' },
+  { phrase: 'hurting myself', level: 'high' },
+  { phrase: 'self harm', level: 'high' },
+  { phrase: 'cut myself', level: 'high' },
+  { phrase: 'cutting myself', level: 'high' },
+  { phrase: 'end it all', level: 'high' },
+  { phrase: 'suicide', level: 'medium' },
+  { phrase: 'overdose', level: 'medium' },
+  { phrase: 'hopeless', level: 'medium' },
+  { phrase: "can't go on", level: 'medium' },
+  { phrase: "can't take it anymore", level: 'medium' },
+  { phrase: 'disappear for good', level: 'medium' },
+  { phrase: 'no way out', level: 'medium' },
+  { phrase: 'burden to everyone', level: 'medium' },
+  { phrase: "don't see the point", level: 'medium' },
+  { phrase: 'worthless', level: 'low' },
+  { phrase: 'hate myself', level: 'low' },
+  { phrase: 'empty inside', level: 'low' },
+  { phrase: 'so alone', level: 'low' },
+];
+
+// Combinations of words that a phrase list cannot express, such as a means
+// mentioned together with how it would be used
+export const CRISIS_PATTERNS: PatternRule[] = [
+  {
+    name: 'stated_intent',
+    level: 'high',
+    patterns: [/\b(i'm going to|i am going to|i'm gonna|i will|i'll|planning to|about to)\s+(kill|hurt|harm|end)\s+(myself|my life|it all)\b/],
+  },
+  {
+    name: 'plan_and_means',
+    level: 'high',
+    patterns: [
+      /\b(pills|tablets|gun|rope|noose|blade|razor|bridge|ledge)\b/,
+      /\b(take (them )?all|all of them|swallow (them|all)|jump off|jump from|hang myself|shoot myself)\b/,
+    ],
+  },
+  {
+    name: 'wish_to_be_dead',
+    level: 'high',
+    patterns: [/\b(wish (i was|i were) dead|wish (i'd|i had) never been born)\b/],
+  },
+  {
+    name: 'saying_goodbye',
+    level: 'medium',
+    patterns: [/\b(this is (my )?goodbye|saying goodbye to everyone|giving away my (things|stuff|belongings)|wrote (a|my) (note|letter) for)\b/],
+  },
+  {
+    name: 'not_waking_up',
+    level: 'medium',
+    patterns: [/\b(not wake up|never wake up|go to sleep and not)\b/],
+  },
+];
+
+// A negation up to two words before a phrase ("I'm not going to hurt myself"),
+// except hedges such as "not sure"
+const NEGATION = /\b(not|never|no longer|don't|do not|didn't|wouldn't|won't|isn't)\s+(?!sure\b)(\w+\s+){0,2}$/;
+
+/**
+ * Lowercase, straighten quotes and collapse whitespace so phrases match
+ * regardless of how the message was typed
+ */
+export function normalizeMessage(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[‘’ʼ]/g, "'")
+    .replace(/-/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function matchLexicon(normalized: string): CrisisSignal[] {
+  const signals: CrisisSignal[] = [];
+
+  for (const { phrase, level } of CRISIS_LEXICON) {
+    const match = new RegExp(`\\b${escapeRegExp(phrase)}\\b`).exec(normalized);
+    if (!match) {
+      continue;
+    }
+
+    const negated = NEGATION.test(normalized.slice(0, match.index));
+    signals.push({
+      source: 'lexicon',
+      rule: phrase,
+      level: negated ? 'low' : level,
+      match: match[0],
+      ...(negated ? { negated } : {}),
+    });
+  }
+
+  return signals;
+}
+
+export function matchPatterns(normalized: string): CrisisSignal[] {
+  const signals: CrisisSignal[] = [];
+
+  for (const { name, level, patterns } of CRISIS_PATTERNS) {
+    const matches = patterns.map(pattern => pattern.exec(normalized));
+    if (matches.every(Boolean)) {
+      signals.push({
+        source: 'pattern',
+        rule: name,
+        level,
+        match: matches.map(match => match![0]).join(' … '),
+      });
+    }
+  }
+
+  return signals;
+}
@@ -0,0 +1,314 @@
+/**
+ * Crisis resource directory
+ * Server-side only - admin-managed hotlines and support services keyed by
+ * region and language (crisis_resources). The provide_emergency_resources
+ * tool, replies with high crisis risk, the emergency resources panel and the
+ * resources page all render from it. A user's locale comes from their
+ * profile, then the browser's Accept-Language, then the default region.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { CrisisResource, CrisisResourceDirectory, ResourceLocale } from '@/types';
+import { INTERNATIONAL_REGION, parseAcceptLanguage, parseLocaleTag, regionName } from '@/lib/resource-locale';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export type CrisisResourceLevel = 'high' | 'medium' | 'low';
+
+export const CRISIS_RESOURCE_CONFIG = {
+  CACHE_MS: 60 * 1000, // The directory is re-read at most this often
+  DEFAULT_REGION: 'US', // For users whose region is unknown
+  DEFAULT_LANGUAGE: 'en',
+};
+
+export interface CrisisResourceInput {
+  region: string;
+  language: string;
+  name: string;
+  contact: string;
+  contactType: CrisisResource['contact_type'];
+  description: string;
+  isEmergency: boolean;
+  urgent: boolean;
+  position: number;
+  isActive: boolean;
+}
+
+type BuiltInResource = Pick<CrisisResource, 'region' | 'language' | 'name' | 'contact' | 'contact_type' | 'description' | 'is_emergency' | 'urgent'>;
+
+// Used while the directory is empty or unreadable, so crisis resources are
+// never missing. add-crisis-resources.sql seeds the same entries.
+const BUILT_IN_RESOURCES: BuiltInResource[] = [
+  { region: 'US', language: 'en', name: '988 Suicide & Crisis Lifeline', contact: '988', contact_type: 'phone', description: 'Call or text 988, free and confidential, 24/7', is_emergency: false, urgent: true },
+  { region: 'US', language: 'en', name: 'Crisis Text Line', contact: 'Text HOME to 741741', contact_type: 'text', description: 'Free crisis support via text, 24/7', is_emergency: false, urgent: true },
+  { region: 'US', language: 'en', name: 'Emergency', contact: '911', contact_type: 'phone', description: 'For immediate danger to self or others', is_emergency: true, urgent: true },
+  { region: 'US', language: 'en', name: 'SAMHSA National Helpline', contact: '1-800-662-4357', contact_type: 'phone', description: 'Free, confidential treatment referral and information, 24/7', is_emergency: false, urgent: false },
+  { region: 'US', language: 'en', name: 'National Domestic Violence Hotline', contact: '1-800-799-7233', contact_type: 'phone', description: 'Confidential support for anyone experiencing domestic violence, 24/7', is_emergency: false, urgent: false },
+  { region: 'US', language: 'en', name: 'NAMI HelpLine', contact: '1-800-950-6264', contact_type: 'phone', description: 'Information, referrals and support', is_emergency: false, urgent: false },
+  { region: 'US', language: 'es', name: '988 Línea de Prevención del Suicidio y Crisis', contact: '988', contact_type: 'phone', description: 'Llame al 988 y marque 2 para español, gratis y confidencial, 24/7', is_emergency: false, urgent: true },
+  { region: 'US', language: 'es', name: 'Emergencias', contact: '911', contact_type: 'phone', description: 'Si usted u otra persona está en peligro inmediato', is_emergency: true, urgent: true },
+  { region: 'CA', language: 'en', name: '9-8-8 Suicide Crisis Helpline', contact: '988', contact_type: 'phone', description: 'Call or text 988, free, 24/7', is_emergency: false, urgent: true },
+  { region: 'CA', language: 'en', name: 'Emergency', contact: '911', contact_type: 'phone', description: 'For immediate danger to self or others', is_emergency: true, urgent: true },
+  { region: 'CA', language: 'fr', name: "9-8-8 Ligne d'aide en cas de crise de suicide", contact: '988', contact_type: 'phone', description: 'Appelez ou textez le 988, gratuit, 24 h sur 24', is_emergency: false, urgent: true },
+  { region: 'CA', language: 'fr', name: 'Urgences', contact: '911', contact_type: 'phone', description: 'En cas de danger immédiat pour vous ou pour autrui', is_emergency: true, urgent: true },
+  { region: 'GB', language: 'en', name: 'Samaritans', contact: '116 123', contact_type: 'phone', description: 'Free to call, 24/7', is_emergency: false, urgent: true },
+  { region: 'GB', language: 'en', name: 'Shout', contact: 'Text SHOUT to 85258', contact_type: 'text', description: 'Free crisis support via text, 24/7', is_emergency: false, urgent: true },
+  { region: 'GB', language: 'en', name: 'Emergency', contact: '999', contact_type: 'phone', description: 'For immediate danger to self or others', is_emergency: true, urgent: true },
+  { region: 'IE', language: 'en', name: 'Samaritans Ireland', contact: '116 123', contact_type: 'phone', description: 'Free to call, 24/7', is_emergency: false, urgent: true },
+  { region: 'IE', language: 'en', name: 'Emergency', contact: '112', contact_type: 'phone', description: 'For immediate danger to self or others', is_emergency: true, urgent: true },
+  { region: 'AU', language: 'en', name: 'Lifeline Australia', contact: '13 11 14', contact_type: 'phone', description: 'Crisis support, 24/7', is_emergency: false, urgent: true },
+  { region: 'AU', language: 'en', name: 'Emergency', contact: '000', contact_type: 'phone', description: 'For immediate danger to self or others', is_emergency: true, urgent: true },
+  { region: 'NZ', language: 'en', name: 'Need to talk?', contact: '1737', contact_type: 'phone', description: 'Call or text 1737, free, 24/7', is_emergency: false, urgent: true },
+  { region: 'NZ', language: 'en', name: 'Lifeline Aotearoa', contact: '0800 543 354', contact_type: 'phone', description: 'Free crisis support, 24/7', is_emergency: false, urgent: true },
+  { region: 'NZ', language: 'en', name: 'Emergency', contact: '111', contact_type: 'phone', description: 'For immediate danger to self or others', is_emergency: true, urgent: true },
+  { region: 'FR', language: 'fr', name: 'Numéro national de prévention du suicide', contact: '3114', contact_type: 'phone', description: 'Gratuit, 24 h sur 24, 7 jours sur 7', is_emergency: false, urgent: true },
+  { region: 'FR', language: 'fr', name: 'Urgences', contact: '112', contact_type: 'phone', description: 'En cas de danger immédiat pour vous ou pour autrui', is_emergency: true, urgent: true },
+  { region: 'DE', language: 'de', name: 'TelefonSeelsorge', contact: '0800 111 0 111', contact_type: 'phone', description: 'Kostenlos und rund um die Uhr erreichbar', is_emergency: false, urgent: true },
+  { region: 'DE', language: 'de', name: 'Notruf', contact: '112', contact_type: 'phone', description: 'Bei akuter Gefahr für Sie oder andere', is_emergency: true, urgent: true },
+  { region: 'ES', language: 'es', name: 'Línea 024 de atención a la conducta suicida', contact: '024', contact_type: 'phone', description: 'Gratuita y confidencial, 24 horas', is_emergency: false, urgent: true },
+  { region: 'ES', language: 'es', name: 'Emergencias', contact: '112', contact_type: 'phone', description: 'Si usted u otra persona está en peligro inmediato', is_emergency: true, urgent: true },
+  { region: INTERNATIONAL_REGION, language: 'en', name: 'Find A Helpline', contact: 'findahelpline.com', contact_type: 'web', description: 'Free, confidential crisis lines in over 130 countries', is_emergency: false, urgent: true },
+];
+
+const LEVEL_TEXT: Record<CrisisResourceLevel, { heading: string; messageLabel: string; closing: string }> = {
+  high: {
+    heading: '🚨 **CRISIS RESOURCES** 🚨',
+    messageLabel: 'Personal Message',
+    closing: 'You are not alone. Please reach out for help immediately.'
+  },
+  medium: {
+    heading: '**Mental Health Support Resources**',
+    messageLabel: 'Note',
+    closing: 'Remember, seeking help is a sign of strength.'
+  },
+  low: {
+    heading: '**Wellness Resources**',
+    messageLabel: 'Gentle Reminder',
+    closing: 'Take care of yourself. Support is available when you need it.'
+  }
+};
+
+let resourceCache: CrisisResource[] | null = null;
+let resourcesLoadedAt = 0;
+
+function builtInResources(): CrisisResource[] {
+  return BUILT_IN_RESOURCES.map((resource, index) => ({
+    ...resource,
+    id: `builtin-${index}`,
+    position: index,
+    is_active: true,
+    updated_by: null,
+    updated_at: ''
+  }));
+}
+
+async function getActiveResources(): Promise<CrisisResource[]> {
+  if (resourceCache && Date.now() - resourcesLoadedAt < CRISIS_RESOURCE_CONFIG.CACHE_MS) {
+    return resourceCache;
+  }
+
+  const { data, error } = await supabase
+    .from('crisis_resources')
+    .select('*')
+    .eq('is_active', true)
+    .order('position', { ascending: true });
+
+  if (error) {
+    // Keep showing the last known directory rather than nothing
+    console.error('Error loading crisis resources:', error);
+    return resourceCache || builtInResources();
+  }
+
+  resourceCache = data && data.length > 0 ? data : builtInResources();
+  resourcesLoadedAt = Date.now();
+  return resourceCache;
+}
+
+/**
+ * Region and language to show crisis resources for: an explicitly requested
+ * region, then the user's profile locale, then the first Accept-Language tag
+ * with a region, then the default region
+ */
+export async function resolveResourceLocale(options: {
+  region?: string | null;
+  userId?: string;
+  acceptLanguage?: string | null;
+}): Promise<ResourceLocale> {
+  const browserTags = parseAcceptLanguage(options.acceptLanguage);
+  let language = browserTags[0]?.language || CRISIS_RESOURCE_CONFIG.DEFAULT_LANGUAGE;
+
+  if (options.userId) {
+    const { data: user } = await supabase
+      .from('users')
+      .select('locale')
+      .eq('user_id', options.userId)
+      .maybeSingle();
+
+    const profile = user?.locale ? parseLocaleTag(user.locale) : null;
+    if (profile) {
+      language = profile.language;
+      if (profile.region && !options.region) {
+        return { region: profile.region, language, source: 'profile' };
+      }
+    }
+  }
+
+  const requested = options.region?.toUpperCase();
+  if (requested && (/^[A-Z]{2}$/.test(requested) || requested === INTERNATIONAL_REGION)) {
+    return { region: requested, language, source: 'requested' };
+  }
+
+  const browser = browserTags.find(tag => tag.region);
+  if (browser) {
+    return { region: browser.region!, language: browser.language, source: 'browser' };
+  }
+
+  return { region: CRISIS_RESOURCE_CONFIG.DEFAULT_REGION, language, source: 'default' };
+}
+
+/**
+ * Pick one language's entries: the user's language where the region has it,
+ * otherwise the default language, otherwise whatever the region lists first
+ */
+function inLanguage(resources: CrisisResource[], language: string): CrisisResource[] {
+  const languages = resources.map(resource => resource.language);
+  const chosen = [language, CRISIS_RESOURCE_CONFIG.DEFAULT_LANGUAGE].find(candidate => languages.includes(candidate)) || languages[0];
+  return resources.filter(resource => resource.language === chosen);
+}
+
+/**
+ * The directory as seen from one locale. A region without entries gets the
+ * international resources instead.
+ */
+export async function getResourceDirectory(locale: ResourceLocale): Promise<CrisisResourceDirectory> {
+  const active = await getActiveResources();
+  const international = inLanguage(active.filter(resource => resource.region === INTERNATIONAL_REGION), locale.language);
+  const regional = inLanguage(active.filter(resource => resource.region === locale.region), locale.language);
+  const regionalEntries = active.filter(resource => resource.region !== INTERNATIONAL_REGION);
+  const regions = Array.from(new Set(regionalEntries.map(resource => resource.region))).sort();
+  const locales = Array.from(new Set(regionalEntries.map(resource => `${resource.language}-${resource.region}`))).sort();
+
+  const otherRegionLines = regions
+    .filter(region => region !== locale.region)
+    .map(region => inLanguage(active.filter(resource => resource.region === region), locale.language)
+      .find(resource => resource.urgent && !resource.is_emergency))
+    .filter((resource): resource is CrisisResource => Boolean(resource));
+
+  return {
+    locale,
+    matched: regional.length > 0,
+    resources: regional.length > 0 ? regional : international,
+    international: [...otherRegionLines, ...(regional.length > 0 ? international : [])],
+    regions,
+    locales
+  };
+}
+
+/**
+ * Crisis resources as markdown for the AI tool and for replies with high
+ * crisis risk. High urgency lists the region's crisis lines and emergency
+ * number first; medium and low leave out the emergency number.
+ */
+export async function getCrisisResources(
+  level: CrisisResourceLevel,
+  locale: ResourceLocale,
+  customMessage?: string
+): Promise<string> {
+  const directory = await getResourceDirectory(locale);
+  const text = LEVEL_TEXT[level];
+  const resources = level === 'high'
+    ? [...directory.resources.filter(resource => resource.urgent), ...directory.resources.filter(resource => !resource.urgent)]
+    : directory.resources.filter(resource => !resource.is_emergency);
+
+  const lines = [text.heading, ''];
+  if (!directory.matched) {
+    lines.push(`No resources are listed for ${regionName(locale.region)} yet. These services can connect you with local support, and in an emergency call your local emergency number.`, '');
+  }
+
+  for (const resource of resources) {
+    lines.push(`**${resource.name}: ${resource.contact}**`, `- ${resource.description}`, '');
+  }
+
+  if (customMessage) {
+    lines.push(`**${text.messageLabel}:** ${customMessage}`, '');
+  }
+
+  lines.push(text.closing);
+  return lines.join('\n');
+}
+
+/**
+ * Phone numbers of every active entry. They are public, so PII redaction
+ * leaves them in place for the model to quote.
+ */
+export async function getCrisisPhoneNumbers(): Promise<string[]> {
+  const resources = await getActiveResources();
+  return resources.filter(resource => resource.contact_type === 'phone').map(resource => resource.contact);
+}
+
+/**
+ * Every entry, active or not, read fresh for the admin
+ */
+export async function listCrisisResources(): Promise<CrisisResource[]> {
+  const { data, error } = await supabase
+    .from('crisis_resources')
+    .select('*')
+    .order('region', { ascending: true })
+    .order('language', { ascending: true })
+    .order('position', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load crisis resources: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * Create an entry, or update it when an id is given
+ */
+export async function saveCrisisResource(input: CrisisResourceInput, userId: string, resourceId?: string): Promise<CrisisResource> {
+  const row = {
+    region: input.region,
+    language: input.language,
+    name: input.name,
+    contact: input.contact,
+    contact_type: input.contactType,
+    description: input.description,
+    is_emergency: input.isEmergency,
+    urgent: input.urgent,
+    position: input.position,
+    is_active: input.isActive,
+    updated_by: userId,
+    updated_at: new Date().toISOString()
+  };
+
+  const query = resourceId
+    ? supabase.from('crisis_resources').update(row).eq('id', resourceId)
+    : supabase.from('crisis_resources').insert(row);
+
+  const { data, error } = await query.select('*').single();
+
+  if (error) {
+    throw new Error(`Failed to save crisis resource: ${error.message}`);
+  }
+
+  resourceCache = null;
+  return data;
+}
+
+export async function deleteCrisisResource(resourceId: string): Promise<void> {
+  const { error } = await supabase
+    .from('crisis_resources')
+    .delete()
+    .eq('id', resourceId);
+
+  if (error) {
+    throw new Error(`Failed to delete crisis resource: ${error.message}`);
+  }
+
+  resourceCache = null;
+}
@@ -0,0 +1,329 @@
+/**
+ * Review queue
+ * Server-side only - the flags raised by flag_for_review, escalate_to_human,
+ * schedule_check_in and crisis screening (session_flags), and the admin
+ * workflow around them: priority, SLA, assignment and resolution. Every change
+ * is recorded in session_flag_events.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { FlagPriority, ReviewQueueItem, SessionFlag, SessionFlagEvent } from '@/types';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export const REVIEW_QUEUE_CONFIG = {
+  // How long a flag of each priority may wait before it is overdue
+  SLA_HOURS: { urgent: 1, high: 4, medium: 24, low: 72 } as Record<FlagPriority, number>,
+  CHECK_IN_HOURS: { '24_hours': 24, '3_days': 72, '1_week': 168, '2_weeks': 336 } as Record<string, number>,
+  MAX_NOTE_CHARS: 1000,
+  RESOLVED_LIMIT: 100,
+};
+
+export const FLAG_PRIORITIES: FlagPriority[] = ['urgent', 'high', 'medium', 'low'];
+
+export interface RaiseFlagInput {
+  sessionId: string;
+  userId: string;
+  flagType: SessionFlag['flag_type'];
+  reason: string;
+  priority: FlagPriority;
+  dueAt?: Date; // Defaults to the SLA for the priority
+}
+
+function slaDueAt(priority: FlagPriority, from: Date): string {
+  return new Date(from.getTime() + REVIEW_QUEUE_CONFIG.SLA_HOURS[priority] * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * When a check-in of the given type (such as '3_days') is due
+ */
+export function checkInDueAt(checkInType: string): Date {
+  const hours = REVIEW_QUEUE_CONFIG.CHECK_IN_HOURS[checkInType] ?? REVIEW_QUEUE_CONFIG.SLA_HOURS.low;
+  return new Date(Date.now() + hours * 60 * 60 * 1000);
+}
+
+async function recordFlagEvent(
+  flagId: string,
+  actorId: string | null,
+  action: SessionFlagEvent['action'],
+  note: string | null = null,
+  details: Record<string, unknown> = {}
+): Promise<void> {
+  const { error } = await supabase
+    .from('session_flag_events')
+    .insert({ flag_id: flagId, actor_id: actorId, action, note, details });
+
+  if (error) {
+    throw new Error(`Failed to record flag history: ${error.message}`);
+  }
+}
+
+/**
+ * Add a flag to the queue. Throws when the flag cannot be stored; a failure to
+ * record its history is only logged, so the flag still reaches admins.
+ */
+export async function raiseFlag(input: RaiseFlagInput): Promise<SessionFlag> {
+  const { data, error } = await supabase
+    .from('session_flags')
+    .insert({
+      session_id: input.sessionId,
+      user_id: input.userId,
+      flag_type: input.flagType,
+      flag_reason: input.reason,
+      priority: input.priority,
+      due_at: input.dueAt ? input.dueAt.toISOString() : slaDueAt(input.priority, new Date())
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  try {
+    await recordFlagEvent(data.id, null, 'created', input.reason, { priority: input.priority, flag_type: input.flagType });
+  } catch (historyError) {
+    console.error('Error recording flag creation:', historyError);
+  }
+
+  return data;
+}
+
+/**
+ * Open flags most urgent first (then the soonest due), or the most recently
+ * resolved ones
+ */
+export async function listReviewQueue(status: 'open' | 'resolved'): Promise<ReviewQueueItem[]> {
+  let query = supabase
+    .from('session_flags')
+    .select(`
+      *,
+      therapy_sessions!session_flags_session_id_fkey(title, session_type),
+      users!session_flags_user_id_fkey(email),
+      assignee:users!session_flags_assigned_to_fkey(email)
+    `)
+    .eq('resolved', status === 'resolved');
+
+  if (status === 'resolved') {
+    query = query.order('resolved_at', { ascending: false }).limit(REVIEW_QUEUE_CONFIG.RESOLVED_LIMIT);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to load review queue: ${error.message}`);
+  }
+
+  const items: ReviewQueueItem[] = (data || []).map(({ therapy_sessions, users, assignee, ...flag }) => ({
+    ...flag,
+    session_title: therapy_sessions?.title ?? null,
+    session_type: therapy_sessions?.session_type ?? null,
+    user_email: users?.email ?? null,
+    assignee_email: assignee?.email ?? null
+  }));
+
+  if (status === 'open') {
+    items.sort((a, b) =>
+      FLAG_PRIORITIES.indexOf(a.priority) - FLAG_PRIORITIES.indexOf(b.priority) ||
+      (a.due_at || a.created_at).localeCompare(b.due_at || b.created_at)
+    );
+  }
+
+  return items;
+}
+
+export async function getFlagHistory(flagId: string): Promise<SessionFlagEvent[]> {
+  const { data, error } = await supabase
+    .from('session_flag_events')
+    .select('*, users!session_flag_events_actor_id_fkey(email)')
+    .eq('flag_id', flagId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load flag history: ${error.message}`);
+  }
+
+  return (data || []).map(({ users, ...event }) => ({ ...event, actor_email: users?.email ?? null }));
+}
+
+/**
+ * Admins a flag can be assigned to
+ */
+export async function listReviewers(): Promise<{ user_id: string; email: string }[]> {
+  const { data, error } = await supabase
+    .from('users')
+    .select('user_id, email')
+    .eq('is_admin', true)
+    .order('email');
+
+  if (error) {
+    throw new Error(`Failed to load admins: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+async function getFlag(flagId: string): Promise<SessionFlag> {
+  const { data, error } = await supabase
+    .from('session_flags')
+    .select('*')
+    .eq('id', flagId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load flag: ${error.message}`);
+  }
+  if (!data) {
+    throw new Error('Flag not found');
+  }
+
+  return data;
+}
+
+async function getOpenFlag(flagId: string): Promise<SessionFlag> {
+  const flag = await getFlag(flagId);
+  if (flag.resolved) {
+    throw new Error('Flag is already resolved; reopen it first');
+  }
+  return flag;
+}
+
+function validateNote(note: string | null | undefined, required: boolean): string | null {
+  const trimmed = typeof note === 'string' ? note.trim() : '';
+  if (required && !trimmed) {
+    throw new Error('A note is required');
+  }
+  if (trimmed.length > REVIEW_QUEUE_CONFIG.MAX_NOTE_CHARS) {
+    throw new Error(`Note must be at most ${REVIEW_QUEUE_CONFIG.MAX_NOTE_CHARS} characters`);
+  }
+  return trimmed || null;
+}
+
+/**
+ * Apply changes to a flag only while the columns in `expected` still hold the
+ * values that were read, which keeps two admins from acting on a stale flag
+ */
+async function updateFlag(
+  flagId: string,
+  changes: Record<string, unknown>,
+  expected: Partial<Pick<SessionFlag, 'resolved' | 'assigned_to' | 'priority'>>
+): Promise<SessionFlag> {
+  let query = supabase
+    .from('session_flags')
+    .update(changes)
+    .eq('id', flagId);
+
+  for (const [column, value] of Object.entries(expected)) {
+    query = value === null || value === undefined ? query.is(column, null) : query.eq(column, value);
+  }
+
+  const { data, error } = await query
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update flag: ${error.message}`);
+  }
+  if (!data) {
+    throw new Error('Flag was changed by someone else; reload the queue');
+  }
+
+  return data;
+}
+
+/**
+ * Assign an open flag to an admin, or unassign it with null
+ */
+export async function assignFlag(flagId: string, assigneeId: string | null, actorId: string): Promise<SessionFlag> {
+  const flag = await getOpenFlag(flagId);
+
+  if (assigneeId && !(await listReviewers()).some(reviewer => reviewer.user_id === assigneeId)) {
+    throw new Error('Flags can only be assigned to admins');
+  }
+
+  const updated = await updateFlag(flagId, {
+    assigned_to: assigneeId,
+    assigned_at: assigneeId ? new Date().toISOString() : null
+  }, { resolved: false, assigned_to: flag.assigned_to });
+
+  await recordFlagEvent(flagId, actorId, assigneeId ? 'assigned' : 'unassigned', null, {
+    from: flag.assigned_to,
+    to: assigneeId
+  });
+
+  return updated;
+}
+
+/**
+ * Change an open flag's priority. Its SLA restarts from when it was raised;
+ * check-ins keep their scheduled time.
+ */
+export async function changeFlagPriority(flagId: string, priority: FlagPriority, actorId: string): Promise<SessionFlag> {
+  if (!FLAG_PRIORITIES.includes(priority)) {
+    throw new Error(`priority must be one of: ${FLAG_PRIORITIES.join(', ')}`);
+  }
+
+  const flag = await getOpenFlag(flagId);
+  const updated = await updateFlag(flagId, {
+    priority,
+    ...(flag.flag_type === 'check_in' ? {} : { due_at: slaDueAt(priority, new Date(flag.created_at)) })
+  }, { resolved: false, priority: flag.priority });
+
+  await recordFlagEvent(flagId, actorId, 'priority_changed', null, { from: flag.priority, to: priority });
+
+  return updated;
+}
+
+export async function addFlagNote(flagId: string, note: string, actorId: string): Promise<void> {
+  await getFlag(flagId);
+  await recordFlagEvent(flagId, actorId, 'noted', validateNote(note, true));
+}
+
+/**
+ * Resolve an open flag; the note says what was done
+ */
+export async function resolveFlag(flagId: string, note: string, actorId: string): Promise<SessionFlag> {
+  const resolutionNote = validateNote(note, true);
+  await getOpenFlag(flagId);
+
+  const updated = await updateFlag(flagId, {
+    resolved: true,
+    resolved_at: new Date().toISOString(),
+    resolved_by: actorId,
+    resolution_note: resolutionNote
+  }, { resolved: false });
+
+  await recordFlagEvent(flagId, actorId, 'resolved', resolutionNote);
+
+  return updated;
+}
+
+/**
+ * Put a resolved flag back in the queue. The earlier resolution stays in the
+ * flag's history.
+ */
+export async function reopenFlag(flagId: string, note: string, actorId: string): Promise<SessionFlag> {
+  const reopenNote = validateNote(note, true);
+  const flag = await getFlag(flagId);
+  if (!flag.resolved) {
+    throw new Error('Flag is not resolved');
+  }
+
+  const updated = await updateFlag(flagId, {
+    resolved: false,
+    resolved_at: null,
+    resolved_by: null,
+    resolution_note: null
+  }, { resolved: true });
+
+  await recordFlagEvent(flagId, actorId, 'reopened', reopenNote, {
+    resolved_by: flag.resolved_by,
+    resolved_at: flag.resolved_at,
+    resolution_note: flag.resolution_note
+  });
+
+  return updated;
+}
@@ -0,0 +1,127 @@
+/**
+ * Safety plans
+ * Server-side only - each user's personal safety plan (safety_plans), edited
+ * by the user on /dashboard/safety-plan and by the AI through the
+ * update_safety_plan tool.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { SafetyPlan, SafetyPlanContact, SafetyPlanContent, SafetyPlanSection } from '@/types';
+import { emptySafetyPlan, SAFETY_PLAN_LIMITS, SAFETY_PLAN_SECTIONS } from '@/lib/safety-plan';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export async function getSafetyPlan(userId: string): Promise<SafetyPlan | null> {
+  const { data, error } = await supabase
+    .from('safety_plans')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load safety plan: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Replace the user's plan with a validated one
+ */
+export async function saveSafetyPlan(userId: string, plan: SafetyPlanContent): Promise<SafetyPlan> {
+  const { data, error } = await supabase
+    .from('safety_plans')
+    .upsert({
+      user_id: userId,
+      ...plan,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'user_id' })
+    .select('*')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save safety plan: ${error.message}`);
+  }
+
+  return data;
+}
+
+function sameEntry(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Add one entry to a section, or remove it (matched by text, or by name for
+ * people), starting a plan if the user has none. Throws when the entry is
+ * invalid, the section is full or there is nothing to remove.
+ */
+export async function updateSafetyPlanSection(
+  userId: string,
+  section: SafetyPlanSection,
+  action: 'add' | 'remove',
+  item: string,
+  contact: Omit<SafetyPlanContact, 'name'> = {}
+): Promise<SafetyPlan> {
+  const info = SAFETY_PLAN_SECTIONS.find(entry => entry.key === section);
+  if (!info) {
+    throw new Error(`section must be one of: ${SAFETY_PLAN_SECTIONS.map(entry => entry.key).join(', ')}`);
+  }
+
+  if (!item.trim() || item.length > SAFETY_PLAN_LIMITS.MAX_ITEM_CHARS) {
+    throw new Error(`item must be 1 to ${SAFETY_PLAN_LIMITS.MAX_ITEM_CHARS} characters`);
+  }
+
+  const existing = await getSafetyPlan(userId);
+  const plan: SafetyPlanContent = existing
+    ? {
+        warning_signs: existing.warning_signs,
+        coping_strategies: existing.coping_strategies,
+        contacts: existing.contacts,
+        professionals: existing.professionals,
+        safe_environment: existing.safe_environment
+      }
+    : emptySafetyPlan();
+
+  // Sections hold text or people; this function handles both alike
+  const sections = plan as unknown as Record<SafetyPlanSection, (string | SafetyPlanContact)[]>;
+  const entries = sections[section];
+  const matches = (entry: string | SafetyPlanContact) => sameEntry(typeof entry === 'string' ? entry : entry.name, item);
+
+  if (action === 'remove') {
+    if (!entries.some(matches)) {
+      throw new Error(`"${item}" is not in ${info.title.toLowerCase()}`);
+    }
+    sections[section] = entries.filter(entry => !matches(entry));
+  } else {
+    if (entries.length >= SAFETY_PLAN_LIMITS.MAX_ITEMS) {
+      throw new Error(`${info.title} already has ${SAFETY_PLAN_LIMITS.MAX_ITEMS} entries`);
+    }
+    if (contact.phone && contact.phone.length > SAFETY_PLAN_LIMITS.MAX_PHONE_CHARS) {
+      throw new Error(`phone must be at most ${SAFETY_PLAN_LIMITS.MAX_PHONE_CHARS} characters`);
+    }
+
+    // Adding an entry that is already there replaces it, so details can be corrected
+    const entry = info.contacts
+      ? { name: item.trim(), ...(contact.phone ? { phone: contact.phone.trim() } : {}), ...(contact.note ? { note: contact.note.trim() } : {}) }
+      : item.trim();
+    sections[section] = [...entries.filter(existingEntry => !matches(existingEntry)), entry];
+  }
+
+  return saveSafetyPlan(userId, plan);
+}
+
+/**
+ * The plan as text for the AI, one section per line group
+ */
+export function formatSafetyPlan(plan: SafetyPlanContent): string {
+  return SAFETY_PLAN_SECTIONS.map(section => {
+    const entries: (string | SafetyPlanContact)[] = plan[section.key];
+    const lines = entries.map(entry => typeof entry === 'string'
+      ? `- ${entry}`
+      : `- ${entry.name}${entry.note ? ` (${entry.note})` : ''}${entry.phone ? `: ${entry.phone}` : ''}`);
+    return `${section.title} [${section.key}]:\n${lines.length > 0 ? lines.join('\n') : '- (empty)'}`;
+  }).join('\n\n');
+}
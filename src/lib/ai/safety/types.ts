@@ -0,0 +1,39 @@
+export type CrisisRiskLevel = 'none' | 'low' | 'medium' | 'high';
+
+export type CrisisSignalSource = 'lexicon' | 'pattern' | 'classifier';
+
+// One reason a message was given a risk level
+export interface CrisisSignal {
+  source: CrisisSignalSource;
+  rule: string; // Lexicon phrase, pattern rule name or 'classifier'
+  level: CrisisRiskLevel;
+  match?: string; // Text that matched
+  negated?: boolean; // Phrase preceded by a negation ("I'm not suicidal"), so only counted as low
+}
+
+export interface CrisisAssessment {
+  riskLevel: CrisisRiskLevel;
+  signals: CrisisSignal[];
+  classifierScore: number | null; // null when no classifier is configured or it did not answer
+}
+
+export type CrisisAction = 'prompt_adjusted' | 'resources_injected' | 'escalated';
+
+// Outcome of screening a message, for the chat route
+export interface CrisisScreening {
+  riskLevel: CrisisRiskLevel;
+  resources: string | null; // Crisis resources to add to the reply
+}
+
+// Stored audit row, one per screened message
+export interface CrisisDetection {
+  id: string;
+  session_id: string;
+  user_id: string | null;
+  message_id: string | null;
+  risk_level: CrisisRiskLevel;
+  signals: CrisisSignal[];
+  classifier_score: number | null;
+  actions: CrisisAction[];
+  created_at: string;
+}
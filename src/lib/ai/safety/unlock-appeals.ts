@@ -0,0 +1,410 @@
+/**
+ * Unlock appeals
+ * Server-side only - users ask for a session the AI locked with
+ * end_and_lock_session to be reopened (session_unlock_appeals). An admin
+ * reads the statement with the transcript around the lock and unlocks the
+ * session, keeps the lock, or unlocks it with conditions the AI is told
+ * about. Each appeal is decided once and keeps who decided what and when.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { decryptRows, decryptToolInvocations, ENCRYPTED_FIELDS } from '@/lib/security/field-encryption';
+import { SessionMessage, SessionUnlockAppeal, ToolInvocation, UnlockAppealReview, UnlockAppealStatus, WellnessSession } from '@/types';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export const UNLOCK_APPEAL_CONFIG = {
+  MAX_STATEMENT_CHARS: 2000,
+  MAX_NOTE_CHARS: 1000,
+  REAPPEAL_AFTER_HOURS: 24, // After a lock is kept
+  TRANSCRIPT_BEFORE_LOCK: 20, // Messages shown to the reviewer
+  TRANSCRIPT_AFTER_LOCK: 5,
+  DECIDED_LIMIT: 100,
+};
+
+export type UnlockAppealDecision = Exclude<UnlockAppealStatus, 'pending'>;
+
+export const UNLOCK_APPEAL_DECISIONS: UnlockAppealDecision[] = ['unlocked', 'unlocked_with_conditions', 'kept_locked'];
+
+type LockState = Pick<WellnessSession, 'is_locked' | 'locked_by' | 'can_unlock'>;
+
+/**
+ * A request the user or reviewer can correct, as opposed to a storage
+ * failure: an 'invalid' statement or decision, a session or appeal
+ * 'not_found', or a 'conflict' with the lock's state (not appealable, already
+ * pending, or before the re-appeal cooldown) or an appeal already decided
+ */
+export class UnlockAppealError extends Error {
+  constructor(message: string, readonly code: 'invalid' | 'not_found' | 'conflict') {
+    super(message);
+    this.name = 'UnlockAppealError';
+  }
+}
+
+/**
+ * Only locks the AI placed and that may be lifted can be appealed;
+ * completed introductions and admin locks cannot
+ */
+export function isAppealableLock(session: LockState): boolean {
+  return !!session.is_locked && session.locked_by === 'ai' && session.can_unlock !== false;
+}
+
+/**
+ * The most recent appeal for a session, or null
+ */
+export async function getLatestAppeal(sessionId: string): Promise<SessionUnlockAppeal | null> {
+  const { data, error } = await supabase
+    .from('session_unlock_appeals')
+    .select('*')
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load appeal: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * When the user may appeal again after a lock was kept (ISO timestamp), or
+ * null when no cooldown applies. Clients format it in the user's own locale.
+ */
+export function reappealAvailableAt(latest: SessionUnlockAppeal | null): string | null {
+  if (latest?.status !== 'kept_locked' || !latest.decided_at) {
+    return null;
+  }
+  const reappealAt = new Date(latest.decided_at).getTime() + UNLOCK_APPEAL_CONFIG.REAPPEAL_AFTER_HOURS * 60 * 60 * 1000;
+  return Date.now() < reappealAt ? new Date(reappealAt).toISOString() : null;
+}
+
+/**
+ * Why the user cannot appeal this session's lock right now, or null if they can
+ */
+export function appealBlockedReason(session: LockState, latest: SessionUnlockAppeal | null): string | null {
+  if (!isAppealableLock(session)) {
+    return 'This session cannot be appealed';
+  }
+  if (latest?.status === 'pending') {
+    return 'An appeal for this session is already being reviewed';
+  }
+  if (reappealAvailableAt(latest)) {
+    return `You can appeal again ${UNLOCK_APPEAL_CONFIG.REAPPEAL_AFTER_HOURS} hours after the decision to keep the lock`;
+  }
+  return null;
+}
+
+/**
+ * The lock on the owner's session, its latest appeal, why it cannot be
+ * appealed right now (null if it can) and when a kept lock can be appealed
+ * again. Null when the session is not theirs.
+ */
+export async function getAppealState(sessionId: string, userId: string): Promise<{
+  session: Pick<WellnessSession, 'is_locked' | 'locked_by' | 'locked_at' | 'lock_reason' | 'can_unlock'>;
+  appeal: SessionUnlockAppeal | null;
+  blockedReason: string | null;
+  reappealAt: string | null;
+} | null> {
+  const { data: session, error } = await supabase
+    .from('therapy_sessions')
+    .select('user_id, is_locked, locked_by, locked_at, lock_reason, can_unlock')
+    .eq('session_id', sessionId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load session: ${error.message}`);
+  }
+  if (!session || session.user_id !== userId) {
+    return null;
+  }
+
+  const appeal = await getLatestAppeal(sessionId);
+  return {
+    session,
+    appeal,
+    blockedReason: appealBlockedReason(session, appeal),
+    reappealAt: reappealAvailableAt(appeal)
+  };
+}
+
+/**
+ * File an appeal for the owner's locked session. Throws an UnlockAppealError
+ * with a message the user can read when the session cannot be appealed.
+ */
+export async function submitAppeal(sessionId: string, userId: string, statement: string): Promise<SessionUnlockAppeal> {
+  const trimmed = statement.trim();
+  if (!trimmed || trimmed.length > UNLOCK_APPEAL_CONFIG.MAX_STATEMENT_CHARS) {
+    throw new UnlockAppealError(`Your statement must be 1 to ${UNLOCK_APPEAL_CONFIG.MAX_STATEMENT_CHARS} characters`, 'invalid');
+  }
+
+  const state = await getAppealState(sessionId, userId);
+  if (!state) {
+    throw new UnlockAppealError('Session not found', 'not_found');
+  }
+  if (state.blockedReason) {
+    throw new UnlockAppealError(state.blockedReason, 'conflict');
+  }
+
+  const { data, error } = await supabase
+    .from('session_unlock_appeals')
+    .insert({
+      session_id: sessionId,
+      user_id: userId,
+      statement: trimmed,
+      lock_reason: state.session.lock_reason,
+      locked_at: state.session.locked_at
+    })
+    .select('*')
+    .single();
+
+  // The pending-appeal index catches a second appeal submitted at the same time
+  if (error?.code === '23505') {
+    throw new UnlockAppealError('An appeal for this session is already being reviewed', 'conflict');
+  }
+  if (error) {
+    throw new Error(`Failed to submit appeal: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Record that the user has seen the outcome of their appeal
+ */
+export async function markAppealSeen(appealId: string, userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('session_unlock_appeals')
+    .update({ user_notified_at: new Date().toISOString() })
+    .eq('id', appealId)
+    .eq('user_id', userId)
+    .neq('status', 'pending')
+    .is('user_notified_at', null);
+
+  if (error) {
+    throw new Error(`Failed to update appeal: ${error.message}`);
+  }
+}
+
+/**
+ * Decided appeals whose outcome the user has not seen yet
+ */
+export async function listUnseenOutcomes(userId: string): Promise<UnlockAppealReview[]> {
+  const { data, error } = await supabase
+    .from('session_unlock_appeals')
+    .select('*, therapy_sessions(title)')
+    .eq('user_id', userId)
+    .neq('status', 'pending')
+    .is('user_notified_at', null)
+    .order('decided_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load appeals: ${error.message}`);
+  }
+
+  return (data || []).map(({ therapy_sessions, ...appeal }) => ({
+    ...appeal,
+    session_title: therapy_sessions?.title ?? null,
+    user_email: null,
+    decided_by_email: null
+  }));
+}
+
+/**
+ * Pending appeals oldest first, or the most recently decided ones
+ */
+export async function listAppeals(status: 'pending' | 'decided'): Promise<UnlockAppealReview[]> {
+  let query = supabase
+    .from('session_unlock_appeals')
+    .select(`
+      *,
+      therapy_sessions(title),
+      users!session_unlock_appeals_user_id_fkey(email),
+      decider:users!session_unlock_appeals_decided_by_fkey(email)
+    `);
+
+  query = status === 'pending'
+    ? query.eq('status', 'pending').order('created_at', { ascending: true })
+    : query.neq('status', 'pending').order('decided_at', { ascending: false }).limit(UNLOCK_APPEAL_CONFIG.DECIDED_LIMIT);
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to load appeals: ${error.message}`);
+  }
+
+  return (data || []).map(({ therapy_sessions, users, decider, ...appeal }) => ({
+    ...appeal,
+    session_title: therapy_sessions?.title ?? null,
+    user_email: users?.email ?? null,
+    decided_by_email: decider?.email ?? null
+  }));
+}
+
+/**
+ * What the reviewer needs: the messages around the lock and the
+ * end_and_lock_session call that placed it
+ */
+export async function getAppealContext(appealId: string): Promise<{
+  appeal: SessionUnlockAppeal;
+  transcript: SessionMessage[];
+  lockCall: ToolInvocation | null;
+}> {
+  const { data: appeal, error } = await supabase
+    .from('session_unlock_appeals')
+    .select('*')
+    .eq('id', appealId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load appeal: ${error.message}`);
+  }
+  if (!appeal) {
+    throw new UnlockAppealError('Appeal not found', 'not_found');
+  }
+
+  const lockedAt = appeal.locked_at || appeal.created_at;
+  const [before, after, lockCall] = await Promise.all([
+    supabase
+      .from('session_messages')
+      .select('*')
+      .eq('session_id', appeal.session_id)
+      .lte('timestamp', lockedAt)
+      .order('timestamp', { ascending: false })
+      .limit(UNLOCK_APPEAL_CONFIG.TRANSCRIPT_BEFORE_LOCK),
+    supabase
+      .from('session_messages')
+      .select('*')
+      .eq('session_id', appeal.session_id)
+      .gt('timestamp', lockedAt)
+      .order('timestamp', { ascending: true })
+      .limit(UNLOCK_APPEAL_CONFIG.TRANSCRIPT_AFTER_LOCK),
+    supabase
+      .from('tool_invocations')
+      .select('*')
+      .eq('session_id', appeal.session_id)
+      .eq('tool_name', 'end_and_lock_session')
+      .eq('success', true)
+      .lte('created_at', lockedAt)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+  ]);
+
+  if (before.error || after.error) {
+    throw new Error(`Failed to load transcript: ${(before.error || after.error)!.message}`);
+  }
+
+  return {
+    appeal,
+    transcript: await decryptRows(
+      [...(before.data || []).reverse(), ...(after.data || [])],
+      ENCRYPTED_FIELDS.session_messages
+    ),
+    lockCall: lockCall.data ? (await decryptToolInvocations<ToolInvocation>([lockCall.data]))[0] : null
+  };
+}
+
+/**
+ * Decide a pending appeal. Unlocking reopens the session; conditions are
+ * required for unlocked_with_conditions and shown to the user and the AI.
+ */
+export async function decideAppeal(
+  appealId: string,
+  decision: UnlockAppealDecision,
+  details: { note?: string; conditions?: string },
+  adminId: string
+): Promise<SessionUnlockAppeal> {
+  if (!UNLOCK_APPEAL_DECISIONS.includes(decision)) {
+    throw new UnlockAppealError(`decision must be one of: ${UNLOCK_APPEAL_DECISIONS.join(', ')}`, 'invalid');
+  }
+
+  const note = details.note?.trim() || null;
+  const conditions = decision === 'unlocked_with_conditions' ? details.conditions?.trim() || null : null;
+  if (decision === 'unlocked_with_conditions' && !conditions) {
+    throw new UnlockAppealError('Conditions are required to unlock with conditions', 'invalid');
+  }
+  if ((note?.length ?? 0) > UNLOCK_APPEAL_CONFIG.MAX_NOTE_CHARS || (conditions?.length ?? 0) > UNLOCK_APPEAL_CONFIG.MAX_NOTE_CHARS) {
+    throw new UnlockAppealError(`Note and conditions must be at most ${UNLOCK_APPEAL_CONFIG.MAX_NOTE_CHARS} characters`, 'invalid');
+  }
+
+  // Only a pending appeal can be decided, so two admins cannot both decide it
+  const { data: appeal, error } = await supabase
+    .from('session_unlock_appeals')
+    .update({
+      status: decision,
+      decision_note: note,
+      conditions,
+      decided_by: adminId,
+      decided_at: new Date().toISOString()
+    })
+    .eq('id', appealId)
+    .eq('status', 'pending')
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to decide appeal: ${error.message}`);
+  }
+  if (!appeal) {
+    const { data: existing } = await supabase
+      .from('session_unlock_appeals')
+      .select('id')
+      .eq('id', appealId)
+      .maybeSingle();
+    throw existing
+      ? new UnlockAppealError('This appeal has already been decided', 'conflict')
+      : new UnlockAppealError('Appeal not found', 'not_found');
+  }
+
+  if (decision !== 'kept_locked') {
+    const { error: unlockError } = await supabase
+      .from('therapy_sessions')
+      .update({
+        is_locked: false,
+        locked_at: null,
+        locked_by: null,
+        lock_reason: null,
+        can_unlock: true
+      })
+      .eq('session_id', appeal.session_id);
+
+    if (unlockError) {
+      // Put the appeal back so it can be decided again
+      await supabase
+        .from('session_unlock_appeals')
+        .update({ status: 'pending', decision_note: null, conditions: null, decided_by: null, decided_at: null })
+        .eq('id', appealId);
+      throw new Error(`Failed to unlock session: ${unlockError.message}`);
+    }
+  }
+
+  return appeal;
+}
+
+/**
+ * Conditions the session was reopened under, for the system prompt. Only an
+ * upheld appeal unlocks a session, so the most recently decided one of those
+ * is the current unlock; a newer appeal still pending or kept locked does not
+ * change it.
+ */
+export async function getUnlockConditions(sessionId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('session_unlock_appeals')
+    .select('status, conditions')
+    .eq('session_id', sessionId)
+    .in('status', ['unlocked', 'unlocked_with_conditions'])
+    .order('decided_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load unlock conditions: ${error.message}`);
+  }
+
+  return data?.status === 'unlocked_with_conditions' ? data.conditions : null;
+}
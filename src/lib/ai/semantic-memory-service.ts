@@ -0,0 +1,378 @@
+/**
+ * Semantic Memory Service
+ * Server-side only - stores embeddings of user memory and past session
+ * summaries in pgvector and retrieves the entries most relevant to a message.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { getEmbeddingProvider } from './embeddings';
+import { decryptField, decryptRows, encryptField, ENCRYPTED_FIELDS } from '@/lib/security/field-encryption';
+import type { UserMemory } from './memory-service';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export const SEMANTIC_MEMORY_CONFIG = {
+  MEMORY_MATCH_COUNT: 8, // Memories included in the system prompt
+  SUMMARY_MATCH_COUNT: 3, // Past session summaries included in the system prompt
+  BACKFILL_BATCH_SIZE: 50,
+};
+
+export type EmbeddingSourceType = 'user_memory' | 'session_summary';
+
+export interface MemoryMatch {
+  source_type: EmbeddingSourceType;
+  source_id: string;
+  session_id: string | null;
+  content: string;
+  similarity: number;
+}
+
+export interface BackfillResult {
+  scanned: number;
+  indexed: number;
+  nextCursor: string | null; // Pass back to continue; null once every row has been scanned
+}
+
+function memoryContent(memory: Pick<UserMemory, 'memory_key' | 'memory_value'>): string {
+  return `${memory.memory_key}: ${memory.memory_value}`;
+}
+
+async function upsertEmbeddings(
+  rows: Array<{ user_id: string; source_type: EmbeddingSourceType; source_id: string; session_id?: string | null; content: string }>
+): Promise<void> {
+  if (rows.length === 0) {
+    return;
+  }
+
+  const provider = getEmbeddingProvider();
+  const vectors = await provider.embed(rows.map(row => row.content));
+
+  const encrypted = await Promise.all(rows.map(row => encryptField(row.user_id, row.content)));
+
+  const { error } = await supabase
+    .from('memory_embeddings')
+    .upsert(rows.map((row, i) => ({
+      user_id: row.user_id,
+      source_type: row.source_type,
+      source_id: row.source_id,
+      session_id: row.session_id || null,
+      content: encrypted[i],
+      embedding: vectors[i],
+      embedding_model: provider.model,
+      updated_at: new Date().toISOString()
+    })), { onConflict: 'source_type,source_id,embedding_model' });
+
+  if (error) {
+    throw new Error(`Failed to store embeddings: ${error.message}`);
+  }
+}
+
+/**
+ * Embed a memory item so it can be retrieved by meaning.
+ * Failures are logged rather than thrown; the memory itself is already saved.
+ */
+export async function indexMemory(
+  memory: Pick<UserMemory, 'id' | 'user_id' | 'memory_key' | 'memory_value'>
+): Promise<void> {
+  try {
+    await upsertEmbeddings([{
+      user_id: memory.user_id,
+      source_type: 'user_memory',
+      source_id: memory.id,
+      content: memoryContent(memory)
+    }]);
+  } catch (error) {
+    console.error('indexMemory error:', error);
+  }
+}
+
+/**
+ * Embed a session summary so later sessions can recall it
+ */
+export async function indexSessionSummary(
+  summaryId: string,
+  sessionId: string,
+  userId: string,
+  summary: string
+): Promise<void> {
+  try {
+    await upsertEmbeddings([{
+      user_id: userId,
+      source_type: 'session_summary',
+      source_id: summaryId,
+      session_id: sessionId,
+      content: summary
+    }]);
+  } catch (error) {
+    console.error('indexSessionSummary error:', error);
+  }
+}
+
+/**
+ * Remove the embeddings of a memory item (all models)
+ */
+export async function removeMemoryEmbedding(memoryId: string): Promise<void> {
+  const { error } = await supabase
+    .from('memory_embeddings')
+    .delete()
+    .eq('source_type', 'user_memory')
+    .eq('source_id', memoryId);
+
+  if (error) {
+    console.error('Error removing memory embedding:', error);
+  }
+}
+
+/**
+ * Remove every memory embedding for a user (session summaries are kept,
+ * they are removed along with their sessions)
+ */
+export async function removeUserMemoryEmbeddings(userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('memory_embeddings')
+    .delete()
+    .eq('source_type', 'user_memory')
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('Error removing user memory embeddings:', error);
+  }
+}
+
+/**
+ * Find the stored entries closest in meaning to the query, most similar first.
+ * Matches below the backend's similarity threshold are left out.
+ */
+export async function searchMemoryEmbeddings(
+  userId: string,
+  query: string,
+  sourceType: EmbeddingSourceType,
+  limit: number
+): Promise<MemoryMatch[]> {
+  const provider = getEmbeddingProvider();
+  const [queryEmbedding] = await provider.embed([query]);
+
+  const { data, error } = await supabase.rpc('match_memory_embeddings', {
+    query_embedding: queryEmbedding,
+    match_user_id: userId,
+    match_model: provider.model,
+    match_source_type: sourceType,
+    match_count: limit
+  });
+
+  if (error) {
+    throw new Error(`Failed to search memory embeddings: ${error.message}`);
+  }
+
+  const matches = ((data || []) as MemoryMatch[]).filter(match => match.similarity >= provider.minSimilarity);
+  return decryptRows(matches, ENCRYPTED_FIELDS.memory_embeddings);
+}
+
+/**
+ * Whether the user has any memory embedded with the current model.
+ * Until the backfill has run, callers fall back to loading all memory.
+ */
+export async function hasMemoryEmbeddings(userId: string): Promise<boolean> {
+  const { count, error } = await supabase
+    .from('memory_embeddings')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .eq('source_type', 'user_memory')
+    .eq('embedding_model', getEmbeddingProvider().model);
+
+  if (error) {
+    console.error('Error checking memory embeddings:', error);
+    return false;
+  }
+
+  return (count || 0) > 0;
+}
+
+/**
+ * Summaries of the user's past sessions most relevant to the query
+ */
+export async function getRelevantSessionSummaries(
+  userId: string,
+  query: string,
+  excludeSessionId?: string
+): Promise<string[]> {
+  try {
+    const matches = await searchMemoryEmbeddings(
+      userId,
+      query,
+      'session_summary',
+      SEMANTIC_MEMORY_CONFIG.SUMMARY_MATCH_COUNT + 1
+    );
+
+    return matches
+      .filter(match => match.session_id !== excludeSessionId)
+      .slice(0, SEMANTIC_MEMORY_CONFIG.SUMMARY_MATCH_COUNT)
+      .map(match => match.content);
+  } catch (error) {
+    console.error('getRelevantSessionSummaries error:', error);
+    return [];
+  }
+}
+
+/**
+ * Embed existing user_memory rows that have no embedding for the current
+ * model. Processes one batch per call, paging by id.
+ */
+export async function backfillMemoryEmbeddings(
+  cursor: string | null,
+  batchSize: number = SEMANTIC_MEMORY_CONFIG.BACKFILL_BATCH_SIZE
+): Promise<BackfillResult> {
+  let query = supabase
+    .from('user_memory')
+    .select('id, user_id, memory_key, memory_value')
+    .eq('is_active', true)
+    .order('id', { ascending: true })
+    .limit(batchSize);
+
+  if (cursor) {
+    query = query.gt('id', cursor);
+  }
+
+  const { data: memories, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load memory for backfill: ${error.message}`);
+  }
+
+  if (!memories || memories.length === 0) {
+    return { scanned: 0, indexed: 0, nextCursor: null };
+  }
+
+  const missing = await filterUnindexed('user_memory', memories);
+  await upsertEmbeddings(await Promise.all(missing.map(async memory => ({
+    user_id: memory.user_id,
+    source_type: 'user_memory' as const,
+    source_id: memory.id,
+    content: memoryContent({ ...memory, memory_value: await decryptField(memory.memory_value) })
+  }))));
+
+  return {
+    scanned: memories.length,
+    indexed: missing.length,
+    nextCursor: memories.length < batchSize ? null : memories[memories.length - 1].id
+  };
+}
+
+/**
+ * Embed existing session summaries (session_memory rows) that have no
+ * embedding for the current model
+ */
+export async function backfillSessionSummaryEmbeddings(
+  cursor: string | null,
+  batchSize: number = SEMANTIC_MEMORY_CONFIG.BACKFILL_BATCH_SIZE
+): Promise<BackfillResult> {
+  let query = supabase
+    .from('session_memory')
+    .select('id, session_id, summary')
+    .order('id', { ascending: true })
+    .limit(batchSize);
+
+  if (cursor) {
+    query = query.gt('id', cursor);
+  }
+
+  const { data: summaries, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load session summaries for backfill: ${error.message}`);
+  }
+
+  if (!summaries || summaries.length === 0) {
+    return { scanned: 0, indexed: 0, nextCursor: null };
+  }
+
+  const missing = await filterUnindexed('session_summary', summaries);
+
+  // session_memory has no user column; the owner comes from the session
+  const { data: sessions } = await supabase
+    .from('therapy_sessions')
+    .select('session_id, user_id')
+    .in('session_id', missing.map(summary => summary.session_id));
+
+  const owners = new Map((sessions || []).map(session => [session.session_id, session.user_id]));
+  const rows = missing
+    .filter(summary => summary.summary && owners.has(summary.session_id))
+    .map(summary => ({
+      user_id: owners.get(summary.session_id)!,
+      source_type: 'session_summary' as const,
+      source_id: summary.id,
+      session_id: summary.session_id,
+      content: summary.summary
+    }));
+
+  await upsertEmbeddings(rows);
+
+  return {
+    scanned: summaries.length,
+    indexed: rows.length,
+    nextCursor: summaries.length < batchSize ? null : summaries[summaries.length - 1].id
+  };
+}
+
+async function filterUnindexed<T extends { id: string }>(
+  sourceType: EmbeddingSourceType,
+  rows: T[]
+): Promise<T[]> {
+  const { data: existing, error } = await supabase
+    .from('memory_embeddings')
+    .select('source_id')
+    .eq('source_type', sourceType)
+    .eq('embedding_model', getEmbeddingProvider().model)
+    .in('source_id', rows.map(row => row.id));
+
+  if (error) {
+    throw new Error(`Failed to check existing embeddings: ${error.message}`);
+  }
+
+  const indexed = new Set((existing || []).map(row => row.source_id));
+  return rows.filter(row => !indexed.has(row.id));
+}
+
+/**
+ * Coverage of the current embedding model, for the admin backfill panel
+ */
+export async function getEmbeddingCoverage(): Promise<{
+  backend: string;
+  model: string;
+  memories: { total: number; indexed: number };
+  sessionSummaries: { total: number; indexed: number };
+}> {
+  const provider = getEmbeddingProvider();
+
+  const count = async (table: string, filter?: { column: string; value: string | boolean }) => {
+    let query = supabase.from(table).select('*', { count: 'exact', head: true });
+    if (filter) {
+      query = query.eq(filter.column, filter.value);
+    }
+    const { count: total } = await query;
+    return total || 0;
+  };
+
+  const countIndexed = async (sourceType: EmbeddingSourceType) => {
+    const { count: total } = await supabase
+      .from('memory_embeddings')
+      .select('id', { count: 'exact', head: true })
+      .eq('source_type', sourceType)
+      .eq('embedding_model', provider.model);
+    return total || 0;
+  };
+
+  return {
+    backend: provider.id,
+    model: provider.model,
+    memories: {
+      total: await count('user_memory', { column: 'is_active', value: true }),
+      indexed: await countIndexed('user_memory')
+    },
+    sessionSummaries: {
+      total: await count('session_memory'),
+      indexed: await countIndexed('session_summary')
+    }
+  };
+}
@@ -1,238 +1,278 @@
 import { createClient } from '@supabase/supabase-js';
-import { getSystemPrompt, SystemPromptConfig, ParticipantIntroduction, GroupMemory } from './system-prompts';
+import { z } from 'zod';
+import { getSystemPrompt, SystemPromptConfig, ParticipantIntroduction, GroupMemory, SessionType } from './system-prompts';
 import { getGroupMemories } from './group-memory-service';
 import { 
   getUserMemory, 
-  formatMemoryContext, 
+  getRelevantMemory,
   detectFirstSession,
   storeFirstSessionGoals,
-  extractGoalsFromResponse,
+  buildGoalExtractionPrompt,
   UserMemory 
 } from './memory-service';
+import { getConversationSummary } from './context-manager';
+import { getRelevantSessionSummaries, indexSessionSummary } from './semantic-memory-service';
 import { getAITools } from './tools';
+import { getSessionTools, getToolScope } from './tool-policy-service';
 import { executeToolCall, ToolCall, ToolResult } from './tool-executor';
+import { createAIProvider, AIMessage, AIProvider, AIProviderConfig, CompletionOptions } from './providers';
+import { runWithFailover, streamWithFailover, preventFailover } from './failover-service';
+import { trackUsage, UsageContext, UsageTracker } from './usage-service';
+import { getExperimentAssignment, ExperimentAssignment } from './experiment-service';
+import { CrisisRiskLevel, getUnlockConditions } from './safety';
+import { recordRedactionReport, Redactor, startRedaction } from './redaction';
+import {
+  buildRetryPrompt,
+  GoalsSchema,
+  parseStructuredOutput,
+  SessionSummarySchema,
+  STRUCTURED_OUTPUT_CONFIG,
+  StructuredResult,
+  toJSONSchemaFormat,
+  withSchemaInstructions
+} from './structured-output';
+import { ChatStreamEvent, PromptVersions, ResourceLocale } from '@/types';
+import { decryptRows, ENCRYPTED_FIELDS } from '@/lib/security/field-encryption';
+
+export type { AIMessage } from './providers';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
   process.env.SUPABASE_SERVICE_ROLE_KEY!
 );
 
-export interface AIMessage {
-  role: 'user' | 'assistant' | 'system';
-  content: string;
-}
-
 export interface AIResponse {
   success: boolean;
   content?: string;
   error?: string;
+  promptVersions?: PromptVersions; // System prompt versions used, for replies built with one
+  experimentArmId?: string; // Experiment arm the reply was generated under
 }
 
-export class ServerAIService {
-  private static isNewOpenAIModel(model: string): boolean {
-    // Newer OpenAI models that use max_completion_tokens instead of max_tokens
-    const newModels = ['gpt-5', 'gpt-4.1', 'o3', 'gpt-4o', 'gpt-4o-realtime-preview'];
-    return newModels.some(newModel => model.includes(newModel));
-  }
+/**
+ * Stand-ins for replaying a conversation offline (see evals/): the provider
+ * replaces the failover chain, the session context is given instead of loaded,
+ * and tool calls go to executeTool instead of the database. Nothing is stored
+ * and no usage is recorded.
+ */
+export interface AISandbox {
+  provider: AIProvider;
+  systemPrompt: SystemPromptConfig;
+  executeTool: (toolCall: ToolCall) => Promise<ToolResult>;
+}
 
-  private static getOpenAITokenParam(model: string, tokens: number) {
-    if (this.isNewOpenAIModel(model)) {
-      return { max_completion_tokens: tokens };
-    } else {
-      return { max_tokens: tokens };
+export class ServerAIService {
+  private static hasConsecutiveRoles(messages: AIMessage[]): boolean {
+    for (let i = 1; i < messages.length; i++) {
+      if (messages[i].role === messages[i - 1].role) {
+        console.error('Consecutive messages of same role detected:', {
+          index: i,
+          role: messages[i].role,
+          prevRole: messages[i - 1].role
+        });
+        return true;
+      }
     }
+    return false;
   }
 
-  private static getOpenAITokenLimit(model: string): number {
-    // Set appropriate token limits based on model capabilities
-    if (model.includes('gpt-5')) {
-      return 4000; // Higher limit for GPT-5
-    } else if (model.includes('o3')) {
-      return 4000; // Higher limit for o3
-    } else if (model.includes('gpt-4o')) {
-      return 4000; // Higher limit for GPT-4o
-    } else if (model.includes('gpt-4.1')) {
-      return 3000; // Medium limit for GPT-4.1
-    } else {
-      return 2000; // Default limit for other models
-    }
+  private static getLatestUserMessage(messages: AIMessage[]): string | undefined {
+    return [...messages].reverse().find(msg => msg.role === 'user')?.content;
   }
 
-  private static async getActiveAIConfig() {
-    const { data, error } = await supabase
-      .from('ai_config')
-      .select('*')
-      .eq('is_active', true)
-      .single();
+  private static redactMessages(redactor: Redactor | null, messages: AIMessage[]): AIMessage[] {
+    return redactor ? messages.map(msg => ({ ...msg, content: redactor.redact(msg.content) })) : messages;
+  }
 
-    if (error || !data) {
-      throw new Error('No active AI configuration found');
+  /**
+   * Tools run with the values the model referred to by placeholder, and the
+   * model sees their results redacted
+   */
+  private static withRedaction(
+    redactor: Redactor | null,
+    executeTool: (toolCall: ToolCall) => Promise<ToolResult>
+  ): (toolCall: ToolCall) => Promise<ToolResult> {
+    if (!redactor) {
+      return executeTool;
     }
 
-    return data;
+    return async (toolCall) => {
+      const result = await executeTool({
+        ...toolCall,
+        function: { ...toolCall.function, arguments: redactor.restore(toolCall.function.arguments) }
+      });
+      return { ...result, content: redactor.redact(result.content) };
+    };
   }
 
-  private static async createAIProvider(config: any) {
-    const { provider, api_key, model } = config;
-
-    if (provider === 'openai') {
-      const OpenAI = require('openai').default;
-      return new OpenAI({ apiKey: api_key });
-    } else if (provider === 'anthropic') {
-      const Anthropic = require('@anthropic-ai/sdk').default;
-      return new Anthropic({ apiKey: api_key });
-    } else if (provider === 'perplexity') {
-      const Perplexity = require('@perplexity-ai/perplexity_ai').default;
-      return new Perplexity({ apiKey: api_key });
-    } else {
-      throw new Error(`Unsupported AI provider: ${provider}`);
+  private static async storeGoalsFromResponse(
+    isFirstSession: boolean,
+    sessionId: string | undefined,
+    userId: string | undefined,
+    content: string
+  ): Promise<void> {
+    if (!isFirstSession || !userId || !content) {
+      return;
+    }
+
+    try {
+      const goals = await this.extractGoals(content, { purpose: 'goal_extraction', sessionId, userId });
+      if (goals.length > 0) {
+        await storeFirstSessionGoals(userId, goals);
+      }
+    } catch (error) {
+      console.error('Error storing first session goals:', error);
     }
   }
 
-  static async generateResponse(
-    messages: AIMessage[],
+  /**
+   * Build the dynamic system message for a session, loading session type,
+   * user memory, participant introductions and group memory as needed.
+   * When the latest user message is given, only memory and past session
+   * summaries relevant to it are included. Users in a running experiment get
+   * the prompt versions of their arm. A crisis risk level from screening the
+   * latest message adds the crisis protocol. Sessions reopened on conditions
+   * after an appeal carry those conditions. The names of the people in the
+   * session are returned for redaction.
+   */
+  private static async buildSystemMessage(
     sessionId?: string,
-    userId?: string
-  ): Promise<AIResponse> {
-    let config: any;
-    let allMessages: AIMessage[] = [];
-    try {
-      config = await this.getActiveAIConfig();
-      const provider = await this.createAIProvider(config);
-
-      // Get session details and user context
-      let sessionType: 'individual' | 'relationship' | 'family' | 'general' = 'individual';
-      let isFirstSession = false;
-      let userMemory: UserMemory[] = [];
-      let userName = 'there';
-      let participantIntroductions: ParticipantIntroduction[] = [];
-      let groupMemory: GroupMemory[] = [];
-
-      if (sessionId && userId) {
-        try {
-          // Get session details
-          const { data: session } = await supabase
-            .from('therapy_sessions')
-            .select('session_type, group_category')
-            .eq('session_id', sessionId)
-            .single();
-          
-          if (session?.session_type) {
-            sessionType = session.session_type;
-          }
+    userId?: string,
+    latestMessage?: string,
+    crisisRiskLevel?: CrisisRiskLevel
+  ): Promise<{
+    systemMessage: AIMessage;
+    isFirstSession: boolean;
+    promptVersions: PromptVersions;
+    assignment: ExperimentAssignment | null;
+    sessionType: SessionType;
+    knownNames: string[];
+  }> {
+    // Get session details and user context
+    let sessionType: SessionType = 'individual';
+    let isFirstSession = false;
+    let userMemory: UserMemory[] = [];
+    let pastSessionSummaries: string[] = [];
+    let userName = 'there';
+    let participantIntroductions: ParticipantIntroduction[] = [];
+    let groupMemory: GroupMemory[] = [];
+    let conversationSummary: string | undefined;
+    let unlockConditions: string | undefined;
+    const knownNames: string[] = [];
+
+    if (sessionId && userId) {
+      try {
+        // Get session details
+        const { data: session } = await supabase
+          .from('therapy_sessions')
+          .select('session_type, group_category')
+          .eq('session_id', sessionId)
+          .single();
+        
+        if (session?.session_type) {
+          sessionType = session.session_type;
+        }
 
-          // Get user info
-          const { data: user } = await supabase
-            .from('users')
-            .select('email')
-            .eq('id', userId)
-            .single();
-          
-          if (user?.email) {
-            userName = user.email.split('@')[0]; // Use email prefix as name
-          }
+        // Get user info
+        const { data: user } = await supabase
+          .from('users')
+          .select('email')
+          .eq('id', userId)
+          .single();
+        
+        if (user?.email) {
+          userName = user.email.split('@')[0]; // Use email prefix as name
+          knownNames.push(userName);
+        }
 
-          // Check if first session (only for individual sessions)
-          if (sessionType === 'individual') {
-            isFirstSession = await detectFirstSession(userId, sessionId);
-          }
+        // Check if first session (only for individual sessions)
+        if (sessionType === 'individual') {
+          isFirstSession = await detectFirstSession(userId, sessionId);
+        }
 
-          // Get user memory (only for individual sessions)
-          if (sessionType === 'individual') {
+        // Get user memory and relevant past sessions (only for individual sessions)
+        if (sessionType === 'individual') {
+          if (latestMessage) {
+            userMemory = await getRelevantMemory(userId, latestMessage);
+            pastSessionSummaries = await getRelevantSessionSummaries(userId, latestMessage, sessionId);
+          } else {
             userMemory = await getUserMemory(userId);
           }
+          unlockConditions = (await getUnlockConditions(sessionId)) ?? undefined;
+        }
 
-          // Get participant introductions and group memory for group sessions
-          if (session?.group_category) {
-            // Get participant introductions (without join to avoid RLS issues)
-            const { data: introductions } = await supabase
-              .from('participant_introductions')
-              .select(`
-                user_id,
-                group_category,
-                relationship_role,
-                why_wellness,
-                goals,
-                challenges,
-                family_role,
-                family_goals,
-                what_to_achieve,
-                participant_role,
-                wellness_reason,
-                personal_goals,
-                expectations
-              `)
-              .eq('session_id', sessionId);
-
-            if (introductions && introductions.length > 0) {
-              // Fetch user names from auth.users.user_metadata for each participant
-              const introductionsWithUsers = [];
-              
-              for (const intro of introductions) {
-                try {
-                  const { data: authUser, error: authError } = await supabase.auth.admin.getUserById(intro.user_id);
-                  if (!authError && authUser?.user) {
-                    const meta = authUser.user.user_metadata || {};
-                    
-                    // Prefer first_name + last_name, fallback to full_name, then name, then display_name, then email username
-                    let userName = null;
-                    if (meta.first_name || meta.last_name) {
-                      userName = `${meta.first_name || ''} ${meta.last_name || ''}`.trim();
-                    } else {
-                      userName = meta.full_name || meta.name || meta.display_name || null;
-                    }
-                    
-                    // Fallback to email username if no name found
-                    if (!userName && authUser.user.email) {
-                      userName = authUser.user.email.split('@')[0];
-                    }
-                    
-                    // Extract first name if full name exists (for consistency)
-                    let displayName = userName;
-                    if (userName && userName.trim()) {
-                      displayName = userName.trim().split(' ')[0];
-                    }
-                    
-                    introductionsWithUsers.push({
-                      user_id: intro.user_id,
-                      user_name: displayName || 'Participant',
-                      user_email: authUser.user.email || '',
-                      group_category: intro.group_category,
-                      relationship_role: intro.relationship_role,
-                      why_wellness: intro.why_wellness,
-                      goals: intro.goals,
-                      challenges: intro.challenges,
-                      family_role: intro.family_role,
-                      family_goals: intro.family_goals,
-                      what_to_achieve: intro.what_to_achieve,
-                      participant_role: intro.participant_role,
-                      wellness_reason: intro.wellness_reason,
-                      personal_goals: intro.personal_goals,
-                      expectations: intro.expectations
-                    });
+        // Get participant introductions and group memory for group sessions
+        if (session?.group_category) {
+          // Get participant introductions (without join to avoid RLS issues)
+          const { data: storedIntroductions } = await supabase
+            .from('participant_introductions')
+            .select(`
+              user_id,
+              group_category,
+              relationship_role,
+              why_wellness,
+              goals,
+              challenges,
+              family_role,
+              family_goals,
+              what_to_achieve,
+              participant_role,
+              wellness_reason,
+              personal_goals,
+              expectations
+            `)
+            .eq('session_id', sessionId);
+          const introductions = await decryptRows(storedIntroductions, ENCRYPTED_FIELDS.participant_introductions);
+
+          if (introductions.length > 0) {
+            // Fetch user names from auth.users.user_metadata for each participant
+            const introductionsWithUsers = [];
+            
+            for (const intro of introductions) {
+              try {
+                const { data: authUser, error: authError } = await supabase.auth.admin.getUserById(intro.user_id);
+                if (!authError && authUser?.user) {
+                  const meta = authUser.user.user_metadata || {};
+                  
+                  // Prefer first_name + last_name, fallback to full_name, then name, then display_name, then email username
+                  let userName = null;
+                  if (meta.first_name || meta.last_name) {
+                    userName = `${meta.first_name || ''} ${meta.last_name || ''}`.trim();
                   } else {
-                    // Fallback if we can't get auth user
-                    introductionsWithUsers.push({
-                      user_id: intro.user_id,
-                      user_name: 'Participant',
-                      user_email: '',
-                      group_category: intro.group_category,
-                      relationship_role: intro.relationship_role,
-                      why_wellness: intro.why_wellness,
-                      goals: intro.goals,
-                      challenges: intro.challenges,
-                      family_role: intro.family_role,
-                      family_goals: intro.family_goals,
-                      what_to_achieve: intro.what_to_achieve,
-                      participant_role: intro.participant_role,
-                      wellness_reason: intro.wellness_reason,
-                      personal_goals: intro.personal_goals,
-                      expectations: intro.expectations
-                    });
+                    userName = meta.full_name || meta.name || meta.display_name || null;
+                  }
+                  
+                  // Fallback to email username if no name found
+                  if (!userName && authUser.user.email) {
+                    userName = authUser.user.email.split('@')[0];
+                  }
+                  
+                  // Extract first name if full name exists (for consistency)
+                  let displayName = userName;
+                  if (userName && userName.trim()) {
+                    displayName = userName.trim().split(' ')[0];
+                    knownNames.push(userName.trim(), displayName);
                   }
-                } catch (error) {
-                  console.error(`Error fetching user name for participant ${intro.user_id}:`, error);
-                  // Include introduction without name if fetch fails
+                  
+                  introductionsWithUsers.push({
+                    user_id: intro.user_id,
+                    user_name: displayName || 'Participant',
+                    user_email: authUser.user.email || '',
+                    group_category: intro.group_category,
+                    relationship_role: intro.relationship_role,
+                    why_wellness: intro.why_wellness,
+                    goals: intro.goals,
+                    challenges: intro.challenges,
+                    family_role: intro.family_role,
+                    family_goals: intro.family_goals,
+                    what_to_achieve: intro.what_to_achieve,
+                    participant_role: intro.participant_role,
+                    wellness_reason: intro.wellness_reason,
+                    personal_goals: intro.personal_goals,
+                    expectations: intro.expectations
+                  });
+                } else {
+                  // Fallback if we can't get auth user
                   introductionsWithUsers.push({
                     user_id: intro.user_id,
                     user_name: 'Participant',
@@ -251,42 +291,116 @@ export class ServerAIService {
                     expectations: intro.expectations
                   });
                 }
+              } catch (error) {
+                console.error(`Error fetching user name for participant ${intro.user_id}:`, error);
+                // Include introduction without name if fetch fails
+                introductionsWithUsers.push({
+                  user_id: intro.user_id,
+                  user_name: 'Participant',
+                  user_email: '',
+                  group_category: intro.group_category,
+                  relationship_role: intro.relationship_role,
+                  why_wellness: intro.why_wellness,
+                  goals: intro.goals,
+                  challenges: intro.challenges,
+                  family_role: intro.family_role,
+                  family_goals: intro.family_goals,
+                  what_to_achieve: intro.what_to_achieve,
+                  participant_role: intro.participant_role,
+                  wellness_reason: intro.wellness_reason,
+                  personal_goals: intro.personal_goals,
+                  expectations: intro.expectations
+                });
               }
-              
-              participantIntroductions = introductionsWithUsers;
-              console.log(`Loaded ${participantIntroductions.length} participant introductions with names`);
             }
-
-            // Get group memory
-            groupMemory = await getGroupMemories(sessionId);
+            
+            participantIntroductions = introductionsWithUsers;
+            console.log(`Loaded ${participantIntroductions.length} participant introductions with names`);
           }
-        } catch (error) {
-          console.error('Error fetching session context:', error);
-          // Continue with defaults if context fetch fails
+
+          // Get group memory
+          groupMemory = await getGroupMemories(sessionId);
         }
+
+        // Get the running summary of turns that no longer fit in the context window
+        const summary = await getConversationSummary(sessionId);
+        conversationSummary = summary?.summary;
+      } catch (error) {
+        console.error('Error fetching session context:', error);
+        // Continue with defaults if context fetch fails
       }
+    }
 
-      // Build dynamic system prompt
-      const systemPromptConfig: SystemPromptConfig = {
-        sessionType,
-        isFirstSession,
-        userMemory,
-        userName,
-        participantIntroductions,
-        groupMemory
-      };
+    let assignment: ExperimentAssignment | null = null;
+    if (userId) {
+      try {
+        assignment = await getExperimentAssignment(userId, sessionType);
+      } catch (error) {
+        console.error('Error assigning experiment arm:', error);
+      }
+    }
 
-      const systemMessage = {
-        role: 'system' as const,
-        content: getSystemPrompt(systemPromptConfig)
-      };
+    // Build dynamic system prompt
+    const systemPromptConfig: SystemPromptConfig = {
+      sessionType,
+      isFirstSession,
+      userMemory,
+      userName,
+      participantIntroductions,
+      groupMemory,
+      conversationSummary,
+      pastSessionSummaries,
+      promptOverrides: assignment?.promptVersions,
+      crisisRiskLevel,
+      unlockConditions
+    };
+
+    const { content, promptVersions } = await getSystemPrompt(systemPromptConfig);
+    const systemMessage = {
+      role: 'system' as const,
+      content
+    };
+
+    return { systemMessage, isFirstSession, promptVersions, assignment, sessionType, knownNames };
+  }
+
+  private static async buildSandboxSystemMessage(config: SystemPromptConfig) {
+    const { content, promptVersions } = await getSystemPrompt(config);
+    return {
+      systemMessage: { role: 'system' as const, content },
+      isFirstSession: config.isFirstSession,
+      promptVersions,
+      assignment: null,
+      sessionType: config.sessionType,
+      knownNames: []
+    };
+  }
+
+  static async generateResponse(
+    messages: AIMessage[],
+    sessionId?: string,
+    userId?: string,
+    usage: UsageContext = { purpose: 'chat', sessionId, userId },
+    sandbox?: AISandbox,
+    crisisRiskLevel?: CrisisRiskLevel,
+    locale?: ResourceLocale
+  ): Promise<AIResponse> {
+    let config: AIProviderConfig | undefined;
+    let allMessages: AIMessage[] = [];
+    let redactor: Redactor | null = null;
+    try {
+      const { systemMessage, isFirstSession, promptVersions, assignment, sessionType, knownNames } = sandbox
+        ? await this.buildSandboxSystemMessage(sandbox.systemPrompt)
+        : await this.buildSystemMessage(sessionId, userId, this.getLatestUserMessage(messages), crisisRiskLevel);
+      const experimentArmId = assignment?.armId;
+      const attemptUsage: UsageContext = { ...usage, experimentArmId };
 
-      allMessages = [systemMessage, ...messages];
+      // Replays in a sandbox send nothing real, so they are not redacted
+      redactor = sandbox ? null : await startRedaction(knownNames);
+      allMessages = this.redactMessages(redactor, [systemMessage, ...messages]);
 
       // Log full message sequence being sent to AI
       console.log('=== AI REQUEST DEBUG ===');
-      console.log('Provider:', config.provider);
-      console.log('Model:', config.model);
       console.log('Total messages:', allMessages.length);
       console.log('Message sequence:');
       allMessages.forEach((msg, index) => {
@@ -295,197 +409,68 @@ export class ServerAIService {
       console.log('=== END AI REQUEST DEBUG ===');
 
       // Validate message alternation before sending to AI
-      for (let i = 1; i < allMessages.length; i++) {
-        if (allMessages[i].role === allMessages[i - 1].role) {
-          console.error('Consecutive messages of same role detected:', {
-            index: i,
-            role: allMessages[i].role,
-            prevRole: allMessages[i - 1].role
-          });
-          return {
-            success: false,
-            error: 'Invalid message sequence: consecutive messages of same role'
-          };
-        }
+      if (this.hasConsecutiveRoles(allMessages)) {
+        return {
+          success: false,
+          error: 'Invalid message sequence: consecutive messages of same role'
+        };
       }
 
-      if (config.provider === 'openai') {
-        const tokenLimit = this.getOpenAITokenLimit(config.model);
-        const tokenParam = this.getOpenAITokenParam(config.model, tokenLimit);
-        
-        console.log(`Using token limit: ${tokenLimit} for model: ${config.model}`);
-        
-        // Get tools for function calling and format for OpenAI API
-        const rawTools = getAITools();
-        const tools = rawTools.map(tool => ({
-          type: tool.type,
-          function: {
-            name: tool.name,
-            description: tool.description,
-            parameters: tool.parameters
-          }
-        }));
-        
-        const response = await provider.chat.completions.create({
-          model: config.model,
-          messages: allMessages as any,
-          tools: tools,
-          tool_choice: "auto",
-          ...tokenParam,
+      if (sandbox) {
+        const result = await sandbox.provider.chat({
+          messages: allMessages,
+          tools: getAITools(sessionType),
+          executeTool: sandbox.executeTool
         });
+        return { success: true, content: result.content || 'No response generated', promptVersions };
+      }
 
-        const message = response.choices[0]?.message;
-        if (!message) {
-          return { success: false, error: 'No response from AI' };
-        }
+      const toolScope = await getToolScope(sessionId, userId);
+      const tools = await getSessionTools(toolScope);
 
-        console.log('=== AI RESPONSE DEBUG ===');
-        console.log('Provider: OpenAI');
-        console.log('Message content:', message.content?.substring(0, 200) + (message.content?.length > 200 ? '...' : ''));
-        console.log('Tool calls:', message.tool_calls?.length || 0);
-        console.log('=== END AI RESPONSE DEBUG ===');
-
-        let finalContent = message.content || '';
-
-        // Handle tool calls if present
-        if (message.tool_calls && message.tool_calls.length > 0) {
-          console.log('Processing tool calls:', message.tool_calls.length);
-          
-          // Execute all tool calls
-          const toolResults: ToolResult[] = [];
-          for (const toolCall of message.tool_calls) {
-            if (toolCall.type === 'function') {
-              const result = await executeToolCall(toolCall as ToolCall, sessionId || '', userId || '');
-              toolResults.push(result);
-            }
-          }
+      const result = await runWithFailover(async (chainConfig) => {
+        config = chainConfig;
+        console.log(`Using AI provider: ${chainConfig.provider} (${chainConfig.model})`);
 
-          // Add tool results to messages and get final response
-          const messagesWithTools = [
-            ...allMessages,
-            message,
-            ...toolResults
-          ];
-
-          const finalResponse = await provider.chat.completions.create({
-            model: config.model,
-            messages: messagesWithTools as any,
-            ...tokenParam,
+        // Tools can have side effects, so a request is not replayed elsewhere once they have run
+        let toolsExecuted = false;
+        const tracker = trackUsage(attemptUsage, chainConfig);
+        try {
+          const chatResult = await createAIProvider(chainConfig).chat({
+            messages: allMessages,
+            tools,
+            executeTool: this.withRedaction(redactor, (toolCall) => {
+              toolsExecuted = true;
+              tracker.countToolCall();
+              return executeToolCall(toolCall, sessionId || '', userId || '', toolScope, locale);
+            }),
+            onUsage: tracker.onUsage
           });
-
-          finalContent = finalResponse.choices[0]?.message?.content || finalContent;
-          
-          console.log('Final response after tools:', finalContent.substring(0, 200) + (finalContent.length > 200 ? '...' : ''));
-        }
-
-        // Extract goals from first session if needed
-        if (isFirstSession && userId && finalContent) {
-          try {
-            const goals = extractGoalsFromResponse(finalContent);
-            if (goals.length > 0) {
-              await storeFirstSessionGoals(userId, goals);
-            }
-          } catch (error) {
-            console.error('Error storing first session goals:', error);
-          }
-        }
-
-        return { success: true, content: finalContent };
-      } else if (config.provider === 'anthropic') {
-        const response = await provider.messages.create({
-          model: config.model,
-          max_tokens: 1000,
-          messages: allMessages as any,
-        });
-
-        const content = response.content[0]?.text || 'No response generated';
-
-        console.log('=== AI RESPONSE DEBUG ===');
-        console.log('Provider: Anthropic');
-        console.log('Response received:', content.substring(0, 200) + (content.length > 200 ? '...' : ''));
-        console.log('=== END AI RESPONSE DEBUG ===');
-
-        // Extract goals from first session if needed
-        if (isFirstSession && userId && content) {
-          try {
-            const goals = extractGoalsFromResponse(content);
-            if (goals.length > 0) {
-              await storeFirstSessionGoals(userId, goals);
-            }
-          } catch (error) {
-            console.error('Error storing first session goals:', error);
-          }
+          tracker.record({ success: true, prompt: allMessages, completion: chatResult.content });
+          return chatResult;
+        } catch (error) {
+          tracker.record({ success: false, prompt: allMessages });
+          throw toolsExecuted ? preventFailover(error) : error;
         }
+      }, assignment?.configId);
 
-        return { 
-          success: true, 
-          content 
-        };
-      } else if (config.provider === 'perplexity') {
-        // Perplexity requires a single user message with concatenated content
-        const concatenatedContent = allMessages
-          .map(msg => {
-            if (msg.role === 'system') {
-              return `System: ${msg.content}`;
-            } else if (msg.role === 'assistant') {
-              return `Assistant: ${msg.content}`;
-            } else {
-              return `User: ${msg.content}`;
-            }
-          })
-          .join('\n\n');
-
-        const perplexityMessages = [{
-          role: 'user',
-          content: concatenatedContent
-        }];
-
-        console.log('=== PERPLEXITY FORMAT DEBUG ===');
-        console.log('Original messages:', allMessages.length);
-        console.log('Concatenated content:', concatenatedContent.substring(0, 200) + '...');
-        console.log('Perplexity messages:', perplexityMessages);
-        console.log('=== END PERPLEXITY FORMAT DEBUG ===');
-
-        const completion = await provider.chat.completions.create({
-          model: config.model,
-          messages: perplexityMessages as any,
-        });
+      const content = (redactor ? redactor.restore(result.content) : result.content) || 'No response generated';
 
-        const content = completion.choices[0]?.message?.content || 'No response generated';
-        
-        console.log('=== AI RESPONSE DEBUG ===');
-        console.log('Provider: Perplexity');
-        console.log('Response received:', content.substring(0, 200) + (content.length > 200 ? '...' : ''));
-        console.log('Full response object:', JSON.stringify(completion, null, 2));
-        console.log('=== END AI RESPONSE DEBUG ===');
-
-        // Extract goals from first session if needed
-        if (isFirstSession && userId && content) {
-          try {
-            const goals = extractGoalsFromResponse(content);
-            if (goals.length > 0) {
-              await storeFirstSessionGoals(userId, goals);
-            }
-          } catch (error) {
-            console.error('Error storing first session goals:', error);
-          }
-        }
+      // Extract goals from first session if needed
+      await this.storeGoalsFromResponse(isFirstSession, sessionId, userId, content);
 
-        return { success: true, content };
-      } else {
-        throw new Error(`Unsupported provider: ${config.provider}`);
-      }
+      return { success: true, content, promptVersions, experimentArmId };
     } catch (error: any) {
       console.error('=== AI ERROR DEBUG ===');
       console.error('Error message:', error.message);
       console.error('Error code:', error.code || error.status || 'N/A');
       console.error('Error type:', error.type || 'N/A');
       console.error('Full error object:', error);
-      if (typeof config !== 'undefined') {
+      if (config) {
         console.error('Provider:', config.provider);
         console.error('Model:', config.model);
       }
-      if (typeof allMessages !== 'undefined' && allMessages) {
+      if (allMessages.length > 0) {
         console.error('Message count:', allMessages.length);
         console.error('Last 3 messages:', allMessages.slice(-3).map(m => ({ 
           role: m.role, 
@@ -501,13 +486,271 @@ export class ServerAIService {
         success: false, 
         error: error.message || 'Failed to generate AI response' 
       };
+    } finally {
+      recordRedactionReport(redactor, usage);
+    }
+  }
+
+  /**
+   * Stream a response as typed events. Text arrives as incremental deltas,
+   * tool calls and their results are surfaced as they happen, and a final
+   * `done` event carries the complete response content. The locale decides
+   * which crisis resources tools show.
+   */
+  static async *streamResponse(
+    messages: AIMessage[],
+    sessionId?: string,
+    userId?: string,
+    usage: UsageContext = { purpose: 'chat', sessionId, userId },
+    crisisRiskLevel?: CrisisRiskLevel,
+    locale?: ResourceLocale
+  ): AsyncGenerator<ChatStreamEvent> {
+    let config: AIProviderConfig | undefined;
+    let redactor: Redactor | null = null;
+    try {
+      const { systemMessage, isFirstSession, promptVersions, assignment, knownNames } = await this.buildSystemMessage(
+        sessionId,
+        userId,
+        this.getLatestUserMessage(messages),
+        crisisRiskLevel
+      );
+      const experimentArmId = assignment?.armId;
+      const attemptUsage: UsageContext = { ...usage, experimentArmId };
+      redactor = await startRedaction(knownNames);
+      const allMessages = this.redactMessages(redactor, [systemMessage, ...messages]);
+
+      if (this.hasConsecutiveRoles(allMessages)) {
+        yield { type: 'error', error: 'Invalid message sequence: consecutive messages of same role' };
+        return;
+      }
+
+      let content = '';
+      // Failover only happens before the first event, so tools never run twice
+      let tracker: UsageTracker | undefined;
+      const toolScope = await getToolScope(sessionId, userId);
+      const tools = await getSessionTools(toolScope);
+      const events = streamWithFailover((chainConfig) => {
+        // A failed attempt is recorded once the next provider takes over
+        tracker?.record({ success: false, prompt: allMessages });
+        config = chainConfig;
+        tracker = trackUsage(attemptUsage, chainConfig);
+        const attempt = tracker;
+        return createAIProvider(chainConfig).stream({
+          messages: allMessages,
+          tools,
+          executeTool: this.withRedaction(redactor, (toolCall) => {
+            attempt.countToolCall();
+            return executeToolCall(toolCall, sessionId || '', userId || '', toolScope, locale);
+          }),
+          onUsage: attempt.onUsage
+        });
+      }, assignment?.configId);
+
+      // Placeholders can be split across text deltas, so text is restored as
+      // whole placeholders arrive
+      const restorer = redactor?.createStreamRestorer();
+
+      // Also records streams the client stopped reading
+      let streamed = false;
+      try {
+        for await (const event of events) {
+          if (!redactor || !restorer) {
+            if (event.type === 'text') {
+              content += event.delta;
+            }
+            yield event;
+            continue;
+          }
+
+          if (event.type === 'text') {
+            const delta = restorer.push(event.delta);
+            if (delta) {
+              content += delta;
+              yield { type: 'text', delta };
+            }
+            continue;
+          }
+
+          const pending = restorer.flush();
+          if (pending) {
+            content += pending;
+            yield { type: 'text', delta: pending };
+          }
+          if (event.type === 'tool_call') {
+            yield { ...event, arguments: redactor.restore(event.arguments) };
+          } else if (event.type === 'tool_result') {
+            yield { ...event, content: redactor.restore(event.content) };
+          } else {
+            yield event;
+          }
+        }
+
+        const pending = restorer?.flush();
+        if (pending) {
+          content += pending;
+          yield { type: 'text', delta: pending };
+        }
+        streamed = true;
+      } finally {
+        tracker?.record({ success: streamed, prompt: allMessages, completion: content });
+      }
+
+      if (!content) {
+        yield { type: 'error', error: 'No response from AI' };
+        return;
+      }
+
+      console.log('=== AI STREAM DEBUG ===');
+      console.log('Provider:', config?.provider);
+      console.log('Streamed content:', content.substring(0, 200) + (content.length > 200 ? '...' : ''));
+      console.log('=== END AI STREAM DEBUG ===');
+
+      await this.storeGoalsFromResponse(isFirstSession, sessionId, userId, content);
+
+      yield { type: 'done', content, promptVersions, experimentArmId };
+    } catch (error: any) {
+      console.error('=== AI STREAM ERROR DEBUG ===');
+      console.error('Error message:', error.message);
+      console.error('Error code:', error.code || error.status || 'N/A');
+      if (config) {
+        console.error('Provider:', config.provider);
+        console.error('Model:', config.model);
+      }
+      console.error('=== END AI STREAM ERROR DEBUG ===');
+      yield { type: 'error', error: error.message || 'Failed to generate AI response' };
+    } finally {
+      recordRedactionReport(redactor, usage);
+    }
+  }
+
+  /**
+   * Single-prompt completion with the failover chain, without tools or the
+   * coaching system prompt. Used for titles, summaries and goal extraction.
+   * Names are only redacted in chat, where the session's people are known.
+   */
+  static async complete(prompt: string, options: CompletionOptions, usage: UsageContext): Promise<AIResponse> {
+    let redactor: Redactor | null = null;
+    try {
+      redactor = await startRedaction();
+      const redactedPrompt = redactor ? redactor.redact(prompt) : prompt;
+      const completion = await runWithFailover(async (config) => {
+        const tracker = trackUsage(usage, config);
+        try {
+          const text = await createAIProvider(config).complete(redactedPrompt, { ...options, onUsage: tracker.onUsage });
+          tracker.record({ success: true, prompt: redactedPrompt, completion: text });
+          return text;
+        } catch (error) {
+          tracker.record({ success: false, prompt: redactedPrompt });
+          throw error;
+        }
+      });
+      const content = redactor ? redactor.restore(completion) : completion;
+
+      if (!content) {
+        return { success: false, error: 'No response from AI' };
+      }
+
+      return { success: true, content };
+    } catch (error: any) {
+      console.error('AI completion error:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to generate AI completion'
+      };
+    } finally {
+      recordRedactionReport(redactor, usage);
     }
   }
 
-  static async testConnection(provider: string, apiKey: string, model: string): Promise<AIResponse> {
+  /**
+   * Completion that must be a JSON object matching the schema. The schema goes
+   * through the provider's JSON mode and the prompt; a reply that fails
+   * validation is sent back with the errors, up to
+   * STRUCTURED_OUTPUT_CONFIG.MAX_ATTEMPTS times. A sandbox provider replaces
+   * the failover chain, as in generateResponse.
+   */
+  static async completeStructured<T>(
+    prompt: string,
+    schema: z.ZodType<T>,
+    name: string,
+    options: CompletionOptions,
+    usage: UsageContext,
+    provider?: AIProvider
+  ): Promise<StructuredResult<T>> {
+    const jsonSchema = toJSONSchemaFormat(name, schema);
+    const structuredPrompt = withSchemaInstructions(prompt, jsonSchema);
+    let request = structuredPrompt;
+    let error = '';
+
+    for (let attempt = 1; attempt <= STRUCTURED_OUTPUT_CONFIG.MAX_ATTEMPTS; attempt++) {
+      const completion = provider
+        ? await this.completeWithProvider(provider, request, { ...options, jsonSchema })
+        : await this.complete(request, { ...options, jsonSchema }, usage);
+
+      if (!completion.success) {
+        // The failover chain has already tried every provider
+        return { success: false, error: completion.error || 'No response from AI' };
+      }
+
+      const parsed = parseStructuredOutput(completion.content!, schema);
+      if (parsed.success) {
+        return parsed;
+      }
+
+      error = parsed.error;
+      console.warn(`Invalid ${name} output (attempt ${attempt}/${STRUCTURED_OUTPUT_CONFIG.MAX_ATTEMPTS}):`, error);
+      request = buildRetryPrompt(structuredPrompt, completion.content!, error);
+    }
+
+    return { success: false, error: `Invalid ${name} output: ${error}` };
+  }
+
+  private static async completeWithProvider(
+    provider: AIProvider,
+    prompt: string,
+    options: CompletionOptions
+  ): Promise<AIResponse> {
     try {
-      // Validate inputs
-      if (!provider || !apiKey || !model) {
+      const content = await provider.complete(prompt, options);
+      return content ? { success: true, content } : { success: false, error: 'No response from AI' };
+    } catch (error: any) {
+      return { success: false, error: error.message || 'Failed to generate AI completion' };
+    }
+  }
+
+  /**
+   * Goals a first-session reply restates, at most three. Failures are logged
+   * and yield no goals.
+   */
+  static async extractGoals(reply: string, usage: UsageContext, provider?: AIProvider): Promise<string[]> {
+    const result = await this.completeStructured(
+      buildGoalExtractionPrompt(reply),
+      GoalsSchema,
+      'first_session_goals',
+      { maxTokens: 300, temperature: 0 },
+      usage,
+      provider
+    );
+
+    if (!result.success) {
+      console.error('Goal extraction failed:', result.error);
+      return [];
+    }
+
+    return result.data.goals;
+  }
+
+  static async testConnection(provider: string, apiKey: string, model: string, baseUrl?: string): Promise<AIResponse> {
+    try {
+      // Validate inputs; local OpenAI-compatible servers need a base URL instead of a key
+      if (provider === 'openai_compatible') {
+        if (!baseUrl || !model) {
+          return {
+            success: false,
+            error: 'Base URL and model are required'
+          };
+        }
+      } else if (!provider || !apiKey || !model) {
         return {
           success: false,
           error: 'Provider, API key, and model are required'
@@ -522,85 +765,15 @@ export class ServerAIService {
         };
       }
 
-      const config = { provider, api_key: apiKey, model };
-      const aiProvider = await this.createAIProvider(config);
-
-      const testMessages: AIMessage[] = [
-        { role: 'user', content: 'Hi' }
-      ];
+      const aiProvider = createAIProvider({
+        provider: provider as AIProviderConfig['provider'],
+        api_key: apiKey,
+        model,
+        base_url: baseUrl
+      });
+      await aiProvider.testConnection();
 
-      if (provider === 'openai') {
-        const tokenParam = this.getOpenAITokenParam(model, 500); // Use 500 tokens for test
-        console.log(`Testing OpenAI connection with model: ${model}`);
-        
-        const response = await aiProvider.chat.completions.create({
-          model: model,
-          messages: testMessages as any,
-          ...tokenParam,
-        });
-        
-        // Log response structure for debugging
-        console.log('OpenAI test response:', JSON.stringify({
-          choices: response.choices?.length,
-          firstChoice: response.choices?.[0] ? {
-            message: {
-              role: response.choices[0].message?.role,
-              content: response.choices[0].message?.content,
-              hasContent: !!response.choices[0].message?.content,
-              toolCalls: response.choices[0].message?.tool_calls?.length
-            }
-          } : null
-        }, null, 2));
-        
-        const message = response.choices[0]?.message;
-        if (!message) {
-          return {
-            success: false,
-            error: 'Received empty response from OpenAI API (no choices returned)'
-          };
-        }
-        
-        // Check for content in message
-        if (!message.content && (!message.tool_calls || message.tool_calls.length === 0)) {
-          return {
-            success: false,
-            error: 'Received empty response from OpenAI API (no content or tool calls)'
-          };
-        }
-        
-        return { success: true };
-      } else if (provider === 'anthropic') {
-        const response = await aiProvider.messages.create({
-          model: model,
-          max_tokens: 10,
-          messages: testMessages as any,
-        });
-        
-        if (!response.content[0]?.text) {
-          return {
-            success: false,
-            error: 'Received empty response from Anthropic API'
-          };
-        }
-        
-        return { success: true };
-      } else if (provider === 'perplexity') {
-        const completion = await aiProvider.chat.completions.create({
-          model: model,
-          messages: testMessages as any,
-        });
-        
-        if (!completion.choices[0]?.message?.content) {
-          return {
-            success: false,
-            error: 'Received empty response from Perplexity API'
-          };
-        }
-        
-        return { success: true };
-      } else {
-        throw new Error(`Unsupported provider: ${provider}`);
-      }
+      return { success: true };
     } catch (error: any) {
       console.error('Test connection error:', error);
       console.error('Error details:', {
@@ -655,46 +828,67 @@ export class ServerAIService {
   static async summarizeSession(sessionId: string): Promise<AIResponse> {
     try {
       // Get all messages from the session
-      const { data: messages, error } = await supabase
+      const { data, error } = await supabase
         .from('session_messages')
         .select('*')
         .eq('session_id', sessionId)
         .order('timestamp', { ascending: true });
 
-      if (error || !messages || messages.length === 0) {
+      if (error || !data || data.length === 0) {
         throw new Error('No messages found for session');
       }
 
-      // Format messages for AI
-      const aiMessages: AIMessage[] = messages.map(msg => ({
-        role: msg.sender_type === 'user' ? 'user' : 'assistant',
-        content: msg.content
-      }));
+      const messages = await decryptRows(data, ENCRYPTED_FIELDS.session_messages);
 
-      // Add summarization prompt
-      const summaryPrompt: AIMessage = {
-        role: 'user',
-        content: 'Please provide a brief summary of this wellness session, highlighting key topics discussed and any important insights or progress made. Keep it concise but meaningful.'
-      };
+      const transcript = messages
+        .map(msg => `${msg.sender_type}: ${msg.content}`)
+        .join('\n');
 
-      const summaryResponse = await this.generateResponse([...aiMessages, summaryPrompt]);
-      
-      if (summaryResponse.success && summaryResponse.content) {
-        // Save summary to database
-        const { error: saveError } = await supabase
-          .from('session_memory')
-          .insert({
-            session_id: sessionId,
-            summary: summaryResponse.content,
-            key_topics: this.extractKeyTopics(summaryResponse.content)
-          });
+      const summaryPrompt = `Summarize this wellness session, highlighting key topics discussed and any important insights or progress made. Keep it concise but meaningful.
 
-        if (saveError) {
-          console.error('Error saving session summary:', saveError);
-        }
+Conversation:
+${transcript}`;
+
+      const { data: session } = await supabase
+        .from('therapy_sessions')
+        .select('user_id')
+        .eq('session_id', sessionId)
+        .single();
+
+      const result = await this.completeStructured(
+        summaryPrompt,
+        SessionSummarySchema,
+        'session_summary',
+        { maxTokens: 800, temperature: 0.3 },
+        { purpose: 'session_summary', sessionId, userId: session?.user_id }
+      );
+
+      if (!result.success) {
+        console.error('Session summary generation failed:', result.error);
+        return { success: false, error: result.error };
       }
 
-      return summaryResponse;
+      const { summary, key_topics } = result.data;
+
+      // Save summary to database
+      const { data: savedSummary, error: saveError } = await supabase
+        .from('session_memory')
+        .insert({
+          session_id: sessionId,
+          summary,
+          key_topics: key_topics.length > 0 ? key_topics : ['general wellness']
+        })
+        .select('id')
+        .single();
+
+      if (saveError) {
+        console.error('Error saving session summary:', saveError);
+      } else if (session?.user_id) {
+        // Make the summary available to later sessions by meaning
+        await indexSessionSummary(savedSummary.id, sessionId, session.user_id, summary);
+      }
+
+      return { success: true, content: summary };
     } catch (error: any) {
       console.error('Session summarization error:', error);
       return { 
@@ -703,20 +897,4 @@ export class ServerAIService {
       };
     }
   }
-
-  private static extractKeyTopics(summary: string): string[] {
-    // Simple keyword extraction - could be enhanced with NLP
-    const keywords = [
-      'anxiety', 'depression', 'stress', 'mindfulness', 'meditation',
-      'wellness', 'counseling', 'mental health', 'self-care', 'personal growth',
-      'relationships', 'work', 'family', 'goals', 'progress', 'coping',
-      'emotions', 'feelings', 'thoughts', 'behavior', 'patterns'
-    ];
-
-    const foundTopics = keywords.filter(keyword => 
-      summary.toLowerCase().includes(keyword)
-    );
-
-    return foundTopics.length > 0 ? foundTopics : ['general wellness'];
-  }
 }
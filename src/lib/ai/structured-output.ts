@@ -0,0 +1,104 @@
+/**
+ * Structured AI output
+ * Server-side only - zod schemas for the JSON that summaries, titles, insights
+ * and goal extraction ask the model for, and the helpers that turn a schema
+ * into a provider JSON mode, parse and validate the reply, and ask again when
+ * the reply does not match.
+ */
+
+import { z } from 'zod';
+import { JSONSchemaFormat } from './providers';
+
+export const STRUCTURED_OUTPUT_CONFIG = {
+  MAX_ATTEMPTS: 3, // First request plus retries with the validation errors
+  MAX_ERROR_CHARS: 500, // Validation errors quoted back to the model
+};
+
+export const SessionMetadataSchema = z.object({
+  title: z.string().trim().min(1).max(50).describe('Engaging, descriptive session title'),
+  summary: z.string().trim().min(1).max(200).describe('The main wellness topics, goals or challenges discussed'),
+});
+
+export const SessionSummarySchema = z.object({
+  summary: z.string().trim().min(1).describe('Brief summary of the session, its insights and progress'),
+  key_topics: z.array(z.string().trim().min(1)).max(8).describe('Short lowercase topics, such as "anxiety" or "work"'),
+});
+
+export const InsightSchema = z.object({
+  insight: z.string().trim().min(1).max(300).describe('One supportive observation or practical takeaway'),
+});
+
+export const GoalsSchema = z.object({
+  goals: z.array(z.string().trim().min(1)).max(3).describe('Goals the user wants to work on; empty when none were stated'),
+});
+
+export const IntroductionGoalsSchema = z.object({
+  summary: z.string().trim().min(1).describe('Main wellness goals and focus areas in 2-3 sentences'),
+  goals: z.array(z.string().trim().min(1)).min(1).max(5).describe('Specific, actionable goals'),
+});
+
+export type StructuredResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string };
+
+/**
+ * JSON schema for a provider's native JSON mode
+ */
+export function toJSONSchemaFormat(name: string, schema: z.ZodType): JSONSchemaFormat {
+  const jsonSchema: Record<string, unknown> = z.toJSONSchema(schema);
+  // Providers reject or ignore the draft marker
+  delete jsonSchema.$schema;
+  return { name, schema: jsonSchema };
+}
+
+/**
+ * Spell out the expected JSON in the prompt too, for providers without a
+ * native JSON mode
+ */
+export function withSchemaInstructions(prompt: string, format: JSONSchemaFormat): string {
+  return `${prompt}
+
+Respond with only a JSON object matching this JSON schema, without any other text:
+${JSON.stringify(format.schema)}`;
+}
+
+/**
+ * Parse the model's reply and validate it against the schema. Code fences and
+ * text around the object are tolerated.
+ */
+export function parseStructuredOutput<T>(text: string, schema: z.ZodType<T>): StructuredResult<T> {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    return { success: false, error: 'The reply did not contain a JSON object' };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text.slice(start, end + 1));
+  } catch (error) {
+    return { success: false, error: `The reply was not valid JSON: ${error instanceof Error ? error.message : 'parse error'}` };
+  }
+
+  const result = schema.safeParse(parsed);
+  if (!result.success) {
+    return { success: false, error: z.prettifyError(result.error).slice(0, STRUCTURED_OUTPUT_CONFIG.MAX_ERROR_CHARS) };
+  }
+
+  return { success: true, data: result.data };
+}
+
+/**
+ * Follow-up prompt quoting the invalid reply and what was wrong with it
+ */
+export function buildRetryPrompt(prompt: string, previous: string, error: string): string {
+  return `${prompt}
+
+Your previous reply was:
+${previous}
+
+It was rejected for this reason:
+${error}
+
+Reply again with only a corrected JSON object.`;
+}
@@ -1,8 +1,14 @@
 /**
  * System Prompts Service for MindFlow AI Wellness Coach
- * Server-side only - generates dynamic system messages based on session type and context
+ * Server-side only - generates dynamic system messages based on session type and context.
+ * The base and session type prompts below are the built-in versions; admins can
+ * publish edited versions, which take their place (see prompt-version-service).
  */
 
+import { PromptVersions, SystemPromptKey } from '@/types';
+import { getPromptVersion, getPublishedPrompts } from './prompt-version-service';
+import { CrisisRiskLevel } from './safety/types';
+
 export type SessionType = 'individual' | 'group' | 'relationship' | 'family' | 'general';
 
 export interface UserMemory {
@@ -48,6 +54,11 @@ export interface SystemPromptConfig {
   userName?: string;
   participantIntroductions?: ParticipantIntroduction[];
   groupMemory?: GroupMemory[];
+  conversationSummary?: string;
+  pastSessionSummaries?: string[];
+  promptOverrides?: PromptVersions; // Versions pinned by an experiment arm instead of the published ones
+  crisisRiskLevel?: CrisisRiskLevel; // Risk crisis detection assigned to the latest user message
+  unlockConditions?: string; // Set by an admin when the session was reopened after an appeal
 }
 
 // Base ZenithWell prompt that applies to all sessions
@@ -83,8 +94,12 @@ You have access to several tools to help manage session data and user informatio
 
 5. **update_goal_status**: Use to mark goals as achieved when the user reports success, or pause them if they're no longer relevant.
 
+6. **search_past_sessions**, **list_goals**, **get_memory**, **get_recent_mood**: Use to look things up when the user refers to something from an earlier session that is not in your context. These only read; call them before asking the user to repeat themselves.
+
+7. **get_safety_plan**, **update_safety_plan**: Help the user build their personal safety plan (warning signs, coping strategies, people to contact, professionals, making their environment safe) when they want to, or after a difficult moment has passed. Add an entry only once they have agreed to it, in their own words.
+
 Use these tools proactively to enhance the user experience and maintain continuity across sessions.
-- In emergencies, direct users to crisis resources (988 Suicide & Crisis Lifeline)
+- In emergencies, call provide_emergency_resources so the user sees the crisis lines for where they live; do not quote phone numbers from memory
 
 YOUR APPROACH:
 - Be warm, empathetic, and non-judgmental
@@ -121,6 +136,7 @@ GROUP SESSION FOCUS:
 - When someone shares, acknowledge their contribution and invite others to respond
 - Balance individual attention with group cohesion
 - Use participant introductions to personalize your responses to each person
+- Keep group continuity with add_group_memory, update_group_goal, record_shared_insight and note_participant_dynamic; personal memory and goal tools are not available in group sessions
 - Remember: You are facilitating a GROUP conversation, not having individual conversations`,
 
   relationship: `
@@ -151,6 +167,12 @@ GENERAL GROUP SESSION FOCUS:
 - Managing group dynamics and keeping discussions productive`
 };
 
+// Built-in prompts, used for any key without a published version
+export const BUILT_IN_SYSTEM_PROMPTS: Record<SystemPromptKey, string> = {
+  base: BASE_ZENITHWELL_PROMPT,
+  ...SESSION_PROMPTS
+};
+
 // First session protocol
 const FIRST_SESSION_PROTOCOL = `
 FIRST SESSION PROTOCOL:
@@ -195,6 +217,47 @@ USING GROUP MEMORY:
 
 If no group memory exists, treat as first group session and collect foundational group information.`;
 
+// Summaries of earlier sessions related to what the user is talking about now
+const PAST_SESSIONS_TEMPLATE = `
+RELATED PAST SESSIONS:
+{past_sessions}
+
+Draw on these when they help ("Last time we talked about...") but don't force connections that aren't there.`;
+
+// Running summary of turns that no longer fit in the model's context window
+const CONVERSATION_SUMMARY_TEMPLATE = `
+EARLIER IN THIS SESSION:
+The conversation so far is longer than the messages you can see. Here is a summary of the earlier part:
+
+{conversation_summary}
+
+Treat this as things already discussed in this session. Build on it naturally rather than asking participants to repeat themselves.`;
+
+// Added when an admin reopened a locked session on conditions after an appeal
+const UNLOCK_CONDITIONS_TEMPLATE = `
+REOPENED SESSION:
+This session was locked and has been reopened by the ZenithWell team after the user appealed, on these conditions:
+
+{unlock_conditions}
+
+Keep these conditions in mind. If the user does not follow them, remind them kindly; if the reason the session was locked comes up again, use end_and_lock_session as before.`;
+
+// Added when crisis detection flags the latest user message; not editable so
+// a prompt edit cannot weaken it
+const CRISIS_PROTOCOL_TEMPLATE = `
+SAFETY ALERT - {risk_level} RISK:
+Automated screening flagged the latest user message as a possible crisis. Before anything else:
+- Respond with warmth and without judgment; thank them for sharing
+- Ask directly and calmly whether they are safe right now
+- Encourage them to reach out to a crisis line or local emergency services, without quoting numbers from memory; the crisis resources shown to them are for where they live
+- Do not move on to coaching exercises or goals in this reply
+{risk_actions}`;
+
+const CRISIS_RISK_ACTIONS: Record<'medium' | 'high', string> = {
+  medium: '- Gently explore what they meant and call provide_emergency_resources if the concern is confirmed\n- If they have a safety plan, help them use it (get_safety_plan)',
+  high: '- A human reviewer has been alerted and crisis resources will be added below your reply, so keep your own reply short and personal\n- Call end_and_lock_session only if they describe an immediate plan and means'
+};
+
 // Group introduction context template
 const GROUP_INTRODUCTION_TEMPLATE = ` 
 GROUP SESSION CONTEXT:
@@ -205,6 +268,7 @@ This is a group wellness session with the following participants and their intro
 CRITICAL GROUP FACILITATION GUIDELINES:
 - You are talking to a GROUP, not individuals - address "all of you", "the group", "everyone"
 - **User messages are prefixed with participant names: [Name]: message content**
+- **When several participants speak before you reply, their messages arrive together, one "[Name]: ..." line each - respond to everyone who spoke**
 - **ALWAYS identify who is speaking by looking at the message prefix (e.g., [Alice]: ...)**
 - **When responding to a specific participant, use their actual name from the prefix**
 - **Example: If message is "[Alice]: Who am I?", respond: "Alice, that's a powerful question..." (not "To the person who asked...")**
@@ -325,15 +389,48 @@ export function getFirstSessionPrompt(userName: string = 'there'): string {
 }
 
 /**
- * Build complete system prompt based on session configuration
+ * Prompt text for a key: the version pinned in overrides if there is one,
+ * otherwise the published version, otherwise the built-in prompt
  */
-export function getSystemPrompt(config: SystemPromptConfig): string {
-  const { sessionType, isFirstSession, userMemory, userName, participantIntroductions, groupMemory } = config;
-  
-  let prompt = BASE_ZENITHWELL_PROMPT;
+async function resolvePrompt(key: SystemPromptKey, overrides?: PromptVersions): Promise<{ version: number; content: string }> {
+  const pinned = overrides?.[key];
+  if (pinned === 0) {
+    return { version: 0, content: BUILT_IN_SYSTEM_PROMPTS[key] };
+  }
+  if (pinned) {
+    const version = await getPromptVersion(key, pinned);
+    if (version) {
+      return { version: version.version, content: version.content };
+    }
+    console.error(`Pinned ${key} prompt version ${pinned} not found, using the published prompt`);
+  }
+
+  const published = (await getPublishedPrompts()).get(key);
+  return published
+    ? { version: published.version, content: published.content }
+    : { version: 0, content: BUILT_IN_SYSTEM_PROMPTS[key] };
+}
+
+/**
+ * Build complete system prompt based on session configuration, using the
+ * published base and session type prompts (or the versions pinned by an
+ * experiment arm). Returns the versions used so the
+ * reply can be traced back to the prompt that produced it.
+ */
+export async function getSystemPrompt(config: SystemPromptConfig): Promise<{ content: string; promptVersions: PromptVersions }> {
+  const { sessionType, isFirstSession, userMemory, userName, participantIntroductions, groupMemory, conversationSummary, pastSessionSummaries, crisisRiskLevel, unlockConditions } = config;
+
+  const base = await resolvePrompt('base', config.promptOverrides);
+  const session = await resolvePrompt(sessionType, config.promptOverrides);
+  const promptVersions: PromptVersions = {
+    base: base.version,
+    [sessionType]: session.version
+  };
+
+  let prompt = base.content;
   
   // Add session type specific guidance
-  prompt += '\n\n' + SESSION_PROMPTS[sessionType];
+  prompt += '\n\n' + session.content;
   
   // Add group introduction context for group sessions
   if (participantIntroductions && participantIntroductions.length > 0) {
@@ -356,47 +453,40 @@ export function getSystemPrompt(config: SystemPromptConfig): string {
     const memoryContext = formatMemoryContext(userMemory);
     prompt += '\n\n' + MEMORY_INTEGRATION_TEMPLATE.replace('{memory_context}', memoryContext);
   }
+
+  // Add summaries of related past sessions (only for individual sessions)
+  if (sessionType !== 'group' && pastSessionSummaries && pastSessionSummaries.length > 0) {
+    const pastSessions = pastSessionSummaries.map(summary => `- ${summary}`).join('\n');
+    prompt += '\n\n' + PAST_SESSIONS_TEMPLATE.replace('{past_sessions}', pastSessions);
+  }
+
+  // Add the running summary of earlier turns in long sessions
+  if (conversationSummary) {
+    prompt += '\n\n' + CONVERSATION_SUMMARY_TEMPLATE.replace('{conversation_summary}', conversationSummary);
+  }
+
+  // Add the conditions the session was reopened under
+  if (unlockConditions) {
+    prompt += '\n\n' + UNLOCK_CONDITIONS_TEMPLATE.replace('{unlock_conditions}', unlockConditions);
+  }
+
+  // Add the crisis protocol last so it takes precedence
+  if (crisisRiskLevel === 'medium' || crisisRiskLevel === 'high') {
+    prompt += '\n\n' + CRISIS_PROTOCOL_TEMPLATE
+      .replace('{risk_level}', crisisRiskLevel.toUpperCase())
+      .replace('{risk_actions}', CRISIS_RISK_ACTIONS[crisisRiskLevel]);
+  }
   
-  return prompt;
+  return { content: prompt, promptVersions };
 }
 
 /**
- * Get session type specific prompt only (for testing/debugging)
+ * Get the built-in session type specific prompt only (for testing/debugging)
  */
 export function getSessionTypePrompt(sessionType: SessionType): string {
   return SESSION_PROMPTS[sessionType];
 }
 
-/**
- * Extract goals from AI response (future enhancement)
- * This would parse AI responses to automatically store goals
- */
-export function extractGoalsFromResponse(response: string): string[] {
-  // This is a placeholder for future goal extraction logic
-  // Could use regex patterns or more sophisticated NLP
-  const goalPatterns = [
-    /goal[s]?\s*(?:is|are|to)\s*:?\s*([^.]+)/gi,
-    /want[s]?\s*to\s*([^.]+)/gi,
-    /hoping\s*to\s*([^.]+)/gi
-  ];
-  
-  const goals: string[] = [];
-  
-  goalPatterns.forEach(pattern => {
-    const matches = response.match(pattern);
-    if (matches) {
-      matches.forEach(match => {
-        const goal = match.replace(pattern, '$1').trim();
-        if (goal && goal.length > 10) { // Basic validation
-          goals.push(goal);
-        }
-      });
-    }
-  });
-  
-  return goals;
-}
-
 /**
  * Extract memory items from AI response (future enhancement)
  * This would parse AI responses to automatically store important context
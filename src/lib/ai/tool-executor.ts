@@ -1,10 +1,36 @@
 import { createClient } from '@supabase/supabase-js';
+import { FlagPriority, ResourceLocale, SafetyPlanSection } from '@/types';
+import { indexMemory } from './semantic-memory-service';
+import { findGroupMemory, GroupMemory, storeGroupMemory, updateGroupMemory } from './group-memory-service';
+import { checkToolPolicy, getToolScope, ToolScope } from './tool-policy-service';
+import {
+  checkInDueAt,
+  CrisisResourceLevel,
+  formatSafetyPlan,
+  getCrisisResources,
+  getSafetyPlan,
+  raiseFlag,
+  resolveResourceLocale,
+  updateSafetyPlanSection
+} from './safety';
+import { isSafetyPlanEmpty } from '@/lib/safety-plan';
+import { decryptRows, encryptField, encryptFields, ENCRYPTED_FIELDS, getSessionKeyOwner } from '@/lib/security/field-encryption';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
   process.env.SUPABASE_SERVICE_ROLE_KEY!
 );
 
+// Read tools return at most this much so a lookup cannot flood the context
+const GROUP_MEMORY_MAX_CHARS = 500;
+
+const RECALL_LIMITS = {
+  MAX_RESULTS: 10,
+  MAX_TEXT_CHARS: 300, // Per summary, insight or memory value
+  DEFAULT_MOOD_DAYS: 14,
+  MAX_MOOD_DAYS: 90,
+};
+
 export interface ToolCall {
   id: string;
   type: 'function';
@@ -21,15 +47,97 @@ export interface ToolResult {
   content: string;
 }
 
+/**
+ * Run a tool call and record it in tool_invocations so admins can see what the
+ * AI did in a session. Recording never delays or fails the call. Calls the
+ * tool policy does not allow are rejected (and recorded) without running; the
+ * scope is looked up from the session and user when not given. The locale
+ * decides which crisis resources are shown; without one it comes from the
+ * user's profile.
+ */
 export async function executeToolCall(
   toolCall: ToolCall,
   sessionId: string,
-  userId: string
+  userId: string,
+  scope?: ToolScope,
+  locale?: ResourceLocale
+): Promise<ToolResult> {
+  const startedAt = Date.now();
+  const result = await runToolCall(toolCall, sessionId, userId, scope, locale);
+  const success = !result.content.startsWith('Error');
+
+  recordToolInvocation(toolCall, sessionId, userId, result.content, success, Date.now() - startedAt)
+    .catch(error => {
+      console.error('Failed to record tool invocation:', error);
+    });
+
+  return result;
+}
+
+/**
+ * Store a tool call with its arguments, result and error encrypted with the
+ * calling user's key (the session owner's when there is no user)
+ */
+async function recordToolInvocation(
+  toolCall: ToolCall,
+  sessionId: string,
+  userId: string,
+  content: string,
+  success: boolean,
+  latencyMs: number
+): Promise<void> {
+  let args: unknown;
+  try {
+    args = JSON.parse(toolCall.function.arguments || '{}');
+  } catch {
+    args = { unparsed: toolCall.function.arguments };
+  }
+
+  const ownerId = userId || (sessionId ? await getSessionKeyOwner(sessionId) : null);
+  const fields = {
+    arguments: JSON.stringify(args),
+    result: content,
+    error: success ? null : content
+  };
+
+  const { error } = await supabase
+    .from('tool_invocations')
+    .insert({
+      session_id: sessionId || null,
+      user_id: userId || null,
+      tool_name: toolCall.function.name,
+      ...(ownerId ? await encryptFields(ownerId, fields, ENCRYPTED_FIELDS.tool_invocations) : fields),
+      success,
+      latency_ms: latencyMs
+    });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+async function runToolCall(
+  toolCall: ToolCall,
+  sessionId: string,
+  userId: string,
+  scope?: ToolScope,
+  locale?: ResourceLocale
 ): Promise<ToolResult> {
   const { name, arguments: args } = toolCall.function;
-  const parsedArgs = JSON.parse(args);
 
   try {
+    const parsedArgs = JSON.parse(args);
+
+    const violation = await checkToolPolicy(name, parsedArgs, scope || await getToolScope(sessionId, userId));
+    if (violation) {
+      return {
+        tool_call_id: toolCall.id,
+        role: 'tool',
+        name,
+        content: `Error: ${violation}`
+      };
+    }
+
     switch (name) {
       case 'update_session_title':
         return await executeUpdateSessionTitle(parsedArgs, sessionId, toolCall.id);
@@ -53,7 +161,7 @@ export async function executeToolCall(
         return await executeFlagForReview(parsedArgs, sessionId, userId, toolCall.id);
       
       case 'provide_emergency_resources':
-        return await executeProvideEmergencyResources(parsedArgs, sessionId, toolCall.id);
+        return await executeProvideEmergencyResources(parsedArgs, userId, toolCall.id, locale);
       
       case 'suggest_session_break':
         return await executeSuggestSessionBreak(parsedArgs, sessionId, toolCall.id);
@@ -75,6 +183,36 @@ export async function executeToolCall(
 
       case 'generate_session_insight':
         return await executeGenerateSessionInsight(parsedArgs, sessionId, toolCall.id);
+
+      case 'search_past_sessions':
+        return await executeSearchPastSessions(parsedArgs, sessionId, userId, toolCall.id);
+
+      case 'list_goals':
+        return await executeListGoals(parsedArgs, userId, toolCall.id);
+
+      case 'get_memory':
+        return await executeGetMemory(parsedArgs, userId, toolCall.id);
+
+      case 'get_recent_mood':
+        return await executeGetRecentMood(parsedArgs, userId, toolCall.id);
+
+      case 'get_safety_plan':
+        return await executeGetSafetyPlan(userId, toolCall.id);
+
+      case 'update_safety_plan':
+        return await executeUpdateSafetyPlan(parsedArgs, userId, toolCall.id);
+
+      case 'add_group_memory':
+        return await executeAddGroupMemory(parsedArgs, sessionId, userId, toolCall.id);
+
+      case 'update_group_goal':
+        return await executeUpdateGroupGoal(parsedArgs, sessionId, userId, toolCall.id);
+
+      case 'record_shared_insight':
+        return await executeRecordSharedInsight(parsedArgs, sessionId, userId, toolCall.id);
+
+      case 'note_participant_dynamic':
+        return await executeNoteParticipantDynamic(parsedArgs, sessionId, userId, toolCall.id);
       
       default:
         return {
@@ -197,14 +335,16 @@ async function executeAddMemory(
     };
   }
 
-  const { error } = await supabase
+  const { data: memory, error } = await supabase
     .from('user_memory')
     .insert({
       user_id: userId,
       memory_key,
-      memory_value,
+      memory_value: await encryptField(userId, memory_value),
       category
-    });
+    })
+    .select('id, user_id, memory_key')
+    .single();
 
   if (error) {
     return {
@@ -215,6 +355,8 @@ async function executeAddMemory(
     };
   }
 
+  await indexMemory({ ...memory, memory_value });
+
   return {
     tool_call_id: toolCallId,
     role: 'tool',
@@ -424,21 +566,14 @@ async function executeFlagForReview(
     };
   }
 
-  const { error } = await supabase
-    .from('session_flags')
-    .insert({
-      session_id: sessionId,
-      user_id: userId,
-      flag_type: 'review',
-      flag_reason: reason
-    });
-
-  if (error) {
+  try {
+    await raiseFlag({ sessionId, userId, flagType: 'review', reason, priority: 'medium' });
+  } catch (error) {
     return {
       tool_call_id: toolCallId,
       role: 'tool',
       name: 'flag_for_review',
-      content: `Error flagging session: ${error.message}`
+      content: `Error flagging session: ${error instanceof Error ? error.message : 'Unknown error'}`
     };
   }
 
@@ -452,8 +587,9 @@ async function executeFlagForReview(
 
 async function executeProvideEmergencyResources(
   args: { urgency_level: string; custom_message?: string },
-  sessionId: string,
-  toolCallId: string
+  userId: string,
+  toolCallId: string,
+  locale?: ResourceLocale
 ): Promise<ToolResult> {
   const { urgency_level, custom_message } = args;
   
@@ -476,68 +612,15 @@ async function executeProvideEmergencyResources(
     };
   }
 
-  const resources = {
-    high: `🚨 **CRISIS RESOURCES** 🚨
-
-**National Suicide Prevention Lifeline: 988**
-- Available 24/7, free, confidential
-- Text or call 988
-
-**Crisis Text Line: Text HOME to 741741**
-- Free, 24/7 crisis support via text
-
-**Emergency: Call 911**
-- For immediate danger to self or others
-
-**National Domestic Violence Hotline: 1-800-799-7233**
-- 24/7 support for domestic violence
-
-${custom_message ? `\n**Personal Message:** ${custom_message}` : ''}
-
-You are not alone. Please reach out for help immediately.`,
-
-    medium: `**Mental Health Support Resources**
-
-**National Suicide Prevention Lifeline: 988**
-- Available 24/7, free, confidential
-
-**Crisis Text Line: Text HOME to 741741**
-- Free crisis support via text
-
-**SAMHSA National Helpline: 1-800-662-4357**
-- 24/7 treatment referral and information
-
-**National Alliance on Mental Illness (NAMI): 1-800-950-6264**
-- Information, referrals, and support
-
-${custom_message ? `\n**Note:** ${custom_message}` : ''}
-
-Remember, seeking help is a sign of strength.`,
-
-    low: `**Wellness Resources**
-
-**National Suicide Prevention Lifeline: 988**
-- Available 24/7 for any mental health crisis
-
-**Crisis Text Line: Text HOME to 741741**
-- Free crisis support via text
-
-**SAMHSA National Helpline: 1-800-662-4357**
-- Treatment referral and information
-
-**Mental Health America: mhanational.org**
-- Resources and screening tools
-
-${custom_message ? `\n**Gentle Reminder:** ${custom_message}` : ''}
-
-Take care of yourself. Support is available when you need it.`
-  };
-
   return {
     tool_call_id: toolCallId,
     role: 'tool',
     name: 'provide_emergency_resources',
-    content: resources[urgency_level as keyof typeof resources]
+    content: await getCrisisResources(
+      urgency_level as CrisisResourceLevel,
+      locale || await resolveResourceLocale({ userId }),
+      custom_message
+    )
   };
 }
 
@@ -699,7 +782,7 @@ async function executeAddSessionNote(
     .from('ai_session_notes')
     .insert({
       session_id: sessionId,
-      note_text
+      note_text: await encryptField(await getSessionKeyOwner(sessionId), note_text)
     });
 
   if (error) {
@@ -746,21 +829,22 @@ async function executeScheduleCheckIn(
     };
   }
 
-  const { error } = await supabase
-    .from('session_flags')
-    .insert({
-      session_id: sessionId,
-      user_id: userId,
-      flag_type: 'check_in',
-      flag_reason: `${check_in_type}: ${reason}`
+  // Check-ins are routine; they are due when the check-in is
+  try {
+    await raiseFlag({
+      sessionId,
+      userId,
+      flagType: 'check_in',
+      reason: `${check_in_type}: ${reason}`,
+      priority: 'low',
+      dueAt: checkInDueAt(check_in_type)
     });
-
-  if (error) {
+  } catch (error) {
     return {
       tool_call_id: toolCallId,
       role: 'tool',
       name: 'schedule_check_in',
-      content: `Error scheduling check-in: ${error.message}`
+      content: `Error scheduling check-in: ${error instanceof Error ? error.message : 'Unknown error'}`
     };
   }
 
@@ -799,21 +883,20 @@ async function executeEscalateToHuman(
     };
   }
 
-  const { error } = await supabase
-    .from('session_flags')
-    .insert({
-      session_id: sessionId,
-      user_id: userId,
-      flag_type: 'escalate',
-      flag_reason: `[${urgency.toUpperCase()}] ${reason}`
+  try {
+    await raiseFlag({
+      sessionId,
+      userId,
+      flagType: 'escalate',
+      reason: `[${urgency.toUpperCase()}] ${reason}`,
+      priority: urgency as FlagPriority
     });
-
-  if (error) {
+  } catch (error) {
     return {
       tool_call_id: toolCallId,
       role: 'tool',
       name: 'escalate_to_human',
-      content: `Error escalating to human: ${error.message}`
+      content: `Error escalating to human: ${error instanceof Error ? error.message : 'Unknown error'}`
     };
   }
 
@@ -924,3 +1007,597 @@ async function executeGenerateSessionInsight(
     content: 'Insight saved successfully'
   };
 }
+
+function truncate(text: string): string {
+  return text.length > RECALL_LIMITS.MAX_TEXT_CHARS
+    ? `${text.substring(0, RECALL_LIMITS.MAX_TEXT_CHARS)}...`
+    : text;
+}
+
+function formatDay(date: string): string {
+  return new Date(date).toISOString().split('T')[0];
+}
+
+interface PastSession {
+  session_id: string;
+  title: string;
+  session_summary: string | null;
+  last_message_at: string;
+}
+
+async function executeSearchPastSessions(
+  args: { query: string },
+  sessionId: string,
+  userId: string,
+  toolCallId: string
+): Promise<ToolResult> {
+  const query = (args.query || '').trim();
+
+  if (!query || query.length > 100) {
+    return {
+      tool_call_id: toolCallId,
+      role: 'tool',
+      name: 'search_past_sessions',
+      content: 'Error: query is required and must be 100 characters or less'
+    };
+  }
+
+  // Only the user's own sessions are searched; LIKE wildcards in the query are matched literally
+  const pattern = `%${query.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+  // Quoted for the or() filter, so commas and parentheses in the query are not read as syntax
+  const quotedPattern = `"${pattern.replace(/["\\]/g, match => `\\${match}`)}"`;
+
+  let sessionQuery = supabase
+    .from('therapy_sessions')
+    .select('session_id, title, session_summary, last_message_at')
+    .eq('user_id', userId)
+    .or(`title.ilike.${quotedPattern},session_summary.ilike.${quotedPattern}`)
+    .order('last_message_at', { ascending: false })
+    .limit(RECALL_LIMITS.MAX_RESULTS);
+
+  let insightQuery = supabase
+    .from('session_insights')
+    .select('session_id, insight_text, therapy_sessions!inner(session_id, title, session_summary, last_message_at)')
+    .eq('therapy_sessions.user_id', userId)
+    .ilike('insight_text', pattern)
+    .order('created_at', { ascending: false })
+    .limit(RECALL_LIMITS.MAX_RESULTS);
+
+  if (sessionId) {
+    sessionQuery = sessionQuery.neq('session_id', sessionId);
+    insightQuery = insightQuery.neq('session_id', sessionId);
+  }
+
+  const [{ data: sessions, error: sessionsError }, { data: insights, error: insightsError }] = await Promise.all([
+    sessionQuery,
+    insightQuery
+  ]);
+
+  if (sessionsError) {
+    return {
+      tool_call_id: toolCallId,
+      role: 'tool',
+      name: 'search_past_sessions',
+      content: `Error searching sessions: ${sessionsError.message}`
+    };
+  }
+
+  if (insightsError) {
+    return {
+      tool_call_id: toolCallId,
+      role: 'tool',
+      name: 'search_past_sessions',
+      content: `Error searching insights: ${insightsError.message}`
+    };
+  }
+
+  const matchedSessions = new Map<string, PastSession>((sessions || []).map(session => [session.session_id, session]));
+  const insightsBySession = new Map<string, string[]>();
+  for (const insight of insights || []) {
+    const session = insight.therapy_sessions as unknown as PastSession;
+    matchedSessions.set(session.session_id, session);
+    insightsBySession.set(insight.session_id, [...(insightsBySession.get(insight.session_id) || []), insight.insight_text]);
+  }
+
+  const matches = Array.from(matchedSessions.values())
+    .sort((a, b) => new Date(b.last_message_at).getTime() - new Date(a.last_message_at).getTime())
+    .slice(0, RECALL_LIMITS.MAX_RESULTS);
+
+  if (matches.length === 0) {
+    return {
+      tool_call_id: toolCallId,
+      role: 'tool',
+      name: 'search_past_sessions',
+      content: `No past sessions mention "${query}"`
+    };
+  }
+
+  const lines = matches.map(session => {
+    const parts = [`- ${formatDay(session.last_message_at)} "${session.title}"`];
+    if (session.session_summary) {
+      parts.push(`  Summary: ${truncate(session.session_summary)}`);
+    }
+    for (const insight of insightsBySession.get(session.session_id) || []) {
+      parts.push(`  Insight: ${truncate(insight)}`);
+    }
+    return parts.join('\n');
+  });
+
+  return {
+    tool_call_id: toolCallId,
+    role: 'tool',
+    name: 'search_past_sessions',
+    content: `Past sessions mentioning "${query}":\n${lines.join('\n')}`
+  };
+}
+
+async function executeListGoals(
+  args: { status: string },
+  userId: string,
+  toolCallId: string
+): Promise<ToolResult> {
+  const status = args.status || 'all';
+
+  const validStatuses = ['active', 'achieved', 'paused', 'all'];
+  if (!validStatuses.includes(status)) {
+    return {
+      tool_call_id: toolCallId,
+      role: 'tool',
+      name: 'list_goals',
+      content: `Error: status must be one of: ${validStatuses.join(', ')}`
+    };
+  }
+
+  let query = supabase
+    .from('user_goals')
+    .select('goal_text, status, created_at, achieved_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(RECALL_LIMITS.MAX_RESULTS);
+
+  if (status !== 'all') {
+    query = query.eq('status', status);
+  }
+
+  const { data: goals, error } = await query;
+
+  if (error) {
+    return {
+      tool_call_id: toolCallId,
+      role: 'tool',
+      name: 'list_goals',
+      content: `Error listing goals: ${error.message}`
+    };
+  }
+
+  if (!goals || goals.length === 0) {
+    return {
+      tool_call_id: toolCallId,
+      role: 'tool',
+      name: 'list_goals',
+      content: status === 'all' ? 'The user has no goals yet' : `The user has no ${status} goals`
+    };
+  }
+
+  const lines = goals.map(goal =>
+    `- [${goal.status}] ${truncate(goal.goal_text)} (set ${formatDay(goal.created_at)}${goal.achieved_at ? `, achieved ${formatDay(goal.achieved_at)}` : ''})`
+  );
+
+  return {
+    tool_call_id: toolCallId,
+    role: 'tool',
+    name: 'list_goals',
+    content: `Goals (${status}):\n${lines.join('\n')}`
+  };
+}
+
+async function executeGetMemory(
+  args: { memory_key?: string; category?: string },
+  userId: string,
+  toolCallId: string
+): Promise<ToolResult> {
+  const { memory_key, category } = args;
+
+  if (!memory_key && !category) {
+    return {
+      tool_call_id: toolCallId,
+      role: 'tool',
+      name: 'get_memory',
+      content: 'Error: memory_key or category is required'
+    };
+  }
+
+  let query = supabase
+    .from('user_memory')
+    .select('memory_key, memory_value, category, emotion_tag')
+    .eq('user_id', userId)
+    .eq('is_active', true)
+    .order('updated_at', { ascending: false })
+    .limit(RECALL_LIMITS.MAX_RESULTS);
+
+  if (memory_key) {
+    query = query.eq('memory_key', memory_key);
+  }
+  if (category) {
+    query = query.eq('category', category);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    return {
+      tool_call_id: toolCallId,
+      role: 'tool',
+      name: 'get_memory',
+      content: `Error reading memory: ${error.message}`
+    };
+  }
+
+  const memories = await decryptRows(data, ENCRYPTED_FIELDS.user_memory);
+
+  if (memories.length === 0) {
+    return {
+      tool_call_id: toolCallId,
+      role: 'tool',
+      name: 'get_memory',
+      content: memory_key ? `No memory with key '${memory_key}'` : `No memories in category '${category}'`
+    };
+  }
+
+  const lines = memories.map(memory =>
+    `- ${memory.memory_key} (${memory.category}${memory.emotion_tag ? `, ${memory.emotion_tag}` : ''}): ${truncate(memory.memory_value)}`
+  );
+
+  return {
+    tool_call_id: toolCallId,
+    role: 'tool',
+    name: 'get_memory',
+    content: `Memories:\n${lines.join('\n')}`
+  };
+}
+
+async function executeGetRecentMood(
+  args: { days?: number },
+  userId: string,
+  toolCallId: string
+): Promise<ToolResult> {
+  const days = args.days ?? RECALL_LIMITS.DEFAULT_MOOD_DAYS;
+
+  if (!Number.isInteger(days) || days < 1 || days > RECALL_LIMITS.MAX_MOOD_DAYS) {
+    return {
+      tool_call_id: toolCallId,
+      role: 'tool',
+      name: 'get_recent_mood',
+      content: `Error: days must be a whole number from 1 to ${RECALL_LIMITS.MAX_MOOD_DAYS}`
+    };
+  }
+
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+  const { data: taggedMemories, error: memoryError } = await supabase
+    .from('user_memory')
+    .select('memory_key, emotion_tag, importance_level, updated_at')
+    .eq('user_id', userId)
+    .eq('is_active', true)
+    .not('emotion_tag', 'is', null)
+    .gte('updated_at', since)
+    .order('updated_at', { ascending: false })
+    .limit(RECALL_LIMITS.MAX_RESULTS);
+
+  if (memoryError) {
+    return {
+      tool_call_id: toolCallId,
+      role: 'tool',
+      name: 'get_recent_mood',
+      content: `Error reading mood: ${memoryError.message}`
+    };
+  }
+
+  const { data: sessions } = await supabase
+    .from('therapy_sessions')
+    .select('session_id')
+    .eq('user_id', userId)
+    .gte('last_message_at', since);
+
+  const sessionIds = (sessions || []).map(session => session.session_id);
+  const { data: insights } = sessionIds.length > 0
+    ? await supabase
+        .from('session_insights')
+        .select('insight_text, created_at')
+        .in('session_id', sessionIds)
+        .eq('insight_type', 'emotion')
+        .gte('created_at', since)
+        .order('created_at', { ascending: false })
+        .limit(RECALL_LIMITS.MAX_RESULTS)
+    : { data: [] };
+
+  if ((taggedMemories || []).length === 0 && (insights || []).length === 0) {
+    return {
+      tool_call_id: toolCallId,
+      role: 'tool',
+      name: 'get_recent_mood',
+      content: `No mood information recorded in the last ${days} days`
+    };
+  }
+
+  const counts = new Map<string, number>();
+  for (const memory of taggedMemories || []) {
+    counts.set(memory.emotion_tag, (counts.get(memory.emotion_tag) || 0) + 1);
+  }
+
+  const lines: string[] = [];
+  if (counts.size > 0) {
+    lines.push(`Emotion tags: ${[...counts.entries()].map(([tag, count]) => `${tag} (${count})`).join(', ')}`);
+    for (const memory of taggedMemories || []) {
+      lines.push(`- ${formatDay(memory.updated_at)} ${memory.memory_key}: ${memory.emotion_tag}, importance ${memory.importance_level}/5`);
+    }
+  }
+  for (const insight of insights || []) {
+    lines.push(`- ${formatDay(insight.created_at)} insight: ${truncate(insight.insight_text)}`);
+  }
+
+  return {
+    tool_call_id: toolCallId,
+    role: 'tool',
+    name: 'get_recent_mood',
+    content: `Mood over the last ${days} days:\n${lines.join('\n')}`
+  };
+}
+
+async function executeGetSafetyPlan(
+  userId: string,
+  toolCallId: string
+): Promise<ToolResult> {
+  const plan = await getSafetyPlan(userId);
+
+  return {
+    tool_call_id: toolCallId,
+    role: 'tool',
+    name: 'get_safety_plan',
+    content: !plan || isSafetyPlanEmpty(plan)
+      ? 'The user has no safety plan yet'
+      : `Safety plan:\n${formatSafetyPlan(plan)}`
+  };
+}
+
+async function executeUpdateSafetyPlan(
+  args: { section: string; action: string; item: string; phone?: string; note?: string },
+  userId: string,
+  toolCallId: string
+): Promise<ToolResult> {
+  const { section, action, item, phone, note } = args;
+
+  if (action !== 'add' && action !== 'remove') {
+    return {
+      tool_call_id: toolCallId,
+      role: 'tool',
+      name: 'update_safety_plan',
+      content: 'Error: action must be add or remove'
+    };
+  }
+
+  if (!item) {
+    return {
+      tool_call_id: toolCallId,
+      role: 'tool',
+      name: 'update_safety_plan',
+      content: 'Error: item is required'
+    };
+  }
+
+  try {
+    const plan = await updateSafetyPlanSection(userId, section as SafetyPlanSection, action, item, { phone, note });
+
+    return {
+      tool_call_id: toolCallId,
+      role: 'tool',
+      name: 'update_safety_plan',
+      content: `Safety plan updated (${action === 'add' ? 'added' : 'removed'} "${item}").\n${formatSafetyPlan(plan)}`
+    };
+  } catch (error) {
+    return {
+      tool_call_id: toolCallId,
+      role: 'tool',
+      name: 'update_safety_plan',
+      content: `Error: ${error instanceof Error ? error.message : 'Failed to update safety plan'}`
+    };
+  }
+}
+
+async function executeAddGroupMemory(
+  args: { memory_key: string; memory_value: string; category: string },
+  sessionId: string,
+  userId: string,
+  toolCallId: string
+): Promise<ToolResult> {
+  const { memory_key, memory_value, category } = args;
+
+  if (!sessionId) {
+    return {
+      tool_call_id: toolCallId,
+      role: 'tool',
+      name: 'add_group_memory',
+      content: 'Error: group memory can only be stored in a group session'
+    };
+  }
+
+  if (!memory_key || !memory_value || !category || memory_value.length > GROUP_MEMORY_MAX_CHARS) {
+    return {
+      tool_call_id: toolCallId,
+      role: 'tool',
+      name: 'add_group_memory',
+      content: `Error: memory_key, memory_value (max ${GROUP_MEMORY_MAX_CHARS} chars), and category are all required`
+    };
+  }
+
+  const validCategories: GroupMemory['category'][] = ['group_goals', 'shared_insights', 'group_progress', 'session_notes', 'collective_learnings'];
+  if (!validCategories.includes(category as GroupMemory['category'])) {
+    return {
+      tool_call_id: toolCallId,
+      role: 'tool',
+      name: 'add_group_memory',
+      content: `Error: category must be one of: ${validCategories.join(', ')}`
+    };
+  }
+
+  const result = await storeGroupMemory(sessionId, memory_key, memory_value, category as GroupMemory['category'], userId);
+
+  if (!result.success) {
+    return {
+      tool_call_id: toolCallId,
+      role: 'tool',
+      name: 'add_group_memory',
+      content: `Error adding group memory: ${result.error}`
+    };
+  }
+
+  return {
+    tool_call_id: toolCallId,
+    role: 'tool',
+    name: 'add_group_memory',
+    content: `Successfully added group memory: ${memory_key}`
+  };
+}
+
+async function executeUpdateGroupGoal(
+  args: { goal_key: string; goal_text: string },
+  sessionId: string,
+  userId: string,
+  toolCallId: string
+): Promise<ToolResult> {
+  const { goal_key, goal_text } = args;
+
+  if (!sessionId) {
+    return {
+      tool_call_id: toolCallId,
+      role: 'tool',
+      name: 'update_group_goal',
+      content: 'Error: group goals can only be stored in a group session'
+    };
+  }
+
+  if (!goal_key || !goal_text || goal_text.length > GROUP_MEMORY_MAX_CHARS) {
+    return {
+      tool_call_id: toolCallId,
+      role: 'tool',
+      name: 'update_group_goal',
+      content: `Error: goal_key and goal_text (max ${GROUP_MEMORY_MAX_CHARS} chars) are required`
+    };
+  }
+
+  const existing = await findGroupMemory(sessionId, 'group_goals', goal_key);
+  const result = existing
+    ? await updateGroupMemory(existing.id, goal_text, userId)
+    : await storeGroupMemory(sessionId, goal_key, goal_text, 'group_goals', userId);
+
+  if (!result.success) {
+    return {
+      tool_call_id: toolCallId,
+      role: 'tool',
+      name: 'update_group_goal',
+      content: `Error saving group goal: ${result.error}`
+    };
+  }
+
+  return {
+    tool_call_id: toolCallId,
+    role: 'tool',
+    name: 'update_group_goal',
+    content: existing ? `Updated group goal: ${goal_key}` : `Added group goal: ${goal_key}`
+  };
+}
+
+async function executeRecordSharedInsight(
+  args: { insight_key: string; insight: string },
+  sessionId: string,
+  userId: string,
+  toolCallId: string
+): Promise<ToolResult> {
+  const { insight_key, insight } = args;
+
+  if (!sessionId) {
+    return {
+      tool_call_id: toolCallId,
+      role: 'tool',
+      name: 'record_shared_insight',
+      content: 'Error: shared insights can only be recorded in a group session'
+    };
+  }
+
+  if (!insight_key || !insight || insight.length > GROUP_MEMORY_MAX_CHARS) {
+    return {
+      tool_call_id: toolCallId,
+      role: 'tool',
+      name: 'record_shared_insight',
+      content: `Error: insight_key and insight (max ${GROUP_MEMORY_MAX_CHARS} chars) are required`
+    };
+  }
+
+  const result = await storeGroupMemory(sessionId, insight_key, insight, 'shared_insights', userId);
+
+  if (!result.success) {
+    return {
+      tool_call_id: toolCallId,
+      role: 'tool',
+      name: 'record_shared_insight',
+      content: `Error recording shared insight: ${result.error}`
+    };
+  }
+
+  return {
+    tool_call_id: toolCallId,
+    role: 'tool',
+    name: 'record_shared_insight',
+    content: `Recorded shared insight: ${insight_key}`
+  };
+}
+
+async function executeNoteParticipantDynamic(
+  args: { participants: string[]; observation: string },
+  sessionId: string,
+  userId: string,
+  toolCallId: string
+): Promise<ToolResult> {
+  const { participants, observation } = args;
+
+  if (!sessionId) {
+    return {
+      tool_call_id: toolCallId,
+      role: 'tool',
+      name: 'note_participant_dynamic',
+      content: 'Error: participant dynamics can only be noted in a group session'
+    };
+  }
+
+  const names = Array.isArray(participants)
+    ? participants.filter(name => typeof name === 'string' && name.trim()).map(name => name.trim())
+    : [];
+
+  if (names.length === 0 || !observation || observation.length > GROUP_MEMORY_MAX_CHARS) {
+    return {
+      tool_call_id: toolCallId,
+      role: 'tool',
+      name: 'note_participant_dynamic',
+      content: `Error: at least one participant and an observation (max ${GROUP_MEMORY_MAX_CHARS} chars) are required`
+    };
+  }
+
+  // Stored as a session note keyed by who it is about
+  const result = await storeGroupMemory(sessionId, `Dynamic: ${names.join(', ')}`, observation, 'session_notes', userId);
+
+  if (!result.success) {
+    return {
+      tool_call_id: toolCallId,
+      role: 'tool',
+      name: 'note_participant_dynamic',
+      content: `Error noting participant dynamic: ${result.error}`
+    };
+  }
+
+  return {
+    tool_call_id: toolCallId,
+    role: 'tool',
+    name: 'note_participant_dynamic',
+    content: `Noted dynamic between ${names.join(', ')}`
+  };
+}
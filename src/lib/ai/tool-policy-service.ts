@@ -0,0 +1,210 @@
+/**
+ * Tool policies
+ * Server-side only - admin rules for which AI tools are enabled per session
+ * type and subscription tier, with limits on their arguments. Applied when the
+ * tool list is built and again in executeToolCall, so a call to a disabled
+ * tool is rejected even if the model makes it up.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { ToolConstraints, ToolPolicy } from '@/types';
+import { AITool, getAITools } from './tools';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export const TOOL_POLICY_CONFIG = {
+  CACHE_MS: 60 * 1000, // Policies are re-read at most this often
+};
+
+export const TOOL_POLICY_SESSION_TYPES: ToolPolicy['session_type'][] = ['individual', 'group', 'introduction'];
+export const TOOL_POLICY_TIERS: ToolPolicy['subscription_tier'][] = ['free', 'pro'];
+
+// Who a tool call is made for; decides which policies apply
+export interface ToolScope {
+  sessionType: ToolPolicy['session_type'];
+  tier: ToolPolicy['subscription_tier'];
+}
+
+export interface ToolPolicyInput {
+  sessionType: ToolPolicy['session_type'];
+  tier: ToolPolicy['subscription_tier'];
+  toolName: string;
+  enabled: boolean;
+  constraints: ToolConstraints;
+}
+
+let policyCache: ToolPolicy[] | null = null;
+let policiesLoadedAt = 0;
+
+async function getPolicies(): Promise<ToolPolicy[]> {
+  if (policyCache && Date.now() - policiesLoadedAt < TOOL_POLICY_CONFIG.CACHE_MS) {
+    return policyCache;
+  }
+
+  const { data, error } = await supabase
+    .from('ai_tool_policies')
+    .select('*');
+
+  if (error) {
+    // Keep enforcing the last known policies rather than dropping them
+    console.error('Error loading tool policies:', error);
+    return policyCache || [];
+  }
+
+  policyCache = data || [];
+  policiesLoadedAt = Date.now();
+  return policyCache;
+}
+
+function findPolicy(policies: ToolPolicy[], scope: ToolScope, toolName: string): ToolPolicy | undefined {
+  return policies.find(policy =>
+    policy.session_type === scope.sessionType &&
+    policy.subscription_tier === scope.tier &&
+    policy.tool_name === toolName
+  );
+}
+
+/**
+ * Session type and subscription tier for a session's tool calls. Missing or
+ * unreadable records fall back to an individual session on the free tier.
+ */
+export async function getToolScope(sessionId?: string, userId?: string): Promise<ToolScope> {
+  const scope: ToolScope = { sessionType: 'individual', tier: 'free' };
+
+  if (sessionId) {
+    const { data: session } = await supabase
+      .from('therapy_sessions')
+      .select('session_type')
+      .eq('session_id', sessionId)
+      .maybeSingle();
+
+    if (session && TOOL_POLICY_SESSION_TYPES.includes(session.session_type)) {
+      scope.sessionType = session.session_type;
+    }
+  }
+
+  if (userId) {
+    const { data: user } = await supabase
+      .from('users')
+      .select('subscription_tier')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (user && TOOL_POLICY_TIERS.includes(user.subscription_tier)) {
+      scope.tier = user.subscription_tier;
+    }
+  }
+
+  return scope;
+}
+
+/**
+ * The session type's tools, less any a policy disables
+ */
+export async function getSessionTools(scope: ToolScope): Promise<AITool[]> {
+  const policies = await getPolicies();
+  return getAITools(scope.sessionType).filter(tool => findPolicy(policies, scope, tool.name)?.enabled !== false);
+}
+
+/**
+ * Why a tool call is not allowed, or null if it may run
+ */
+export async function checkToolPolicy(
+  toolName: string,
+  args: Record<string, unknown>,
+  scope: ToolScope
+): Promise<string | null> {
+  if (!getAITools(scope.sessionType).some(tool => tool.name === toolName)) {
+    return `${toolName} is not available in ${scope.sessionType} sessions`;
+  }
+
+  const policy = findPolicy(await getPolicies(), scope, toolName);
+  if (!policy) {
+    return null;
+  }
+
+  if (!policy.enabled) {
+    return `${toolName} is disabled for ${scope.sessionType} sessions on the ${scope.tier} tier`;
+  }
+
+  for (const [arg, max] of Object.entries(policy.constraints?.maxLength || {})) {
+    const value = args[arg];
+    if (typeof value === 'string' && value.length > max) {
+      return `${arg} must be at most ${max} characters`;
+    }
+  }
+
+  for (const [arg, allowed] of Object.entries(policy.constraints?.allowedValues || {})) {
+    const value = args[arg];
+    if (value !== undefined && !allowed.includes(String(value))) {
+      return `${arg} must be one of: ${allowed.join(', ')}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Every policy, read fresh for the admin
+ */
+export async function listToolPolicies(): Promise<ToolPolicy[]> {
+  const { data, error } = await supabase
+    .from('ai_tool_policies')
+    .select('*')
+    .order('tool_name', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load tool policies: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * Create or replace the policy for a tool in one session type and tier
+ */
+export async function saveToolPolicy(input: ToolPolicyInput, userId: string): Promise<ToolPolicy> {
+  if (!getAITools(input.sessionType).some(tool => tool.name === input.toolName)) {
+    throw new Error(`${input.toolName} is not available in ${input.sessionType} sessions`);
+  }
+
+  const { data, error } = await supabase
+    .from('ai_tool_policies')
+    .upsert({
+      session_type: input.sessionType,
+      subscription_tier: input.tier,
+      tool_name: input.toolName,
+      enabled: input.enabled,
+      constraints: input.constraints,
+      updated_by: userId,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'session_type,subscription_tier,tool_name' })
+    .select('*')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save tool policy: ${error.message}`);
+  }
+
+  policyCache = null;
+  return data;
+}
+
+/**
+ * Remove a policy, returning the tool to its default (enabled, unconstrained)
+ */
+export async function deleteToolPolicy(policyId: string): Promise<void> {
+  const { error } = await supabase
+    .from('ai_tool_policies')
+    .delete()
+    .eq('id', policyId);
+
+  if (error) {
+    throw new Error(`Failed to delete tool policy: ${error.message}`);
+  }
+
+  policyCache = null;
+}
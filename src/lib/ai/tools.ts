@@ -1,3 +1,5 @@
+import type { SessionType } from './system-prompts';
+
 export interface AITool {
   type: "function";
   name: string;
@@ -328,9 +330,254 @@ export const AI_TOOLS: AITool[] = [
       additionalProperties: false
     },
     strict: true
+  },
+  {
+    type: "function",
+    name: "search_past_sessions",
+    description: "Search the summaries and insights of the user's earlier sessions for a topic, person or event they mention",
+    parameters: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "Word or short phrase to look for (e.g., 'sister', 'job interview')"
+        }
+      },
+      required: ["query"],
+      additionalProperties: false
+    },
+    strict: true
+  },
+  {
+    type: "function",
+    name: "list_goals",
+    description: "List the user's wellness goals, optionally only those with a given status",
+    parameters: {
+      type: "object",
+      properties: {
+        status: {
+          type: "string",
+          enum: ["active", "achieved", "paused", "all"],
+          description: "Which goals to list"
+        }
+      },
+      required: ["status"],
+      additionalProperties: false
+    },
+    strict: true
+  },
+  {
+    type: "function",
+    name: "get_memory",
+    description: "Look up stored memories about the user by key or category",
+    parameters: {
+      type: "object",
+      properties: {
+        memory_key: {
+          type: "string",
+          description: "Key of a specific memory"
+        },
+        category: {
+          type: "string",
+          enum: ["personal_info", "preferences", "progress", "insights"],
+          description: "Category of memories to list"
+        }
+      },
+      required: [],
+      additionalProperties: false
+    },
+    strict: true
+  },
+  {
+    type: "function",
+    name: "get_recent_mood",
+    description: "Get the emotions recently tagged on the user's memories and emotion insights from recent sessions",
+    parameters: {
+      type: "object",
+      properties: {
+        days: {
+          type: "integer",
+          minimum: 1,
+          maximum: 90,
+          description: "How many days back to look (default 14)"
+        }
+      },
+      required: [],
+      additionalProperties: false
+    },
+    strict: true
+  },
+  {
+    type: "function",
+    name: "get_safety_plan",
+    description: "Read the user's personal safety plan before helping them build or revisit it",
+    parameters: {
+      type: "object",
+      properties: {},
+      required: [],
+      additionalProperties: false
+    },
+    strict: true
+  },
+  {
+    type: "function",
+    name: "update_safety_plan",
+    description: "Add an entry to the user's safety plan, or remove one, once they have agreed to it. Use the user's own words.",
+    parameters: {
+      type: "object",
+      properties: {
+        section: {
+          type: "string",
+          enum: ["warning_signs", "coping_strategies", "contacts", "professionals", "safe_environment"],
+          description: "Plan section: warning signs, coping strategies, people to contact, professionals, or ways to make their environment safe"
+        },
+        action: {
+          type: "string",
+          enum: ["add", "remove"],
+          description: "Whether to add the entry or remove it"
+        },
+        item: {
+          type: "string",
+          description: "The entry, or the person's name for contacts and professionals (max 200 characters)"
+        },
+        phone: {
+          type: "string",
+          description: "Phone number, for contacts and professionals"
+        },
+        note: {
+          type: "string",
+          description: "Who the person is (e.g., 'sister', 'GP'), for contacts and professionals"
+        }
+      },
+      required: ["section", "action", "item"],
+      additionalProperties: false
+    },
+    strict: true
   }
 ];
 
-export function getAITools(): AITool[] {
-  return AI_TOOLS;
+// Tools for group sessions; they write to the session's group_session_memory
+export const GROUP_AI_TOOLS: AITool[] = [
+  {
+    type: "function",
+    name: "add_group_memory",
+    description: "Store something the group should remember in future group sessions",
+    parameters: {
+      type: "object",
+      properties: {
+        memory_key: {
+          type: "string",
+          description: "Short key to identify this memory"
+        },
+        memory_value: {
+          type: "string",
+          description: "The information to remember (max 500 chars)"
+        },
+        category: {
+          type: "string",
+          enum: ["group_goals", "shared_insights", "group_progress", "session_notes", "collective_learnings"],
+          description: "Category of group memory"
+        }
+      },
+      required: ["memory_key", "memory_value", "category"],
+      additionalProperties: false
+    },
+    strict: true
+  },
+  {
+    type: "function",
+    name: "update_group_goal",
+    description: "Add a goal the group shares, or update an existing group goal as the group makes progress",
+    parameters: {
+      type: "object",
+      properties: {
+        goal_key: {
+          type: "string",
+          description: "Short key for the goal (reuse the key of an existing goal to update it)"
+        },
+        goal_text: {
+          type: "string",
+          description: "The goal and where the group stands on it (max 500 chars)"
+        }
+      },
+      required: ["goal_key", "goal_text"],
+      additionalProperties: false
+    },
+    strict: true
+  },
+  {
+    type: "function",
+    name: "record_shared_insight",
+    description: "Record an insight or realization the group reached together",
+    parameters: {
+      type: "object",
+      properties: {
+        insight_key: {
+          type: "string",
+          description: "Short key to identify this insight"
+        },
+        insight: {
+          type: "string",
+          description: "The shared insight (max 500 chars)"
+        }
+      },
+      required: ["insight_key", "insight"],
+      additionalProperties: false
+    },
+    strict: true
+  },
+  {
+    type: "function",
+    name: "note_participant_dynamic",
+    description: "Note a pattern in how participants interact (e.g., one partner withdraws when the other raises finances)",
+    parameters: {
+      type: "object",
+      properties: {
+        participants: {
+          type: "array",
+          items: { type: "string" },
+          description: "Names of the participants involved, as they appear in the message prefixes"
+        },
+        observation: {
+          type: "string",
+          description: "What you noticed about their interaction (max 500 chars)"
+        }
+      },
+      required: ["participants", "observation"],
+      additionalProperties: false
+    },
+    strict: true
+  }
+];
+
+// Tools that read or write one user's own memory, goals, preferences and
+// safety plan. In a group session they would act on whichever participant
+// sent the message.
+const INDIVIDUAL_ONLY_TOOLS = new Set([
+  'add_memory',
+  'add_goal',
+  'update_goal_status',
+  'update_user_preference',
+  'add_memory_tag',
+  'search_past_sessions',
+  'list_goals',
+  'get_memory',
+  'get_recent_mood',
+  'get_safety_plan',
+  'update_safety_plan'
+]);
+
+const GROUP_SESSION_TYPES: SessionType[] = ['group', 'relationship', 'family', 'general'];
+
+/**
+ * Tools offered to the AI for a session: individual (and introduction)
+ * sessions get the personal memory and goal tools, group sessions get the
+ * group memory tools instead. Tool policies can narrow this further.
+ */
+export function getAITools(sessionType: string = 'individual'): AITool[] {
+  if (!GROUP_SESSION_TYPES.includes(sessionType as SessionType)) {
+    return AI_TOOLS;
+  }
+
+  return [...AI_TOOLS.filter(tool => !INDIVIDUAL_ONLY_TOOLS.has(tool.name)), ...GROUP_AI_TOOLS];
 }
@@ -0,0 +1,372 @@
+/**
+ * AI usage accounting
+ * Server-side only - records the tokens, estimated cost, latency and tool
+ * calls of every provider call, keyed by user and session, and aggregates
+ * them for the admin usage dashboard. Costs come from the default price table
+ * below unless an admin has overridden the model's price in ai_model_pricing.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { AIModelPrice, AIUsagePurpose, AIUsageReport, AIUsageTotals } from '@/types';
+import { AIMessage, TokenUsage } from './providers';
+import { ChainedAIConfig } from './failover-service';
+import { estimateTokens } from './context-manager';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export const USAGE_CONFIG = {
+  PRICING_CACHE_MS: 5 * 60 * 1000, // How long price overrides are cached
+  REPORT_TOP_USERS: 50, // Users listed on the dashboard, highest cost first
+};
+
+// Default USD prices per million tokens (input, output), matched by model name prefix
+const DEFAULT_PRICES: Record<string, [number, number]> = {
+  'gpt-5-nano': [0.05, 0.4],
+  'gpt-5-mini': [0.25, 2],
+  'gpt-5': [1.25, 10],
+  'gpt-4.1-nano': [0.1, 0.4],
+  'gpt-4.1-mini': [0.4, 1.6],
+  'gpt-4.1': [2, 8],
+  'gpt-4o-mini': [0.15, 0.6],
+  'gpt-4o': [2.5, 10],
+  'gpt-4-turbo': [10, 30],
+  'gpt-4': [30, 60],
+  'gpt-3.5-turbo': [0.5, 1.5],
+  'o3-mini': [1.1, 4.4],
+  'o3': [2, 8],
+  'o4-mini': [1.1, 4.4],
+  'claude-opus-4': [15, 75],
+  'claude-sonnet-4': [3, 15],
+  'claude-haiku-4': [1, 5],
+  'claude-3-opus': [15, 75],
+  'claude-3-7-sonnet': [3, 15],
+  'claude-3-5-sonnet': [3, 15],
+  'claude-3-5-haiku': [0.8, 4],
+  'claude-3-haiku': [0.25, 1.25],
+  'sonar-reasoning-pro': [2, 8],
+  'sonar-reasoning': [1, 5],
+  'sonar-pro': [3, 15],
+  'sonar': [1, 1],
+};
+
+export interface UsageContext {
+  purpose: AIUsagePurpose;
+  userId?: string;
+  sessionId?: string;
+  experimentArmId?: string;
+}
+
+export interface UsageTracker {
+  onUsage: (usage: TokenUsage) => void;
+  countToolCall: () => void;
+  // Stores the call; without provider-reported usage the tokens are estimated from the text
+  record: (outcome: { success: boolean; prompt: string | AIMessage[]; completion?: string }) => void;
+}
+
+interface UsageBreakdownRow {
+  user_id: string | null;
+  email: string | null;
+  subscription_tier: string;
+  provider: string;
+  model: string;
+  purpose: AIUsagePurpose;
+  calls: number;
+  failed_calls: number;
+  estimated_calls: number;
+  unpriced_calls: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  estimated_cost_usd: number;
+  total_latency_ms: number;
+  tool_calls: number;
+}
+
+let priceOverrides: Map<string, [number, number]> | null = null;
+let priceOverridesLoadedAt = 0;
+
+async function getPriceOverrides(): Promise<Map<string, [number, number]>> {
+  if (priceOverrides && Date.now() - priceOverridesLoadedAt < USAGE_CONFIG.PRICING_CACHE_MS) {
+    return priceOverrides;
+  }
+
+  const { data, error } = await supabase
+    .from('ai_model_pricing')
+    .select('model, input_per_million, output_per_million');
+
+  if (error) {
+    console.error('Error loading AI model pricing:', error);
+    return priceOverrides || new Map();
+  }
+
+  priceOverrides = new Map((data || []).map(row => [
+    row.model,
+    [Number(row.input_per_million), Number(row.output_per_million)] as [number, number]
+  ]));
+  priceOverridesLoadedAt = Date.now();
+  return priceOverrides;
+}
+
+function findPrice(table: Map<string, [number, number]>, model: string): [number, number] | null {
+  let match: string | null = null;
+  for (const key of table.keys()) {
+    if (model.startsWith(key) && (!match || key.length > match.length)) {
+      match = key;
+    }
+  }
+  return match ? table.get(match)! : null;
+}
+
+/**
+ * Price of a model in USD per million tokens, or null when unknown. Overrides
+ * win over defaults; self-hosted OpenAI-compatible models are free unless priced.
+ */
+async function getModelPrice(config: Pick<ChainedAIConfig, 'provider' | 'model'>): Promise<[number, number] | null> {
+  const override = findPrice(await getPriceOverrides(), config.model);
+  if (override) {
+    return override;
+  }
+
+  if (config.provider === 'openai_compatible') {
+    return [0, 0];
+  }
+
+  return findPrice(new Map(Object.entries(DEFAULT_PRICES)), config.model);
+}
+
+async function insertUsage(
+  context: UsageContext,
+  config: ChainedAIConfig,
+  usage: { promptTokens: number; completionTokens: number; estimated: boolean },
+  details: { success: boolean; latencyMs: number; toolCalls: number }
+): Promise<void> {
+  const price = await getModelPrice(config);
+  const cost = price
+    ? (usage.promptTokens * price[0] + usage.completionTokens * price[1]) / 1_000_000
+    : null;
+
+  const { error } = await supabase
+    .from('ai_usage')
+    .insert({
+      user_id: context.userId || null,
+      session_id: context.sessionId || null,
+      experiment_arm_id: context.experimentArmId || null,
+      purpose: context.purpose,
+      config_id: config.id,
+      provider: config.provider,
+      model: config.model,
+      prompt_tokens: usage.promptTokens,
+      completion_tokens: usage.completionTokens,
+      total_tokens: usage.promptTokens + usage.completionTokens,
+      usage_estimated: usage.estimated,
+      estimated_cost_usd: cost,
+      latency_ms: details.latencyMs,
+      tool_call_count: details.toolCalls,
+      success: details.success
+    });
+
+  if (error) {
+    console.error('Error recording AI usage:', error);
+  }
+}
+
+/**
+ * Start tracking one provider call. Create a tracker per failover attempt and
+ * pass `onUsage` to the provider; recording never blocks or fails the reply.
+ */
+export function trackUsage(context: UsageContext, config: ChainedAIConfig): UsageTracker {
+  const startedAt = Date.now();
+  let promptTokens = 0;
+  let completionTokens = 0;
+  let reported = false;
+  let toolCalls = 0;
+
+  return {
+    onUsage: (usage) => {
+      reported = true;
+      promptTokens += usage.promptTokens;
+      completionTokens += usage.completionTokens;
+    },
+    countToolCall: () => {
+      toolCalls++;
+    },
+    record: ({ success, prompt, completion }) => {
+      // Failed requests are generally not billed, so only successful ones are estimated
+      const estimated = !reported && success;
+      if (estimated) {
+        const promptText = typeof prompt === 'string' ? prompt : prompt.map(msg => msg.content).join('\n');
+        promptTokens = estimateTokens(promptText);
+        completionTokens = estimateTokens(completion || '');
+      }
+
+      insertUsage(
+        context,
+        config,
+        { promptTokens, completionTokens, estimated },
+        { success, latencyMs: Date.now() - startedAt, toolCalls }
+      ).catch(error => console.error('Error recording AI usage:', error));
+    }
+  };
+}
+
+function emptyTotals(): AIUsageTotals {
+  return {
+    calls: 0,
+    failed_calls: 0,
+    estimated_calls: 0,
+    unpriced_calls: 0,
+    prompt_tokens: 0,
+    completion_tokens: 0,
+    total_tokens: 0,
+    estimated_cost_usd: 0,
+    avg_latency_ms: 0,
+    tool_calls: 0
+  };
+}
+
+/**
+ * Sum breakdown rows into one group per key. Latency is summed while adding
+ * and turned into an average once all rows are in.
+ */
+function groupRows<T extends object>(
+  rows: UsageBreakdownRow[],
+  keyOf: (row: UsageBreakdownRow) => string,
+  fieldsOf: (row: UsageBreakdownRow) => T
+): (AIUsageTotals & T)[] {
+  const groups = new Map<string, AIUsageTotals & T & { total_latency_ms: number }>();
+
+  for (const row of rows) {
+    const key = keyOf(row);
+    let group = groups.get(key);
+    if (!group) {
+      group = { ...emptyTotals(), ...fieldsOf(row), total_latency_ms: 0 };
+      groups.set(key, group);
+    }
+
+    group.calls += Number(row.calls);
+    group.failed_calls += Number(row.failed_calls);
+    group.estimated_calls += Number(row.estimated_calls);
+    group.unpriced_calls += Number(row.unpriced_calls);
+    group.prompt_tokens += Number(row.prompt_tokens);
+    group.completion_tokens += Number(row.completion_tokens);
+    group.total_tokens += Number(row.total_tokens);
+    group.estimated_cost_usd += Number(row.estimated_cost_usd);
+    group.total_latency_ms += Number(row.total_latency_ms);
+    group.tool_calls += Number(row.tool_calls);
+  }
+
+  return [...groups.values()]
+    .map(({ total_latency_ms, ...group }) => ({
+      ...group,
+      avg_latency_ms: group.calls > 0 ? Math.round(total_latency_ms / group.calls) : 0
+    }) as AIUsageTotals & T)
+    .sort((a, b) => b.estimated_cost_usd - a.estimated_cost_usd);
+}
+
+/**
+ * Usage over the last `days` days with totals and per-tier, per-user,
+ * per-model and per-purpose breakdowns
+ */
+export async function getUsageReport(days: number): Promise<AIUsageReport> {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+  const { data, error } = await supabase.rpc('get_ai_usage_breakdown', { since });
+  if (error) {
+    throw new Error(`Failed to load AI usage: ${error.message}`);
+  }
+
+  const rows = (data || []) as UsageBreakdownRow[];
+  const [totals] = groupRows(rows, () => 'all', () => ({}));
+
+  const byUser = groupRows(rows, row => row.user_id || 'unattributed', row => ({
+    user_id: row.user_id,
+    email: row.email,
+    subscription_tier: row.subscription_tier
+  }));
+
+  const usersPerTier = new Map<string, number>();
+  for (const user of byUser) {
+    if (user.user_id) {
+      usersPerTier.set(user.subscription_tier, (usersPerTier.get(user.subscription_tier) || 0) + 1);
+    }
+  }
+
+  const byTier = groupRows(rows, row => row.subscription_tier, row => ({ subscription_tier: row.subscription_tier }))
+    .map(tier => {
+      const users = usersPerTier.get(tier.subscription_tier) || 0;
+      return { ...tier, users, cost_per_user_usd: users > 0 ? tier.estimated_cost_usd / users : 0 };
+    });
+
+  return {
+    since,
+    totals: totals || emptyTotals(),
+    by_tier: byTier,
+    by_user: byUser.slice(0, USAGE_CONFIG.REPORT_TOP_USERS),
+    by_model: groupRows(rows, row => `${row.provider}:${row.model}`, row => ({ provider: row.provider, model: row.model })),
+    by_purpose: groupRows(rows, row => row.purpose, row => ({ purpose: row.purpose }))
+  };
+}
+
+/**
+ * The effective price table: defaults with admin overrides applied
+ */
+export async function getPriceTable(): Promise<AIModelPrice[]> {
+  // Always read fresh so the dashboard reflects edits immediately
+  priceOverrides = null;
+  const overrides = await getPriceOverrides();
+
+  const prices: AIModelPrice[] = Object.entries(DEFAULT_PRICES)
+    .filter(([model]) => !overrides.has(model))
+    .map(([model, [input, output]]) => ({
+      model,
+      input_per_million: input,
+      output_per_million: output,
+      source: 'default' as const
+    }));
+
+  for (const [model, [input, output]] of overrides) {
+    prices.push({ model, input_per_million: input, output_per_million: output, source: 'override' });
+  }
+
+  return prices.sort((a, b) => a.model.localeCompare(b.model));
+}
+
+/**
+ * Set the price of a model (or model name prefix). Applies to calls recorded
+ * from now on; existing usage rows keep the cost they were recorded with.
+ */
+export async function setModelPrice(model: string, inputPerMillion: number, outputPerMillion: number): Promise<void> {
+  const { error } = await supabase
+    .from('ai_model_pricing')
+    .upsert({
+      model,
+      input_per_million: inputPerMillion,
+      output_per_million: outputPerMillion,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'model' });
+
+  if (error) {
+    throw new Error(`Failed to save model price: ${error.message}`);
+  }
+
+  priceOverrides = null;
+}
+
+/**
+ * Remove a price override, falling back to the default price if there is one
+ */
+export async function removeModelPrice(model: string): Promise<void> {
+  const { error } = await supabase
+    .from('ai_model_pricing')
+    .delete()
+    .eq('model', model);
+
+  if (error) {
+    throw new Error(`Failed to remove model price: ${error.message}`);
+  }
+
+  priceOverrides = null;
+}
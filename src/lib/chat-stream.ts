@@ -0,0 +1,68 @@
+/**
+ * Server-Sent Events helpers for streaming chat responses
+ * Shared by the chat API route (encoding) and the chat pages (decoding)
+ */
+
+import { ChatStreamEvent } from '@/types';
+
+export const CHAT_STREAM_CONTENT_TYPE = 'text/event-stream';
+
+/**
+ * Encode a stream event as an SSE frame
+ */
+export function formatSSEEvent(event: ChatStreamEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Check whether a fetch response is an SSE chat stream
+ */
+export function isChatStream(response: Response): boolean {
+  return (response.headers.get('content-type') || '').includes(CHAT_STREAM_CONTENT_TYPE);
+}
+
+/**
+ * Read an SSE chat stream, invoking the callback for every event in order
+ */
+export async function readChatStream(
+  response: Response,
+  onEvent: (event: ChatStreamEvent) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // Frames are separated by a blank line
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const frame = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      const data = frame
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trimStart())
+        .join('\n');
+
+      if (data) {
+        try {
+          onEvent(JSON.parse(data) as ChatStreamEvent);
+        } catch (error) {
+          console.error('Error parsing chat stream event:', error);
+        }
+      }
+
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+}
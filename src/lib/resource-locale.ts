@@ -0,0 +1,73 @@
+/**
+ * Locale helpers for the crisis resource directory, shared by the server and
+ * the pages that show or edit resources
+ */
+
+// Region code for resources that serve every country
+export const INTERNATIONAL_REGION = 'INTL';
+
+export interface LocaleTag {
+  language: string;
+  region: string | null;
+}
+
+/**
+ * Split a BCP 47 tag such as 'en-GB' or 'zh-Hant-TW' into its language and
+ * region. Returns null for anything that is not a language tag.
+ */
+export function parseLocaleTag(tag: string): LocaleTag | null {
+  const parts = tag.trim().replace(/_/g, '-').split('-');
+  const language = parts[0].toLowerCase();
+  if (!/^[a-z]{2,3}$/.test(language)) {
+    return null;
+  }
+
+  const region = parts.slice(1).find(part => /^([a-z]{2}|\d{3})$/i.test(part));
+  return { language, region: region ? region.toUpperCase() : null };
+}
+
+/**
+ * Languages from an Accept-Language header, most preferred first
+ */
+export function parseAcceptLanguage(header: string | null | undefined): LocaleTag[] {
+  if (!header) {
+    return [];
+  }
+
+  return header
+    .split(',')
+    .map((entry, index) => {
+      const [tag, ...params] = entry.split(';');
+      const quality = params.map(param => param.trim()).find(param => param.startsWith('q='));
+      return { tag: parseLocaleTag(tag), q: quality ? Number(quality.slice(2)) : 1, index };
+    })
+    .filter(entry => entry.tag && entry.q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index)
+    .map(entry => entry.tag!);
+}
+
+/**
+ * English name of a region code, such as 'United Kingdom' for 'GB'
+ */
+export function regionName(region: string): string {
+  if (region === INTERNATIONAL_REGION) {
+    return 'International';
+  }
+
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'region' }).of(region) || region;
+  } catch {
+    return region;
+  }
+}
+
+/**
+ * English name of a language code, such as 'French' for 'fr'
+ */
+export function languageName(language: string): string {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(language) || language;
+  } catch {
+    return language;
+  }
+}
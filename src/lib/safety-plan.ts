@@ -0,0 +1,96 @@
+/**
+ * Safety plan sections and validation, shared by the server and the pages
+ * that show or edit a plan
+ */
+
+import { SafetyPlanContact, SafetyPlanContent, SafetyPlanSection } from '@/types';
+
+export const SAFETY_PLAN_LIMITS = {
+  MAX_ITEMS: 10, // Per section
+  MAX_ITEM_CHARS: 200,
+  MAX_PHONE_CHARS: 40,
+};
+
+export interface SafetyPlanSectionInfo {
+  key: SafetyPlanSection;
+  title: string;
+  description: string;
+  contacts: boolean; // Entries are people with a phone number rather than text
+}
+
+export const SAFETY_PLAN_SECTIONS: SafetyPlanSectionInfo[] = [
+  { key: 'warning_signs', title: 'Warning signs', description: 'Thoughts, feelings or situations that tell me a crisis may be building', contacts: false },
+  { key: 'coping_strategies', title: 'Coping strategies', description: 'Things I can do on my own to take my mind off things', contacts: false },
+  { key: 'contacts', title: 'People I can reach out to', description: 'Friends and family I can talk to or ask for help', contacts: true },
+  { key: 'professionals', title: 'Professionals', description: 'Clinicians and services I can contact in a crisis', contacts: true },
+  { key: 'safe_environment', title: 'Making my environment safe', description: 'Steps to keep myself safe, such as putting means out of reach', contacts: false },
+];
+
+export function emptySafetyPlan(): SafetyPlanContent {
+  return { warning_signs: [], coping_strategies: [], contacts: [], professionals: [], safe_environment: [] };
+}
+
+export function isSafetyPlanEmpty(plan: SafetyPlanContent | null | undefined): boolean {
+  return !plan || SAFETY_PLAN_SECTIONS.every(section => plan[section.key].length === 0);
+}
+
+function validateText(value: unknown, label: string): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error(`${label} must not be empty`);
+  }
+  if (value.length > SAFETY_PLAN_LIMITS.MAX_ITEM_CHARS) {
+    throw new Error(`${label} must be at most ${SAFETY_PLAN_LIMITS.MAX_ITEM_CHARS} characters`);
+  }
+  return value.trim();
+}
+
+function validateContact(value: unknown, label: string): SafetyPlanContact {
+  if (typeof value !== 'object' || value === null) {
+    throw new Error(`${label} must have a name`);
+  }
+
+  const { name, phone, note } = value as Record<string, unknown>;
+  const contact: SafetyPlanContact = { name: validateText(name, `${label} name`) };
+
+  if (phone !== undefined && phone !== null && phone !== '') {
+    if (typeof phone !== 'string' || phone.length > SAFETY_PLAN_LIMITS.MAX_PHONE_CHARS) {
+      throw new Error(`${label} phone must be at most ${SAFETY_PLAN_LIMITS.MAX_PHONE_CHARS} characters`);
+    }
+    contact.phone = phone.trim();
+  }
+
+  if (note !== undefined && note !== null && note !== '') {
+    contact.note = validateText(note, `${label} note`);
+  }
+
+  return contact;
+}
+
+/**
+ * Check a whole plan from a client, trimming entries. Throws with a message
+ * naming the first problem.
+ */
+export function validateSafetyPlan(input: unknown): SafetyPlanContent {
+  if (typeof input !== 'object' || input === null) {
+    throw new Error('Safety plan must be an object');
+  }
+
+  const plan = emptySafetyPlan();
+  for (const section of SAFETY_PLAN_SECTIONS) {
+    const items = (input as Record<string, unknown>)[section.key] ?? [];
+    if (!Array.isArray(items)) {
+      throw new Error(`${section.title} must be a list`);
+    }
+    if (items.length > SAFETY_PLAN_LIMITS.MAX_ITEMS) {
+      throw new Error(`${section.title} can have at most ${SAFETY_PLAN_LIMITS.MAX_ITEMS} entries`);
+    }
+
+    if (section.contacts) {
+      plan[section.key as 'contacts' | 'professionals'] = items.map(item => validateContact(item, section.title));
+    } else {
+      plan[section.key as 'warning_signs' | 'coping_strategies' | 'safe_environment'] = items.map(item => validateText(item, section.title));
+    }
+  }
+
+  return plan;
+}
@@ -0,0 +1,11 @@
+/**
+ * Shared marker for values encrypted at rest by field-encryption.ts. Kept
+ * separate so client code can tell ciphertext from text (for example in
+ * realtime payloads) without pulling in the server-side key handling.
+ */
+
+export const ENCRYPTED_FIELD_PREFIX = 'enc:v1:';
+
+export function isEncryptedField(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(ENCRYPTED_FIELD_PREFIX);
+}
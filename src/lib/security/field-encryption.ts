@@ -0,0 +1,707 @@
+/**
+ * Field Encryption
+ * Server-side only - envelope encryption of sensitive columns at rest. Every
+ * user has a data key in user_data_keys, wrapped by a master key from
+ * FIELD_ENCRYPTION_KEYS, and the columns in ENCRYPTED_FIELDS are stored as
+ * enc:v1:<owner id>:<key version>:<iv|tag|ciphertext> (AES-256-GCM). A value
+ * names its own key, so reading it needs no other context, and values still
+ * in plaintext pass through unchanged until the backfill has encrypted them.
+ * Application secrets that belong to no user are sealed with the master key
+ * directly (encryptSecret).
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import { ENCRYPTED_FIELD_PREFIX, isEncryptedField } from './encrypted-field';
+
+export { ENCRYPTED_FIELD_PREFIX, isEncryptedField } from './encrypted-field';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export const FIELD_ENCRYPTION_CONFIG = {
+  DATA_KEY_CACHE_MS: 5 * 60 * 1000, // Unwrapped keys and active versions are re-read at most this often
+  MAX_CACHED_KEYS: 10000,
+  BACKFILL_BATCH_SIZE: 100,
+  REWRAP_BATCH_SIZE: 100,
+};
+
+// Columns encrypted at rest, by table
+export const ENCRYPTED_FIELDS = {
+  session_messages: ['content'],
+  user_memory: ['memory_value'],
+  ai_session_notes: ['note_text'],
+  participant_introductions: [
+    'why_wellness', 'goals', 'challenges', 'family_goals',
+    'what_to_achieve', 'wellness_reason', 'personal_goals', 'expectations'
+  ],
+  memory_embeddings: ['content'], // Copies of memory and session summaries kept for retrieval
+  tool_invocations: ['arguments', 'result', 'error'], // arguments holds the call's JSON as text
+  session_context_summaries: ['summary'],
+  group_moderation_events: ['content'], // Held group messages, with the sender's key
+} as const;
+
+export type EncryptedTable = keyof typeof ENCRYPTED_FIELDS;
+
+export const ENCRYPTED_TABLES = Object.keys(ENCRYPTED_FIELDS) as EncryptedTable[];
+
+// Primary key and the columns that decide whose key encrypts a row
+const TABLE_KEYS: Record<EncryptedTable, { id: string; owner: string }> = {
+  session_messages: { id: 'message_id', owner: 'session_id, sender_type, user_id' },
+  user_memory: { id: 'id', owner: 'user_id' },
+  ai_session_notes: { id: 'id', owner: 'session_id' },
+  participant_introductions: { id: 'id', owner: 'user_id' },
+  memory_embeddings: { id: 'id', owner: 'user_id' },
+  tool_invocations: { id: 'id', owner: 'session_id, user_id' },
+  session_context_summaries: { id: 'session_id', owner: 'session_id' },
+  group_moderation_events: { id: 'id', owner: 'user_id' },
+};
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const SECRET_PREFIX = 'sec:v1:'; // sec:v1:<master key id>:<iv|tag|ciphertext>
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+interface DataKeyRow {
+  user_id: string;
+  version: number;
+  wrapped_key: string;
+  master_key_id: string;
+}
+
+export interface EncryptionBackfillResult {
+  scanned: number;
+  encrypted: number; // Rows written, including values moved to a newer key version
+  nextCursor: string | null; // Pass back to continue; null once every row has been scanned
+}
+
+export interface EncryptionStatus {
+  configured: boolean;
+  activeMasterKeyId: string | null;
+  dataKeys: number;
+  dataKeysOnOldMasterKeys: number;
+  tables: Record<EncryptedTable, { rows: number; plaintextValues: number }>;
+}
+
+let masterKeys: MasterKey[] | null = null;
+let warnedUnconfigured = false;
+let warnedUnconfiguredSecrets = false;
+
+const dataKeys = new Map<string, { key: Promise<Buffer>; loadedAt: number }>(); // user:version -> unwrapped key
+const activeVersions = new Map<string, { version: Promise<number>; loadedAt: number }>(); // user -> newest version
+const sessionOwners = new Map<string, string>();
+
+/**
+ * FIELD_ENCRYPTION_KEYS="<id>:<base64 of 32 bytes>,...". The first key wraps
+ * new data keys; older ones stay listed so keys they wrapped can be opened
+ * until rewrapDataKeys() has moved them to the first.
+ */
+function getMasterKeys(): MasterKey[] {
+  if (masterKeys) {
+    return masterKeys;
+  }
+
+  masterKeys = (process.env.FIELD_ENCRYPTION_KEYS || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const separator = entry.indexOf(':');
+      const key = Buffer.from(entry.slice(separator + 1), 'base64');
+      if (separator <= 0 || key.length !== KEY_LENGTH) {
+        throw new Error('FIELD_ENCRYPTION_KEYS entries must be <id>:<base64 of 32 random bytes>');
+      }
+      return { id: entry.slice(0, separator), key };
+    });
+
+  return masterKeys;
+}
+
+function getActiveMasterKey(): MasterKey {
+  const [active] = getMasterKeys();
+  if (!active) {
+    throw new Error('FIELD_ENCRYPTION_KEYS is not set');
+  }
+  return active;
+}
+
+export function isFieldEncryptionConfigured(): boolean {
+  return getMasterKeys().length > 0;
+}
+
+function isFresh(loadedAt: number): boolean {
+  return Date.now() - loadedAt < FIELD_ENCRYPTION_CONFIG.DATA_KEY_CACHE_MS;
+}
+
+function remember<K, V>(cache: Map<K, V>, key: K, value: V): void {
+  if (cache.size >= FIELD_ENCRYPTION_CONFIG.MAX_CACHED_KEYS) {
+    cache.clear();
+  }
+  cache.set(key, value);
+}
+
+// Binds a wrapped key or a value to the key it belongs to
+function keyLabel(userId: string, version: number): string {
+  return `${userId}:${version}`;
+}
+
+function seal(key: Buffer, plaintext: Buffer, aad: string): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(aad));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64url');
+}
+
+function open(key: Buffer, sealed: string, aad: string): Buffer {
+  const data = Buffer.from(sealed, 'base64url');
+  const decipher = createDecipheriv(ALGORITHM, key, data.subarray(0, IV_LENGTH));
+  decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+  return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+}
+
+function unwrapDataKey(row: DataKeyRow): Buffer {
+  const master = getMasterKeys().find(candidate => candidate.id === row.master_key_id);
+  if (!master) {
+    throw new Error(`Master key "${row.master_key_id}" is not in FIELD_ENCRYPTION_KEYS`);
+  }
+  return open(master.key, row.wrapped_key, keyLabel(row.user_id, row.version));
+}
+
+function wrapDataKey(userId: string, version: number, key: Buffer): Pick<DataKeyRow, 'wrapped_key' | 'master_key_id'> {
+  const master = getActiveMasterKey();
+  return {
+    wrapped_key: seal(master.key, key, keyLabel(userId, version)),
+    master_key_id: master.id
+  };
+}
+
+async function loadDataKey(userId: string, version: number): Promise<Buffer> {
+  const { data, error } = await supabase
+    .from('user_data_keys')
+    .select('user_id, version, wrapped_key, master_key_id')
+    .eq('user_id', userId)
+    .eq('version', version)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load data key: ${error.message}`);
+  }
+  if (!data) {
+    throw new Error(`Data key ${keyLabel(userId, version)} does not exist`);
+  }
+
+  return unwrapDataKey(data);
+}
+
+function getDataKey(userId: string, version: number): Promise<Buffer> {
+  const label = keyLabel(userId, version);
+  const cached = dataKeys.get(label);
+  if (cached && isFresh(cached.loadedAt)) {
+    return cached.key;
+  }
+
+  const key = loadDataKey(userId, version);
+  key.catch(() => dataKeys.delete(label));
+  remember(dataKeys, label, { key, loadedAt: Date.now() });
+  return key;
+}
+
+async function loadLatestVersion(userId: string): Promise<number | null> {
+  const { data, error } = await supabase
+    .from('user_data_keys')
+    .select('version')
+    .eq('user_id', userId)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load data key version: ${error.message}`);
+  }
+
+  return data ? data.version : null;
+}
+
+/**
+ * Store a new data key version. False when that version already exists
+ * because another request created it first.
+ */
+async function insertDataKey(userId: string, version: number): Promise<boolean> {
+  const key = randomBytes(KEY_LENGTH);
+  const { error } = await supabase
+    .from('user_data_keys')
+    .insert({ user_id: userId, version, ...wrapDataKey(userId, version, key) });
+
+  if (error) {
+    if (error.code === '23505') {
+      return false;
+    }
+    throw new Error(`Failed to create data key: ${error.message}`);
+  }
+
+  remember(dataKeys, keyLabel(userId, version), { key: Promise.resolve(key), loadedAt: Date.now() });
+  return true;
+}
+
+async function loadActiveVersion(userId: string): Promise<number> {
+  const latest = await loadLatestVersion(userId);
+  if (latest !== null) {
+    return latest;
+  }
+
+  if (await insertDataKey(userId, 1)) {
+    return 1;
+  }
+
+  const created = await loadLatestVersion(userId);
+  if (created === null) {
+    throw new Error(`Failed to create a data key for user ${userId}`);
+  }
+  return created;
+}
+
+/**
+ * The version new values for the user are encrypted with; the user's first
+ * data key is created on first use
+ */
+function getActiveVersion(userId: string): Promise<number> {
+  const cached = activeVersions.get(userId);
+  if (cached && isFresh(cached.loadedAt)) {
+    return cached.version;
+  }
+
+  const version = loadActiveVersion(userId);
+  version.catch(() => activeVersions.delete(userId));
+  remember(activeVersions, userId, { version, loadedAt: Date.now() });
+  return version;
+}
+
+function parseEncryptedField(value: string): { ownerId: string; version: number; payload: string } {
+  const [ownerId, version, payload] = value.slice(ENCRYPTED_FIELD_PREFIX.length).split(':');
+  if (!ownerId || !payload || !/^\d+$/.test(version || '')) {
+    throw new Error('Malformed encrypted field');
+  }
+  return { ownerId, version: Number(version), payload };
+}
+
+/**
+ * Encrypt a value with the owner's data key. Null, undefined and values that
+ * are already encrypted come back as they are. Without FIELD_ENCRYPTION_KEYS
+ * the value is stored in plaintext, with a warning logged once.
+ */
+export async function encryptField<T extends string | null | undefined>(ownerId: string, value: T): Promise<T> {
+  if (typeof value !== 'string' || isEncryptedField(value)) {
+    return value;
+  }
+
+  if (!isFieldEncryptionConfigured()) {
+    if (!warnedUnconfigured) {
+      console.warn('FIELD_ENCRYPTION_KEYS is not set; messages, memory, notes and introductions are stored unencrypted');
+      warnedUnconfigured = true;
+    }
+    return value;
+  }
+
+  const version = await getActiveVersion(ownerId);
+  const key = await getDataKey(ownerId, version);
+  const payload = seal(key, Buffer.from(value, 'utf8'), keyLabel(ownerId, version));
+  return `${ENCRYPTED_FIELD_PREFIX}${ownerId}:${version}:${payload}` as T;
+}
+
+/**
+ * Decrypt a value written by encryptField. Anything else, including values
+ * stored before encryption was turned on, comes back as it is.
+ */
+export async function decryptField<T extends string | null | undefined>(value: T): Promise<T> {
+  if (!isEncryptedField(value)) {
+    return value;
+  }
+
+  const { ownerId, version, payload } = parseEncryptedField(value);
+  const key = await getDataKey(ownerId, version);
+
+  try {
+    return open(key, payload, keyLabel(ownerId, version)).toString('utf8') as T;
+  } catch {
+    throw new Error(`Failed to decrypt a field encrypted with data key ${keyLabel(ownerId, version)}`);
+  }
+}
+
+/**
+ * A copy of the row with the named fields encrypted for the owner
+ */
+export async function encryptFields<T extends object>(
+  ownerId: string,
+  row: T,
+  fields: readonly string[]
+): Promise<T> {
+  const encrypted = { ...row } as Record<string, unknown>;
+  for (const field of fields) {
+    const value = encrypted[field];
+    if (typeof value === 'string') {
+      encrypted[field] = await encryptField(ownerId, value);
+    }
+  }
+  return encrypted as T;
+}
+
+/**
+ * A copy of the row with the named fields decrypted
+ */
+export async function decryptFields<T extends object>(row: T, fields: readonly string[]): Promise<T> {
+  const decrypted = { ...row } as Record<string, unknown>;
+  for (const field of fields) {
+    const value = decrypted[field];
+    if (typeof value === 'string') {
+      decrypted[field] = await decryptField(value);
+    }
+  }
+  return decrypted as T;
+}
+
+/**
+ * Decrypt the named fields of every row; a missing result set becomes []
+ */
+export async function decryptRows<T extends object>(
+  rows: T[] | null | undefined,
+  fields: readonly string[]
+): Promise<T[]> {
+  return Promise.all((rows || []).map(row => decryptFields(row, fields)));
+}
+
+export function isEncryptedSecret(value: string | null | undefined): value is string {
+  return typeof value === 'string' && value.startsWith(SECRET_PREFIX);
+}
+
+function parseSecret(value: string): { masterKeyId: string; payload: string } {
+  const [masterKeyId, payload] = value.slice(SECRET_PREFIX.length).split(':');
+  if (!masterKeyId || !payload) {
+    throw new Error('Malformed encrypted secret');
+  }
+  return { masterKeyId, payload };
+}
+
+/**
+ * Encrypt an application secret, such as an AI provider API key, with the
+ * active master key itself rather than a user's data key. The label names
+ * where the value is stored (e.g. ai_config:<id>) so it cannot be moved to
+ * another row. A value already sealed with the active master key comes back
+ * unchanged; one sealed with an older master key is sealed again.
+ */
+export function encryptSecret(label: string, value: string): string {
+  if (!isFieldEncryptionConfigured()) {
+    if (!warnedUnconfiguredSecrets) {
+      console.warn('FIELD_ENCRYPTION_KEYS is not set; AI provider API keys are stored unencrypted');
+      warnedUnconfiguredSecrets = true;
+    }
+    return value;
+  }
+
+  const master = getActiveMasterKey();
+  if (isEncryptedSecret(value)) {
+    if (parseSecret(value).masterKeyId === master.id) {
+      return value;
+    }
+    value = decryptSecret(label, value);
+  }
+
+  return `${SECRET_PREFIX}${master.id}:${seal(master.key, Buffer.from(value, 'utf8'), label)}`;
+}
+
+/**
+ * Decrypt a value written by encryptSecret under the same label. Plaintext
+ * stored before encryption was set up comes back as it is.
+ */
+export function decryptSecret(label: string, value: string): string {
+  if (!isEncryptedSecret(value)) {
+    return value;
+  }
+
+  const { masterKeyId, payload } = parseSecret(value);
+  const master = getMasterKeys().find(candidate => candidate.id === masterKeyId);
+  if (!master) {
+    throw new Error(`Master key "${masterKeyId}" is not in FIELD_ENCRYPTION_KEYS`);
+  }
+
+  try {
+    return open(master.key, payload, label).toString('utf8');
+  } catch {
+    throw new Error(`Failed to decrypt secret ${label}`);
+  }
+}
+
+/**
+ * Whose key encrypts content written by the AI in a session, and session
+ * content with no author of its own: the session's owner
+ */
+export async function getSessionKeyOwner(sessionId: string): Promise<string> {
+  const cached = sessionOwners.get(sessionId);
+  if (cached) {
+    return cached;
+  }
+
+  const { data, error } = await supabase
+    .from('therapy_sessions')
+    .select('user_id')
+    .eq('session_id', sessionId)
+    .maybeSingle();
+
+  if (error || !data) {
+    throw new Error(`Failed to find the owner of session ${sessionId}: ${error?.message || 'session not found'}`);
+  }
+
+  remember(sessionOwners, sessionId, data.user_id);
+  return data.user_id;
+}
+
+/**
+ * Encrypt a session message for storage. Users' messages use the author's
+ * key; AI and system messages use the session owner's.
+ */
+export async function encryptMessageContent(
+  sessionId: string,
+  senderType: string,
+  authorId: string | null | undefined,
+  content: string
+): Promise<string> {
+  const ownerId = senderType === 'user' && authorId ? authorId : await getSessionKeyOwner(sessionId);
+  return encryptField(ownerId, content);
+}
+
+/**
+ * Decrypt tool_invocations rows. Arguments are stored as JSON text so they
+ * can be encrypted, and come back as an object; text that does not parse is
+ * kept as { unparsed }, as the tool executor records it.
+ */
+export async function decryptToolInvocations<T extends { arguments: unknown }>(
+  rows: T[] | null | undefined
+): Promise<(Omit<T, 'arguments'> & { arguments: Record<string, unknown> })[]> {
+  const decrypted = await decryptRows(rows, ENCRYPTED_FIELDS.tool_invocations);
+  return decrypted.map(row => ({ ...row, arguments: parseToolArguments(row.arguments) }));
+}
+
+function parseToolArguments(value: unknown): Record<string, unknown> {
+  if (typeof value !== 'string') {
+    return value && typeof value === 'object' ? value as Record<string, unknown> : {};
+  }
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : { unparsed: value };
+  } catch {
+    return { unparsed: value };
+  }
+}
+
+async function keyOwnerFor(table: EncryptedTable, row: Record<string, string | null>): Promise<string> {
+  switch (table) {
+    case 'session_messages':
+      return row.sender_type === 'user' && row.user_id ? row.user_id : getSessionKeyOwner(row.session_id!);
+    case 'ai_session_notes':
+    case 'session_context_summaries':
+      return getSessionKeyOwner(row.session_id!);
+    case 'tool_invocations':
+      return row.user_id || getSessionKeyOwner(row.session_id!);
+    default:
+      return row.user_id!;
+  }
+}
+
+/**
+ * Start a new data key version for the user. New values use it straight
+ * away on this server (other servers within DATA_KEY_CACHE_MS); existing
+ * values stay readable and move to it the next time the backfill runs.
+ */
+export async function rotateDataKey(userId: string): Promise<number> {
+  getActiveMasterKey();
+
+  const version = ((await loadLatestVersion(userId)) ?? 0) + 1;
+  if (!(await insertDataKey(userId, version))) {
+    throw new Error('The data key was rotated by another request at the same time');
+  }
+
+  remember(activeVersions, userId, { version: Promise.resolve(version), loadedAt: Date.now() });
+  return version;
+}
+
+/**
+ * Master key rotation: re-wrap one batch of data keys still wrapped by an
+ * older master key with the active one. Repeat until nothing remains; the
+ * old key can then be removed from FIELD_ENCRYPTION_KEYS.
+ */
+export async function rewrapDataKeys(
+  batchSize: number = FIELD_ENCRYPTION_CONFIG.REWRAP_BATCH_SIZE
+): Promise<{ rewrapped: number; remaining: number }> {
+  const active = getActiveMasterKey();
+
+  const { data: rows, error } = await supabase
+    .from('user_data_keys')
+    .select('user_id, version, wrapped_key, master_key_id')
+    .neq('master_key_id', active.id)
+    .limit(batchSize);
+
+  if (error) {
+    throw new Error(`Failed to load data keys: ${error.message}`);
+  }
+
+  for (const row of rows || []) {
+    const key = unwrapDataKey(row);
+    const { error: updateError } = await supabase
+      .from('user_data_keys')
+      .update(wrapDataKey(row.user_id, row.version, key))
+      .eq('user_id', row.user_id)
+      .eq('version', row.version)
+      .eq('master_key_id', row.master_key_id);
+
+    if (updateError) {
+      throw new Error(`Failed to re-wrap data key: ${updateError.message}`);
+    }
+  }
+
+  const { count, error: countError } = await supabase
+    .from('user_data_keys')
+    .select('user_id', { count: 'exact', head: true })
+    .neq('master_key_id', active.id);
+
+  if (countError) {
+    throw new Error(`Failed to count data keys: ${countError.message}`);
+  }
+
+  return { rewrapped: rows?.length || 0, remaining: count || 0 };
+}
+
+/**
+ * Backfill job: encrypt one batch of existing rows in the table, paging by
+ * primary key. Values encrypted with an older data key version, or under a
+ * key that is no longer the row's owner, are re-encrypted with the current one.
+ */
+export async function encryptExistingRows(
+  table: EncryptedTable,
+  cursor: string | null,
+  batchSize: number = FIELD_ENCRYPTION_CONFIG.BACKFILL_BATCH_SIZE
+): Promise<EncryptionBackfillResult> {
+  getActiveMasterKey();
+
+  const { id, owner } = TABLE_KEYS[table];
+  const fields = ENCRYPTED_FIELDS[table];
+
+  let query = supabase
+    .from(table)
+    .select(Array.from(new Set([id, ...owner.split(', '), ...fields])).join(', '))
+    .order(id, { ascending: true })
+    .limit(batchSize);
+
+  if (cursor) {
+    query = query.gt(id, cursor);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load ${table} for encryption: ${error.message}`);
+  }
+
+  const rows = (data || []) as unknown as Record<string, string | null>[];
+  if (rows.length === 0) {
+    return { scanned: 0, encrypted: 0, nextCursor: null };
+  }
+
+  let encrypted = 0;
+  for (const row of rows) {
+    const ownerId = await keyOwnerFor(table, row);
+    const version = await getActiveVersion(ownerId);
+    const updates: Record<string, string> = {};
+
+    for (const field of fields) {
+      const value = row[field];
+      if (typeof value !== 'string') {
+        continue;
+      }
+      if (isEncryptedField(value)) {
+        const current = parseEncryptedField(value);
+        if (current.ownerId === ownerId && current.version >= version) {
+          continue;
+        }
+      }
+      updates[field] = await encryptField(ownerId, await decryptField(value));
+    }
+
+    if (Object.keys(updates).length === 0) {
+      continue;
+    }
+
+    const { error: updateError } = await supabase
+      .from(table)
+      .update(updates)
+      .eq(id, row[id]);
+
+    if (updateError) {
+      throw new Error(`Failed to encrypt ${table} row ${row[id]}: ${updateError.message}`);
+    }
+    encrypted++;
+  }
+
+  return {
+    scanned: rows.length,
+    encrypted,
+    nextCursor: rows.length < batchSize ? null : rows[rows.length - 1][id]
+  };
+}
+
+/**
+ * Key and coverage figures for the admin panel
+ */
+export async function getEncryptionStatus(): Promise<EncryptionStatus> {
+  const configured = isFieldEncryptionConfigured();
+  const activeMasterKeyId = configured ? getActiveMasterKey().id : null;
+
+  const countKeys = async (onOldMasterKeys: boolean) => {
+    let query = supabase.from('user_data_keys').select('user_id', { count: 'exact', head: true });
+    if (onOldMasterKeys && activeMasterKeyId) {
+      query = query.neq('master_key_id', activeMasterKeyId);
+    }
+    const { count, error } = await query;
+    if (error) {
+      throw new Error(`Failed to count data keys: ${error.message}`);
+    }
+    return count || 0;
+  };
+
+  const countRows = async (table: EncryptedTable, plaintextField?: string) => {
+    let query = supabase.from(table).select(TABLE_KEYS[table].id, { count: 'exact', head: true });
+    if (plaintextField) {
+      // NULLs are not counted: NOT LIKE on NULL is not true
+      query = query.not(plaintextField, 'like', `${ENCRYPTED_FIELD_PREFIX}%`);
+    }
+    const { count, error } = await query;
+    if (error) {
+      throw new Error(`Failed to count ${table}: ${error.message}`);
+    }
+    return count || 0;
+  };
+
+  const tables = {} as EncryptionStatus['tables'];
+  for (const table of ENCRYPTED_TABLES) {
+    const plaintext = await Promise.all(ENCRYPTED_FIELDS[table].map(field => countRows(table, field)));
+    tables[table] = {
+      rows: await countRows(table),
+      plaintextValues: plaintext.reduce((sum, count) => sum + count, 0)
+    };
+  }
+
+  return {
+    configured,
+    activeMasterKeyId,
+    dataKeys: await countKeys(false),
+    dataKeysOnOldMasterKeys: activeMasterKeyId ? await countKeys(true) : 0,
+    tables
+  };
+}
@@ -9,17 +9,194 @@ export interface User {
   suspended_by?: string;
   suspension_reason?: string;
   suspension_notes?: string;
+  locale?: string | null; // BCP 47 tag such as 'en-GB', chosen in settings; decides which crisis resources are shown
 }
 
 export interface AIConfig {
   id: string;
-  provider: 'openai' | 'anthropic' | 'perplexity';
-  api_key: string;
+  provider: 'openai' | 'anthropic' | 'perplexity' | 'openai_compatible';
+  api_key: string; // Sealed with the master key; only decrypted server-side
+  api_key_hint?: string | null; // Last characters of the key, for masked display
   model: string;
-  is_active: boolean;
+  base_url?: string; // Required for openai_compatible (e.g. http://localhost:11434/v1)
+  is_active: boolean; // Included in the failover chain
+  priority: number; // Lower values are tried first
+  last_served_at?: string;
+  created_at: string;
+}
+
+// An ai_config row as the admin UI gets it: the key itself stays on the server
+export interface AIConfigSummary extends Omit<AIConfig, 'api_key' | 'api_key_hint'> {
+  masked_key: string | null; // null when no key is set
+  key_encrypted: boolean; // false for a key stored before encryption was set up
+}
+
+// Audit trail of API key access; rows are only ever added
+export interface AIConfigKeyAuditEntry {
+  id: string;
+  config_id: string | null; // NULL for a test of a key that was not saved, or a deleted config
+  actor_id: string | null;
+  actor_email?: string | null;
+  action: 'created' | 'viewed' | 'rotated' | 'tested' | 're_encrypted';
+  provider: string | null;
+  model: string | null;
+  success: boolean | null; // Outcome of a test
+  detail: string | null;
+  created_at: string;
+}
+
+export type AICircuitState = 'closed' | 'open' | 'half_open';
+
+export interface AIProviderStatus {
+  config_id: string;
+  provider: AIConfig['provider'];
+  model: string;
+  priority: number;
+  circuit_state: AICircuitState;
+  consecutive_failures: number;
+  opened_at?: string;
+  last_error?: string;
+}
+
+export interface AIFailoverEvent {
+  id: string;
+  event_type: 'failover' | 'circuit_opened' | 'circuit_closed' | 'chain_exhausted';
+  from_config_id?: string;
+  to_config_id?: string;
+  provider?: string;
+  model?: string;
+  reason?: string;
+  status_code?: number;
   created_at: string;
 }
 
+export type AIUsagePurpose =
+  | 'chat'
+  | 'session_summary'
+  | 'session_metadata'
+  | 'context_summary'
+  | 'goal_extraction'
+  | 'insights';
+
+// Prices are USD per million tokens
+export interface AIModelPrice {
+  model: string;
+  input_per_million: number;
+  output_per_million: number;
+  source: 'default' | 'override';
+}
+
+// Kinds of personal data replaced with placeholders before a provider call;
+// 'custom' covers the deployment's own terms
+export type RedactionCategory = 'name' | 'email' | 'phone' | 'address' | 'id_number' | 'custom';
+
+// Redaction settings for this deployment
+export interface RedactionSettings {
+  enabled: boolean;
+  categories: RedactionCategory[]; // Detectors that run; custom terms always apply
+  custom_terms: string[]; // Redacted wherever they appear, e.g. the names of local clinics
+  updated_by?: string | null;
+  updated_at?: string | null;
+}
+
+// What was redacted from one AI call: counts only, never the values
+export interface RedactionReport {
+  id: string;
+  user_id: string | null;
+  session_id: string | null;
+  purpose: AIUsagePurpose;
+  counts: Partial<Record<RedactionCategory, number>>; // Distinct values per category
+  placeholders_sent: number; // Occurrences replaced across the request
+  placeholders_restored: number; // Placeholders the response used and got back their value
+  unknown_placeholders: number; // Placeholder-like text in the response that matched nothing sent
+  created_at: string;
+}
+
+export interface RedactionReportEntry extends RedactionReport {
+  user_email: string | null;
+}
+
+export interface AIUsageTotals {
+  calls: number;
+  failed_calls: number;
+  estimated_calls: number; // Token counts estimated because the provider reported none
+  unpriced_calls: number; // No price known for the model, so not included in the cost
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  estimated_cost_usd: number;
+  avg_latency_ms: number;
+  tool_calls: number;
+}
+
+export interface AIUsageReport {
+  since: string;
+  totals: AIUsageTotals;
+  by_tier: (AIUsageTotals & { subscription_tier: string; users: number; cost_per_user_usd: number })[];
+  by_user: (AIUsageTotals & { user_id: string | null; email: string | null; subscription_tier: string })[];
+  by_model: (AIUsageTotals & { provider: string; model: string })[];
+  by_purpose: (AIUsageTotals & { purpose: AIUsagePurpose })[];
+}
+
+// The coaching prompt is the 'base' prompt plus the prompt for the session type
+export type SystemPromptKey = 'base' | 'individual' | 'group' | 'relationship' | 'family' | 'general';
+
+export interface SystemPromptVersion {
+  id: string;
+  prompt_key: SystemPromptKey;
+  version: number;
+  content: string;
+  notes?: string;
+  status: 'draft' | 'published' | 'archived';
+  created_by?: string;
+  published_by?: string;
+  created_at: string;
+  updated_at: string;
+  published_at?: string;
+}
+
+// Version of each prompt used to build a system message; 0 is the built-in prompt
+export type PromptVersions = Partial<Record<SystemPromptKey, number>>;
+
+export interface AIExperimentArm {
+  id: string;
+  experiment_id: string;
+  name: string;
+  weight: number; // Share of users relative to the other arms
+  prompt_versions: PromptVersions; // Prompt versions used instead of the published ones
+  config_id?: string; // AI config tried first instead of the chain's first config
+  position: number;
+}
+
+export interface AIExperiment {
+  id: string;
+  name: string;
+  description?: string;
+  status: 'draft' | 'running' | 'stopped';
+  session_types: string[];
+  created_at: string;
+  started_at?: string;
+  stopped_at?: string;
+  arms: AIExperimentArm[];
+}
+
+export interface AIExperimentArmResult {
+  arm_id: string;
+  arm_name: string;
+  users: number;
+  sessions: number;
+  avg_messages_per_session: number;
+  avg_session_minutes: number;
+  goals_achieved: number;
+  goals_per_user: number;
+  flags_raised: number;
+  escalations: number;
+  flags_per_100_sessions: number;
+  return_rate: number; // Share of users who started a session a day or more after first exposure
+  ai_calls: number;
+  ai_cost_usd: number;
+}
+
 export interface WellnessSession {
   session_id: string;
   user_id: string;
@@ -37,6 +214,32 @@ export interface WellnessSession {
   is_participant?: boolean; // True if user is a participant (not owner) of this session
 }
 
+export type UnlockAppealStatus = 'pending' | 'unlocked' | 'unlocked_with_conditions' | 'kept_locked';
+
+// A user's request to reopen a session the AI locked; decided once by an admin
+export interface SessionUnlockAppeal {
+  id: string;
+  session_id: string;
+  user_id: string;
+  statement: string;
+  status: UnlockAppealStatus;
+  lock_reason: string | null; // The lock being appealed, as it was when the appeal was made
+  locked_at: string | null;
+  conditions: string | null; // What the user agreed to, for unlocked_with_conditions
+  decision_note: string | null; // Shown to the user with the outcome
+  decided_by: string | null;
+  decided_at: string | null;
+  user_notified_at: string | null; // When the user saw the outcome
+  created_at: string;
+}
+
+// An appeal in the admin review view
+export interface UnlockAppealReview extends SessionUnlockAppeal {
+  session_title: string | null;
+  user_email: string | null;
+  decided_by_email: string | null;
+}
+
 export interface SessionInsight {
   id: string;
   session_id: string;
@@ -50,8 +253,11 @@ export interface SessionMessage {
   message_id: string;
   session_id: string;
   sender_type: 'user' | 'ai';
+  user_id?: string; // Sender in group sessions
   content: string;
   timestamp: string;
+  prompt_versions?: PromptVersions; // AI messages: system prompt versions that produced the reply
+  experiment_arm_id?: string; // AI messages: experiment arm the reply was generated under
 }
 
 export interface SessionParticipant {
@@ -102,12 +308,25 @@ export interface ChatMessage {
   user_id?: string | null; // User ID for user messages (to identify sender in group sessions)
 }
 
+/**
+ * Events emitted by the streaming chat endpoint (Server-Sent Events)
+ */
+export type ChatStreamEvent =
+  | { type: 'text'; delta: string }
+  | { type: 'tool_call'; id: string; name: string; arguments: string }
+  | { type: 'tool_result'; id: string; name: string; content: string }
+  | { type: 'done'; content: string; messageId?: string; promptVersions?: PromptVersions; experimentArmId?: string }
+  | { type: 'moderation'; message: string } // Warning to the sender of a group message
+  | { type: 'error'; error: string };
+
 export interface AIProvider {
   name: string;
-  id: 'openai' | 'anthropic' | 'perplexity';
+  id: 'openai' | 'anthropic' | 'perplexity' | 'openai_compatible';
   models: string[];
 }
 
+export type FlagPriority = 'urgent' | 'high' | 'medium' | 'low';
+
 export interface SessionFlag {
   id: string;
   session_id: string;
@@ -118,6 +337,72 @@ export interface SessionFlag {
   resolved: boolean;
   resolved_at?: string;
   resolved_by?: string;
+  priority: FlagPriority;
+  due_at: string | null; // When the flag should be handled by: the SLA for its priority, or the check-in time
+  assigned_to: string | null;
+  assigned_at: string | null;
+  resolution_note: string | null;
+}
+
+// A flag in the admin review queue, with the names admins need to triage it
+export interface ReviewQueueItem extends SessionFlag {
+  session_title: string | null;
+  session_type: string | null;
+  user_email: string | null;
+  assignee_email: string | null;
+}
+
+// Audit trail of a flag; rows are only ever added
+export interface SessionFlagEvent {
+  id: string;
+  flag_id: string;
+  actor_id: string | null; // NULL when raised by the AI or crisis screening
+  actor_email?: string | null;
+  action: 'created' | 'assigned' | 'unassigned' | 'priority_changed' | 'noted' | 'resolved' | 'reopened';
+  note: string | null;
+  details: Record<string, unknown>;
+  created_at: string;
+}
+
+export type ModerationCategory = 'abuse' | 'threat' | 'slur';
+
+export type ModerationSeverity = 'none' | 'low' | 'medium' | 'high';
+
+// One reason a group message was given a severity
+export interface ModerationSignal {
+  source: 'lexicon' | 'pattern' | 'classifier';
+  category: ModerationCategory;
+  rule: string; // Lexicon phrase, pattern rule name or 'classifier'
+  severity: ModerationSeverity;
+  match?: string; // Text that matched
+}
+
+export type ModerationAction = 'held' | 'warned' | 'owner_notified' | 'flagged';
+
+// Stored for every group message moderation scored above none
+export interface GroupModerationEvent {
+  id: string;
+  session_id: string;
+  user_id: string; // Sender
+  message_id: string | null; // The delivered message; NULL while held or once rejected
+  severity: ModerationSeverity;
+  categories: ModerationCategory[];
+  signals: ModerationSignal[];
+  classifier_scores: Partial<Record<ModerationCategory, number>> | null; // NULL when no classifier answered
+  actions: ModerationAction[];
+  content: string | null; // Text of held messages, kept after review
+  review_status: 'held' | 'released' | 'rejected' | null; // NULL for messages that were not held
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_note: string | null;
+  created_at: string;
+}
+
+// A moderation event in the admin views
+export interface GroupModerationReview extends GroupModerationEvent {
+  session_title: string | null;
+  user_email: string | null;
+  reviewer_email: string | null;
 }
 
 export interface UserPreference {
@@ -136,3 +421,94 @@ export interface AISessionNote {
   note_text: string;
   created_at: string;
 }
+
+// Limits on a tool's arguments, keyed by argument name
+export interface ToolConstraints {
+  maxLength?: Record<string, number>; // Longest string allowed
+  allowedValues?: Record<string, string[]>; // Values allowed, e.g. a subset of an enum
+}
+
+// Admin override for one tool in one session type and tier; tools without a
+// policy are enabled with no extra constraints
+export interface ToolPolicy {
+  id: string;
+  session_type: 'individual' | 'group' | 'introduction';
+  subscription_tier: 'free' | 'pro';
+  tool_name: string;
+  enabled: boolean;
+  constraints: ToolConstraints;
+  updated_by?: string;
+  updated_at: string;
+}
+
+// One tool the AI ran, as recorded by the tool executor
+export interface ToolInvocation {
+  id: string;
+  session_id: string | null;
+  user_id: string | null;
+  tool_name: string;
+  arguments: Record<string, unknown>;
+  result: string | null;
+  success: boolean;
+  error: string | null;
+  latency_ms: number;
+  created_at: string;
+}
+
+// One entry in the admin-managed crisis resource directory
+export interface CrisisResource {
+  id: string;
+  region: string; // ISO 3166-1 country code such as 'GB', or 'INTL' for resources that serve every country
+  language: string; // ISO 639-1 code such as 'en'
+  name: string;
+  contact: string; // As shown to users: '116 123', 'Text HOME to 741741' or a web address
+  contact_type: 'phone' | 'text' | 'web';
+  description: string;
+  is_emergency: boolean; // The region's emergency services number
+  urgent: boolean; // Immediate crisis support, listed first
+  position: number;
+  is_active: boolean;
+  updated_by?: string | null;
+  updated_at: string;
+}
+
+// Region and language crisis resources are shown for, and where they came from
+export interface ResourceLocale {
+  region: string;
+  language: string;
+  source: 'requested' | 'profile' | 'browser' | 'default';
+}
+
+// Crisis resources resolved for one locale
+export interface CrisisResourceDirectory {
+  locale: ResourceLocale;
+  matched: boolean; // false when the region has no entries and only international resources are shown
+  resources: CrisisResource[]; // The region's resources in position order, in the user's language where available
+  international: CrisisResource[]; // The first crisis line of every other region, then the INTL entries
+  regions: string[]; // Regions with entries
+  locales: string[]; // Language tags with entries, such as 'fr-CA', for choosing a profile locale
+}
+
+// Someone on a safety plan the user can reach out to
+export interface SafetyPlanContact {
+  name: string;
+  phone?: string;
+  note?: string; // Relationship or role, such as 'sister' or 'therapist'
+}
+
+export type SafetyPlanSection = 'warning_signs' | 'coping_strategies' | 'contacts' | 'professionals' | 'safe_environment';
+
+export interface SafetyPlanContent {
+  warning_signs: string[];
+  coping_strategies: string[];
+  contacts: SafetyPlanContact[]; // Friends and family
+  professionals: SafetyPlanContact[]; // Clinicians and services
+  safe_environment: string[]; // Steps to make their surroundings safer
+}
+
+// A user's personal safety plan, one per user
+export interface SafetyPlan extends SafetyPlanContent {
+  user_id: string;
+  created_at: string;
+  updated_at: string;
+}
@@ -7,19 +7,68 @@ CREATE TABLE public.users (
   email TEXT NOT NULL,
   subscription_tier TEXT NOT NULL DEFAULT 'free' CHECK (subscription_tier IN ('free', 'pro')),
   is_admin BOOLEAN DEFAULT false,
+  locale TEXT, -- BCP 47 tag such as 'en-GB'; NULL uses the browser's Accept-Language
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
 -- Create AI configuration table
 CREATE TABLE public.ai_config (
   id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
-  provider TEXT NOT NULL CHECK (provider IN ('openai', 'anthropic', 'perplexity')),
-  api_key TEXT NOT NULL,
+  provider TEXT NOT NULL CHECK (provider IN ('openai', 'anthropic', 'perplexity', 'openai_compatible')),
+  api_key TEXT,
   model TEXT NOT NULL,
+  base_url TEXT,
   is_active BOOLEAN DEFAULT false,
+  priority INTEGER NOT NULL DEFAULT 0,
+  last_served_at TIMESTAMP WITH TIME ZONE,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Create AI failover events table
+CREATE TABLE public.ai_failover_events (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  event_type TEXT NOT NULL CHECK (event_type IN ('failover', 'circuit_opened', 'circuit_closed', 'chain_exhausted')),
+  from_config_id UUID REFERENCES public.ai_config(id) ON DELETE SET NULL,
+  to_config_id UUID REFERENCES public.ai_config(id) ON DELETE SET NULL,
+  provider TEXT,
+  model TEXT,
+  reason TEXT,
+  status_code INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create AI experiments tables (prompt and model A/B tests)
+CREATE TABLE public.ai_experiments (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'running', 'stopped')),
+  session_types TEXT[] NOT NULL DEFAULT '{individual}', -- Session types the experiment applies to
+  created_by UUID REFERENCES public.users(user_id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  started_at TIMESTAMP WITH TIME ZONE,
+  stopped_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE public.ai_experiment_arms (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  experiment_id UUID REFERENCES public.ai_experiments(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  weight INTEGER NOT NULL DEFAULT 1 CHECK (weight > 0), -- Share of users relative to the other arms
+  prompt_versions JSONB NOT NULL DEFAULT '{}', -- Prompt key to version number, e.g. {"base": 4}
+  config_id UUID REFERENCES public.ai_config(id) ON DELETE SET NULL, -- Tried first instead of the chain's first config
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE public.ai_experiment_assignments (
+  experiment_id UUID REFERENCES public.ai_experiments(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.users(user_id) ON DELETE CASCADE NOT NULL,
+  arm_id UUID REFERENCES public.ai_experiment_arms(id) ON DELETE CASCADE NOT NULL,
+  assigned_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(), -- First exposure; outcomes are measured from here
+  PRIMARY KEY (experiment_id, user_id)
+);
+
 -- Create therapy sessions table
 CREATE TABLE public.therapy_sessions (
   session_id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
@@ -38,9 +87,136 @@ CREATE TABLE public.session_messages (
   session_id UUID REFERENCES public.therapy_sessions(session_id) ON DELETE CASCADE NOT NULL,
   sender_type TEXT NOT NULL CHECK (sender_type IN ('user', 'ai')),
   content TEXT NOT NULL,
+  prompt_versions JSONB, -- System prompt versions that produced an AI message, e.g. {"base": 3, "individual": 1}
+  experiment_arm_id UUID REFERENCES public.ai_experiment_arms(id) ON DELETE SET NULL,
   timestamp TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Create session context summaries table (running summary of older turns)
+CREATE TABLE public.session_context_summaries (
+  session_id UUID REFERENCES public.therapy_sessions(session_id) ON DELETE CASCADE PRIMARY KEY,
+  summary TEXT NOT NULL,
+  summarized_until TIMESTAMP WITH TIME ZONE NOT NULL,
+  summarized_message_count INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create AI usage table (tokens and estimated cost per provider call)
+CREATE TABLE public.ai_usage (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES public.users(user_id) ON DELETE SET NULL,
+  session_id UUID REFERENCES public.therapy_sessions(session_id) ON DELETE SET NULL,
+  purpose TEXT NOT NULL CHECK (purpose IN ('chat', 'session_summary', 'session_metadata', 'context_summary', 'goal_extraction', 'insights')),
+  config_id UUID REFERENCES public.ai_config(id) ON DELETE SET NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  total_tokens INTEGER NOT NULL DEFAULT 0,
+  usage_estimated BOOLEAN NOT NULL DEFAULT false, -- Provider reported no usage; counts are estimated from text length
+  estimated_cost_usd NUMERIC(12, 6), -- NULL when the model has no known price
+  latency_ms INTEGER NOT NULL DEFAULT 0,
+  tool_call_count INTEGER NOT NULL DEFAULT 0,
+  success BOOLEAN NOT NULL DEFAULT true,
+  experiment_arm_id UUID REFERENCES public.ai_experiment_arms(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create AI model pricing table (per-model price overrides, USD per million tokens)
+CREATE TABLE public.ai_model_pricing (
+  model TEXT PRIMARY KEY,
+  input_per_million NUMERIC(10, 4) NOT NULL CHECK (input_per_million >= 0),
+  output_per_million NUMERIC(10, 4) NOT NULL CHECK (output_per_million >= 0),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create system prompt versions table (admin-edited prompts, draft/published/archived)
+CREATE TABLE public.system_prompt_versions (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  prompt_key TEXT NOT NULL CHECK (prompt_key IN ('base', 'individual', 'group', 'relationship', 'family', 'general')),
+  version INTEGER NOT NULL CHECK (version > 0),
+  content TEXT NOT NULL,
+  notes TEXT,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'published', 'archived')),
+  created_by UUID REFERENCES public.users(user_id) ON DELETE SET NULL,
+  published_by UUID REFERENCES public.users(user_id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  published_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (prompt_key, version)
+);
+
+-- Create AI eval runs table (offline eval results per run)
+CREATE TABLE public.ai_eval_runs (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  target TEXT NOT NULL, -- 'mock' or the ai_config id
+  target_label TEXT NOT NULL,
+  prompt_versions JSONB NOT NULL DEFAULT '{}', -- Pinned prompt versions; other keys used the published prompt
+  passed INTEGER NOT NULL DEFAULT 0,
+  failed INTEGER NOT NULL DEFAULT 0,
+  regressions TEXT[] NOT NULL DEFAULT '{}',
+  results JSONB NOT NULL DEFAULT '[]',
+  created_by UUID REFERENCES public.users(user_id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create AI tool policies table (enabled tools and argument limits per session type and tier)
+CREATE TABLE public.ai_tool_policies (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  session_type TEXT NOT NULL CHECK (session_type IN ('individual', 'group', 'introduction')),
+  subscription_tier TEXT NOT NULL CHECK (subscription_tier IN ('free', 'pro')),
+  tool_name TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  constraints JSONB NOT NULL DEFAULT '{}', -- {"maxLength": {"arg": 200}, "allowedValues": {"arg": ["a", "b"]}}
+  updated_by UUID REFERENCES public.users(user_id) ON DELETE SET NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (session_type, subscription_tier, tool_name)
+);
+
+-- Create tool invocations table (audit trail of every tool the AI ran)
+CREATE TABLE public.tool_invocations (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  session_id UUID REFERENCES public.therapy_sessions(session_id) ON DELETE CASCADE,
+  user_id UUID REFERENCES public.users(user_id) ON DELETE SET NULL,
+  tool_name TEXT NOT NULL,
+  arguments JSONB NOT NULL DEFAULT '{}',
+  result TEXT,
+  success BOOLEAN NOT NULL DEFAULT true,
+  error TEXT, -- The tool's error message when success is false
+  latency_ms INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create crisis detections table (audit log of screening every user message before the model)
+CREATE TABLE public.crisis_detections (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  session_id UUID REFERENCES public.therapy_sessions(session_id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.users(user_id) ON DELETE SET NULL,
+  message_id UUID, -- The screened user message
+  risk_level TEXT NOT NULL CHECK (risk_level IN ('none', 'low', 'medium', 'high')),
+  signals JSONB NOT NULL DEFAULT '[]',
+  classifier_score NUMERIC, -- NULL when no classifier is configured or it did not answer
+  actions TEXT[] NOT NULL DEFAULT '{}', -- prompt_adjusted, resources_injected, escalated
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create crisis resources table (admin-managed hotlines by region and language; seeded by add-crisis-resources.sql)
+CREATE TABLE public.crisis_resources (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  region TEXT NOT NULL CHECK (region ~ '^[A-Z]{2}$' OR region = 'INTL'), -- ISO 3166-1 country code, or INTL for every country
+  language TEXT NOT NULL CHECK (language ~ '^[a-z]{2,3}$'), -- ISO 639-1 code
+  name TEXT NOT NULL,
+  contact TEXT NOT NULL,
+  contact_type TEXT NOT NULL DEFAULT 'phone' CHECK (contact_type IN ('phone', 'text', 'web')),
+  description TEXT NOT NULL DEFAULT '',
+  is_emergency BOOLEAN NOT NULL DEFAULT false,
+  urgent BOOLEAN NOT NULL DEFAULT false,
+  position INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  updated_by UUID REFERENCES public.users(user_id) ON DELETE SET NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Create session participants table (for group sessions)
 CREATE TABLE public.session_participants (
   session_id UUID REFERENCES public.therapy_sessions(session_id) ON DELETE CASCADE NOT NULL,
@@ -82,6 +258,18 @@ CREATE TABLE public.user_goals (
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Create safety plans table (one per user; edited through /api/user/safety-plan and the update_safety_plan tool)
+CREATE TABLE public.safety_plans (
+  user_id UUID REFERENCES public.users(user_id) ON DELETE CASCADE PRIMARY KEY,
+  warning_signs JSONB NOT NULL DEFAULT '[]',
+  coping_strategies JSONB NOT NULL DEFAULT '[]',
+  contacts JSONB NOT NULL DEFAULT '[]', -- List of { name, phone?, note? }
+  professionals JSONB NOT NULL DEFAULT '[]', -- List of { name, phone?, note? }
+  safe_environment JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Create indexes for better performance
 CREATE INDEX idx_therapy_sessions_user_id ON public.therapy_sessions(user_id);
 CREATE INDEX idx_therapy_sessions_created_at ON public.therapy_sessions(created_at DESC);
@@ -92,18 +280,49 @@ CREATE INDEX idx_conversation_memory_user_id ON public.conversation_memory(user_
 CREATE INDEX idx_subscriptions_user_id ON public.subscriptions(user_id);
 CREATE INDEX idx_user_goals_user_id ON public.user_goals(user_id);
 CREATE INDEX idx_user_goals_status ON public.user_goals(status);
+CREATE INDEX idx_ai_config_priority ON public.ai_config(priority);
+CREATE INDEX idx_ai_failover_events_created_at ON public.ai_failover_events(created_at DESC);
+CREATE INDEX idx_ai_usage_created_at ON public.ai_usage(created_at DESC);
+CREATE INDEX idx_ai_usage_user_id ON public.ai_usage(user_id, created_at DESC);
+CREATE INDEX idx_ai_usage_session_id ON public.ai_usage(session_id);
+CREATE UNIQUE INDEX idx_system_prompt_versions_one_published ON public.system_prompt_versions(prompt_key) WHERE status = 'published';
+CREATE UNIQUE INDEX idx_system_prompt_versions_one_draft ON public.system_prompt_versions(prompt_key) WHERE status = 'draft';
+CREATE UNIQUE INDEX idx_ai_experiments_one_running ON public.ai_experiments((status)) WHERE status = 'running';
+CREATE INDEX idx_ai_experiment_arms_experiment_id ON public.ai_experiment_arms(experiment_id, position);
+CREATE INDEX idx_ai_experiment_assignments_arm_id ON public.ai_experiment_assignments(arm_id);
+CREATE INDEX idx_ai_usage_experiment_arm_id ON public.ai_usage(experiment_arm_id) WHERE experiment_arm_id IS NOT NULL;
+CREATE INDEX idx_ai_eval_runs_target ON public.ai_eval_runs(target, created_at DESC);
+CREATE INDEX idx_tool_invocations_session_id ON public.tool_invocations(session_id, created_at);
+CREATE INDEX idx_tool_invocations_created_at ON public.tool_invocations(created_at DESC);
+CREATE INDEX idx_crisis_detections_session_id ON public.crisis_detections(session_id, created_at);
+CREATE INDEX idx_crisis_detections_risk_level ON public.crisis_detections(risk_level, created_at DESC) WHERE risk_level <> 'none';
+CREATE INDEX idx_crisis_resources_region ON public.crisis_resources(region, language, position) WHERE is_active = true;
 
 -- Row Level Security (RLS) policies
 
 -- Enable RLS on all tables
 ALTER TABLE public.users ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.ai_config ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ai_failover_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ai_usage ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ai_model_pricing ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.system_prompt_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ai_experiments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ai_experiment_arms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ai_experiment_assignments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ai_eval_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ai_tool_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tool_invocations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.crisis_detections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.crisis_resources ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.therapy_sessions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.session_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.session_context_summaries ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.session_participants ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.conversation_memory ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.subscriptions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.user_goals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.safety_plans ENABLE ROW LEVEL SECURITY;
 
 -- Users table policies
 CREATE POLICY "Users can view own profile" ON public.users
@@ -144,6 +363,147 @@ CREATE POLICY "Admins can manage AI config" ON public.ai_config
 CREATE POLICY "Service role can manage AI config" ON public.ai_config
   FOR ALL USING (auth.role() = 'service_role');
 
+-- AI failover events policies (admin read, server writes)
+CREATE POLICY "Admins can view AI failover events" ON public.ai_failover_events
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE user_id = auth.uid() AND is_admin = true
+    )
+  );
+
+CREATE POLICY "Service role can manage AI failover events" ON public.ai_failover_events
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- AI usage and pricing policies (admin read, server writes)
+CREATE POLICY "Admins can view AI usage" ON public.ai_usage
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE user_id = auth.uid() AND is_admin = true
+    )
+  );
+
+CREATE POLICY "Service role can manage AI usage" ON public.ai_usage
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Admins can view AI model pricing" ON public.ai_model_pricing
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE user_id = auth.uid() AND is_admin = true
+    )
+  );
+
+CREATE POLICY "Service role can manage AI model pricing" ON public.ai_model_pricing
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- System prompt versions policies (admin read, server writes)
+CREATE POLICY "Admins can view system prompt versions" ON public.system_prompt_versions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE user_id = auth.uid() AND is_admin = true
+    )
+  );
+
+CREATE POLICY "Service role can manage system prompt versions" ON public.system_prompt_versions
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- AI experiments policies (admin read, server writes)
+CREATE POLICY "Admins can view AI experiments" ON public.ai_experiments
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE user_id = auth.uid() AND is_admin = true
+    )
+  );
+
+CREATE POLICY "Service role can manage AI experiments" ON public.ai_experiments
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Admins can view AI experiment arms" ON public.ai_experiment_arms
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE user_id = auth.uid() AND is_admin = true
+    )
+  );
+
+CREATE POLICY "Service role can manage AI experiment arms" ON public.ai_experiment_arms
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Admins can view AI experiment assignments" ON public.ai_experiment_assignments
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE user_id = auth.uid() AND is_admin = true
+    )
+  );
+
+CREATE POLICY "Service role can manage AI experiment assignments" ON public.ai_experiment_assignments
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- AI eval runs policies (admin read, server writes)
+CREATE POLICY "Admins can view AI eval runs" ON public.ai_eval_runs
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE user_id = auth.uid() AND is_admin = true
+    )
+  );
+
+CREATE POLICY "Service role can manage AI eval runs" ON public.ai_eval_runs
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- AI tool policy table policies (admin read, server writes)
+CREATE POLICY "Admins can view AI tool policies" ON public.ai_tool_policies
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE user_id = auth.uid() AND is_admin = true
+    )
+  );
+
+CREATE POLICY "Service role can manage AI tool policies" ON public.ai_tool_policies
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Tool invocations policies (admin read, server writes)
+CREATE POLICY "Admins can view tool invocations" ON public.tool_invocations
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE user_id = auth.uid() AND is_admin = true
+    )
+  );
+
+CREATE POLICY "Service role can manage tool invocations" ON public.tool_invocations
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Crisis detections policies (admin read, server writes)
+CREATE POLICY "Admins can view crisis detections" ON public.crisis_detections
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE user_id = auth.uid() AND is_admin = true
+    )
+  );
+
+CREATE POLICY "Service role can manage crisis detections" ON public.crisis_detections
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Crisis resources policies (admin read, server writes; users read them through /api/crisis-resources)
+CREATE POLICY "Admins can view crisis resources" ON public.crisis_resources
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE user_id = auth.uid() AND is_admin = true
+    )
+  );
+
+CREATE POLICY "Service role can manage crisis resources" ON public.crisis_resources
+  FOR ALL USING (auth.role() = 'service_role');
+
 -- Therapy sessions policies
 CREATE POLICY "Users can view own sessions" ON public.therapy_sessions
   FOR SELECT USING (auth.uid() = user_id);
@@ -176,6 +536,10 @@ CREATE POLICY "Users can insert messages to their sessions" ON public.session_me
     )
   );
 
+-- Session context summaries policies (server only)
+CREATE POLICY "Service role can manage session context summaries" ON public.session_context_summaries
+  FOR ALL USING (auth.role() = 'service_role');
+
 -- Session participants policies
 CREATE POLICY "Users can view participants of their sessions" ON public.session_participants
   FOR SELECT USING (
@@ -239,3 +603,10 @@ CREATE POLICY "Users can delete own goals" ON public.user_goals
 
 CREATE POLICY "Service role can manage goals" ON public.user_goals
   FOR ALL USING (auth.role() = 'service_role');
+
+-- Safety plan policies (users read their own, the server validates writes)
+CREATE POLICY "Users can view own safety plan" ON public.safety_plans
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage safety plans" ON public.safety_plans
+  FOR ALL USING (auth.role() = 'service_role');